@@ -7,6 +7,7 @@ import { splashScreenService } from '@/services/splash-screen-service';
 import { networkService } from '@/services/network-service';
 import { errorHandlingService } from '@/services/error-handling-service';
 import { revenueCatService } from '@/services/revenuecat-service';
+import { notificationService } from '@/services/notification-service';
 import { useAuthStore } from '@/stores/auth-store';
 import { useSettingsStore } from '@/stores/local-settings-store';
 import { useFonts } from 'expo-font';
@@ -20,6 +21,7 @@ import * as Notifications from 'expo-notifications';
 import { SwitchThemeProvider } from '@/components/telegram-theme-switch/components/switch-theme';
 import { ThemeProvider } from '@/components/telegram-theme-switch/components/theme-provider';
 import { useColorTheme } from '@/hooks/useColorTheme';
+import { useTodoReminderActions } from '@/hooks/useTodoReminderActions';
 // Inner component that uses the theme hook
 function AppContent() {
     const colors = useColorTheme();
@@ -29,6 +31,8 @@ function AppContent() {
     const segments = useSegments();
     const router = useRouter();
 
+    useTodoReminderActions();
+
     // Initialize splash screen and services
     useEffect(() => {
         let authCleanup: (() => void) | undefined;
@@ -45,16 +49,23 @@ function AppContent() {
                 // Initialize splash screen service
                 await splashScreenService.initialize();
 
-                // Set up notification response listener
+                // Wait for all initialization to complete
+                await splashScreenService.waitForInitialization();
+
+                // Notification actions change todos and the timer, so they wait for the stores
                 notificationListener = Notifications.addNotificationResponseReceivedListener(
                     (response) => {
-                        // Handle notification response when services are ready
-                        // This will be handled by the notification service after initialization
+                        notificationService.handleNotificationResponse(response);
                     },
                 );
 
-                // Wait for all initialization to complete
-                await splashScreenService.waitForInitialization();
+                // A notification action may have launched the app; clear it so it is not
+                // carried out again on the next launch
+                const lastResponse = await Notifications.getLastNotificationResponseAsync();
+                if (lastResponse) {
+                    await notificationService.handleNotificationResponse(lastResponse);
+                    await Notifications.clearLastNotificationResponseAsync();
+                }
 
                 // Get auth cleanup function
                 authCleanup = initializeAuth();
@@ -189,6 +200,18 @@ function AppContent() {
                         name="plan"
                         options={{ headerShown: false, presentation: 'modal' }}
                     />
+                    <Stack.Screen
+                        name="history"
+                        options={{ headerShown: false, presentation: 'modal' }}
+                    />
+                    <Stack.Screen
+                        name="focus-plan"
+                        options={{ headerShown: false, presentation: 'modal' }}
+                    />
+                    <Stack.Screen
+                        name="categories"
+                        options={{ headerShown: false, presentation: 'modal' }}
+                    />
                     <Stack.Screen name="+not-found" />
                 </Stack>
                 <StatusBar style={colors.backgroundPrimary === '#FFFFFF' ? 'light' : 'dark'} />
@@ -0,0 +1,3 @@
+import CategoriesScreen from '@/screens/categories';
+
+export default CategoriesScreen;
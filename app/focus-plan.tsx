@@ -0,0 +1,3 @@
+import FocusPlanScreen from '@/screens/focus-plan';
+
+export default FocusPlanScreen;
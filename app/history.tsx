@@ -0,0 +1,3 @@
+import HistoryScreen from '@/screens/history';
+
+export default HistoryScreen;
@@ -1,14 +1,17 @@
 import TypographyText from '@/components/TypographyText';
 import { useNetworkStore } from '@/services/network-service';
+import { useTodoStore } from '@/stores/todo-store';
 import React, { useEffect, useState } from 'react';
 import { StyleSheet, View, Animated } from 'react-native';
 
 /**
  * Offline Indicator Component
- * Displays a banner when the device is offline
+ * Displays a banner when the device is offline, with the number of todos
+ * waiting to be uploaded
  */
 export default function OfflineIndicator() {
     const { isConnected, isInternetReachable } = useNetworkStore();
+    const pendingUploads = useTodoStore((state) => state.pendingTodoIds.length);
     const [slideAnim] = useState(new Animated.Value(-100));
     const [isVisible, setIsVisible] = useState(false);
 
@@ -58,6 +61,16 @@ export default function OfflineIndicator() {
                 >
                     No internet connection
                 </TypographyText>
+                {pendingUploads > 0 && (
+                    <TypographyText
+                        variant="caption"
+                        style={[styles.pendingText, { color: '#FFFFFF' }]}
+                    >
+                        {pendingUploads === 1
+                            ? '1 todo will upload when you are back online'
+                            : `${pendingUploads} todos will upload when you are back online`}
+                    </TypographyText>
+                )}
             </View>
         </Animated.View>
     );
@@ -90,4 +103,9 @@ const styles = StyleSheet.create({
         fontWeight: '600',
         textAlign: 'center',
     },
+    pendingText: {
+        marginTop: 2,
+        textAlign: 'center',
+        opacity: 0.9,
+    },
 });
@@ -0,0 +1,90 @@
+import type { LocalMigration } from '@/services/local-migration-service';
+
+/**
+ * Migration 001: initial local schema
+ * Uses IF NOT EXISTS so installs created before versioning are adopted as-is
+ */
+export const migration001InitialSchema: LocalMigration = {
+    version: 1,
+    name: 'initial_schema',
+    up: async (db) => {
+        await db.execAsync(`
+      CREATE TABLE IF NOT EXISTS todos (
+        id TEXT PRIMARY KEY,
+        title TEXT NOT NULL,
+        description TEXT,
+        icon TEXT,
+        isCompleted BOOLEAN DEFAULT 0,
+        createdAt TEXT NOT NULL,
+        completedAt TEXT,
+        category TEXT,
+        priority INTEGER DEFAULT 0,
+        estimatedMinutes INTEGER,
+        actualMinutes INTEGER DEFAULT 0
+      );
+
+      CREATE TABLE IF NOT EXISTS sessions (
+        id TEXT PRIMARY KEY,
+        todoId TEXT,
+        todoTitle TEXT,
+        startTime TEXT NOT NULL,
+        endTime TEXT,
+        duration INTEGER NOT NULL,
+        type TEXT NOT NULL CHECK (type IN ('focus', 'break')),
+        sessionNumber INTEGER,
+        isCompleted BOOLEAN DEFAULT 0,
+        notes TEXT,
+        FOREIGN KEY (todoId) REFERENCES todos(id) ON DELETE SET NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS user_settings (
+        id TEXT PRIMARY KEY,
+        focusDuration INTEGER DEFAULT 25,
+        breakDuration INTEGER DEFAULT 5,
+        notifications BOOLEAN DEFAULT 1,
+        soundEffects BOOLEAN DEFAULT 1,
+        metronome BOOLEAN DEFAULT 0,
+        theme TEXT DEFAULT 'system',
+        userName TEXT,
+        userEmail TEXT,
+        onboardingCompleted BOOLEAN DEFAULT 0,
+        syncEnabled BOOLEAN DEFAULT 0,
+        lastSyncAt TEXT,
+        createdAt TEXT NOT NULL,
+        updatedAt TEXT NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS sync_log (
+        id TEXT PRIMARY KEY,
+        tableName TEXT NOT NULL,
+        recordId TEXT NOT NULL,
+        operation TEXT NOT NULL CHECK (operation IN ('create', 'update', 'delete')),
+        timestamp TEXT NOT NULL,
+        synced BOOLEAN DEFAULT 0,
+        error TEXT
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_todos_created_at ON todos(createdAt);
+      CREATE INDEX IF NOT EXISTS idx_todos_completed ON todos(isCompleted);
+      CREATE INDEX IF NOT EXISTS idx_sessions_start_time ON sessions(startTime);
+      CREATE INDEX IF NOT EXISTS idx_sessions_todo_id ON sessions(todoId);
+
+      INSERT OR IGNORE INTO user_settings (
+        id, focusDuration, breakDuration, notifications, soundEffects,
+        metronome, theme, userName, userEmail, onboardingCompleted,
+        syncEnabled, createdAt, updatedAt
+      ) VALUES (
+        'default_settings', 25, 5, 1, 1, 0, 'system', 'User', '',
+        0, 0, datetime('now'), datetime('now')
+      );
+    `);
+    },
+    down: async (db) => {
+        await db.execAsync(`
+      DROP TABLE IF EXISTS sync_log;
+      DROP TABLE IF EXISTS user_settings;
+      DROP TABLE IF EXISTS sessions;
+      DROP TABLE IF EXISTS todos;
+    `);
+    },
+};
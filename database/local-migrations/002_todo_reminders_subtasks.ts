@@ -0,0 +1,19 @@
+import { addColumnIfMissing, type LocalMigration } from '@/services/local-migration-service';
+
+/**
+ * Migration 002: reminder time and subtasks on todos
+ */
+export const migration002TodoRemindersSubtasks: LocalMigration = {
+    version: 2,
+    name: 'todo_reminders_subtasks',
+    up: async (db) => {
+        await addColumnIfMissing(db, 'todos', 'reminderAt', 'TEXT');
+        await addColumnIfMissing(db, 'todos', 'subtasks', 'TEXT');
+    },
+    down: async (db) => {
+        await db.execAsync(`
+      ALTER TABLE todos DROP COLUMN subtasks;
+      ALTER TABLE todos DROP COLUMN reminderAt;
+    `);
+    },
+};
@@ -0,0 +1,65 @@
+import { addColumnIfMissing, type LocalMigration } from '@/services/local-migration-service';
+
+/**
+ * Migration 003: per-record sync metadata
+ * Adds updatedAt/version/fieldTimestamps to todos and sessions, plus
+ * tombstones for deletes and a log of resolved sync conflicts
+ */
+export const migration003SyncMetadata: LocalMigration = {
+    version: 3,
+    name: 'sync_metadata',
+    up: async (db) => {
+        for (const table of ['todos', 'sessions']) {
+            await addColumnIfMissing(db, table, 'updatedAt', 'TEXT');
+            await addColumnIfMissing(db, table, 'version', 'INTEGER DEFAULT 1');
+            await addColumnIfMissing(db, table, 'fieldTimestamps', 'TEXT');
+        }
+
+        await db.execAsync(`
+      UPDATE todos SET updatedAt = COALESCE(completedAt, createdAt) WHERE updatedAt IS NULL;
+      UPDATE sessions SET updatedAt = COALESCE(endTime, startTime) WHERE updatedAt IS NULL;
+      UPDATE todos SET version = 1 WHERE version IS NULL;
+      UPDATE sessions SET version = 1 WHERE version IS NULL;
+
+      CREATE TABLE IF NOT EXISTS sync_tombstones (
+        tableName TEXT NOT NULL,
+        recordId TEXT NOT NULL,
+        deletedAt TEXT NOT NULL,
+        version INTEGER DEFAULT 1,
+        PRIMARY KEY (tableName, recordId)
+      );
+
+      CREATE TABLE IF NOT EXISTS sync_conflicts (
+        id TEXT PRIMARY KEY,
+        tableName TEXT NOT NULL,
+        recordId TEXT NOT NULL,
+        field TEXT NOT NULL,
+        localValue TEXT,
+        remoteValue TEXT,
+        localUpdatedAt TEXT,
+        remoteUpdatedAt TEXT,
+        resolution TEXT NOT NULL CHECK (resolution IN ('local', 'remote')),
+        resolvedAt TEXT NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_todos_updated_at ON todos(updatedAt);
+      CREATE INDEX IF NOT EXISTS idx_sessions_updated_at ON sessions(updatedAt);
+      CREATE INDEX IF NOT EXISTS idx_sync_conflicts_resolved_at ON sync_conflicts(resolvedAt);
+    `);
+    },
+    down: async (db) => {
+        await db.execAsync(`
+      DROP INDEX IF EXISTS idx_sync_conflicts_resolved_at;
+      DROP INDEX IF EXISTS idx_sessions_updated_at;
+      DROP INDEX IF EXISTS idx_todos_updated_at;
+      DROP TABLE IF EXISTS sync_conflicts;
+      DROP TABLE IF EXISTS sync_tombstones;
+      ALTER TABLE sessions DROP COLUMN fieldTimestamps;
+      ALTER TABLE sessions DROP COLUMN version;
+      ALTER TABLE sessions DROP COLUMN updatedAt;
+      ALTER TABLE todos DROP COLUMN fieldTimestamps;
+      ALTER TABLE todos DROP COLUMN version;
+      ALTER TABLE todos DROP COLUMN updatedAt;
+    `);
+    },
+};
@@ -0,0 +1,39 @@
+import { addColumnIfMissing, type LocalMigration } from '@/services/local-migration-service';
+
+/**
+ * Migration 004: sync metadata and device-local opt-outs for user settings
+ */
+export const migration004SettingsSync: LocalMigration = {
+    version: 4,
+    name: 'settings_sync',
+    up: async (db) => {
+        await addColumnIfMissing(db, 'user_settings', 'textSize', "TEXT DEFAULT 'medium'");
+        await addColumnIfMissing(db, 'user_settings', 'deviceName', "TEXT DEFAULT 'Flowzy Device'");
+        await addColumnIfMissing(
+            db,
+            'user_settings',
+            'localOnlySettings',
+            `TEXT DEFAULT '["deviceName","textSize"]'`,
+        );
+        await addColumnIfMissing(db, 'user_settings', 'version', 'INTEGER DEFAULT 1');
+        await addColumnIfMissing(db, 'user_settings', 'fieldTimestamps', 'TEXT');
+
+        await db.execAsync(`
+      UPDATE user_settings SET textSize = 'medium' WHERE textSize IS NULL;
+      UPDATE user_settings SET deviceName = 'Flowzy Device' WHERE deviceName IS NULL;
+      UPDATE user_settings
+        SET localOnlySettings = '["deviceName","textSize"]'
+        WHERE localOnlySettings IS NULL;
+      UPDATE user_settings SET version = 1 WHERE version IS NULL;
+    `);
+    },
+    down: async (db) => {
+        await db.execAsync(`
+      ALTER TABLE user_settings DROP COLUMN fieldTimestamps;
+      ALTER TABLE user_settings DROP COLUMN version;
+      ALTER TABLE user_settings DROP COLUMN localOnlySettings;
+      ALTER TABLE user_settings DROP COLUMN deviceName;
+      ALTER TABLE user_settings DROP COLUMN textSize;
+    `);
+    },
+};
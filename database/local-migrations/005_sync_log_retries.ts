@@ -0,0 +1,28 @@
+import { addColumnIfMissing, type LocalMigration } from '@/services/local-migration-service';
+
+/**
+ * Migration 005: retry bookkeeping for sync_log rows
+ */
+export const migration005SyncLogRetries: LocalMigration = {
+    version: 5,
+    name: 'sync_log_retries',
+    up: async (db) => {
+        await addColumnIfMissing(db, 'sync_log', 'attempts', 'INTEGER DEFAULT 0');
+        await addColumnIfMissing(db, 'sync_log', 'lastAttemptAt', 'TEXT');
+        await addColumnIfMissing(db, 'sync_log', 'nextAttemptAt', 'TEXT');
+
+        await db.execAsync(`
+      UPDATE sync_log SET attempts = 1 WHERE attempts IS NULL AND error IS NOT NULL;
+      UPDATE sync_log SET attempts = 0 WHERE attempts IS NULL;
+      CREATE INDEX IF NOT EXISTS idx_sync_log_synced ON sync_log(synced);
+    `);
+    },
+    down: async (db) => {
+        await db.execAsync(`
+      DROP INDEX IF EXISTS idx_sync_log_synced;
+      ALTER TABLE sync_log DROP COLUMN nextAttemptAt;
+      ALTER TABLE sync_log DROP COLUMN lastAttemptAt;
+      ALTER TABLE sync_log DROP COLUMN attempts;
+    `);
+    },
+};
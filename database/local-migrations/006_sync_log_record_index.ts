@@ -0,0 +1,17 @@
+import type { LocalMigration } from '@/services/local-migration-service';
+
+/**
+ * Migration 006: index sync_log by record for per-record coalescing
+ */
+export const migration006SyncLogRecordIndex: LocalMigration = {
+    version: 6,
+    name: 'sync_log_record_index',
+    up: async (db) => {
+        await db.execAsync(`
+      CREATE INDEX IF NOT EXISTS idx_sync_log_table_record ON sync_log(tableName, recordId);
+    `);
+    },
+    down: async (db) => {
+        await db.execAsync(`DROP INDEX IF EXISTS idx_sync_log_table_record;`);
+    },
+};
@@ -0,0 +1,30 @@
+import { addColumnIfMissing, type LocalMigration } from '@/services/local-migration-service';
+
+/**
+ * Migration 007: configurable long-break duration and cadence
+ */
+export const migration007LongBreakSettings: LocalMigration = {
+    version: 7,
+    name: 'long_break_settings',
+    up: async (db) => {
+        await addColumnIfMissing(db, 'user_settings', 'longBreakDuration', 'INTEGER DEFAULT 10');
+        await addColumnIfMissing(
+            db,
+            'user_settings',
+            'sessionsBeforeLongBreak',
+            'INTEGER DEFAULT 4',
+        );
+
+        // Existing users keep the long break they had: twice the short break
+        await db.execAsync(`
+      UPDATE user_settings SET longBreakDuration = COALESCE(breakDuration, 5) * 2;
+      UPDATE user_settings SET sessionsBeforeLongBreak = 4 WHERE sessionsBeforeLongBreak IS NULL;
+    `);
+    },
+    down: async (db) => {
+        await db.execAsync(`
+      ALTER TABLE user_settings DROP COLUMN sessionsBeforeLongBreak;
+      ALTER TABLE user_settings DROP COLUMN longBreakDuration;
+    `);
+    },
+};
@@ -0,0 +1,35 @@
+import { addColumnIfMissing, type LocalMigration } from '@/services/local-migration-service';
+
+/**
+ * Migration 008: user-defined timer presets and per-category default presets
+ */
+export const migration008TimerPresets: LocalMigration = {
+    version: 8,
+    name: 'timer_presets',
+    up: async (db) => {
+        await db.execAsync(`
+      CREATE TABLE IF NOT EXISTS timer_presets (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        focusDuration INTEGER NOT NULL,
+        breakDuration INTEGER NOT NULL,
+        longBreakDuration INTEGER NOT NULL,
+        sessionsBeforeLongBreak INTEGER NOT NULL DEFAULT 4,
+        createdAt TEXT NOT NULL,
+        updatedAt TEXT,
+        version INTEGER DEFAULT 1,
+        fieldTimestamps TEXT
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_timer_presets_updated_at ON timer_presets(updatedAt);
+    `);
+        await addColumnIfMissing(db, 'user_settings', 'categoryPresets', `TEXT DEFAULT '{}'`);
+    },
+    down: async (db) => {
+        await db.execAsync(`
+      ALTER TABLE user_settings DROP COLUMN categoryPresets;
+      DROP INDEX IF EXISTS idx_timer_presets_updated_at;
+      DROP TABLE IF EXISTS timer_presets;
+    `);
+    },
+};
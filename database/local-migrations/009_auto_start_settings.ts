@@ -0,0 +1,21 @@
+import { addColumnIfMissing, type LocalMigration } from '@/services/local-migration-service';
+
+/**
+ * Migration 009: auto-start the next phase, with a cancellable grace period
+ */
+export const migration009AutoStartSettings: LocalMigration = {
+    version: 9,
+    name: 'auto_start_settings',
+    up: async (db) => {
+        await addColumnIfMissing(db, 'user_settings', 'autoStartBreaks', 'BOOLEAN DEFAULT 0');
+        await addColumnIfMissing(db, 'user_settings', 'autoStartFocus', 'BOOLEAN DEFAULT 0');
+        await addColumnIfMissing(db, 'user_settings', 'autoStartDelay', 'INTEGER DEFAULT 5');
+    },
+    down: async (db) => {
+        await db.execAsync(`
+      ALTER TABLE user_settings DROP COLUMN autoStartDelay;
+      ALTER TABLE user_settings DROP COLUMN autoStartFocus;
+      ALTER TABLE user_settings DROP COLUMN autoStartBreaks;
+    `);
+    },
+};
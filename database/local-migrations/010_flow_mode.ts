@@ -0,0 +1,23 @@
+import { addColumnIfMissing, type LocalMigration } from '@/services/local-migration-service';
+
+/**
+ * Migration 010: flow mode, where focus runs past its target and the break scales with it
+ */
+export const migration010FlowMode: LocalMigration = {
+    version: 10,
+    name: 'flow_mode',
+    up: async (db) => {
+        for (const table of ['user_settings', 'timer_presets']) {
+            await addColumnIfMissing(db, table, 'flowMode', 'BOOLEAN DEFAULT 0');
+            await addColumnIfMissing(db, table, 'flowBreakRatio', 'INTEGER DEFAULT 5');
+        }
+    },
+    down: async (db) => {
+        await db.execAsync(`
+      ALTER TABLE timer_presets DROP COLUMN flowBreakRatio;
+      ALTER TABLE timer_presets DROP COLUMN flowMode;
+      ALTER TABLE user_settings DROP COLUMN flowBreakRatio;
+      ALTER TABLE user_settings DROP COLUMN flowMode;
+    `);
+    },
+};
@@ -0,0 +1,19 @@
+import { addColumnIfMissing, type LocalMigration } from '@/services/local-migration-service';
+
+/**
+ * Migration 011: interruptions and pause intervals recorded on sessions
+ */
+export const migration011SessionInterruptions: LocalMigration = {
+    version: 11,
+    name: 'session_interruptions',
+    up: async (db) => {
+        await addColumnIfMissing(db, 'sessions', 'interruptions', "TEXT DEFAULT '[]'");
+        await addColumnIfMissing(db, 'sessions', 'pauses', "TEXT DEFAULT '[]'");
+    },
+    down: async (db) => {
+        await db.execAsync(`
+      ALTER TABLE sessions DROP COLUMN pauses;
+      ALTER TABLE sessions DROP COLUMN interruptions;
+    `);
+    },
+};
@@ -0,0 +1,21 @@
+import { addColumnIfMissing, type LocalMigration } from '@/services/local-migration-service';
+
+/**
+ * Migration 012: post-session review answers, and the setting that asks for them
+ */
+export const migration012SessionReview: LocalMigration = {
+    version: 12,
+    name: 'session_review',
+    up: async (db) => {
+        await addColumnIfMissing(db, 'sessions', 'focusRating', 'INTEGER');
+        await addColumnIfMissing(db, 'sessions', 'outcome', 'TEXT');
+        await addColumnIfMissing(db, 'user_settings', 'sessionReview', 'BOOLEAN DEFAULT 1');
+    },
+    down: async (db) => {
+        await db.execAsync(`
+      ALTER TABLE user_settings DROP COLUMN sessionReview;
+      ALTER TABLE sessions DROP COLUMN outcome;
+      ALTER TABLE sessions DROP COLUMN focusRating;
+    `);
+    },
+};
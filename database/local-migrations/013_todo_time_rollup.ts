@@ -0,0 +1,26 @@
+import { addColumnIfMissing, type LocalMigration } from '@/services/local-migration-service';
+
+/**
+ * Migration 013: todos keep their focused time in actualMinutes, rolled up from sessions
+ */
+export const migration013TodoTimeRollup: LocalMigration = {
+    version: 13,
+    name: 'todo_time_rollup',
+    up: async (db) => {
+        await addColumnIfMissing(db, 'user_settings', 'countPartialSessions', 'BOOLEAN DEFAULT 0');
+
+        // Bring existing todos in line with the sessions already recorded
+        await db.execAsync(`
+      UPDATE todos SET actualMinutes = (
+        SELECT CAST(ROUND(COALESCE(SUM(duration), 0) / 60.0) AS INTEGER)
+        FROM sessions
+        WHERE sessions.todoId = todos.id AND sessions.type = 'focus' AND sessions.isCompleted = 1
+      );
+    `);
+    },
+    down: async (db) => {
+        await db.execAsync(`
+      ALTER TABLE user_settings DROP COLUMN countPartialSessions;
+    `);
+    },
+};
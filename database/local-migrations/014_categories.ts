@@ -0,0 +1,64 @@
+import type { LocalMigration } from '@/services/local-migration-service';
+import { DEFAULT_CATEGORY_IDS } from '@/utils/default-categories';
+
+// Random v4 UUID for the categories taken from todos
+const UUID_SQL = `lower(hex(randomblob(4))) || '-' || lower(hex(randomblob(2))) || '-4' ||
+  substr(lower(hex(randomblob(2))), 2) || '-' || substr('89ab', 1 + (abs(random()) % 4), 1) ||
+  substr(lower(hex(randomblob(2))), 2) || '-' || lower(hex(randomblob(6)))`;
+
+// ISO 8601 in UTC, as every other writer stores timestamps
+const NOW_SQL = `strftime('%Y-%m-%dT%H:%M:%fZ', 'now')`;
+
+/**
+ * Migration 014: user-defined categories, seeded with the three that used to be built in
+ * and with any other category name todos already use. The three defaults get the same ids
+ * on every device, so they sync as one category each.
+ */
+export const migration014Categories: LocalMigration = {
+    version: 14,
+    name: 'categories',
+    up: async (db) => {
+        await db.execAsync(`
+      CREATE TABLE IF NOT EXISTS categories (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        color TEXT NOT NULL,
+        icon TEXT,
+        isArchived BOOLEAN DEFAULT 0,
+        createdAt TEXT NOT NULL,
+        updatedAt TEXT,
+        version INTEGER DEFAULT 1,
+        fieldTimestamps TEXT
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_categories_updated_at ON categories(updatedAt);
+
+      INSERT INTO categories (id, name, color, icon, createdAt, updatedAt, fieldTimestamps)
+      SELECT defaults.id, defaults.name, defaults.color, defaults.icon,
+        ${NOW_SQL}, ${NOW_SQL}, '{}'
+      FROM (
+        SELECT '${DEFAULT_CATEGORY_IDS.HEALTH}' AS id, 'HEALTH' AS name, '#A3E635' AS color,
+          'fitness-outline' AS icon, 1 AS position
+        UNION ALL SELECT '${DEFAULT_CATEGORY_IDS.WORK}', 'WORK', '#D4D4D8', 'briefcase-outline', 2
+        UNION ALL SELECT '${DEFAULT_CATEGORY_IDS['MENTAL HEALTH']}', 'MENTAL HEALTH', '#93C5FD',
+          'leaf-outline', 3
+      ) AS defaults
+      WHERE NOT EXISTS (SELECT 1 FROM categories WHERE categories.name = defaults.name)
+      ORDER BY defaults.position;
+
+      INSERT INTO categories (id, name, color, icon, createdAt, updatedAt, fieldTimestamps)
+      SELECT ${UUID_SQL}, used.category, '#D4D4D8', 'pricetag-outline',
+        ${NOW_SQL}, ${NOW_SQL}, '{}'
+      FROM (SELECT DISTINCT category FROM todos WHERE category IS NOT NULL AND category != '') AS used
+      WHERE NOT EXISTS (
+        SELECT 1 FROM categories WHERE categories.name = used.category COLLATE NOCASE
+      );
+    `);
+    },
+    down: async (db) => {
+        await db.execAsync(`
+      DROP INDEX IF EXISTS idx_categories_updated_at;
+      DROP TABLE IF EXISTS categories;
+    `);
+    },
+};
@@ -0,0 +1,17 @@
+import { addColumnIfMissing, type LocalMigration } from '@/services/local-migration-service';
+
+/**
+ * Migration 015: the RRULE a todo repeats by
+ */
+export const migration015TodoRecurrence: LocalMigration = {
+    version: 15,
+    name: 'todo_recurrence',
+    up: async (db) => {
+        await addColumnIfMissing(db, 'todos', 'recurrence', 'TEXT');
+    },
+    down: async (db) => {
+        await db.execAsync(`
+      ALTER TABLE todos DROP COLUMN recurrence;
+    `);
+    },
+};
@@ -0,0 +1,22 @@
+import { addColumnIfMissing, type LocalMigration } from '@/services/local-migration-service';
+
+/**
+ * Migration 016: when a todo is due, the day it is planned for, and whether missed
+ * days roll over to today
+ */
+export const migration016TodoDates: LocalMigration = {
+    version: 16,
+    name: 'todo_dates',
+    up: async (db) => {
+        await addColumnIfMissing(db, 'todos', 'dueAt', 'TEXT');
+        await addColumnIfMissing(db, 'todos', 'scheduledFor', 'TEXT');
+        await addColumnIfMissing(db, 'user_settings', 'rollOverTodos', 'BOOLEAN DEFAULT 1');
+    },
+    down: async (db) => {
+        await db.execAsync(`
+      ALTER TABLE todos DROP COLUMN dueAt;
+      ALTER TABLE todos DROP COLUMN scheduledFor;
+      ALTER TABLE user_settings DROP COLUMN rollOverTodos;
+    `);
+    },
+};
@@ -0,0 +1,18 @@
+import { addColumnIfMissing, type LocalMigration } from '@/services/local-migration-service';
+
+/**
+ * Migration 017: for each synced table, the server's synced_at of the newest record
+ * pulled, where the next incremental pull of that table resumes
+ */
+export const migration017SyncCursor: LocalMigration = {
+    version: 17,
+    name: 'sync_cursor',
+    up: async (db) => {
+        await addColumnIfMissing(db, 'user_settings', 'syncCursors', "TEXT DEFAULT '{}'");
+    },
+    down: async (db) => {
+        await db.execAsync(`
+      ALTER TABLE user_settings DROP COLUMN syncCursors;
+    `);
+    },
+};
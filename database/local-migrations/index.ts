@@ -0,0 +1,42 @@
+import type { LocalMigration } from '@/services/local-migration-service';
+import { migration001InitialSchema } from './001_initial_schema';
+import { migration002TodoRemindersSubtasks } from './002_todo_reminders_subtasks';
+import { migration003SyncMetadata } from './003_sync_metadata';
+import { migration004SettingsSync } from './004_settings_sync';
+import { migration005SyncLogRetries } from './005_sync_log_retries';
+import { migration006SyncLogRecordIndex } from './006_sync_log_record_index';
+import { migration007LongBreakSettings } from './007_long_break_settings';
+import { migration008TimerPresets } from './008_timer_presets';
+import { migration009AutoStartSettings } from './009_auto_start_settings';
+import { migration010FlowMode } from './010_flow_mode';
+import { migration011SessionInterruptions } from './011_session_interruptions';
+import { migration012SessionReview } from './012_session_review';
+import { migration013TodoTimeRollup } from './013_todo_time_rollup';
+import { migration014Categories } from './014_categories';
+import { migration015TodoRecurrence } from './015_todo_recurrence';
+import { migration016TodoDates } from './016_todo_dates';
+import { migration017SyncCursor } from './017_sync_cursor';
+
+/**
+ * Ordered list of local SQLite migrations.
+ * Append new migrations here; never edit or reorder an applied one.
+ */
+export const LOCAL_MIGRATIONS: LocalMigration[] = [
+    migration001InitialSchema,
+    migration002TodoRemindersSubtasks,
+    migration003SyncMetadata,
+    migration004SettingsSync,
+    migration005SyncLogRetries,
+    migration006SyncLogRecordIndex,
+    migration007LongBreakSettings,
+    migration008TimerPresets,
+    migration009AutoStartSettings,
+    migration010FlowMode,
+    migration011SessionInterruptions,
+    migration012SessionReview,
+    migration013TodoTimeRollup,
+    migration014Categories,
+    migration015TodoRecurrence,
+    migration016TodoDates,
+    migration017SyncCursor,
+];
@@ -1,5 +1,6 @@
 -- SQLite Database Schema for Flowzy Local-First App
 -- This replaces the Supabase schema with local SQLite tables
+-- Reference only: the app builds this schema from database/local-migrations/
 
 -- =============================================
 -- TODOS TABLE
@@ -15,7 +16,15 @@ CREATE TABLE IF NOT EXISTS todos (
   category TEXT,
   priority INTEGER DEFAULT 0,
   estimatedMinutes INTEGER,
-  actualMinutes INTEGER DEFAULT 0
+  actualMinutes INTEGER DEFAULT 0,
+  reminderAt TEXT,
+  recurrence TEXT,
+  dueAt TEXT,
+  scheduledFor TEXT,
+  subtasks TEXT,
+  updatedAt TEXT,
+  version INTEGER DEFAULT 1,
+  fieldTimestamps TEXT
 );
 
 -- =============================================
@@ -32,6 +41,13 @@ CREATE TABLE IF NOT EXISTS sessions (
   sessionNumber INTEGER,
   isCompleted BOOLEAN DEFAULT 0,
   notes TEXT,
+  interruptions TEXT DEFAULT '[]',
+  pauses TEXT DEFAULT '[]',
+  focusRating INTEGER,
+  outcome TEXT,
+  updatedAt TEXT,
+  version INTEGER DEFAULT 1,
+  fieldTimestamps TEXT,
   FOREIGN KEY (todoId) REFERENCES todos(id) ON DELETE SET NULL
 );
 
@@ -42,17 +58,67 @@ CREATE TABLE IF NOT EXISTS user_settings (
   id TEXT PRIMARY KEY,
   focusDuration INTEGER DEFAULT 25,
   breakDuration INTEGER DEFAULT 5,
+  longBreakDuration INTEGER DEFAULT 10,
+  sessionsBeforeLongBreak INTEGER DEFAULT 4,
   notifications BOOLEAN DEFAULT 1,
   soundEffects BOOLEAN DEFAULT 1,
   metronome BOOLEAN DEFAULT 0,
+  autoStartBreaks BOOLEAN DEFAULT 0,
+  autoStartFocus BOOLEAN DEFAULT 0,
+  autoStartDelay INTEGER DEFAULT 5,
+  flowMode BOOLEAN DEFAULT 0,
+  flowBreakRatio INTEGER DEFAULT 5,
+  sessionReview BOOLEAN DEFAULT 1,
+  countPartialSessions BOOLEAN DEFAULT 0,
+  rollOverTodos BOOLEAN DEFAULT 1,
   theme TEXT DEFAULT 'system',
   userName TEXT,
   userEmail TEXT,
   onboardingCompleted BOOLEAN DEFAULT 0,
   syncEnabled BOOLEAN DEFAULT 0,
   lastSyncAt TEXT,
+  syncCursors TEXT DEFAULT '{}',
   createdAt TEXT NOT NULL,
-  updatedAt TEXT NOT NULL
+  updatedAt TEXT NOT NULL,
+  textSize TEXT DEFAULT 'medium',
+  deviceName TEXT DEFAULT 'Flowzy Device',
+  localOnlySettings TEXT DEFAULT '["deviceName","textSize"]',
+  version INTEGER DEFAULT 1,
+  fieldTimestamps TEXT,
+  categoryPresets TEXT DEFAULT '{}'
+);
+
+-- =============================================
+-- TIMER PRESETS TABLE
+-- =============================================
+CREATE TABLE IF NOT EXISTS timer_presets (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  focusDuration INTEGER NOT NULL,
+  breakDuration INTEGER NOT NULL,
+  longBreakDuration INTEGER NOT NULL,
+  sessionsBeforeLongBreak INTEGER NOT NULL DEFAULT 4,
+  flowMode BOOLEAN DEFAULT 0,
+  flowBreakRatio INTEGER DEFAULT 5,
+  createdAt TEXT NOT NULL,
+  updatedAt TEXT,
+  version INTEGER DEFAULT 1,
+  fieldTimestamps TEXT
+);
+
+-- =============================================
+-- CATEGORIES TABLE
+-- =============================================
+CREATE TABLE IF NOT EXISTS categories (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  color TEXT NOT NULL,
+  icon TEXT,
+  isArchived BOOLEAN DEFAULT 0,
+  createdAt TEXT NOT NULL,
+  updatedAt TEXT,
+  version INTEGER DEFAULT 1,
+  fieldTimestamps TEXT
 );
 
 -- =============================================
@@ -65,7 +131,46 @@ CREATE TABLE IF NOT EXISTS sync_log (
   operation TEXT NOT NULL CHECK (operation IN ('create', 'update', 'delete')),
   timestamp TEXT NOT NULL,
   synced BOOLEAN DEFAULT 0,
-  error TEXT
+  error TEXT,
+  attempts INTEGER DEFAULT 0,
+  lastAttemptAt TEXT,
+  nextAttemptAt TEXT
+);
+
+-- =============================================
+-- SYNC TOMBSTONES TABLE (deleted records awaiting sync)
+-- =============================================
+CREATE TABLE IF NOT EXISTS sync_tombstones (
+  tableName TEXT NOT NULL,
+  recordId TEXT NOT NULL,
+  deletedAt TEXT NOT NULL,
+  version INTEGER DEFAULT 1,
+  PRIMARY KEY (tableName, recordId)
+);
+
+-- =============================================
+-- SYNC CONFLICTS TABLE (fields edited on two devices)
+-- =============================================
+CREATE TABLE IF NOT EXISTS sync_conflicts (
+  id TEXT PRIMARY KEY,
+  tableName TEXT NOT NULL,
+  recordId TEXT NOT NULL,
+  field TEXT NOT NULL,
+  localValue TEXT,
+  remoteValue TEXT,
+  localUpdatedAt TEXT,
+  remoteUpdatedAt TEXT,
+  resolution TEXT NOT NULL CHECK (resolution IN ('local', 'remote')),
+  resolvedAt TEXT NOT NULL
+);
+
+-- =============================================
+-- SCHEMA VERSION TABLE (managed by the migration runner)
+-- =============================================
+CREATE TABLE IF NOT EXISTS schema_version (
+  version INTEGER PRIMARY KEY,
+  name TEXT NOT NULL,
+  appliedAt TEXT NOT NULL
 );
 
 -- =============================================
@@ -79,6 +184,10 @@ CREATE INDEX IF NOT EXISTS idx_sessions_start_time ON sessions(startTime);
 CREATE INDEX IF NOT EXISTS idx_sessions_todo_id ON sessions(todoId);
 CREATE INDEX IF NOT EXISTS idx_sessions_type ON sessions(type);
 
+CREATE INDEX IF NOT EXISTS idx_timer_presets_updated_at ON timer_presets(updatedAt);
+
+CREATE INDEX IF NOT EXISTS idx_categories_updated_at ON categories(updatedAt);
+
 CREATE INDEX IF NOT EXISTS idx_sync_log_table_record ON sync_log(tableName, recordId);
 CREATE INDEX IF NOT EXISTS idx_sync_log_synced ON sync_log(synced);
 
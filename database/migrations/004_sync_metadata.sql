@@ -0,0 +1,71 @@
+-- Migration: Sync Metadata
+-- Description: Adds per-record version tracking and soft deletes to todos and sessions
+-- Date: 2026-10-19
+-- Purpose: Let devices merge edits field by field (last-writer-wins) instead of overwriting each other
+
+-- =============================================
+-- TODOS TABLE UPDATES
+-- =============================================
+
+-- updated_at is added without a default so existing rows stay NULL until backfilled;
+-- a default would stamp them with the migration time and make them win every merge
+ALTER TABLE todos
+  ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS version INTEGER DEFAULT 1,
+  ADD COLUMN IF NOT EXISTS field_timestamps JSONB DEFAULT '{}'::jsonb,
+  ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP WITH TIME ZONE;
+
+-- Backfill existing rows
+UPDATE todos
+SET
+  updated_at = COALESCE(updated_at, "completedAt", created_at, NOW()),
+  version = COALESCE(version, 1),
+  field_timestamps = COALESCE(field_timestamps, '{}'::jsonb)
+WHERE updated_at IS NULL OR version IS NULL OR field_timestamps IS NULL;
+
+ALTER TABLE todos ALTER COLUMN updated_at SET DEFAULT NOW();
+
+CREATE INDEX IF NOT EXISTS idx_todos_updated_at ON todos(updated_at);
+
+-- =============================================
+-- SESSIONS TABLE UPDATES
+-- =============================================
+
+-- updated_at is added without a default so existing rows stay NULL until backfilled;
+-- a default would stamp them with the migration time and make them win every merge
+ALTER TABLE sessions
+  ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS version INTEGER DEFAULT 1,
+  ADD COLUMN IF NOT EXISTS field_timestamps JSONB DEFAULT '{}'::jsonb,
+  ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP WITH TIME ZONE;
+
+-- Backfill existing rows
+UPDATE sessions
+SET
+  updated_at = COALESCE(updated_at, completed_at, NOW()),
+  version = COALESCE(version, 1),
+  field_timestamps = COALESCE(field_timestamps, '{}'::jsonb)
+WHERE updated_at IS NULL OR version IS NULL OR field_timestamps IS NULL;
+
+ALTER TABLE sessions ALTER COLUMN updated_at SET DEFAULT NOW();
+
+CREATE INDEX IF NOT EXISTS idx_sessions_updated_at ON sessions(updated_at);
+
+-- =============================================
+-- POLICIES
+-- =============================================
+
+-- Merged sessions are written back with upsert, which needs UPDATE access
+DROP POLICY IF EXISTS "Users can update own sessions" ON sessions;
+CREATE POLICY "Users can update own sessions" ON sessions
+  FOR UPDATE USING (auth.uid() = user_id);
+
+-- =============================================
+-- VERIFICATION
+-- =============================================
+
+-- SELECT table_name, column_name, data_type
+-- FROM information_schema.columns
+-- WHERE table_name IN ('todos', 'sessions')
+--   AND column_name IN ('updated_at', 'version', 'field_timestamps', 'deleted_at')
+--   AND table_schema = 'public';
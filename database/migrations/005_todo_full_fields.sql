@@ -0,0 +1,39 @@
+-- Migration: Todo Full Fields
+-- Description: Ensures every local Todo field has a matching column on todos
+-- Date: 2026-10-19
+-- Purpose: Sync category, priority, estimates, reminders and subtasks instead of resetting them
+
+-- =============================================
+-- TODOS TABLE UPDATES
+-- =============================================
+
+-- Idempotent: safe on databases that already ran 002_supabase_alignment.sql
+ALTER TABLE todos
+  ADD COLUMN IF NOT EXISTS category TEXT,
+  ADD COLUMN IF NOT EXISTS priority INTEGER DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS estimated_minutes INTEGER,
+  ADD COLUMN IF NOT EXISTS actual_minutes INTEGER DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS reminder_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS subtasks JSONB DEFAULT '[]'::jsonb;
+
+-- Backfill existing rows
+UPDATE todos
+SET
+  priority = COALESCE(priority, 0),
+  actual_minutes = COALESCE(actual_minutes, 0),
+  subtasks = COALESCE(subtasks, '[]'::jsonb)
+WHERE priority IS NULL OR actual_minutes IS NULL OR subtasks IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_todos_category ON todos(category);
+CREATE INDEX IF NOT EXISTS idx_todos_priority ON todos(priority);
+CREATE INDEX IF NOT EXISTS idx_todos_reminder_at ON todos(reminder_at);
+
+-- =============================================
+-- VERIFICATION
+-- =============================================
+
+-- SELECT column_name, data_type, column_default
+-- FROM information_schema.columns
+-- WHERE table_name = 'todos'
+--   AND column_name IN ('category', 'priority', 'estimated_minutes', 'actual_minutes', 'reminder_at', 'subtasks')
+--   AND table_schema = 'public';
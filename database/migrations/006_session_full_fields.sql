@@ -0,0 +1,36 @@
+-- Migration: Session Full Fields
+-- Description: Ensures every local Session field has a matching column on sessions
+-- Date: 2026-10-19
+-- Purpose: Sync the todo link, real start/end times, session number and notes
+
+-- =============================================
+-- SESSIONS TABLE UPDATES
+-- =============================================
+
+-- Idempotent: safe on databases that already ran 002_supabase_alignment.sql
+ALTER TABLE sessions
+  ADD COLUMN IF NOT EXISTS todo_id UUID REFERENCES todos(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS todo_title TEXT,
+  ADD COLUMN IF NOT EXISTS start_time TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS end_time TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS session_number INTEGER,
+  ADD COLUMN IF NOT EXISTS is_completed BOOLEAN DEFAULT FALSE,
+  ADD COLUMN IF NOT EXISTS notes TEXT;
+
+-- Backfill end_time for rows that only recorded completed_at
+UPDATE sessions
+SET end_time = completed_at
+WHERE end_time IS NULL AND completed_at IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_sessions_todo_id ON sessions(todo_id);
+CREATE INDEX IF NOT EXISTS idx_sessions_start_time ON sessions(start_time);
+
+-- =============================================
+-- VERIFICATION
+-- =============================================
+
+-- SELECT column_name, data_type
+-- FROM information_schema.columns
+-- WHERE table_name = 'sessions'
+--   AND column_name IN ('todo_id', 'todo_title', 'start_time', 'end_time', 'session_number', 'is_completed', 'notes')
+--   AND table_schema = 'public';
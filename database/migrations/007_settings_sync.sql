@@ -0,0 +1,31 @@
+-- Migration: Settings Sync
+-- Description: Adds text size, device name and per-field sync metadata to user_settings
+-- Date: 2026-10-19
+-- Purpose: Merge settings across devices setting by setting (last-writer-wins)
+
+-- =============================================
+-- USER_SETTINGS TABLE UPDATES
+-- =============================================
+
+ALTER TABLE user_settings
+  ADD COLUMN IF NOT EXISTS text_size TEXT DEFAULT 'medium',
+  ADD COLUMN IF NOT EXISTS device_name TEXT,
+  ADD COLUMN IF NOT EXISTS version INTEGER DEFAULT 1,
+  ADD COLUMN IF NOT EXISTS field_timestamps JSONB DEFAULT '{}'::jsonb;
+
+-- Backfill existing rows
+UPDATE user_settings
+SET
+  version = COALESCE(version, 1),
+  field_timestamps = COALESCE(field_timestamps, '{}'::jsonb)
+WHERE version IS NULL OR field_timestamps IS NULL;
+
+-- =============================================
+-- VERIFICATION
+-- =============================================
+
+-- SELECT column_name, data_type, column_default
+-- FROM information_schema.columns
+-- WHERE table_name = 'user_settings'
+--   AND column_name IN ('text_size', 'device_name', 'version', 'field_timestamps')
+--   AND table_schema = 'public';
@@ -0,0 +1,38 @@
+-- Migration: Realtime
+-- Description: Publishes todos and sessions changes over Supabase Realtime
+-- Date: 2026-10-19
+-- Purpose: Let other signed-in devices patch their state without a manual reload
+
+-- =============================================
+-- REALTIME PUBLICATION
+-- =============================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'todos'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.todos;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'sessions'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.sessions;
+  END IF;
+END $$;
+
+-- Include the full old row in DELETE events so user_id filters still match
+ALTER TABLE todos REPLICA IDENTITY FULL;
+ALTER TABLE sessions REPLICA IDENTITY FULL;
+
+-- =============================================
+-- VERIFICATION
+-- =============================================
+
+-- SELECT schemaname, tablename
+-- FROM pg_publication_tables
+-- WHERE pubname = 'supabase_realtime'
+--   AND tablename IN ('todos', 'sessions');
@@ -0,0 +1,30 @@
+-- Migration: Long Break Settings
+-- Description: Adds long-break duration and sessions-before-long-break to user_settings
+-- Date: 2026-10-19
+-- Purpose: Let users configure the long-break cadence instead of a fixed 4 sessions at 2x break
+
+-- =============================================
+-- USER_SETTINGS TABLE UPDATES
+-- =============================================
+
+ALTER TABLE user_settings
+  ADD COLUMN IF NOT EXISTS long_break_duration INTEGER DEFAULT 10,
+  ADD COLUMN IF NOT EXISTS sessions_before_long_break INTEGER DEFAULT 4;
+
+-- Existing users keep the long break they had: twice the short break
+UPDATE user_settings
+SET long_break_duration = COALESCE(break_duration, 5) * 2;
+
+ALTER TABLE user_settings
+  ADD CONSTRAINT user_settings_sessions_before_long_break_check
+  CHECK (sessions_before_long_break >= 1);
+
+-- =============================================
+-- VERIFICATION
+-- =============================================
+
+-- SELECT column_name, data_type, column_default
+-- FROM information_schema.columns
+-- WHERE table_name = 'user_settings'
+--   AND column_name IN ('long_break_duration', 'sessions_before_long_break')
+--   AND table_schema = 'public';
@@ -0,0 +1,48 @@
+-- Migration: Timer Presets
+-- Description: Adds named timer presets and per-category default presets
+-- Date: 2026-10-19
+-- Purpose: Switch between focus/break profiles without editing settings, on every device
+
+-- =============================================
+-- TIMER_PRESETS TABLE
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS timer_presets (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  focus_duration INTEGER NOT NULL,
+  break_duration INTEGER NOT NULL,
+  long_break_duration INTEGER NOT NULL,
+  sessions_before_long_break INTEGER NOT NULL DEFAULT 4 CHECK (sessions_before_long_break >= 1),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  version INTEGER DEFAULT 1,
+  field_timestamps JSONB DEFAULT '{}'::jsonb,
+  deleted_at TIMESTAMP WITH TIME ZONE,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_timer_presets_user_id ON timer_presets(user_id);
+CREATE INDEX IF NOT EXISTS idx_timer_presets_updated_at ON timer_presets(updated_at);
+
+ALTER TABLE timer_presets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own timer presets" ON timer_presets FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can insert own timer presets" ON timer_presets FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update own timer presets" ON timer_presets FOR UPDATE USING (auth.uid() = user_id);
+
+-- =============================================
+-- USER_SETTINGS TABLE UPDATES
+-- =============================================
+
+-- Map of todo category to the id of the preset used for its todos
+ALTER TABLE user_settings
+  ADD COLUMN IF NOT EXISTS category_presets JSONB DEFAULT '{}'::jsonb;
+
+-- =============================================
+-- VERIFICATION
+-- =============================================
+
+-- SELECT column_name, data_type
+-- FROM information_schema.columns
+-- WHERE table_name = 'timer_presets' AND table_schema = 'public';
@@ -0,0 +1,27 @@
+-- Migration: Auto-Start Settings
+-- Description: Adds auto-start options for breaks and focus sessions to user_settings
+-- Date: 2026-10-19
+-- Purpose: Start the next phase automatically after a countdown the user can cancel
+
+-- =============================================
+-- USER_SETTINGS TABLE UPDATES
+-- =============================================
+
+ALTER TABLE user_settings
+  ADD COLUMN IF NOT EXISTS auto_start_breaks BOOLEAN DEFAULT FALSE,
+  ADD COLUMN IF NOT EXISTS auto_start_focus BOOLEAN DEFAULT FALSE,
+  ADD COLUMN IF NOT EXISTS auto_start_delay INTEGER DEFAULT 5;
+
+ALTER TABLE user_settings
+  ADD CONSTRAINT user_settings_auto_start_delay_check
+  CHECK (auto_start_delay >= 0);
+
+-- =============================================
+-- VERIFICATION
+-- =============================================
+
+-- SELECT column_name, data_type, column_default
+-- FROM information_schema.columns
+-- WHERE table_name = 'user_settings'
+--   AND column_name IN ('auto_start_breaks', 'auto_start_focus', 'auto_start_delay')
+--   AND table_schema = 'public';
@@ -0,0 +1,38 @@
+-- Migration: Flow Mode
+-- Description: Adds flow mode and its break ratio to user_settings and timer_presets
+-- Date: 2026-10-19
+-- Purpose: Let focus sessions run into overtime and scale the following break, per preset
+
+-- =============================================
+-- USER_SETTINGS TABLE UPDATES
+-- =============================================
+
+ALTER TABLE user_settings
+  ADD COLUMN IF NOT EXISTS flow_mode BOOLEAN DEFAULT FALSE,
+  ADD COLUMN IF NOT EXISTS flow_break_ratio INTEGER DEFAULT 5;
+
+ALTER TABLE user_settings
+  ADD CONSTRAINT user_settings_flow_break_ratio_check
+  CHECK (flow_break_ratio >= 0);
+
+-- =============================================
+-- TIMER_PRESETS TABLE UPDATES
+-- =============================================
+
+ALTER TABLE timer_presets
+  ADD COLUMN IF NOT EXISTS flow_mode BOOLEAN DEFAULT FALSE,
+  ADD COLUMN IF NOT EXISTS flow_break_ratio INTEGER DEFAULT 5;
+
+ALTER TABLE timer_presets
+  ADD CONSTRAINT timer_presets_flow_break_ratio_check
+  CHECK (flow_break_ratio >= 0);
+
+-- =============================================
+-- VERIFICATION
+-- =============================================
+
+-- SELECT table_name, column_name, data_type, column_default
+-- FROM information_schema.columns
+-- WHERE table_name IN ('user_settings', 'timer_presets')
+--   AND column_name IN ('flow_mode', 'flow_break_ratio')
+--   AND table_schema = 'public';
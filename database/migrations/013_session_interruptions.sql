@@ -0,0 +1,24 @@
+-- Migration: Session Interruptions
+-- Description: Adds logged interruptions and pause intervals to sessions
+-- Date: 2026-10-19
+-- Purpose: Record why and how long focus was broken so history and stats can show it
+
+-- =============================================
+-- SESSIONS TABLE UPDATES
+-- =============================================
+
+-- interruptions: [{ "id", "kind": "internal" | "external", "at", "note" }]
+-- pauses: [{ "startedAt", "endedAt" }]
+ALTER TABLE sessions
+  ADD COLUMN IF NOT EXISTS interruptions JSONB DEFAULT '[]'::jsonb,
+  ADD COLUMN IF NOT EXISTS pauses JSONB DEFAULT '[]'::jsonb;
+
+-- =============================================
+-- VERIFICATION
+-- =============================================
+
+-- SELECT column_name, data_type, column_default
+-- FROM information_schema.columns
+-- WHERE table_name = 'sessions'
+--   AND column_name IN ('interruptions', 'pauses')
+--   AND table_schema = 'public';
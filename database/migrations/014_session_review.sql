@@ -0,0 +1,37 @@
+-- Migration: Session Review
+-- Description: Adds the post-session review answers to sessions and the review toggle to user_settings
+-- Date: 2026-10-19
+-- Purpose: Record how focused a session felt and how it went, asked for when a focus session ends
+
+-- =============================================
+-- SESSIONS TABLE UPDATES
+-- =============================================
+
+ALTER TABLE sessions
+  ADD COLUMN IF NOT EXISTS focus_rating SMALLINT,
+  ADD COLUMN IF NOT EXISTS outcome TEXT;
+
+ALTER TABLE sessions
+  ADD CONSTRAINT sessions_focus_rating_check
+  CHECK (focus_rating IS NULL OR focus_rating BETWEEN 1 AND 5);
+
+ALTER TABLE sessions
+  ADD CONSTRAINT sessions_outcome_check
+  CHECK (outcome IS NULL OR outcome IN ('done', 'progress', 'stuck'));
+
+-- =============================================
+-- USER_SETTINGS TABLE UPDATES
+-- =============================================
+
+ALTER TABLE user_settings
+  ADD COLUMN IF NOT EXISTS session_review BOOLEAN DEFAULT TRUE;
+
+-- =============================================
+-- VERIFICATION
+-- =============================================
+
+-- SELECT table_name, column_name, data_type, column_default
+-- FROM information_schema.columns
+-- WHERE table_name IN ('sessions', 'user_settings')
+--   AND column_name IN ('focus_rating', 'outcome', 'session_review')
+--   AND table_schema = 'public';
@@ -0,0 +1,35 @@
+-- Migration: Todo Time Rollup
+-- Description: Adds the partial-session toggle to user_settings and backfills todos.actual_minutes
+-- Date: 2026-10-19
+-- Purpose: Keep each todo's focused time in actual_minutes instead of summing sessions on demand
+
+-- =============================================
+-- USER_SETTINGS TABLE UPDATES
+-- =============================================
+
+ALTER TABLE user_settings
+  ADD COLUMN IF NOT EXISTS count_partial_sessions BOOLEAN DEFAULT FALSE;
+
+-- =============================================
+-- BACKFILL
+-- =============================================
+
+-- Devices keep the figure up to date from here on; start it from completed focus sessions
+UPDATE todos SET actual_minutes = COALESCE((
+  SELECT ROUND(SUM(sessions.duration) / 60.0)::INTEGER
+  FROM sessions
+  WHERE sessions.todo_id = todos.id
+    AND sessions.type = 'focus'
+    AND sessions.is_completed
+    AND sessions.deleted_at IS NULL
+), 0);
+
+-- =============================================
+-- VERIFICATION
+-- =============================================
+
+-- SELECT column_name, data_type, column_default
+-- FROM information_schema.columns
+-- WHERE table_name = 'user_settings'
+--   AND column_name = 'count_partial_sessions'
+--   AND table_schema = 'public';
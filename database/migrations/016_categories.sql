@@ -0,0 +1,39 @@
+-- Migration: Categories
+-- Description: Adds user-defined todo categories with a name, color, icon and archive flag
+-- Date: 2026-10-19
+-- Purpose: Replace the three built-in categories with ones the user manages on every device
+
+-- =============================================
+-- CATEGORIES TABLE
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS categories (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  color TEXT NOT NULL,
+  icon TEXT,
+  is_archived BOOLEAN DEFAULT FALSE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  version INTEGER DEFAULT 1,
+  field_timestamps JSONB DEFAULT '{}'::jsonb,
+  deleted_at TIMESTAMP WITH TIME ZONE,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_categories_user_id ON categories(user_id);
+CREATE INDEX IF NOT EXISTS idx_categories_updated_at ON categories(updated_at);
+
+ALTER TABLE categories ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own categories" ON categories FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can insert own categories" ON categories FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update own categories" ON categories FOR UPDATE USING (auth.uid() = user_id);
+
+-- =============================================
+-- VERIFICATION
+-- =============================================
+
+-- SELECT column_name, data_type
+-- FROM information_schema.columns
+-- WHERE table_name = 'categories' AND table_schema = 'public';
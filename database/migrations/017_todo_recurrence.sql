@@ -0,0 +1,20 @@
+-- Migration: Todo Recurrence
+-- Description: Adds the repeat rule to todos
+-- Date: 2026-10-19
+-- Purpose: Repeat a todo by an RRULE (RFC 5545) such as FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR
+
+-- =============================================
+-- TODOS TABLE UPDATES
+-- =============================================
+
+-- Completing a recurring todo creates the next occurrence, which takes the rule over
+ALTER TABLE todos
+  ADD COLUMN IF NOT EXISTS recurrence TEXT;
+
+-- =============================================
+-- VERIFICATION
+-- =============================================
+
+-- SELECT column_name, data_type
+-- FROM information_schema.columns
+-- WHERE table_name = 'todos' AND column_name = 'recurrence' AND table_schema = 'public';
@@ -0,0 +1,34 @@
+-- Migration: Todo Dates
+-- Description: Adds a due date and a scheduled day to todos
+-- Date: 2026-10-19
+-- Purpose: Group the todo list by when todos are due or planned instead of when they were created
+
+-- =============================================
+-- TODOS TABLE UPDATES
+-- =============================================
+
+-- Deadline; an open todo past it is overdue
+ALTER TABLE todos
+  ADD COLUMN IF NOT EXISTS due_at TIMESTAMP WITH TIME ZONE;
+
+-- Calendar day the todo is planned for; NULL means someday
+ALTER TABLE todos
+  ADD COLUMN IF NOT EXISTS scheduled_for DATE;
+
+-- =============================================
+-- USER SETTINGS UPDATES
+-- =============================================
+
+-- Move open todos scheduled for a past day to today
+ALTER TABLE user_settings
+  ADD COLUMN IF NOT EXISTS roll_over_todos BOOLEAN DEFAULT TRUE;
+
+-- =============================================
+-- VERIFICATION
+-- =============================================
+
+-- SELECT column_name, data_type
+-- FROM information_schema.columns
+-- WHERE table_schema = 'public'
+--   AND ((table_name = 'todos' AND column_name IN ('due_at', 'scheduled_for'))
+--     OR (table_name = 'user_settings' AND column_name = 'roll_over_todos'));
@@ -0,0 +1,64 @@
+-- Migration: Sync Cursor
+-- Description: Adds a server-maintained synced_at timestamp to every synced table
+-- Date: 2026-10-19
+-- Purpose: Pull incremental changes by when the server stored them, not by the client-set updated_at
+
+-- =============================================
+-- SYNCED_AT TRIGGER
+-- =============================================
+
+-- clock_timestamp() rather than NOW(), so rows written late in a long transaction
+-- are not stamped with the transaction's start
+CREATE OR REPLACE FUNCTION set_synced_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.synced_at = clock_timestamp();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================
+-- TABLE UPDATES
+-- =============================================
+
+ALTER TABLE todos
+  ADD COLUMN IF NOT EXISTS synced_at TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+ALTER TABLE sessions
+  ADD COLUMN IF NOT EXISTS synced_at TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+ALTER TABLE timer_presets
+  ADD COLUMN IF NOT EXISTS synced_at TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+ALTER TABLE categories
+  ADD COLUMN IF NOT EXISTS synced_at TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+
+DROP TRIGGER IF EXISTS todos_set_synced_at ON todos;
+CREATE TRIGGER todos_set_synced_at
+  BEFORE INSERT OR UPDATE ON todos
+  FOR EACH ROW EXECUTE FUNCTION set_synced_at();
+
+DROP TRIGGER IF EXISTS sessions_set_synced_at ON sessions;
+CREATE TRIGGER sessions_set_synced_at
+  BEFORE INSERT OR UPDATE ON sessions
+  FOR EACH ROW EXECUTE FUNCTION set_synced_at();
+
+DROP TRIGGER IF EXISTS timer_presets_set_synced_at ON timer_presets;
+CREATE TRIGGER timer_presets_set_synced_at
+  BEFORE INSERT OR UPDATE ON timer_presets
+  FOR EACH ROW EXECUTE FUNCTION set_synced_at();
+
+DROP TRIGGER IF EXISTS categories_set_synced_at ON categories;
+CREATE TRIGGER categories_set_synced_at
+  BEFORE INSERT OR UPDATE ON categories
+  FOR EACH ROW EXECUTE FUNCTION set_synced_at();
+
+CREATE INDEX IF NOT EXISTS idx_todos_synced_at ON todos(synced_at);
+CREATE INDEX IF NOT EXISTS idx_sessions_synced_at ON sessions(synced_at);
+CREATE INDEX IF NOT EXISTS idx_timer_presets_synced_at ON timer_presets(synced_at);
+CREATE INDEX IF NOT EXISTS idx_categories_synced_at ON categories(synced_at);
+
+-- =============================================
+-- VERIFICATION
+-- =============================================
+
+-- SELECT event_object_table, trigger_name
+-- FROM information_schema.triggers
+-- WHERE trigger_name LIKE '%_set_synced_at';
@@ -25,6 +25,20 @@ CREATE TABLE IF NOT EXISTS todos (
   "isCompleted" BOOLEAN DEFAULT FALSE,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   "completedAt" TIMESTAMP WITH TIME ZONE,
+  category TEXT,
+  priority INTEGER DEFAULT 0,
+  estimated_minutes INTEGER,
+  actual_minutes INTEGER DEFAULT 0,
+  reminder_at TIMESTAMP WITH TIME ZONE,
+  recurrence TEXT,
+  due_at TIMESTAMP WITH TIME ZONE,
+  scheduled_for DATE,
+  subtasks JSONB DEFAULT '[]'::jsonb,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  synced_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  version INTEGER DEFAULT 1,
+  field_timestamps JSONB DEFAULT '{}'::jsonb,
+  deleted_at TIMESTAMP WITH TIME ZONE,
   user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE
 );
 
@@ -35,6 +49,22 @@ CREATE TABLE IF NOT EXISTS sessions (
   duration INTEGER NOT NULL,
   type TEXT NOT NULL CHECK (type IN ('focus', 'break')),
   completed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  todo_id UUID REFERENCES todos(id) ON DELETE SET NULL,
+  todo_title TEXT,
+  start_time TIMESTAMP WITH TIME ZONE,
+  end_time TIMESTAMP WITH TIME ZONE,
+  session_number INTEGER,
+  is_completed BOOLEAN DEFAULT FALSE,
+  notes TEXT,
+  interruptions JSONB DEFAULT '[]'::jsonb,
+  pauses JSONB DEFAULT '[]'::jsonb,
+  focus_rating SMALLINT CHECK (focus_rating IS NULL OR focus_rating BETWEEN 1 AND 5),
+  outcome TEXT CHECK (outcome IS NULL OR outcome IN ('done', 'progress', 'stuck')),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  synced_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  version INTEGER DEFAULT 1,
+  field_timestamps JSONB DEFAULT '{}'::jsonb,
+  deleted_at TIMESTAMP WITH TIME ZONE,
   user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE
 );
 
@@ -44,23 +74,112 @@ CREATE TABLE IF NOT EXISTS user_settings (
   id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
   focus_duration INTEGER DEFAULT 25,
   break_duration INTEGER DEFAULT 5,
+  long_break_duration INTEGER DEFAULT 10,
+  sessions_before_long_break INTEGER DEFAULT 4 CHECK (sessions_before_long_break >= 1),
   notifications BOOLEAN DEFAULT TRUE,
+  auto_start_breaks BOOLEAN DEFAULT FALSE,
+  auto_start_focus BOOLEAN DEFAULT FALSE,
+  auto_start_delay INTEGER DEFAULT 5 CHECK (auto_start_delay >= 0),
+  flow_mode BOOLEAN DEFAULT FALSE,
+  flow_break_ratio INTEGER DEFAULT 5 CHECK (flow_break_ratio >= 0),
+  session_review BOOLEAN DEFAULT TRUE,
+  count_partial_sessions BOOLEAN DEFAULT FALSE,
+  roll_over_todos BOOLEAN DEFAULT TRUE,
   theme TEXT DEFAULT 'system',
   user_name TEXT,
   onboarding_completed BOOLEAN DEFAULT FALSE,
   has_pro_access BOOLEAN DEFAULT FALSE,
+  text_size TEXT DEFAULT 'medium',
+  device_name TEXT,
+  version INTEGER DEFAULT 1,
+  field_timestamps JSONB DEFAULT '{}'::jsonb,
+  category_presets JSONB DEFAULT '{}'::jsonb,
   user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE UNIQUE
 );
 
+-- Timer Presets Table
+-- Stores named focus/break profiles created by the user
+CREATE TABLE IF NOT EXISTS timer_presets (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  focus_duration INTEGER NOT NULL,
+  break_duration INTEGER NOT NULL,
+  long_break_duration INTEGER NOT NULL,
+  sessions_before_long_break INTEGER NOT NULL DEFAULT 4 CHECK (sessions_before_long_break >= 1),
+  flow_mode BOOLEAN DEFAULT FALSE,
+  flow_break_ratio INTEGER DEFAULT 5 CHECK (flow_break_ratio >= 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  synced_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  version INTEGER DEFAULT 1,
+  field_timestamps JSONB DEFAULT '{}'::jsonb,
+  deleted_at TIMESTAMP WITH TIME ZONE,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE
+);
+
+-- Categories Table
+-- Stores the user's todo categories; todos refer to them by name
+CREATE TABLE IF NOT EXISTS categories (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  color TEXT NOT NULL,
+  icon TEXT,
+  is_archived BOOLEAN DEFAULT FALSE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  synced_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  version INTEGER DEFAULT 1,
+  field_timestamps JSONB DEFAULT '{}'::jsonb,
+  deleted_at TIMESTAMP WITH TIME ZONE,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE
+);
+
 -- =============================================
 -- INDEXES
 -- =============================================
 CREATE INDEX IF NOT EXISTS idx_todos_user_id ON todos(user_id);
 CREATE INDEX IF NOT EXISTS idx_todos_created_at ON todos(created_at);
+CREATE INDEX IF NOT EXISTS idx_todos_updated_at ON todos(updated_at);
+CREATE INDEX IF NOT EXISTS idx_todos_category ON todos(category);
+CREATE INDEX IF NOT EXISTS idx_todos_priority ON todos(priority);
+CREATE INDEX IF NOT EXISTS idx_todos_reminder_at ON todos(reminder_at);
 CREATE INDEX IF NOT EXISTS idx_sessions_user_id ON sessions(user_id);
 CREATE INDEX IF NOT EXISTS idx_sessions_completed_at ON sessions(completed_at);
+CREATE INDEX IF NOT EXISTS idx_sessions_updated_at ON sessions(updated_at);
+CREATE INDEX IF NOT EXISTS idx_sessions_todo_id ON sessions(todo_id);
+CREATE INDEX IF NOT EXISTS idx_sessions_start_time ON sessions(start_time);
 CREATE INDEX IF NOT EXISTS idx_user_settings_user_id ON user_settings(user_id);
 CREATE INDEX IF NOT EXISTS idx_user_settings_has_pro_access ON user_settings(has_pro_access);
+CREATE INDEX IF NOT EXISTS idx_timer_presets_user_id ON timer_presets(user_id);
+CREATE INDEX IF NOT EXISTS idx_timer_presets_updated_at ON timer_presets(updated_at);
+CREATE INDEX IF NOT EXISTS idx_categories_user_id ON categories(user_id);
+CREATE INDEX IF NOT EXISTS idx_categories_updated_at ON categories(updated_at);
+CREATE INDEX IF NOT EXISTS idx_todos_synced_at ON todos(synced_at);
+CREATE INDEX IF NOT EXISTS idx_sessions_synced_at ON sessions(synced_at);
+CREATE INDEX IF NOT EXISTS idx_timer_presets_synced_at ON timer_presets(synced_at);
+CREATE INDEX IF NOT EXISTS idx_categories_synced_at ON categories(synced_at);
+
+-- =============================================
+-- TRIGGERS
+-- =============================================
+
+-- synced_at is set by the server on every write; clients pull changes by it
+CREATE OR REPLACE FUNCTION set_synced_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.synced_at = clock_timestamp();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER todos_set_synced_at BEFORE INSERT OR UPDATE ON todos
+  FOR EACH ROW EXECUTE FUNCTION set_synced_at();
+CREATE TRIGGER sessions_set_synced_at BEFORE INSERT OR UPDATE ON sessions
+  FOR EACH ROW EXECUTE FUNCTION set_synced_at();
+CREATE TRIGGER timer_presets_set_synced_at BEFORE INSERT OR UPDATE ON timer_presets
+  FOR EACH ROW EXECUTE FUNCTION set_synced_at();
+CREATE TRIGGER categories_set_synced_at BEFORE INSERT OR UPDATE ON categories
+  FOR EACH ROW EXECUTE FUNCTION set_synced_at();
 
 -- =============================================
 -- ROW LEVEL SECURITY
@@ -68,6 +187,8 @@ CREATE INDEX IF NOT EXISTS idx_user_settings_has_pro_access ON user_settings(has
 ALTER TABLE todos ENABLE ROW LEVEL SECURITY;
 ALTER TABLE sessions ENABLE ROW LEVEL SECURITY;
 ALTER TABLE user_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE timer_presets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE categories ENABLE ROW LEVEL SECURITY;
 
 -- =============================================
 -- POLICIES
@@ -82,8 +203,27 @@ CREATE POLICY IF NOT EXISTS "Users can delete own todos" ON todos FOR DELETE USI
 -- Sessions Policies
 CREATE POLICY IF NOT EXISTS "Users can view own sessions" ON sessions FOR SELECT USING (auth.uid() = user_id);
 CREATE POLICY IF NOT EXISTS "Users can insert own sessions" ON sessions FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY IF NOT EXISTS "Users can update own sessions" ON sessions FOR UPDATE USING (auth.uid() = user_id);
 
 -- User Settings Policies
 CREATE POLICY IF NOT EXISTS "Users can view own settings" ON user_settings FOR SELECT USING (auth.uid() = user_id);
 CREATE POLICY IF NOT EXISTS "Users can insert own settings" ON user_settings FOR INSERT WITH CHECK (auth.uid() = user_id);
 CREATE POLICY IF NOT EXISTS "Users can update own settings" ON user_settings FOR UPDATE USING (auth.uid() = user_id);
+
+-- Timer Presets Policies
+CREATE POLICY IF NOT EXISTS "Users can view own timer presets" ON timer_presets FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY IF NOT EXISTS "Users can insert own timer presets" ON timer_presets FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY IF NOT EXISTS "Users can update own timer presets" ON timer_presets FOR UPDATE USING (auth.uid() = user_id);
+
+-- Categories Policies
+CREATE POLICY IF NOT EXISTS "Users can view own categories" ON categories FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY IF NOT EXISTS "Users can insert own categories" ON categories FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY IF NOT EXISTS "Users can update own categories" ON categories FOR UPDATE USING (auth.uid() = user_id);
+
+-- =============================================
+-- REALTIME
+-- =============================================
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.todos, public.sessions;
+ALTER TABLE todos REPLICA IDENTITY FULL;
+ALTER TABLE sessions REPLICA IDENTITY FULL;
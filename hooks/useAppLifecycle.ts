@@ -4,69 +4,36 @@ import { usePomodoroStore } from '@/stores/pomodoro-store';
 import { useSettingsStore } from '@/stores/local-settings-store';
 import { useAuthStore } from '@/stores/auth-store';
 import { backgroundMetronomeService } from '@/services/background-metronome-service';
-import AsyncStorage from '@react-native-async-storage/async-storage';
-
-const TIMER_STATE_KEY = 'pomodoro_timer_state';
-
-interface TimerState {
-    timerStatus: 'idle' | 'running' | 'paused' | 'completed';
-    timerPhase: 'focus' | 'shortBreak' | 'longBreak';
-    timeLeft: number;
-    initialTime: number;
-    sessionStartTime: string | null;
-    backgroundTime: string | null; // When app went to background
-    currentSession: number;
-    totalSessions: number;
-    currentTodoId: string | null;
-    currentTodoTitle: string | null;
-}
+import { syncSchedulerService } from '@/services/sync-scheduler-service';
 
 /**
- * Hook to handle app lifecycle events and timer state persistence
- * Saves timer state when app goes to background and restores it when returning
+ * Hook to handle app lifecycle events for the timer
+ * The timer is driven by the wall clock and persisted by the pomodoro store, so
+ * returning to the foreground (or relaunching) only needs to catch the display
+ * up and complete a phase that ended in the meantime
  */
 export function useAppLifecycle() {
     const appState = useRef(AppState.currentState);
-    const {
-        timerStatus,
-        timerPhase,
-        timeLeft,
-        initialTime,
-        sessionStartTime,
-        currentSession,
-        totalSessions,
-        currentTodoId,
-        currentTodoTitle,
-        tick,
-        completeTimer,
-        completeBreak,
-        pauseTimer,
-        resumeTimer,
-    } = usePomodoroStore();
+    const { timerStatus, timerPhase } = usePomodoroStore();
+    const tick = usePomodoroStore((state) => state.tick);
 
-    const { focusDuration, breakDuration, soundEffects, notifications, metronome } =
-        useSettingsStore();
+    const { soundEffects, metronome } = useSettingsStore();
     const { refreshProStatus, isProUser } = useAuthStore();
 
-    // Save timer state to AsyncStorage
-    const saveTimerState = useCallback(async () => {
+    // Recompute the remaining time from the clock; completes the phase if it ended.
+    // Settings are read when it runs, so it stays the same function across renders.
+    const catchUpTimer = useCallback(() => {
+        const settings = useSettingsStore.getState();
+        tick(
+            settings.soundEffects,
+            settings.focusDuration,
+            settings.breakDuration,
+            settings.notifications,
+        );
+    }, [tick]);
+
+    const handleBackground = useCallback(async () => {
         try {
-            const timerState: TimerState = {
-                timerStatus,
-                timerPhase,
-                timeLeft,
-                initialTime,
-                sessionStartTime: sessionStartTime?.toISOString() || null,
-                backgroundTime: new Date().toISOString(),
-                currentSession,
-                totalSessions,
-                currentTodoId,
-                currentTodoTitle,
-            };
-
-            await AsyncStorage.setItem(TIMER_STATE_KEY, JSON.stringify(timerState));
-            console.log('Timer state saved to background:', timerState);
-
             // Start background metronome if enabled and timer is running
             if (timerStatus === 'running' && metronome && soundEffects) {
                 await backgroundMetronomeService.startBackgroundMetronome(
@@ -79,93 +46,26 @@ export function useAppLifecycle() {
                 await backgroundMetronomeService.stopBackgroundMetronome();
             }
         } catch (error) {
-            console.error('Failed to save timer state:', error);
+            console.error('Failed to update background metronome:', error);
         }
-    }, [
-        timerStatus,
-        timerPhase,
-        timeLeft,
-        initialTime,
-        sessionStartTime,
-        currentSession,
-        totalSessions,
-        currentTodoId,
-        currentTodoTitle,
-        metronome,
-        soundEffects,
-    ]);
-
-    // Load and restore timer state from AsyncStorage
-    const restoreTimerState = useCallback(async () => {
-        try {
-            const savedState = await AsyncStorage.getItem(TIMER_STATE_KEY);
-            if (!savedState) return;
-
-            const timerState: TimerState = JSON.parse(savedState);
-
-            // Only restore if timer was running when app went to background
-            if (timerState.timerStatus !== 'running' || !timerState.backgroundTime) {
-                await AsyncStorage.removeItem(TIMER_STATE_KEY);
-                return;
-            }
-
-            const backgroundTime = new Date(timerState.backgroundTime);
-            const currentTime = new Date();
-            const timeInBackground = Math.floor(
-                (currentTime.getTime() - backgroundTime.getTime()) / 1000,
-            );
-
-            // Calculate remaining time after background period
-            const remainingTime = Math.max(0, timerState.timeLeft - timeInBackground);
-
-            console.log('Restoring timer state:', {
-                originalTimeLeft: timerState.timeLeft,
-                timeInBackground,
-                remainingTime,
-                timerPhase: timerState.timerPhase,
-            });
-
-            // If timer should have completed while in background
-            if (remainingTime <= 0) {
-                console.log('Timer completed while in background');
+    }, [timerStatus, timerPhase, metronome, soundEffects]);
 
-                // Complete the timer
-                if (timerState.timerPhase === 'focus') {
-                    await completeTimer(soundEffects, focusDuration, breakDuration, notifications);
-                } else if (
-                    timerState.timerPhase === 'shortBreak' ||
-                    timerState.timerPhase === 'longBreak'
-                ) {
-                    await completeBreak(focusDuration, breakDuration);
-                }
-            } else {
-                // Restore timer with remaining time
-                usePomodoroStore.setState({
-                    timerStatus: 'running',
-                    timerPhase: timerState.timerPhase,
-                    timeLeft: remainingTime,
-                    initialTime: timerState.initialTime,
-                    sessionStartTime: timerState.sessionStartTime
-                        ? new Date(timerState.sessionStartTime)
-                        : null,
-                    currentSession: timerState.currentSession,
-                    totalSessions: timerState.totalSessions,
-                    currentTodoId: timerState.currentTodoId,
-                    currentTodoTitle: timerState.currentTodoTitle,
-                });
-
-                console.log('Timer restored with remaining time:', remainingTime, 'seconds');
-            }
-
-            // Clear saved state
-            await AsyncStorage.removeItem(TIMER_STATE_KEY);
+    const handleForeground = useCallback(async () => {
+        catchUpTimer();
 
+        try {
             // Stop background metronome when returning to foreground
             await backgroundMetronomeService.stopBackgroundMetronome();
         } catch (error) {
-            console.error('Failed to restore timer state:', error);
+            console.error('Failed to stop background metronome:', error);
         }
-    }, [completeTimer, completeBreak, soundEffects, focusDuration, breakDuration, notifications]);
+    }, [catchUpTimer]);
+
+    // A phase may have finished while the app was not running at all
+    // Runs once, as catchUpTimer is stable; later catch-ups happen on foreground and every tick
+    useEffect(() => {
+        catchUpTimer();
+    }, [catchUpTimer]);
 
     useEffect(() => {
         const handleAppStateChange = async (nextAppState: AppStateStatus) => {
@@ -173,23 +73,28 @@ export function useAppLifecycle() {
 
             if (appState.current.match(/inactive|background/) && nextAppState === 'active') {
                 // App has come to the foreground
-                console.log('App returned to foreground - restoring timer state');
-                await restoreTimerState();
-                
+                console.log('App returned to foreground - catching up timer');
+                await handleForeground();
+
+                // Pull changes from other devices and push anything pending
+                syncSchedulerService.onForeground();
+
                 // Check subscription status when app resumes (grace period handling)
                 if (isProUser) {
                     try {
                         console.log('[AppLifecycle] Checking subscription status on app resume');
                         await refreshProStatus();
                     } catch (error) {
-                        console.error('[AppLifecycle] Failed to refresh subscription status:', error);
+                        console.error(
+                            '[AppLifecycle] Failed to refresh subscription status:',
+                            error,
+                        );
                         // Don't block app functionality if subscription check fails
                     }
                 }
             } else if (nextAppState.match(/inactive|background/)) {
                 // App has gone to the background
-                console.log('App went to background - saving timer state');
-                await saveTimerState();
+                await handleBackground();
             }
 
             appState.current = nextAppState;
@@ -200,12 +105,5 @@ export function useAppLifecycle() {
         return () => {
             subscription?.remove();
         };
-    }, [saveTimerState, restoreTimerState]);
-
-    // Clean up saved state on unmount
-    useEffect(() => {
-        return () => {
-            AsyncStorage.removeItem(TIMER_STATE_KEY).catch(console.error);
-        };
-    }, []);
+    }, [handleForeground, handleBackground, isProUser, refreshProStatus]);
 }
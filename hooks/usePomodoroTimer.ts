@@ -14,6 +14,11 @@ let globalPomodoroInterval: ReturnType<typeof setInterval> | null = null;
  */
 export function usePomodoroTimer(soundEnabled: boolean) {
     const { timerStatus, tick } = usePomodoroStore();
+    // An idle phase waiting to auto-start, or a completed focus session waiting for its
+    // break, still needs ticks to move on
+    const isPhaseChangePending = usePomodoroStore(
+        (state) => state.autoStartAt !== null || state.breakHandOff !== null,
+    );
     const { metronome, metronomeVolume, focusDuration, breakDuration, notifications } =
         useSettingsStore();
     const intervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
@@ -123,6 +128,12 @@ export function usePomodoroTimer(soundEnabled: boolean) {
                 }, 1000);
                 intervalRef.current = newInterval;
                 globalPomodoroInterval = newInterval;
+            } else if (isPhaseChangePending) {
+                const newInterval = setInterval(() => {
+                    tick(soundEnabledRef.current, focusDuration, breakDuration, notifications);
+                }, 1000);
+                intervalRef.current = newInterval;
+                globalPomodoroInterval = newInterval;
             }
         };
 
@@ -141,7 +152,7 @@ export function usePomodoroTimer(soundEnabled: boolean) {
             // Stop metronome sound on cleanup (async but no await in cleanup)
             stopMetronomeSound().catch(console.error);
         };
-    }, [timerStatus, tick]);
+    }, [timerStatus, isPhaseChangePending, tick]);
 
     // Cleanup metronome player on unmount
     useEffect(() => {
@@ -0,0 +1,43 @@
+import { useEffect } from 'react';
+import { useRouter } from 'expo-router';
+import { notificationService } from '@/services/notification-service';
+import { usePomodoroStore } from '@/stores/pomodoro-store';
+import { useTodoStore } from '@/stores/todo-store';
+import { addDays } from '@/utils/dateUtils';
+
+const MINUTE = 60 * 1000;
+
+/**
+ * Hook to carry out the buttons pressed on todo reminder notifications
+ * Snoozes move the todo's reminder; start focus opens the timer with the todo selected
+ */
+export function useTodoReminderActions() {
+    const router = useRouter();
+
+    useEffect(() => {
+        return notificationService.onTodoReminderAction((action, reminder) => {
+            const { snoozeReminder } = useTodoStore.getState();
+            const now = Date.now();
+
+            switch (action) {
+                case 'snooze_10_min':
+                    snoozeReminder(reminder.todoId, new Date(now + 10 * MINUTE));
+                    break;
+                case 'snooze_1_hour':
+                    snoozeReminder(reminder.todoId, new Date(now + 60 * MINUTE));
+                    break;
+                case 'snooze_tomorrow': {
+                    // Same time of day as the original reminder
+                    const tomorrow = addDays(new Date(now), 1);
+                    tomorrow.setHours(reminder.at.getHours(), reminder.at.getMinutes(), 0, 0);
+                    snoozeReminder(reminder.todoId, tomorrow);
+                    break;
+                }
+                case 'start_focus':
+                    usePomodoroStore.getState().selectTodo(reminder.todoId, reminder.title);
+                    router.push('/(tabs)/pomodoro');
+                    break;
+            }
+        });
+    }, [router]);
+}
@@ -0,0 +1,307 @@
+import TypographyText from '@/components/TypographyText';
+import { Button } from '@/components/ui/Button';
+import { HStack } from '@/components/ui/HStack';
+import { VStack } from '@/components/ui/VStack';
+import { SPACING } from '@/constants/spacing';
+import { useColorTheme } from '@/hooks/useColorTheme';
+import { Category } from '@/services/local-database-service';
+import { useCategoryStore } from '@/stores/category-store';
+import { Ionicons } from '@expo/vector-icons';
+import React, { useEffect, useState } from 'react';
+import { Alert, ScrollView, TextInput, TouchableOpacity, View } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+
+const CATEGORY_COLORS = [
+    '#A3E635', // lime-400
+    '#D4D4D8', // zinc-300
+    '#93C5FD', // blue-300
+    '#FCA5A5', // red-300
+    '#FDBA74', // orange-300
+    '#FDE047', // yellow-300
+    '#86EFAC', // green-300
+    '#C4B5FD', // violet-300
+    '#F9A8D4', // pink-300
+];
+
+const CATEGORY_ICONS: (keyof typeof Ionicons.glyphMap)[] = [
+    'pricetag-outline',
+    'briefcase-outline',
+    'fitness-outline',
+    'leaf-outline',
+    'book-outline',
+    'code-slash-outline',
+    'home-outline',
+    'cart-outline',
+    'musical-notes-outline',
+    'people-outline',
+];
+
+const CategoryRow: React.FC<{
+    category: Category;
+    onPress?: () => void;
+    onArchive: () => void;
+    onDelete: () => void;
+}> = ({ category, onPress, onArchive, onDelete }) => {
+    const colors = useColorTheme();
+    return (
+        <TouchableOpacity onPress={onPress} disabled={!onPress} activeOpacity={0.7}>
+            <HStack
+                alignItems="center"
+                gap="unit-3"
+                style={{
+                    paddingVertical: SPACING['unit-3'],
+                    borderBottomWidth: 1,
+                    borderBottomColor: colors.surfacePrimary,
+                }}
+            >
+                <Ionicons
+                    name={(category.icon ?? 'pricetag-outline') as keyof typeof Ionicons.glyphMap}
+                    size={18}
+                    color={category.color}
+                />
+                <TypographyText
+                    variant="body"
+                    weight="semibold"
+                    numberOfLines={1}
+                    style={{
+                        flex: 1,
+                        color: category.isArchived
+                            ? colors.contentSecondary
+                            : colors.contentPrimary,
+                    }}
+                >
+                    {category.name}
+                </TypographyText>
+                <TouchableOpacity onPress={onArchive} hitSlop={8}>
+                    <Ionicons
+                        name={category.isArchived ? 'arrow-undo-outline' : 'archive-outline'}
+                        size={18}
+                        color={colors.contentSecondary}
+                    />
+                </TouchableOpacity>
+                <TouchableOpacity onPress={onDelete} hitSlop={8}>
+                    <Ionicons name="trash-outline" size={18} color={colors.danger} />
+                </TouchableOpacity>
+            </HStack>
+        </TouchableOpacity>
+    );
+};
+
+/**
+ * Add, edit, archive and delete the categories todos are filed under
+ */
+const CategoriesScreen = () => {
+    const colors = useColorTheme();
+    const {
+        categories,
+        loadCategories,
+        createCategory,
+        updateCategory,
+        setCategoryArchived,
+        deleteCategory,
+    } = useCategoryStore();
+
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [name, setName] = useState('');
+    const [color, setColor] = useState(CATEGORY_COLORS[0]);
+    const [icon, setIcon] = useState<string>(CATEGORY_ICONS[0]);
+
+    useEffect(() => {
+        loadCategories();
+    }, [loadCategories]);
+
+    const activeCategories = categories.filter((category) => !category.isArchived);
+    const archivedCategories = categories.filter((category) => category.isArchived);
+
+    const resetForm = () => {
+        setEditingId(null);
+        setName('');
+        setColor(CATEGORY_COLORS[0]);
+        setIcon(CATEGORY_ICONS[0]);
+    };
+
+    const startEditing = (category: Category) => {
+        setEditingId(category.id);
+        setName(category.name);
+        setColor(category.color);
+        setIcon(category.icon ?? CATEGORY_ICONS[0]);
+    };
+
+    const handleSave = async () => {
+        if (!name.trim()) return;
+
+        if (editingId) {
+            await updateCategory(editingId, { name, color, icon });
+        } else {
+            await createCategory({ name, color, icon });
+        }
+        resetForm();
+    };
+
+    const handleDelete = (category: Category) => {
+        Alert.alert(
+            'Delete Category',
+            `Delete "${category.name}"? Its todos will be left without a category.`,
+            [
+                { text: 'Cancel', style: 'cancel' },
+                {
+                    text: 'Delete',
+                    style: 'destructive',
+                    onPress: () => {
+                        if (editingId === category.id) resetForm();
+                        deleteCategory(category.id);
+                    },
+                },
+            ],
+        );
+    };
+
+    return (
+        <SafeAreaView style={{ flex: 1, backgroundColor: colors.backgroundPrimary }}>
+            <ScrollView
+                contentContainerStyle={{
+                    paddingTop: SPACING['unit-8'],
+                    paddingBottom: SPACING['unit-16'],
+                    paddingHorizontal: SPACING['unit-5'],
+                }}
+                keyboardShouldPersistTaps="handled"
+                style={{ flex: 1 }}
+            >
+                <VStack gap="unit-5">
+                    <VStack gap="unit-1">
+                        <TypographyText variant="title">Categories</TypographyText>
+                        <TypographyText variant="body" size="sm" color="secondary">
+                            Renaming a category moves its todos along with it.
+                        </TypographyText>
+                    </VStack>
+
+                    <VStack
+                        gap="unit-3"
+                        style={{
+                            backgroundColor: colors.backgroundSecondary,
+                            padding: SPACING['unit-4'],
+                            borderRadius: 16,
+                        }}
+                    >
+                        <TextInput
+                            value={name}
+                            onChangeText={setName}
+                            placeholder="Category name"
+                            placeholderTextColor={colors.contentSecondary}
+                            returnKeyType="done"
+                            onSubmitEditing={handleSave}
+                            style={{
+                                color: colors.contentPrimary,
+                                fontSize: 16,
+                                paddingVertical: SPACING['unit-2'],
+                                borderBottomWidth: 1,
+                                borderBottomColor: colors.surfacePrimary,
+                            }}
+                        />
+                        <HStack gap="unit-2" style={{ flexWrap: 'wrap' }}>
+                            {CATEGORY_COLORS.map((option) => (
+                                <TouchableOpacity
+                                    key={option}
+                                    onPress={() => setColor(option)}
+                                    accessibilityLabel={`Color ${option}`}
+                                    style={{
+                                        width: 28,
+                                        height: 28,
+                                        borderRadius: 14,
+                                        backgroundColor: option,
+                                        borderWidth: 2,
+                                        borderColor:
+                                            color === option
+                                                ? colors.contentPrimary
+                                                : 'transparent',
+                                    }}
+                                />
+                            ))}
+                        </HStack>
+                        <HStack gap="unit-2" style={{ flexWrap: 'wrap' }}>
+                            {CATEGORY_ICONS.map((option) => (
+                                <TouchableOpacity
+                                    key={option}
+                                    onPress={() => setIcon(option)}
+                                    style={{
+                                        width: 36,
+                                        height: 36,
+                                        borderRadius: 8,
+                                        alignItems: 'center',
+                                        justifyContent: 'center',
+                                        borderWidth: 1,
+                                        borderColor:
+                                            icon === option ? color : colors.surfacePrimary,
+                                    }}
+                                >
+                                    <Ionicons
+                                        name={option}
+                                        size={18}
+                                        color={icon === option ? color : colors.contentSecondary}
+                                    />
+                                </TouchableOpacity>
+                            ))}
+                        </HStack>
+                        <HStack gap="unit-2">
+                            {editingId ? (
+                                <Button variant="light" onPress={resetForm} style={{ flex: 1 }}>
+                                    <TypographyText variant="body" weight="semibold">
+                                        Cancel
+                                    </TypographyText>
+                                </Button>
+                            ) : null}
+                            <Button
+                                onPress={handleSave}
+                                isDisabled={!name.trim()}
+                                style={{ flex: 1 }}
+                            >
+                                <TypographyText
+                                    variant="body"
+                                    weight="semibold"
+                                    style={{ color: colors.backgroundPrimary }}
+                                >
+                                    {editingId ? 'Save Changes' : 'Add Category'}
+                                </TypographyText>
+                            </Button>
+                        </HStack>
+                    </VStack>
+
+                    <View>
+                        {activeCategories.map((category) => (
+                            <CategoryRow
+                                key={category.id}
+                                category={category}
+                                onPress={() => startEditing(category)}
+                                onArchive={() => setCategoryArchived(category.id, true)}
+                                onDelete={() => handleDelete(category)}
+                            />
+                        ))}
+                        {activeCategories.length === 0 ? (
+                            <TypographyText variant="body" color="secondary">
+                                No categories yet.
+                            </TypographyText>
+                        ) : null}
+                    </View>
+
+                    {archivedCategories.length > 0 ? (
+                        <VStack gap="unit-1">
+                            <TypographyText variant="label" color="secondary">
+                                Archived
+                            </TypographyText>
+                            {archivedCategories.map((category) => (
+                                <CategoryRow
+                                    key={category.id}
+                                    category={category}
+                                    onArchive={() => setCategoryArchived(category.id, false)}
+                                    onDelete={() => handleDelete(category)}
+                                />
+                            ))}
+                        </VStack>
+                    ) : null}
+                </VStack>
+            </ScrollView>
+        </SafeAreaView>
+    );
+};
+
+export default CategoriesScreen;
@@ -0,0 +1,3 @@
+import CategoriesScreen from './categories-screen';
+
+export default CategoriesScreen;
@@ -4,6 +4,7 @@ import { useCategoryStore } from '@/stores/category-store';
 import { Subtask } from '@/services/local-database-service';
 import { useColorTheme } from '@/hooks/useColorTheme';
 import { Ionicons } from '@expo/vector-icons';
+import DateTimePicker, { DateTimePickerEvent } from '@react-native-community/datetimepicker';
 import { router, useLocalSearchParams } from 'expo-router';
 import React, { useEffect, useMemo, useState } from 'react';
 import {
@@ -21,33 +22,136 @@ import { SPACING } from '@/constants/spacing';
 import { HStack } from '@/components/ui/HStack';
 import { VStack } from '@/components/ui/VStack';
 import { Button } from '@/components/ui/Button';
+import { addDays, formatShortDate, parseDateKey, toDateKey } from '@/utils/dateUtils';
+import { PRIORITY_LEVELS } from '@/utils/priority';
+import {
+    describeRecurrence,
+    formatRecurrence,
+    parseRecurrence,
+    WEEKDAYS,
+} from '@/utils/recurrence';
+
+// Estimate choices in minutes; the timer plans focus sessions from them
+const ESTIMATE_OPTIONS = [15, 30, 45, 60, 90, 120];
+
+const formatEstimate = (minutes: number): string =>
+    minutes < 60 ? `${minutes}m` : `${minutes / 60}h`;
+
+/**
+ * Quick picks for the day a todo is planned for; null leaves it for someday
+ */
+const getScheduleOptions = (today: Date): { label: string; value: string | null }[] => [
+    { label: 'Today', value: toDateKey(today) },
+    { label: 'Tomorrow', value: toDateKey(addDays(today, 1)) },
+    // The coming Monday
+    { label: 'Next Week', value: toDateKey(addDays(today, (8 - today.getDay()) % 7 || 7)) },
+    { label: 'Someday', value: null },
+];
+
+type RepeatOption = 'none' | 'daily' | 'weekdays' | 'days' | 'weeks' | 'monthly' | 'custom';
+
+const REPEAT_OPTIONS: { value: RepeatOption; label: string }[] = [
+    { value: 'none', label: 'Never' },
+    { value: 'daily', label: 'Daily' },
+    { value: 'weekdays', label: 'Weekdays' },
+    { value: 'days', label: 'Every N days' },
+    { value: 'weeks', label: 'Every N weeks' },
+    { value: 'monthly', label: 'Monthly' },
+    { value: 'custom', label: 'Custom' },
+];
+
+const WEEKDAYS_RULE = 'FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR';
+
+/**
+ * The RRULE for a repeat choice. Weekly and monthly rules keep to the weekday and
+ * day of the month of `anchor`.
+ */
+const buildRepeatRule = (
+    option: RepeatOption,
+    interval: number,
+    anchor: Date,
+    customRule: string,
+): string | null => {
+    switch (option) {
+        case 'none':
+            return null;
+        case 'daily':
+            return formatRecurrence({ freq: 'DAILY', interval: 1 });
+        case 'weekdays':
+            return WEEKDAYS_RULE;
+        case 'days':
+            return formatRecurrence({ freq: 'DAILY', interval });
+        case 'weeks':
+            return formatRecurrence({
+                freq: 'WEEKLY',
+                interval,
+                byDay: [{ weekday: WEEKDAYS[anchor.getDay()] }],
+            });
+        case 'monthly':
+            return formatRecurrence({
+                freq: 'MONTHLY',
+                interval: 1,
+                byMonthDay: [anchor.getDate()],
+            });
+        case 'custom':
+            return customRule.trim() || null;
+    }
+};
+
+/**
+ * The repeat choice a saved rule was made with; anything the presets cannot
+ * reproduce is shown as a custom rule
+ */
+const getRepeatOption = (rule?: string | null): { option: RepeatOption; interval: number } => {
+    if (!rule) return { option: 'none', interval: 1 };
+
+    const parsed = parseRecurrence(rule);
+    if (!parsed || parsed.count !== undefined || parsed.until || parsed.byMonth) {
+        return { option: 'custom', interval: 1 };
+    }
+
+    const { freq, interval, byDay, byMonthDay } = parsed;
+    if (rule === WEEKDAYS_RULE) return { option: 'weekdays', interval: 1 };
+    if (freq === 'DAILY' && !byDay && !byMonthDay) {
+        return { option: interval === 1 ? 'daily' : 'days', interval };
+    }
+    if (freq === 'WEEKLY' && byDay?.length === 1 && !byMonthDay) {
+        return { option: 'weeks', interval };
+    }
+    if (freq === 'MONTHLY' && interval === 1 && byMonthDay?.length === 1 && !byDay) {
+        return { option: 'monthly', interval: 1 };
+    }
+    return { option: 'custom', interval: 1 };
+};
+
 const CreateTodoScreen = () => {
     const colors = useColorTheme();
     const insets = useSafeAreaInsets();
     const { createTodo, updateTodo, todos } = useUnifiedTodoStore();
-    const { categories } = useCategoryStore();
+    const { categories, isLoaded: categoriesLoaded, loadCategories } = useCategoryStore();
     const { todoId } = useLocalSearchParams<{ todoId?: string }>();
 
     // Check if we're editing an existing todo
     const isEditing = Boolean(todoId);
     const existingTodo = isEditing ? todos.find((todo) => todo.id === todoId) : null;
 
-    // Safely extract local properties with type assertion
-    const todoWithLocalProps = existingTodo as typeof existingTodo & {
-        category?: string;
-        reminderAt?: string | null;
-        subtasks?: Subtask[];
-    };
-
     const [title, setTitle] = useState(existingTodo?.title ?? '');
-    const [selectedCategory, setSelectedCategory] = useState<string>(
-        todoWithLocalProps?.category ?? '',
-    );
+    const [selectedCategory, setSelectedCategory] = useState<string>(existingTodo?.category ?? '');
     const [isLoading, setIsLoading] = useState(false);
-    const [reminderAt, setReminderAt] = useState<string | null>(
-        todoWithLocalProps?.reminderAt ?? null,
+    const [reminderAt, setReminderAt] = useState<string | null>(existingTodo?.reminderAt ?? null);
+    // New todos are planned for today unless moved
+    const [scheduledFor, setScheduledFor] = useState<string | null>(
+        isEditing ? (existingTodo?.scheduledFor ?? null) : toDateKey(new Date()),
+    );
+    const [dueAt, setDueAt] = useState<string | null>(existingTodo?.dueAt ?? null);
+    const [datePicker, setDatePicker] = useState<
+        'scheduled' | 'due' | 'reminder' | 'reminderTime' | null
+    >(null);
+    const [priority, setPriority] = useState(existingTodo?.priority ?? 0);
+    const [estimatedMinutes, setEstimatedMinutes] = useState<number | null>(
+        existingTodo?.estimatedMinutes ?? null,
     );
-    const existingSubtasks = (todoWithLocalProps?.subtasks ?? []) as Subtask[];
+    const existingSubtasks = (existingTodo?.subtasks ?? []) as Subtask[];
     const [enableSubtasks, setEnableSubtasks] = useState(
         Array.isArray(existingSubtasks) && existingSubtasks.length > 0,
     );
@@ -55,19 +159,41 @@ const CreateTodoScreen = () => {
     const [subtasks, setSubtasks] = useState<Subtask[]>(
         existingSubtasks.map((s: Subtask) => ({ ...s })),
     );
+    const [repeatOption, setRepeatOption] = useState<RepeatOption>(
+        () => getRepeatOption(existingTodo?.recurrence).option,
+    );
+    const [repeatInterval, setRepeatInterval] = useState(
+        () => getRepeatOption(existingTodo?.recurrence).interval,
+    );
+    const [customRule, setCustomRule] = useState(existingTodo?.recurrence ?? '');
+    // An untouched rule is saved as it was, so editing on another day keeps its weekday
+    const [isRepeatEdited, setIsRepeatEdited] = useState(false);
+
+    useEffect(() => {
+        if (!categoriesLoaded) loadCategories();
+    }, [categoriesLoaded, loadCategories]);
+
+    // Archived categories are only offered to the todos already in them
+    const categoryOptions = categories.filter(
+        (category) => !category.isArchived || category.name === selectedCategory,
+    );
 
     // Update form when editing existing todo
     useEffect(() => {
         if (existingTodo) {
             setTitle(existingTodo.title ?? '');
-            const todo = existingTodo as typeof existingTodo & {
-                category?: string;
-                reminderAt?: string | null;
-                subtasks?: Subtask[];
-            };
-            setSelectedCategory(todo.category ?? '');
-            setReminderAt(todo.reminderAt ?? null);
-            setSubtasks(Array.isArray(todo.subtasks) ? todo.subtasks : []);
+            setSelectedCategory(existingTodo.category ?? '');
+            setReminderAt(existingTodo.reminderAt ?? null);
+            setScheduledFor(existingTodo.scheduledFor ?? null);
+            setDueAt(existingTodo.dueAt ?? null);
+            setPriority(existingTodo.priority ?? 0);
+            setEstimatedMinutes(existingTodo.estimatedMinutes ?? null);
+            setSubtasks(Array.isArray(existingTodo.subtasks) ? existingTodo.subtasks : []);
+            const repeat = getRepeatOption(existingTodo.recurrence);
+            setRepeatOption(repeat.option);
+            setRepeatInterval(repeat.interval);
+            setCustomRule(existingTodo.recurrence ?? '');
+            setIsRepeatEdited(false);
         }
     }, [existingTodo]);
 
@@ -81,6 +207,56 @@ const CreateTodoScreen = () => {
         }
     }, [reminderAt]);
 
+    const scheduleOptions = getScheduleOptions(new Date());
+    const isCustomSchedule =
+        !!scheduledFor && !scheduleOptions.some((option) => option.value === scheduledFor);
+
+    // Repeats keep to the todo's own dates
+    const repeatTimestamp = reminderAt ?? dueAt;
+    const repeatAnchor = repeatTimestamp
+        ? new Date(repeatTimestamp)
+        : scheduledFor
+          ? parseDateKey(scheduledFor)
+          : new Date();
+    const repeatRule = isRepeatEdited
+        ? buildRepeatRule(repeatOption, repeatInterval, repeatAnchor, customRule)
+        : (existingTodo?.recurrence ?? null);
+    const isRepeatValid = !repeatRule || parseRecurrence(repeatRule) !== null;
+
+    const editRepeat = (option: RepeatOption, interval: number = repeatInterval) => {
+        setRepeatOption(option);
+        setRepeatInterval(Math.max(1, interval));
+        setIsRepeatEdited(true);
+    };
+
+    const handleDatePicked = (event: DateTimePickerEvent, date?: Date) => {
+        const target = datePicker;
+        // The iOS time spinner reports every turn, so it stays open until Done
+        if (target !== 'reminderTime' || Platform.OS !== 'ios') setDatePicker(null);
+        if (event.type !== 'set' || !date) return;
+
+        if (target === 'due') {
+            // Due by the end of the chosen day
+            const endOfDay = new Date(date);
+            endOfDay.setHours(23, 59, 59, 999);
+            setDueAt(endOfDay.toISOString());
+        } else if (target === 'reminder') {
+            // Keep the time already chosen, or start from the next full hour, then ask for it
+            const time = reminderAt ? new Date(reminderAt) : new Date();
+            if (!reminderAt) time.setHours(time.getHours() + 1, 0);
+            const next = new Date(date);
+            next.setHours(time.getHours(), time.getMinutes(), 0, 0);
+            setReminderAt(next.toISOString());
+            setDatePicker('reminderTime');
+        } else if (target === 'reminderTime') {
+            const next = reminderAt ? new Date(reminderAt) : new Date();
+            next.setHours(date.getHours(), date.getMinutes(), 0, 0);
+            setReminderAt(next.toISOString());
+        } else {
+            setScheduledFor(toDateKey(date));
+        }
+    };
+
     const handleAddSubtask = () => {
         const trimmed = newSubtask.trim();
         if (!trimmed) return;
@@ -102,7 +278,7 @@ const CreateTodoScreen = () => {
     };
 
     const handleSaveTodo = async () => {
-        if (!title.trim()) return;
+        if (!title.trim() || !isRepeatValid) return;
 
         console.log('subtasks', subtasks);
         setIsLoading(true);
@@ -113,7 +289,12 @@ const CreateTodoScreen = () => {
                     title: title.trim(),
                     category: selectedCategory || undefined,
                     reminderAt: reminderAt || null,
+                    scheduledFor,
+                    dueAt,
+                    priority,
+                    estimatedMinutes: estimatedMinutes ?? undefined,
                     subtasks: enableSubtasks ? subtasks : [],
+                    ...(isRepeatEdited ? { recurrence: repeatRule } : {}),
                 });
             } else {
                 // Create new todo
@@ -124,11 +305,14 @@ const CreateTodoScreen = () => {
                     isCompleted: false,
                     completedAt: null,
                     category: selectedCategory || undefined,
-                    priority: 0,
-                    estimatedMinutes: undefined,
+                    priority,
+                    estimatedMinutes: estimatedMinutes ?? undefined,
                     reminderAt: reminderAt || null,
+                    scheduledFor,
+                    dueAt,
+                    recurrence: repeatRule,
                     subtasks: enableSubtasks ? subtasks : [],
-                } as any);
+                });
             }
 
             // Reset form and navigate back
@@ -194,11 +378,6 @@ const CreateTodoScreen = () => {
                                 autoFocus={true}
                                 multiline
                             />
-                            {!!formattedReminder && (
-                                <TypographyText variant="caption" color="default">
-                                    {formattedReminder}
-                                </TypographyText>
-                            )}
 
                             {/* Subtasks toggle and list */}
                             <HStack alignItems="center" gap="md">
@@ -308,13 +487,13 @@ const CreateTodoScreen = () => {
                             {/* Category Selection */}
                             <VStack gap="xs">
                                 <HStack mt="sm" gap="sm" style={{ flexWrap: 'wrap' }}>
-                                    {categories.map(({ key, label, color }) => {
-                                        const isActive = selectedCategory === label;
+                                    {categoryOptions.map(({ id, name, color }) => {
+                                        const isActive = selectedCategory === name;
                                         return (
                                             <TouchableOpacity
-                                                key={label}
+                                                key={id}
                                                 onPress={() =>
-                                                    setSelectedCategory(isActive ? '' : label)
+                                                    setSelectedCategory(isActive ? '' : name)
                                                 }
                                                 style={{
                                                     paddingHorizontal: 12,
@@ -327,6 +506,287 @@ const CreateTodoScreen = () => {
                                                         ? color
                                                         : colors.contentSecondary,
                                                 }}
+                                            >
+                                                <Text
+                                                    style={{
+                                                        color: isActive
+                                                            ? colors.backgroundPrimary
+                                                            : colors.contentPrimary,
+                                                        fontWeight: '700',
+                                                        fontSize: 12,
+                                                    }}
+                                                >
+                                                    {name}
+                                                </Text>
+                                            </TouchableOpacity>
+                                        );
+                                    })}
+                                </HStack>
+                            </VStack>
+
+                            {/* Scheduled day and due date */}
+                            <VStack gap="xs">
+                                <TypographyText variant="caption" color="default">
+                                    When
+                                </TypographyText>
+                                <HStack gap="sm" style={{ flexWrap: 'wrap' }}>
+                                    {scheduleOptions.map(({ label, value }) => {
+                                        const isActive = scheduledFor === value;
+                                        return (
+                                            <TouchableOpacity
+                                                key={label}
+                                                onPress={() => setScheduledFor(value)}
+                                                style={{
+                                                    paddingHorizontal: 12,
+                                                    paddingVertical: 8,
+                                                    backgroundColor: isActive
+                                                        ? colors.contentPrimary
+                                                        : colors.surfacePrimary,
+                                                    borderWidth: 1,
+                                                    borderColor: isActive
+                                                        ? colors.contentPrimary
+                                                        : colors.contentSecondary,
+                                                }}
+                                            >
+                                                <Text
+                                                    style={{
+                                                        color: isActive
+                                                            ? colors.backgroundPrimary
+                                                            : colors.contentPrimary,
+                                                        fontWeight: '700',
+                                                        fontSize: 12,
+                                                    }}
+                                                >
+                                                    {label}
+                                                </Text>
+                                            </TouchableOpacity>
+                                        );
+                                    })}
+                                    <TouchableOpacity
+                                        onPress={() => setDatePicker('scheduled')}
+                                        style={{
+                                            paddingHorizontal: 12,
+                                            paddingVertical: 8,
+                                            backgroundColor: isCustomSchedule
+                                                ? colors.contentPrimary
+                                                : colors.surfacePrimary,
+                                            borderWidth: 1,
+                                            borderColor: isCustomSchedule
+                                                ? colors.contentPrimary
+                                                : colors.contentSecondary,
+                                        }}
+                                    >
+                                        <Text
+                                            style={{
+                                                color: isCustomSchedule
+                                                    ? colors.backgroundPrimary
+                                                    : colors.contentPrimary,
+                                                fontWeight: '700',
+                                                fontSize: 12,
+                                            }}
+                                        >
+                                            {isCustomSchedule && scheduledFor
+                                                ? formatShortDate(parseDateKey(scheduledFor))
+                                                : 'Pick Date'}
+                                        </Text>
+                                    </TouchableOpacity>
+                                </HStack>
+                                <HStack alignItems="center" gap="sm">
+                                    <TouchableOpacity onPress={() => setDatePicker('due')}>
+                                        <HStack alignItems="center" gap="xs">
+                                            <Ionicons
+                                                name="flag-outline"
+                                                size={16}
+                                                color={colors.contentSecondary}
+                                            />
+                                            <TypographyText variant="caption" color="default">
+                                                {dueAt
+                                                    ? `Due ${formatShortDate(new Date(dueAt))}`
+                                                    : 'Add due date'}
+                                            </TypographyText>
+                                        </HStack>
+                                    </TouchableOpacity>
+                                    {dueAt ? (
+                                        <TouchableOpacity onPress={() => setDueAt(null)}>
+                                            <Ionicons
+                                                name="close-circle"
+                                                size={16}
+                                                color={colors.contentSecondary}
+                                            />
+                                        </TouchableOpacity>
+                                    ) : null}
+                                </HStack>
+                                <HStack alignItems="center" gap="sm">
+                                    <TouchableOpacity onPress={() => setDatePicker('reminder')}>
+                                        <HStack alignItems="center" gap="xs">
+                                            <Ionicons
+                                                name="notifications-outline"
+                                                size={16}
+                                                color={colors.contentSecondary}
+                                            />
+                                            <TypographyText variant="caption" color="default">
+                                                {formattedReminder || 'Remind me'}
+                                            </TypographyText>
+                                        </HStack>
+                                    </TouchableOpacity>
+                                    {reminderAt ? (
+                                        <TouchableOpacity onPress={() => setReminderAt(null)}>
+                                            <Ionicons
+                                                name="close-circle"
+                                                size={16}
+                                                color={colors.contentSecondary}
+                                            />
+                                        </TouchableOpacity>
+                                    ) : null}
+                                    {datePicker === 'reminderTime' && Platform.OS === 'ios' ? (
+                                        <TouchableOpacity onPress={() => setDatePicker(null)}>
+                                            <TypographyText variant="caption" weight="semibold">
+                                                Done
+                                            </TypographyText>
+                                        </TouchableOpacity>
+                                    ) : null}
+                                </HStack>
+                                {datePicker ? (
+                                    <DateTimePicker
+                                        mode={datePicker === 'reminderTime' ? 'time' : 'date'}
+                                        display={
+                                            Platform.OS !== 'ios'
+                                                ? 'default'
+                                                : datePicker === 'reminderTime'
+                                                  ? 'spinner'
+                                                  : 'inline'
+                                        }
+                                        value={
+                                            datePicker === 'due' && dueAt
+                                                ? new Date(dueAt)
+                                                : datePicker === 'scheduled' && scheduledFor
+                                                  ? parseDateKey(scheduledFor)
+                                                  : datePicker.startsWith('reminder') && reminderAt
+                                                    ? new Date(reminderAt)
+                                                    : new Date()
+                                        }
+                                        onChange={handleDatePicked}
+                                    />
+                                ) : null}
+                            </VStack>
+
+                            {/* Priority */}
+                            <VStack gap="xs">
+                                <TypographyText variant="caption" color="default">
+                                    Priority
+                                </TypographyText>
+                                <HStack gap="sm" style={{ flexWrap: 'wrap' }}>
+                                    {PRIORITY_LEVELS.map((level) => {
+                                        const isActive = priority === level.value;
+                                        return (
+                                            <TouchableOpacity
+                                                key={level.value}
+                                                onPress={() => setPriority(level.value)}
+                                                style={{
+                                                    flexDirection: 'row',
+                                                    alignItems: 'center',
+                                                    gap: 6,
+                                                    paddingHorizontal: 12,
+                                                    paddingVertical: 8,
+                                                    backgroundColor: isActive
+                                                        ? colors.contentPrimary
+                                                        : colors.surfacePrimary,
+                                                    borderWidth: 1,
+                                                    borderColor: isActive
+                                                        ? colors.contentPrimary
+                                                        : colors.contentSecondary,
+                                                }}
+                                            >
+                                                {level.color ? (
+                                                    <Ionicons
+                                                        name="ellipse"
+                                                        size={8}
+                                                        color={level.color}
+                                                    />
+                                                ) : null}
+                                                <Text
+                                                    style={{
+                                                        color: isActive
+                                                            ? colors.backgroundPrimary
+                                                            : colors.contentPrimary,
+                                                        fontWeight: '700',
+                                                        fontSize: 12,
+                                                    }}
+                                                >
+                                                    {level.label}
+                                                </Text>
+                                            </TouchableOpacity>
+                                        );
+                                    })}
+                                </HStack>
+                            </VStack>
+
+                            {/* Time Estimate */}
+                            <VStack gap="xs">
+                                <TypographyText variant="caption" color="default">
+                                    Estimate
+                                </TypographyText>
+                                <HStack gap="sm" style={{ flexWrap: 'wrap' }}>
+                                    {ESTIMATE_OPTIONS.map((minutes) => {
+                                        const isActive = estimatedMinutes === minutes;
+                                        return (
+                                            <TouchableOpacity
+                                                key={minutes}
+                                                onPress={() =>
+                                                    setEstimatedMinutes(isActive ? null : minutes)
+                                                }
+                                                style={{
+                                                    paddingHorizontal: 12,
+                                                    paddingVertical: 8,
+                                                    backgroundColor: isActive
+                                                        ? colors.contentPrimary
+                                                        : colors.surfacePrimary,
+                                                    borderWidth: 1,
+                                                    borderColor: isActive
+                                                        ? colors.contentPrimary
+                                                        : colors.contentSecondary,
+                                                }}
+                                            >
+                                                <Text
+                                                    style={{
+                                                        color: isActive
+                                                            ? colors.backgroundPrimary
+                                                            : colors.contentPrimary,
+                                                        fontWeight: '700',
+                                                        fontSize: 12,
+                                                    }}
+                                                >
+                                                    {formatEstimate(minutes)}
+                                                </Text>
+                                            </TouchableOpacity>
+                                        );
+                                    })}
+                                </HStack>
+                            </VStack>
+
+                            {/* Repeat */}
+                            <VStack gap="xs">
+                                <TypographyText variant="caption" color="default">
+                                    Repeat
+                                </TypographyText>
+                                <HStack gap="sm" style={{ flexWrap: 'wrap' }}>
+                                    {REPEAT_OPTIONS.map(({ value, label }) => {
+                                        const isActive = repeatOption === value;
+                                        return (
+                                            <TouchableOpacity
+                                                key={value}
+                                                onPress={() => editRepeat(value)}
+                                                style={{
+                                                    paddingHorizontal: 12,
+                                                    paddingVertical: 8,
+                                                    backgroundColor: isActive
+                                                        ? colors.contentPrimary
+                                                        : colors.surfacePrimary,
+                                                    borderWidth: 1,
+                                                    borderColor: isActive
+                                                        ? colors.contentPrimary
+                                                        : colors.contentSecondary,
+                                                }}
                                             >
                                                 <Text
                                                     style={{
@@ -343,6 +803,70 @@ const CreateTodoScreen = () => {
                                         );
                                     })}
                                 </HStack>
+                                {repeatOption === 'days' || repeatOption === 'weeks' ? (
+                                    <HStack alignItems="center" gap="md">
+                                        <TouchableOpacity
+                                            onPress={() =>
+                                                editRepeat(repeatOption, repeatInterval - 1)
+                                            }
+                                            disabled={repeatInterval <= 1}
+                                        >
+                                            <Ionicons
+                                                name="remove-circle-outline"
+                                                size={24}
+                                                color={colors.contentSecondary}
+                                            />
+                                        </TouchableOpacity>
+                                        <TypographyText variant="body" weight="semibold">
+                                            {repeatInterval}
+                                        </TypographyText>
+                                        <TouchableOpacity
+                                            onPress={() =>
+                                                editRepeat(repeatOption, repeatInterval + 1)
+                                            }
+                                        >
+                                            <Ionicons
+                                                name="add-circle-outline"
+                                                size={24}
+                                                color={colors.contentSecondary}
+                                            />
+                                        </TouchableOpacity>
+                                    </HStack>
+                                ) : null}
+                                {repeatOption === 'custom' ? (
+                                    <TextInput
+                                        value={customRule}
+                                        onChangeText={(text) => {
+                                            setCustomRule(text);
+                                            setIsRepeatEdited(true);
+                                        }}
+                                        placeholder="FREQ=MONTHLY;BYDAY=1MO"
+                                        placeholderTextColor={colors.contentSecondary}
+                                        autoCapitalize="characters"
+                                        autoCorrect={false}
+                                        style={{
+                                            paddingHorizontal: 12,
+                                            paddingVertical: 10,
+                                            color: colors.contentPrimary,
+                                            borderWidth: 1,
+                                            borderColor: colors.surfacePrimary,
+                                        }}
+                                    />
+                                ) : null}
+                                {repeatRule ? (
+                                    <TypographyText
+                                        variant="caption"
+                                        style={{
+                                            color: isRepeatValid
+                                                ? colors.contentSecondary
+                                                : colors.danger,
+                                        }}
+                                    >
+                                        {isRepeatValid
+                                            ? describeRecurrence(repeatRule)
+                                            : 'This repeat rule is not supported'}
+                                    </TypographyText>
+                                ) : null}
                             </VStack>
                         </VStack>
                 </ScrollView>
@@ -366,7 +890,7 @@ const CreateTodoScreen = () => {
                         <View style={{ flex: 1 }}>
                             <Button
                                 onPress={handleSaveTodo}
-                                disabled={!title.trim() || isLoading}
+                                disabled={!title.trim() || !isRepeatValid || isLoading}
                                 style={{
                                     borderRadius: 24,
                                     backgroundColor: colors.contentPrimary,
@@ -0,0 +1,207 @@
+import TypographyText from '@/components/TypographyText';
+import { Button } from '@/components/ui/Button';
+import { HStack } from '@/components/ui/HStack';
+import { VStack } from '@/components/ui/VStack';
+import { SPACING } from '@/constants/spacing';
+import { useColorTheme } from '@/hooks/useColorTheme';
+import { useUnifiedTodoStore } from '@/hooks/useUnifiedTodoStore';
+import { Todo } from '@/services/local-database-service';
+import { useSettingsStore } from '@/stores/local-settings-store';
+import { getEstimatedPomodoros, usePomodoroStore } from '@/stores/pomodoro-store';
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import React, { useEffect, useMemo, useState } from 'react';
+import { ScrollView, TouchableOpacity, View } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+
+const PlanRow: React.FC<{
+    todo: Todo;
+    position: number | null;
+    pomodoros: number;
+    onPress: () => void;
+    onMoveUp?: () => void;
+}> = ({ todo, position, pomodoros, onPress, onMoveUp }) => {
+    const colors = useColorTheme();
+    return (
+        <TouchableOpacity onPress={onPress} activeOpacity={0.7}>
+            <HStack
+                alignItems="center"
+                gap="unit-3"
+                style={{
+                    paddingVertical: SPACING['unit-3'],
+                    borderBottomWidth: 1,
+                    borderBottomColor: colors.surfacePrimary,
+                }}
+            >
+                <View
+                    style={{
+                        width: 26,
+                        height: 26,
+                        borderRadius: 13,
+                        borderWidth: 1.5,
+                        borderColor: position ? colors.contentPrimary : colors.surfacePrimary,
+                        backgroundColor: position ? colors.contentPrimary : 'transparent',
+                        alignItems: 'center',
+                        justifyContent: 'center',
+                    }}
+                >
+                    {position ? (
+                        <TypographyText
+                            variant="caption"
+                            weight="bold"
+                            style={{ color: colors.backgroundPrimary }}
+                        >
+                            {position}
+                        </TypographyText>
+                    ) : null}
+                </View>
+                <VStack gap="unit-1" style={{ flex: 1 }}>
+                    <TypographyText variant="body" weight="semibold" numberOfLines={1}>
+                        {todo.title}
+                    </TypographyText>
+                    <TypographyText variant="caption" color="secondary">
+                        {pomodoros} {pomodoros === 1 ? 'pomodoro' : 'pomodoros'}
+                        {todo.estimatedMinutes ? ` · ${todo.estimatedMinutes} min estimated` : ''}
+                    </TypographyText>
+                </VStack>
+                {onMoveUp ? (
+                    <TouchableOpacity onPress={onMoveUp} hitSlop={8}>
+                        <Ionicons name="arrow-up" size={18} color={colors.contentSecondary} />
+                    </TouchableOpacity>
+                ) : null}
+            </HStack>
+        </TouchableOpacity>
+    );
+};
+
+/**
+ * Pick the todos for a sitting, in the order the timer should work through them
+ */
+const FocusPlanScreen = () => {
+    const colors = useColorTheme();
+    const { todos, loadTodos } = useUnifiedTodoStore();
+    const { queue, setQueue, clearQueue } = usePomodoroStore();
+    const focusDuration = useSettingsStore((state) => state.focusDuration);
+    const [selectedIds, setSelectedIds] = useState<string[]>(() =>
+        queue.map((item) => item.todoId),
+    );
+
+    useEffect(() => {
+        loadTodos();
+    }, [loadTodos]);
+
+    const openTodos = useMemo(() => todos.filter((todo) => !todo.isCompleted), [todos]);
+    const selectedTodos = selectedIds
+        .map((id) => openTodos.find((todo) => todo.id === id))
+        .filter((todo): todo is Todo => !!todo);
+    const otherTodos = openTodos.filter((todo) => !selectedIds.includes(todo.id));
+
+    const totalPomodoros = selectedTodos.reduce(
+        (total, todo) => total + getEstimatedPomodoros(todo, focusDuration),
+        0,
+    );
+
+    const toggle = (id: string) => {
+        setSelectedIds((ids) =>
+            ids.includes(id) ? ids.filter((item) => item !== id) : [...ids, id],
+        );
+    };
+
+    const moveUp = (index: number) => {
+        setSelectedIds((ids) => {
+            const next = [...ids];
+            [next[index - 1], next[index]] = [next[index], next[index - 1]];
+            return next;
+        });
+    };
+
+    const handleStart = () => {
+        setQueue(selectedTodos, focusDuration);
+        router.back();
+    };
+
+    const handleClear = () => {
+        clearQueue();
+        router.back();
+    };
+
+    return (
+        <SafeAreaView style={{ flex: 1, backgroundColor: colors.backgroundPrimary }}>
+            <ScrollView
+                contentContainerStyle={{
+                    paddingTop: SPACING['unit-8'],
+                    paddingBottom: SPACING['unit-16'],
+                    paddingHorizontal: SPACING['unit-5'],
+                }}
+                style={{ flex: 1 }}
+            >
+                <VStack gap="unit-4">
+                    <VStack gap="unit-1">
+                        <TypographyText variant="title">Plan a Sitting</TypographyText>
+                        <TypographyText variant="body" size="sm" color="secondary">
+                            Tap todos in the order you want to work on them.
+                        </TypographyText>
+                    </VStack>
+
+                    {selectedTodos.length > 0 ? (
+                        <View>
+                            {selectedTodos.map((todo, index) => (
+                                <PlanRow
+                                    key={todo.id}
+                                    todo={todo}
+                                    position={index + 1}
+                                    pomodoros={getEstimatedPomodoros(todo, focusDuration)}
+                                    onPress={() => toggle(todo.id)}
+                                    onMoveUp={index > 0 ? () => moveUp(index) : undefined}
+                                />
+                            ))}
+                        </View>
+                    ) : null}
+
+                    {otherTodos.length > 0 ? (
+                        <View>
+                            {otherTodos.map((todo) => (
+                                <PlanRow
+                                    key={todo.id}
+                                    todo={todo}
+                                    position={null}
+                                    pomodoros={getEstimatedPomodoros(todo, focusDuration)}
+                                    onPress={() => toggle(todo.id)}
+                                />
+                            ))}
+                        </View>
+                    ) : null}
+
+                    {openTodos.length === 0 ? (
+                        <TypographyText variant="body" color="secondary">
+                            No open todos to plan.
+                        </TypographyText>
+                    ) : null}
+                </VStack>
+            </ScrollView>
+
+            <VStack gap="unit-2" px="unit-5" py="unit-4">
+                <Button onPress={handleStart} isDisabled={selectedTodos.length === 0}>
+                    <TypographyText
+                        variant="body"
+                        weight="semibold"
+                        style={{ color: colors.backgroundPrimary }}
+                    >
+                        {selectedTodos.length > 0
+                            ? `Start Plan · ${totalPomodoros} × ${focusDuration} min`
+                            : 'Start Plan'}
+                    </TypographyText>
+                </Button>
+                {queue.length > 0 ? (
+                    <Button variant="light" onPress={handleClear}>
+                        <TypographyText variant="body" weight="semibold">
+                            Clear Plan
+                        </TypographyText>
+                    </Button>
+                ) : null}
+            </VStack>
+        </SafeAreaView>
+    );
+};
+
+export default FocusPlanScreen;
@@ -0,0 +1,3 @@
+import FocusPlanScreen from './focus-plan-screen';
+
+export default FocusPlanScreen;
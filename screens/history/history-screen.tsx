@@ -0,0 +1,158 @@
+import TypographyText from '@/components/TypographyText';
+import { HStack } from '@/components/ui/HStack';
+import { VStack } from '@/components/ui/VStack';
+import { SPACING } from '@/constants/spacing';
+import { useColorTheme } from '@/hooks/useColorTheme';
+import { PomodoroSession, usePomodoroStore } from '@/stores/pomodoro-store';
+import { getPausedSeconds, getSessionStats, SessionStats } from '@/utils/session-stats';
+import React, { useEffect, useMemo } from 'react';
+import { Alert, FlatList, TouchableOpacity, View } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+
+const formatMinutes = (seconds: number): string => {
+    const minutes = Math.round(seconds / 60);
+    if (minutes < 60) return `${minutes}m`;
+    return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+};
+
+const formatSessionTime = (iso: string): string =>
+    new Date(iso).toLocaleString('en-US', {
+        month: 'short',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: '2-digit',
+    });
+
+const StatsCard: React.FC<{ title: string; stats: SessionStats }> = ({ title, stats }) => {
+    const colors = useColorTheme();
+    return (
+        <View
+            style={{
+                flex: 1,
+                borderRadius: 20,
+                borderWidth: 1,
+                borderColor: colors.surfacePrimary,
+                backgroundColor: colors.backgroundSecondary,
+                padding: SPACING['unit-4'],
+            }}
+        >
+            <VStack gap="unit-1">
+                <TypographyText variant="caption" color="secondary">
+                    {title}
+                </TypographyText>
+                <TypographyText variant="title" weight="bold">
+                    {formatMinutes(stats.focusSeconds)}
+                </TypographyText>
+                <TypographyText variant="body" size="sm">
+                    {stats.focusSessions} sessions
+                </TypographyText>
+                <TypographyText variant="body" size="sm">
+                    {stats.interruptions} interruptions ({stats.internalInterruptions} internal,{' '}
+                    {stats.externalInterruptions} external)
+                </TypographyText>
+                <TypographyText variant="body" size="sm">
+                    {formatMinutes(stats.pausedSeconds)} paused
+                </TypographyText>
+            </VStack>
+        </View>
+    );
+};
+
+const SessionRow: React.FC<{ session: PomodoroSession }> = ({ session }) => {
+    const colors = useColorTheme();
+    const interruptions = session.interruptions ?? [];
+    const pausedSeconds = getPausedSeconds(session);
+    const deleteSession = usePomodoroStore((state) => state.deleteSession);
+
+    const handleLongPress = () => {
+        Alert.alert('Delete Session', 'Its time will be taken off the linked todo.', [
+            { text: 'Cancel', style: 'cancel' },
+            { text: 'Delete', style: 'destructive', onPress: () => deleteSession(session.id) },
+        ]);
+    };
+
+    return (
+        <TouchableOpacity
+            onLongPress={handleLongPress}
+            activeOpacity={0.7}
+            style={{
+                paddingVertical: SPACING['unit-3'],
+                borderBottomWidth: 1,
+                borderBottomColor: colors.surfacePrimary,
+            }}
+        >
+            <HStack alignItems="center" justifyContent="space-between">
+                <VStack gap="unit-1" style={{ flex: 1 }}>
+                    <TypographyText variant="body" weight="semibold" numberOfLines={1}>
+                        {session.todoTitle || 'Focus session'}
+                    </TypographyText>
+                    <TypographyText variant="caption" color="secondary">
+                        {formatSessionTime(session.startTime)}
+                        {interruptions.length > 0 ? ` · ${interruptions.length} interrupted` : ''}
+                        {pausedSeconds > 0 ? ` · ${formatMinutes(pausedSeconds)} paused` : ''}
+                        {session.focusRating ? ` · focus ${session.focusRating}/5` : ''}
+                    </TypographyText>
+                </VStack>
+                <TypographyText variant="body" weight="medium">
+                    {formatMinutes(session.duration)}
+                </TypographyText>
+            </HStack>
+        </TouchableOpacity>
+    );
+};
+
+const HistoryScreen = () => {
+    const colors = useColorTheme();
+    const { sessions, loadSessions } = usePomodoroStore();
+
+    useEffect(() => {
+        loadSessions();
+    }, [loadSessions]);
+
+    const focusSessions = useMemo(
+        () =>
+            sessions
+                .filter((session) => session.type === 'focus')
+                .sort((a, b) => b.startTime.localeCompare(a.startTime)),
+        [sessions],
+    );
+
+    const startOfToday = new Date();
+    startOfToday.setHours(0, 0, 0, 0);
+
+    return (
+        <SafeAreaView style={{ flex: 1, backgroundColor: colors.backgroundPrimary }}>
+            <FlatList
+                data={focusSessions}
+                keyExtractor={(session) => session.id}
+                renderItem={({ item }) => <SessionRow session={item} />}
+                contentContainerStyle={{
+                    paddingTop: SPACING['unit-8'],
+                    paddingBottom: SPACING['unit-16'],
+                    paddingHorizontal: SPACING['unit-5'],
+                }}
+                ListHeaderComponent={
+                    <VStack gap="unit-4" mb="md">
+                        <TypographyText variant="title" color="default">
+                            History
+                        </TypographyText>
+                        <HStack gap="unit-3">
+                            <StatsCard
+                                title="Today"
+                                stats={getSessionStats(sessions, startOfToday)}
+                            />
+                            <StatsCard title="All time" stats={getSessionStats(sessions)} />
+                        </HStack>
+                    </VStack>
+                }
+                ListEmptyComponent={
+                    <TypographyText variant="body" color="secondary">
+                        Finished focus sessions will show up here.
+                    </TypographyText>
+                }
+            />
+        </SafeAreaView>
+    );
+};
+
+export default HistoryScreen;
@@ -0,0 +1,3 @@
+import HistoryScreen from './history-screen';
+
+export default HistoryScreen;
@@ -0,0 +1,58 @@
+import TypographyText from '@/components/TypographyText';
+import { useColorTheme } from '@/hooks/useColorTheme';
+import { usePomodoroStore } from '@/stores/pomodoro-store';
+import React from 'react';
+import { StyleSheet, TouchableOpacity, View } from 'react-native';
+
+/**
+ * Countdown shown while the next phase is about to start on its own, with a way out
+ */
+const AutoStartCountdown: React.FC = () => {
+    const colors = useColorTheme();
+    const { autoStartAt, autoStartIn, timerPhase, cancelAutoStart } = usePomodoroStore();
+
+    if (autoStartAt === null) return null;
+
+    const phaseLabel = timerPhase === 'focus' ? 'Focus' : 'Break';
+
+    return (
+        <View
+            style={[
+                styles.container,
+                { backgroundColor: colors.backgroundSecondary, borderColor: colors.surfacePrimary },
+            ]}
+        >
+            <TypographyText variant="body" style={{ color: colors.contentPrimary }}>
+                {autoStartIn > 0
+                    ? `${phaseLabel} starts in ${autoStartIn}s`
+                    : `Starting ${phaseLabel.toLowerCase()}…`}
+            </TypographyText>
+            <TouchableOpacity onPress={cancelAutoStart} hitSlop={8}>
+                <TypographyText
+                    variant="label"
+                    style={[styles.cancel, { color: colors.secondary }]}
+                >
+                    Cancel
+                </TypographyText>
+            </TouchableOpacity>
+        </View>
+    );
+};
+
+const styles = StyleSheet.create({
+    container: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 16,
+        marginBottom: 16,
+        paddingVertical: 8,
+        paddingHorizontal: 16,
+        borderRadius: 12,
+        borderWidth: 1,
+    },
+    cancel: {
+        fontWeight: '600',
+    },
+});
+
+export default AutoStartCountdown;
@@ -0,0 +1,117 @@
+import TypographyText from '@/components/TypographyText';
+import { useColorTheme } from '@/hooks/useColorTheme';
+import { usePomodoroStore } from '@/stores/pomodoro-store';
+import { useTodoStore } from '@/stores/todo-store';
+import { router } from 'expo-router';
+import React from 'react';
+import { StyleSheet, TouchableOpacity, View } from 'react-native';
+
+/**
+ * The todos planned for this sitting: the current one with its pomodoro count, what
+ * comes next, and an offer to move on once the current todo is done
+ */
+const FocusQueue: React.FC = () => {
+    const colors = useColorTheme();
+    const { queue, advanceQueue } = usePomodoroStore();
+    const current = queue[0];
+    const upNext = queue[1];
+    const isCurrentCompleted = useTodoStore((state) =>
+        state.todos.some((todo) => todo.id === current?.todoId && todo.isCompleted),
+    );
+
+    if (!current) {
+        return (
+            <TouchableOpacity
+                onPress={() => router.push('/focus-plan')}
+                hitSlop={8}
+                style={styles.planLink}
+            >
+                <TypographyText variant="label" style={{ color: colors.secondary }}>
+                    Plan a sitting
+                </TypographyText>
+            </TouchableOpacity>
+        );
+    }
+
+    const isDone = isCurrentCompleted || current.completedPomodoros >= current.estimatedPomodoros;
+
+    return (
+        <View
+            style={[
+                styles.container,
+                { backgroundColor: colors.backgroundSecondary, borderColor: colors.surfacePrimary },
+            ]}
+        >
+            <View style={styles.row}>
+                <TypographyText
+                    variant="body"
+                    weight="semibold"
+                    numberOfLines={1}
+                    style={[styles.title, { color: colors.contentPrimary }]}
+                >
+                    {current.title}
+                </TypographyText>
+                <TypographyText variant="caption" style={{ color: colors.contentSecondary }}>
+                    {current.completedPomodoros}/{current.estimatedPomodoros}
+                </TypographyText>
+                <TouchableOpacity onPress={() => router.push('/focus-plan')} hitSlop={8}>
+                    <TypographyText
+                        variant="label"
+                        style={[styles.action, { color: colors.secondary }]}
+                    >
+                        Edit
+                    </TypographyText>
+                </TouchableOpacity>
+            </View>
+
+            {isDone ? (
+                <TouchableOpacity onPress={advanceQueue} style={styles.row} hitSlop={8}>
+                    <TypographyText
+                        variant="label"
+                        numberOfLines={1}
+                        style={[styles.action, styles.title, { color: colors.secondary }]}
+                    >
+                        {upNext ? `Move on to ${upNext.title}` : 'Finish plan'}
+                    </TypographyText>
+                </TouchableOpacity>
+            ) : upNext ? (
+                <TypographyText
+                    variant="caption"
+                    numberOfLines={1}
+                    style={{ color: colors.contentSecondary }}
+                >
+                    Up next: {upNext.title}
+                    {queue.length > 2 ? ` +${queue.length - 2} more` : ''}
+                </TypographyText>
+            ) : null}
+        </View>
+    );
+};
+
+const styles = StyleSheet.create({
+    container: {
+        alignSelf: 'stretch',
+        gap: 4,
+        marginBottom: 16,
+        paddingVertical: 8,
+        paddingHorizontal: 16,
+        borderRadius: 12,
+        borderWidth: 1,
+    },
+    row: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 12,
+    },
+    title: {
+        flex: 1,
+    },
+    action: {
+        fontWeight: '600',
+    },
+    planLink: {
+        marginBottom: 16,
+    },
+});
+
+export default FocusQueue;
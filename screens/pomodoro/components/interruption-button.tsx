@@ -0,0 +1,48 @@
+import { useColorTheme } from '@/hooks/useColorTheme';
+import { usePomodoroStore } from '@/stores/pomodoro-store';
+import { Button as SwiftButton, ContextMenu, Host } from '@expo/ui/swift-ui';
+import React from 'react';
+import { StyleSheet } from 'react-native';
+
+/**
+ * Log an interruption against the running focus session in two taps
+ */
+export default function InterruptionButton() {
+    const colors = useColorTheme();
+    const { timerPhase, timerStatus, interruptions, logInterruption } = usePomodoroStore();
+
+    const isFocusActive =
+        timerPhase === 'focus' && (timerStatus === 'running' || timerStatus === 'paused');
+    if (!isFocusActive) return null;
+
+    const label =
+        interruptions.length > 0 ? `Interruptions · ${interruptions.length}` : 'Log Interruption';
+
+    return (
+        <Host style={styles.host}>
+            <ContextMenu activationMethod="singlePress">
+                <ContextMenu.Items>
+                    <SwiftButton systemImage="brain" onPress={() => logInterruption('internal')}>
+                        Internal (thought, urge)
+                    </SwiftButton>
+                    <SwiftButton systemImage="person.2" onPress={() => logInterruption('external')}>
+                        External (person, message)
+                    </SwiftButton>
+                </ContextMenu.Items>
+                <ContextMenu.Trigger>
+                    <SwiftButton color={colors.secondary} variant="bordered">
+                        {label}
+                    </SwiftButton>
+                </ContextMenu.Trigger>
+            </ContextMenu>
+        </Host>
+    );
+}
+
+const styles = StyleSheet.create({
+    host: {
+        height: 36,
+        minWidth: 160,
+        marginBottom: 16,
+    },
+});
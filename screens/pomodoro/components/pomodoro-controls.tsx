@@ -10,6 +10,8 @@ interface PomodoroControlsProps {
     onReset: () => void;
     onPlayPause: () => void;
     onSkip: () => void;
+    /** Shown during a flow session, which only ends when finished */
+    onFinish?: () => void;
     buttonScale: SharedValue<number>;
     timerStatus: TimerStatus;
 }
@@ -18,6 +20,7 @@ export default function PomodoroControls({
     onReset,
     onPlayPause,
     onSkip,
+    onFinish,
     buttonScale,
     timerStatus,
 }: PomodoroControlsProps) {
@@ -58,6 +61,23 @@ export default function PomodoroControls({
                     </View>
                 </TouchableOpacity>
             </Animated.View>
+            {onFinish && (
+                <Animated.View style={buttonAnimatedStyle}>
+                    <TouchableOpacity
+                        style={[
+                            styles.controlButton,
+                            {
+                                backgroundColor: colors.backgroundSecondary,
+                            },
+                        ]}
+                        onPress={onFinish}
+                    >
+                        <View style={styles.iconContainer}>
+                            <Icon name="checkmark" size={24} color={Colors.light.secondary} />
+                        </View>
+                    </TouchableOpacity>
+                </Animated.View>
+            )}
         </View>
     );
 }
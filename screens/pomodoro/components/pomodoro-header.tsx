@@ -1,7 +1,147 @@
 import TypographyText from "@/components/TypographyText";
-import React from "react";
-import { StyleSheet, View } from "react-native";
+import React, { useEffect } from "react";
+import { Alert, StyleSheet, View } from "react-native";
+import {
+  Host,
+  ContextMenu,
+  Button as SwiftButton,
+  Picker,
+} from "@expo/ui/swift-ui";
 import { SPACING } from "@/constants/spacing";
+import { useColorTheme } from "@/hooks/useColorTheme";
+import { useSettingsStore } from "@/stores/local-settings-store";
+import { usePomodoroStore } from "@/stores/pomodoro-store";
+import {
+  presetMatches,
+  useTimerPresetStore,
+} from "@/stores/timer-preset-store";
+import { useTodoStore } from "@/stores/todo-store";
+
+function PresetPicker() {
+  const colors = useColorTheme();
+  const {
+    focusDuration,
+    breakDuration,
+    longBreakDuration,
+    sessionsBeforeLongBreak,
+    flowMode,
+    flowBreakRatio,
+    categoryPresets,
+    setCategoryPreset,
+  } = useSettingsStore();
+  const {
+    isLoaded,
+    loadPresets,
+    getAllPresets,
+    applyPreset,
+    createPreset,
+    deletePreset,
+  } = useTimerPresetStore();
+  const currentTodoId = usePomodoroStore((state) => state.currentTodoId);
+  const currentTodo = useTodoStore((state) =>
+    state.todos.find((todo) => todo.id === currentTodoId),
+  );
+
+  useEffect(() => {
+    if (!isLoaded) loadPresets();
+  }, [isLoaded, loadPresets]);
+
+  const settings = {
+    focusDuration,
+    breakDuration,
+    longBreakDuration,
+    sessionsBeforeLongBreak,
+    flowMode,
+    flowBreakRatio,
+  };
+  const allPresets = getAllPresets();
+  const activeIndex = allPresets.findIndex((preset) =>
+    presetMatches(preset, settings),
+  );
+  const activePreset = activeIndex >= 0 ? allPresets[activeIndex] : null;
+
+  const category = currentTodo?.category;
+  const isCategoryDefault =
+    !!category &&
+    !!activePreset &&
+    categoryPresets[category] === activePreset.id;
+
+  const handleSaveAsPreset = () => {
+    Alert.prompt("Save Preset", "Name these timer settings", async (name) => {
+      if (name?.trim()) await createPreset(name, settings);
+    });
+  };
+
+  const handleDeletePreset = () => {
+    if (!activePreset || activePreset.isBuiltIn) return;
+
+    Alert.alert("Delete Preset", `Delete "${activePreset.name}"?`, [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Delete",
+        style: "destructive",
+        onPress: () => deletePreset(activePreset.id),
+      },
+    ]);
+  };
+
+  return (
+    <Host style={styles.presetHost}>
+      <ContextMenu activationMethod="singlePress">
+        <ContextMenu.Items>
+          <Picker
+            color={colors.contentPrimary}
+            label="Timer Preset"
+            options={allPresets.map((preset) =>
+              preset.flowMode
+                ? `${preset.name} · ${preset.focusDuration}+ min`
+                : `${preset.name} · ${preset.focusDuration}/${preset.breakDuration}`,
+            )}
+            variant="inline"
+            selectedIndex={activeIndex >= 0 ? activeIndex : null}
+            onOptionSelected={({ nativeEvent: { index } }) => {
+              applyPreset(allPresets[index].id);
+            }}
+          />
+          {!activePreset ? (
+            <SwiftButton systemImage="plus" onPress={handleSaveAsPreset}>
+              Save as Preset…
+            </SwiftButton>
+          ) : null}
+          {category && activePreset ? (
+            <SwiftButton
+              systemImage={isCategoryDefault ? "star.fill" : "star"}
+              onPress={() =>
+                setCategoryPreset(
+                  category,
+                  isCategoryDefault ? null : activePreset.id,
+                )
+              }
+            >
+              {isCategoryDefault
+                ? `Stop Using for ${category}`
+                : `Use for ${category} Todos`}
+            </SwiftButton>
+          ) : null}
+          {activePreset && !activePreset.isBuiltIn ? (
+            <SwiftButton
+              systemImage="trash"
+              role="destructive"
+              onPress={handleDeletePreset}
+            >
+              Delete Preset
+            </SwiftButton>
+          ) : null}
+        </ContextMenu.Items>
+        <ContextMenu.Trigger>
+          <SwiftButton color={colors.secondary} variant="bordered">
+            {activePreset?.name ?? "Custom"}
+          </SwiftButton>
+        </ContextMenu.Trigger>
+      </ContextMenu>
+    </Host>
+  );
+}
 
 export default function PomodoroHeader() {
   return (
@@ -9,6 +149,7 @@ export default function PomodoroHeader() {
       <TypographyText variant="heading" color="default" style={styles.title}>
         TRACK YOUR{"\n"}FOCUS TIME
       </TypographyText>
+      <PresetPicker />
     </View>
   );
 }
@@ -24,4 +165,9 @@ const styles = StyleSheet.create({
     lineHeight: 36,
     letterSpacing: -0.5,
   },
+  presetHost: {
+    marginTop: SPACING["unit-3"],
+    height: 36,
+    minWidth: 120,
+  },
 });
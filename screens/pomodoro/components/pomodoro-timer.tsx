@@ -5,10 +5,16 @@ import Animated, { SharedValue } from 'react-native-reanimated';
 
 interface PomodoroTimerProps {
     timeLeft: number;
+    /** Seconds a flow session has run past its target */
+    overtime?: number;
     progressValue: SharedValue<number>;
 }
 
-export default function PomodoroTimer({ timeLeft, progressValue }: PomodoroTimerProps) {
+export default function PomodoroTimer({
+    timeLeft,
+    overtime = 0,
+    progressValue,
+}: PomodoroTimerProps) {
     const colors = useColorTheme();
 
     const formatTime = (seconds: number): string => {
@@ -22,8 +28,13 @@ export default function PomodoroTimer({ timeLeft, progressValue }: PomodoroTimer
             <Text>Session</Text>
             {/* Timer Text */}
             <View style={styles.timerTextContainer}>
-                <Text style={[styles.timerText, { color: colors.contentPrimary }]}>
-                    {formatTime(timeLeft)}
+                <Text
+                    style={[
+                        styles.timerText,
+                        { color: overtime > 0 ? colors.secondary : colors.contentPrimary },
+                    ]}
+                >
+                    {overtime > 0 ? `+${formatTime(overtime)}` : formatTime(timeLeft)}
                 </Text>
             </View>
         </View>
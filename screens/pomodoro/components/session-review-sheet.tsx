@@ -0,0 +1,328 @@
+import TypographyText from '@/components/TypographyText';
+import { Button } from '@/components/ui/Button';
+import { SPACING } from '@/constants/spacing';
+import { useColorTheme } from '@/hooks/useColorTheme';
+import { SessionOutcome } from '@/services/local-database-service';
+import { useSettingsStore } from '@/stores/local-settings-store';
+import { usePomodoroStore } from '@/stores/pomodoro-store';
+import { useTodoStore } from '@/stores/todo-store';
+import { Ionicons } from '@expo/vector-icons';
+import BottomSheet, {
+    BottomSheetBackdrop,
+    BottomSheetBackdropProps,
+    BottomSheetScrollView,
+    BottomSheetTextInput,
+} from '@gorhom/bottom-sheet';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { StyleSheet, TouchableOpacity, View } from 'react-native';
+
+const OUTCOMES: { value: SessionOutcome; label: string }[] = [
+    { value: 'done', label: 'Finished' },
+    { value: 'progress', label: 'Made progress' },
+    { value: 'stuck', label: 'Got stuck' },
+];
+
+const RATINGS = [1, 2, 3, 4, 5];
+
+/**
+ * Optional review asked for when a focus session ends: what was done, how focused
+ * it felt and how it went, with shortcuts to update the linked todo
+ */
+export default function SessionReviewSheet() {
+    const colors = useColorTheme();
+    const sheetRef = useRef<BottomSheet>(null);
+
+    const { reviewSessionId, sessions, saveSessionReview, dismissSessionReview } =
+        usePomodoroStore();
+    const sessionReview = useSettingsStore((state) => state.sessionReview);
+    const session = sessions.find((item) => item.id === reviewSessionId);
+    const todo = useTodoStore((state) =>
+        state.todos.find((item) => !!session?.todoId && item.id === session.todoId),
+    );
+    const updateTodo = useTodoStore((state) => state.updateTodo);
+
+    const [notes, setNotes] = useState('');
+    const [focusRating, setFocusRating] = useState<number | null>(null);
+    const [outcome, setOutcome] = useState<SessionOutcome | null>(null);
+    const [checkedSubtaskIds, setCheckedSubtaskIds] = useState<string[]>([]);
+
+    // Each finished session starts with a blank review
+    useEffect(() => {
+        if (!reviewSessionId) return;
+
+        if (!sessionReview) {
+            dismissSessionReview();
+            return;
+        }
+
+        setNotes('');
+        setFocusRating(null);
+        setOutcome(null);
+        setCheckedSubtaskIds([]);
+        sheetRef.current?.snapToIndex(0);
+    }, [reviewSessionId, sessionReview, dismissSessionReview]);
+
+    const toggleSubtask = (id: string) => {
+        setCheckedSubtaskIds((ids) =>
+            ids.includes(id) ? ids.filter((item) => item !== id) : [...ids, id],
+        );
+    };
+
+    const handleSave = async () => {
+        sheetRef.current?.close();
+
+        if (todo) {
+            const markComplete = outcome === 'done' && !todo.isCompleted;
+            const subtasks = todo.subtasks ?? [];
+            if (markComplete || checkedSubtaskIds.length > 0) {
+                await updateTodo(todo.id, {
+                    subtasks: subtasks.map((subtask) =>
+                        checkedSubtaskIds.includes(subtask.id)
+                            ? { ...subtask, done: true }
+                            : subtask,
+                    ),
+                    ...(markComplete
+                        ? { isCompleted: true, completedAt: new Date().toISOString() }
+                        : {}),
+                });
+            }
+        }
+
+        await saveSessionReview({ notes: notes.trim() || null, focusRating, outcome });
+    };
+
+    // Closing the sheet by any means skips the review
+    const handleChange = useCallback(
+        (index: number) => {
+            if (index === -1 && usePomodoroStore.getState().reviewSessionId) {
+                dismissSessionReview();
+            }
+        },
+        [dismissSessionReview],
+    );
+
+    const renderBackdrop = useCallback(
+        (props: BottomSheetBackdropProps) => (
+            <BottomSheetBackdrop {...props} appearsOnIndex={0} disappearsOnIndex={-1} />
+        ),
+        [],
+    );
+
+    const openSubtasks = (todo?.subtasks ?? []).filter((subtask) => !subtask.done);
+
+    return (
+        <BottomSheet
+            ref={sheetRef}
+            index={-1}
+            snapPoints={['70%']}
+            enablePanDownToClose
+            keyboardBehavior="interactive"
+            onChange={handleChange}
+            backdropComponent={renderBackdrop}
+            backgroundStyle={{ backgroundColor: colors.backgroundPrimary }}
+            handleIndicatorStyle={{ backgroundColor: colors.surfacePrimary }}
+        >
+            <BottomSheetScrollView contentContainerStyle={styles.content}>
+                <TypographyText variant="title">Session Review</TypographyText>
+
+                <View style={styles.section}>
+                    <TypographyText variant="label">What did you get done?</TypographyText>
+                    <BottomSheetTextInput
+                        value={notes}
+                        onChangeText={setNotes}
+                        placeholder={session?.todoTitle ?? 'A few words about this session'}
+                        placeholderTextColor={colors.contentSecondary}
+                        multiline
+                        style={[
+                            styles.notesInput,
+                            {
+                                color: colors.contentPrimary,
+                                borderColor: colors.surfacePrimary,
+                                backgroundColor: colors.backgroundSecondary,
+                            },
+                        ]}
+                    />
+                </View>
+
+                <View style={styles.section}>
+                    <TypographyText variant="label">How focused did it feel?</TypographyText>
+                    <View style={styles.row}>
+                        {RATINGS.map((rating) => {
+                            const isSelected = focusRating === rating;
+                            return (
+                                <TouchableOpacity
+                                    key={rating}
+                                    onPress={() => setFocusRating(isSelected ? null : rating)}
+                                    style={[
+                                        styles.rating,
+                                        {
+                                            borderColor: colors.surfacePrimary,
+                                            backgroundColor: isSelected
+                                                ? colors.contentPrimary
+                                                : colors.backgroundSecondary,
+                                        },
+                                    ]}
+                                >
+                                    <TypographyText
+                                        variant="body"
+                                        weight="semibold"
+                                        style={{
+                                            color: isSelected
+                                                ? colors.backgroundPrimary
+                                                : colors.contentPrimary,
+                                        }}
+                                    >
+                                        {rating}
+                                    </TypographyText>
+                                </TouchableOpacity>
+                            );
+                        })}
+                    </View>
+                </View>
+
+                <View style={styles.section}>
+                    <TypographyText variant="label">How did it go?</TypographyText>
+                    <View style={styles.row}>
+                        {OUTCOMES.map((option) => (
+                            <Button
+                                key={option.value}
+                                size="sm"
+                                variant={outcome === option.value ? 'solid' : 'outline'}
+                                onPress={() =>
+                                    setOutcome(outcome === option.value ? null : option.value)
+                                }
+                            >
+                                <TypographyText
+                                    variant="caption"
+                                    weight="semibold"
+                                    style={{
+                                        color:
+                                            outcome === option.value
+                                                ? colors.backgroundPrimary
+                                                : colors.contentPrimary,
+                                    }}
+                                >
+                                    {option.label}
+                                </TypographyText>
+                            </Button>
+                        ))}
+                    </View>
+                    {todo && outcome === 'done' && !todo.isCompleted ? (
+                        <TypographyText variant="caption" color="secondary">
+                            &quot;{todo.title}&quot; will be marked complete
+                        </TypographyText>
+                    ) : null}
+                </View>
+
+                {openSubtasks.length > 0 ? (
+                    <View style={styles.section}>
+                        <TypographyText variant="label">Check off subtasks</TypographyText>
+                        {openSubtasks.map((subtask) => {
+                            const isChecked = checkedSubtaskIds.includes(subtask.id);
+                            return (
+                                <TouchableOpacity
+                                    key={subtask.id}
+                                    onPress={() => toggleSubtask(subtask.id)}
+                                    style={styles.subtaskRow}
+                                >
+                                    <View
+                                        style={[
+                                            styles.checkbox,
+                                            {
+                                                borderColor: colors.surfacePrimary,
+                                                backgroundColor: isChecked
+                                                    ? colors.secondary
+                                                    : colors.primary,
+                                            },
+                                        ]}
+                                    >
+                                        {isChecked && (
+                                            <Ionicons
+                                                name="checkmark"
+                                                size={14}
+                                                color={colors.backgroundPrimary}
+                                            />
+                                        )}
+                                    </View>
+                                    <TypographyText variant="body" style={{ flex: 1 }}>
+                                        {subtask.title}
+                                    </TypographyText>
+                                </TouchableOpacity>
+                            );
+                        })}
+                    </View>
+                ) : null}
+
+                <View style={styles.row}>
+                    <Button
+                        variant="light"
+                        onPress={() => sheetRef.current?.close()}
+                        style={styles.action}
+                    >
+                        <TypographyText variant="body" weight="semibold">
+                            Skip
+                        </TypographyText>
+                    </Button>
+                    <Button onPress={handleSave} style={styles.action}>
+                        <TypographyText
+                            variant="body"
+                            weight="semibold"
+                            style={{ color: colors.backgroundPrimary }}
+                        >
+                            Save
+                        </TypographyText>
+                    </Button>
+                </View>
+            </BottomSheetScrollView>
+        </BottomSheet>
+    );
+}
+
+const styles = StyleSheet.create({
+    content: {
+        paddingHorizontal: SPACING['unit-5'],
+        paddingBottom: SPACING['unit-10'],
+        gap: SPACING['unit-5'],
+    },
+    section: {
+        gap: SPACING['unit-2'],
+    },
+    row: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        gap: SPACING['unit-2'],
+    },
+    notesInput: {
+        minHeight: 80,
+        borderWidth: 1,
+        borderRadius: 12,
+        padding: SPACING['unit-3'],
+        fontSize: 16,
+        textAlignVertical: 'top',
+    },
+    rating: {
+        width: 44,
+        height: 44,
+        borderRadius: 22,
+        borderWidth: 1,
+        alignItems: 'center',
+        justifyContent: 'center',
+    },
+    subtaskRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: SPACING['unit-3'],
+        paddingVertical: SPACING['unit-1'],
+    },
+    checkbox: {
+        width: 22,
+        height: 22,
+        borderRadius: 6,
+        borderWidth: 2,
+        alignItems: 'center',
+        justifyContent: 'center',
+    },
+    action: {
+        flex: 1,
+    },
+});
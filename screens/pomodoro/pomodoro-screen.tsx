@@ -2,17 +2,24 @@ import { usePomodoroTimer } from '@/hooks/usePomodoroTimer';
 import { useAppLifecycle } from '@/hooks/useAppLifecycle';
 import { usePomodoroStore } from '@/stores/pomodoro-store';
 import { useSettingsStore } from '@/stores/local-settings-store';
+import { useTimerPresetStore } from '@/stores/timer-preset-store';
 import { useUnifiedTodoStore } from '@/hooks/useUnifiedTodoStore';
 import BottomSheet from '@gorhom/bottom-sheet';
 import React, { useEffect, useRef } from 'react';
 import { Animated, StyleSheet, TouchableOpacity, View } from 'react-native';
 import { useSharedValue, withSpring, withTiming } from 'react-native-reanimated';
 import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import AutoStartCountdown from './components/auto-start-countdown';
+import FocusQueue from './components/focus-queue';
+import InterruptionButton from './components/interruption-button';
 import PomodoroControls from './components/pomodoro-controls';
+import PomodoroHeader from './components/pomodoro-header';
 import PomodoroTimer from './components/pomodoro-timer';
+import SessionReviewSheet from './components/session-review-sheet';
 import SessionCounter from './components/session-counter';
 import HugeIconView from '@/components/ui/huge-icon-view';
-import { RefreshIcon } from '@hugeicons/core-free-icons';
+import { Clock01Icon, RefreshIcon } from '@hugeicons/core-free-icons';
 import { Colors } from '@/constants/Colors';
 import { useColorTheme } from '@/hooks/useColorTheme';
 export default function PomodoroScreen() {
@@ -28,16 +35,36 @@ export default function PomodoroScreen() {
         selectTodo,
         timerStatus,
         timeLeft,
+        overtime,
         initialTime,
         startTimer,
         pauseTimer,
         resumeTimer,
         resetTimer,
         skipSession,
+        finishFocus,
         updateTimerDuration,
+        updateFlowMode,
+        updateAutoStart,
     } = usePomodoroStore();
-    const { loadTodos } = useUnifiedTodoStore();
-    const { focusDuration, breakDuration, soundEffects, notifications } = useSettingsStore();
+    const isFlowSession = usePomodoroStore(
+        (state) => state.timerPhase === 'focus' && state.clock.allowOvertime,
+    );
+    const { todos, loadTodos } = useUnifiedTodoStore();
+    const { isLoaded: presetsLoaded, getPresetForCategory, applyPreset } = useTimerPresetStore();
+    const {
+        focusDuration,
+        breakDuration,
+        longBreakDuration,
+        sessionsBeforeLongBreak,
+        flowMode,
+        flowBreakRatio,
+        autoStartBreaks,
+        autoStartFocus,
+        autoStartDelay,
+        soundEffects,
+        notifications,
+    } = useSettingsStore();
 
     // Start the timer interval with sound settings
     usePomodoroTimer(soundEffects);
@@ -52,8 +79,46 @@ export default function PomodoroScreen() {
 
     // Update timer duration when settings change
     useEffect(() => {
-        updateTimerDuration(focusDuration, breakDuration);
-    }, [focusDuration, breakDuration, updateTimerDuration]);
+        updateTimerDuration(
+            focusDuration,
+            breakDuration,
+            longBreakDuration,
+            sessionsBeforeLongBreak,
+        );
+    }, [
+        focusDuration,
+        breakDuration,
+        longBreakDuration,
+        sessionsBeforeLongBreak,
+        updateTimerDuration,
+    ]);
+
+    useEffect(() => {
+        updateFlowMode(flowMode, flowBreakRatio);
+    }, [flowMode, flowBreakRatio, updateFlowMode]);
+
+    useEffect(() => {
+        updateAutoStart({
+            breaks: autoStartBreaks,
+            focus: autoStartFocus,
+            delay: autoStartDelay,
+        });
+    }, [autoStartBreaks, autoStartFocus, autoStartDelay, updateAutoStart]);
+
+    // A todo from a category with a default preset starts with that preset
+    const presetAppliedForTodoRef = useRef<string | null>(null);
+    useEffect(() => {
+        if (!presetsLoaded || currentTodoId === presetAppliedForTodoRef.current) return;
+
+        const todo = todos.find((item) => item.id === currentTodoId);
+        if (currentTodoId && !todo) return; // Todos are still loading
+        presetAppliedForTodoRef.current = currentTodoId;
+
+        const preset = getPresetForCategory(todo?.category);
+        if (preset && timerStatus === 'idle') {
+            applyPreset(preset.id);
+        }
+    }, [presetsLoaded, currentTodoId, todos, timerStatus, getPresetForCategory, applyPreset]);
 
     // Update progress animation when time changes
     useEffect(() => {
@@ -89,13 +154,23 @@ export default function PomodoroScreen() {
         progressValue.value = withTiming(0, { duration: 500 });
     };
 
+    // Handle finish button of a flow session
+    const handleFinish = () => {
+        buttonScale.value = withSpring(0.95, {}, () => {
+            buttonScale.value = withSpring(1);
+        });
+
+        finishFocus(soundEffects, focusDuration, breakDuration, notifications);
+        progressValue.value = withTiming(0, { duration: 500 });
+    };
+
     // Handle skip button
     const handleSkip = () => {
         buttonScale.value = withSpring(0.95, {}, () => {
             buttonScale.value = withSpring(1);
         });
 
-        skipSession(focusDuration, breakDuration);
+        skipSession(focusDuration);
         progressValue.value = withTiming(0, { duration: 500 });
     };
 
@@ -109,7 +184,9 @@ export default function PomodoroScreen() {
                     paddingTop: 16,
                 }}
             >
-                <View />
+                <TouchableOpacity onPress={() => router.push('/history')}>
+                    <HugeIconView icon={Clock01Icon} size={24} color={Colors.light.secondary} />
+                </TouchableOpacity>
                 <Animated.View>
                     <TouchableOpacity onPress={handleReset}>
                         <HugeIconView icon={RefreshIcon} size={24} color={Colors.light.secondary} />
@@ -117,18 +194,37 @@ export default function PomodoroScreen() {
                 </Animated.View>
             </View>
             <View style={styles.content}>
-                <PomodoroTimer timeLeft={timeLeft} progressValue={progressValue} />
+                <PomodoroHeader />
+
+                <PomodoroTimer
+                    timeLeft={timeLeft}
+                    overtime={overtime}
+                    progressValue={progressValue}
+                />
 
                 <SessionCounter />
 
+                <FocusQueue />
+
+                <AutoStartCountdown />
+
+                <InterruptionButton />
+
                 <PomodoroControls
                     onReset={handleReset}
                     onPlayPause={handlePlayPause}
                     onSkip={handleSkip}
+                    onFinish={
+                        isFlowSession && (timerStatus === 'running' || timerStatus === 'paused')
+                            ? handleFinish
+                            : undefined
+                    }
                     buttonScale={buttonScale}
                     timerStatus={timerStatus}
                 />
             </View>
+
+            <SessionReviewSheet />
         </SafeAreaView>
     );
 }
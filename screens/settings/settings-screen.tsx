@@ -1,6 +1,7 @@
 import TypographyText from '@/components/TypographyText';
 import { useSettingsStore } from '@/stores/local-settings-store';
 import { useAuthStore } from '@/stores/auth-store';
+import { useTodoStore } from '@/stores/todo-store';
 import { revenueCatService } from '@/services/revenuecat-service';
 import { optionalSyncService } from '@/services/optional-sync-service';
 import { notificationService } from '@/services/notification-service';
@@ -46,6 +47,20 @@ const Header = () => {
 };
 
 const DURATION_OPTIONS = [1, 5, 10, 15, 25];
+const LONG_BREAK_OPTIONS = [10, 15, 20, 25, 30];
+const SESSIONS_BEFORE_LONG_BREAK_OPTIONS = [2, 3, 4, 5, 6];
+const AUTO_START_DELAY_OPTIONS = [0, 3, 5, 10, 15];
+const FLOW_BREAK_RATIO_OPTIONS = [0, 3, 4, 5, 6];
+
+/**
+ * Picker options including the current value, which a timer preset may have set
+ */
+const withCurrentValue = (options: number[], value: number): number[] =>
+    options.includes(value) ? options : [...options, value].sort((a, b) => a - b);
+
+const formatFlowBreakRatio = (ratio: number) => (ratio === 0 ? 'Fixed' : `1/${ratio}`);
+
+const formatAutoStartDelay = (seconds: number) => (seconds === 0 ? 'Instant' : `${seconds}s`);
 const ABOUT_OPTIONS = [
     {
         id: 'rate-the-app',
@@ -71,6 +86,26 @@ const SettingsScreen = () => {
         breakDuration,
         setFocusDuration,
         setBreakDuration,
+        longBreakDuration,
+        setLongBreakDuration,
+        sessionsBeforeLongBreak,
+        setSessionsBeforeLongBreak,
+        flowMode,
+        setFlowMode,
+        flowBreakRatio,
+        setFlowBreakRatio,
+        autoStartBreaks,
+        setAutoStartBreaks,
+        autoStartFocus,
+        setAutoStartFocus,
+        autoStartDelay,
+        setAutoStartDelay,
+        sessionReview,
+        setSessionReview,
+        countPartialSessions,
+        setCountPartialSessions,
+        rollOverTodos,
+        setRollOverTodos,
         userName,
         metronome,
         userEmail,
@@ -118,12 +153,15 @@ const SettingsScreen = () => {
         });
     };
 
-    const [focusIndex, setFocusIndex] = useState(
-        Math.max(0, DURATION_OPTIONS.indexOf(focusDuration)),
-    );
-    const [breakIndex, setBreakIndex] = useState(
-        Math.max(0, DURATION_OPTIONS.indexOf(breakDuration)),
+    const focusOptions = withCurrentValue(DURATION_OPTIONS, focusDuration);
+    const breakOptions = withCurrentValue(DURATION_OPTIONS, breakDuration);
+    const longBreakOptions = withCurrentValue(LONG_BREAK_OPTIONS, longBreakDuration);
+    const sessionsOptions = withCurrentValue(
+        SESSIONS_BEFORE_LONG_BREAK_OPTIONS,
+        sessionsBeforeLongBreak,
     );
+    const flowBreakRatioOptions = withCurrentValue(FLOW_BREAK_RATIO_OPTIONS, flowBreakRatio);
+    const autoStartDelayOptions = withCurrentValue(AUTO_START_DELAY_OPTIONS, autoStartDelay);
 
     const handleMetronomeChange = (value: boolean) => {
         setMetronome(!metronome);
@@ -153,11 +191,14 @@ const SettingsScreen = () => {
             // Initialize notification service
             await notificationService.initialize();
             setNotifications(true);
+            // Bring back the reminders of open todos
+            useTodoStore.getState().reconcileReminders();
             showSuccess('Notifications enabled', 'Settings');
         } else {
             // Cancel any scheduled notifications when disabling
             try {
                 await notificationService.cancelTimerNotifications();
+                await notificationService.cancelTodoReminders();
             } catch (error) {
                 console.error('Failed to cancel notifications:', error);
             }
@@ -321,12 +362,11 @@ const SettingsScreen = () => {
                                             <Picker
                                                 color={colors.contentPrimary}
                                                 label="Flow Duration"
-                                                options={DURATION_OPTIONS.map((m) => `${m} min`)}
+                                                options={focusOptions.map((m) => `${m} min`)}
                                                 variant="inline"
-                                                selectedIndex={focusIndex}
+                                                selectedIndex={focusOptions.indexOf(focusDuration)}
                                                 onOptionSelected={({ nativeEvent: { index } }) => {
-                                                    setFocusIndex(index);
-                                                    setFocusDuration(DURATION_OPTIONS[index]);
+                                                    setFocusDuration(focusOptions[index]);
                                                 }}
                                             />
                                         </ContextMenu.Items>
@@ -335,7 +375,7 @@ const SettingsScreen = () => {
                                                 color={colors.secondary}
                                                 variant="bordered"
                                             >
-                                                {`${DURATION_OPTIONS[focusIndex]} min`}
+                                                {`${focusDuration} min`}
                                             </SwiftButton>
                                         </ContextMenu.Trigger>
                                     </ContextMenu>
@@ -361,12 +401,95 @@ const SettingsScreen = () => {
                                             <Picker
                                                 color={colors.contentPrimary}
                                                 label="Break Duration"
-                                                options={DURATION_OPTIONS.map((m) => `${m} min`)}
+                                                options={breakOptions.map((m) => `${m} min`)}
+                                                variant="inline"
+                                                selectedIndex={breakOptions.indexOf(breakDuration)}
+                                                onOptionSelected={({ nativeEvent: { index } }) => {
+                                                    setBreakDuration(breakOptions[index]);
+                                                }}
+                                            />
+                                        </ContextMenu.Items>
+                                        <ContextMenu.Trigger>
+                                            <SwiftButton
+                                                color={colors.secondary}
+                                                variant="bordered"
+                                            >
+                                                {`${breakDuration} min`}
+                                            </SwiftButton>
+                                        </ContextMenu.Trigger>
+                                    </ContextMenu>
+                                </Host>
+                            </HStack>
+                            <View
+                                style={{
+                                    height: 1,
+                                    backgroundColor: colors.surfacePrimary,
+                                }}
+                            />
+                            {/* Long Break Duration - dropdown */}
+                            <HStack alignItems="center" justifyContent="space-between" py="xs">
+                                <TypographyText
+                                    variant="body"
+                                    style={{ color: colors.contentPrimary }}
+                                >
+                                    Long Break Duration
+                                </TypographyText>
+                                <Host style={{ width: 80, height: 36 }}>
+                                    <ContextMenu activationMethod="singlePress">
+                                        <ContextMenu.Items>
+                                            <Picker
+                                                color={colors.contentPrimary}
+                                                label="Long Break Duration"
+                                                options={longBreakOptions.map((m) => `${m} min`)}
+                                                variant="inline"
+                                                selectedIndex={longBreakOptions.indexOf(
+                                                    longBreakDuration,
+                                                )}
+                                                onOptionSelected={({ nativeEvent: { index } }) => {
+                                                    setLongBreakDuration(longBreakOptions[index]);
+                                                }}
+                                            />
+                                        </ContextMenu.Items>
+                                        <ContextMenu.Trigger>
+                                            <SwiftButton
+                                                color={colors.secondary}
+                                                variant="bordered"
+                                            >
+                                                {`${longBreakDuration} min`}
+                                            </SwiftButton>
+                                        </ContextMenu.Trigger>
+                                    </ContextMenu>
+                                </Host>
+                            </HStack>
+                            <View
+                                style={{
+                                    height: 1,
+                                    backgroundColor: colors.surfacePrimary,
+                                }}
+                            />
+                            {/* Sessions Before Long Break - dropdown */}
+                            <HStack alignItems="center" justifyContent="space-between" py="xs">
+                                <TypographyText
+                                    variant="body"
+                                    style={{ color: colors.contentPrimary }}
+                                >
+                                    Sessions Before Long Break
+                                </TypographyText>
+                                <Host style={{ width: 80, height: 36 }}>
+                                    <ContextMenu activationMethod="singlePress">
+                                        <ContextMenu.Items>
+                                            <Picker
+                                                color={colors.contentPrimary}
+                                                label="Sessions Before Long Break"
+                                                options={sessionsOptions.map((count) => `${count}`)}
                                                 variant="inline"
-                                                selectedIndex={breakIndex}
+                                                selectedIndex={sessionsOptions.indexOf(
+                                                    sessionsBeforeLongBreak,
+                                                )}
                                                 onOptionSelected={({ nativeEvent: { index } }) => {
-                                                    setBreakIndex(index);
-                                                    setBreakDuration(DURATION_OPTIONS[index]);
+                                                    setSessionsBeforeLongBreak(
+                                                        sessionsOptions[index],
+                                                    );
                                                 }}
                                             />
                                         </ContextMenu.Items>
@@ -375,12 +498,213 @@ const SettingsScreen = () => {
                                                 color={colors.secondary}
                                                 variant="bordered"
                                             >
-                                                {`${DURATION_OPTIONS[breakIndex]} min`}
+                                                {`${sessionsBeforeLongBreak}`}
                                             </SwiftButton>
                                         </ContextMenu.Trigger>
                                     </ContextMenu>
                                 </Host>
                             </HStack>
+                            <View
+                                style={{
+                                    height: 1,
+                                    backgroundColor: colors.surfacePrimary,
+                                }}
+                            />
+                            <HStack alignItems="center" justifyContent="space-between" py="xs">
+                                <TypographyText
+                                    variant="body"
+                                    style={{ color: colors.contentPrimary }}
+                                >
+                                    Flow Mode
+                                </TypographyText>
+                                <Switch size="md" value={flowMode} onChange={setFlowMode} />
+                            </HStack>
+                            {flowMode ? (
+                                <>
+                                    <View
+                                        style={{
+                                            height: 1,
+                                            backgroundColor: colors.surfacePrimary,
+                                        }}
+                                    />
+                                    {/* Flow Break - dropdown */}
+                                    <HStack
+                                        alignItems="center"
+                                        justifyContent="space-between"
+                                        py="xs"
+                                    >
+                                        <TypographyText
+                                            variant="body"
+                                            style={{ color: colors.contentPrimary }}
+                                        >
+                                            Flow Break
+                                        </TypographyText>
+                                        <Host style={{ width: 100, height: 36 }}>
+                                            <ContextMenu activationMethod="singlePress">
+                                                <ContextMenu.Items>
+                                                    <Picker
+                                                        color={colors.contentPrimary}
+                                                        label="Share of Focus Time"
+                                                        options={flowBreakRatioOptions.map(
+                                                            formatFlowBreakRatio,
+                                                        )}
+                                                        variant="inline"
+                                                        selectedIndex={flowBreakRatioOptions.indexOf(
+                                                            flowBreakRatio,
+                                                        )}
+                                                        onOptionSelected={({
+                                                            nativeEvent: { index },
+                                                        }) => {
+                                                            setFlowBreakRatio(
+                                                                flowBreakRatioOptions[index],
+                                                            );
+                                                        }}
+                                                    />
+                                                </ContextMenu.Items>
+                                                <ContextMenu.Trigger>
+                                                    <SwiftButton
+                                                        color={colors.secondary}
+                                                        variant="bordered"
+                                                    >
+                                                        {formatFlowBreakRatio(flowBreakRatio)}
+                                                    </SwiftButton>
+                                                </ContextMenu.Trigger>
+                                            </ContextMenu>
+                                        </Host>
+                                    </HStack>
+                                </>
+                            ) : null}
+                            <View
+                                style={{
+                                    height: 1,
+                                    backgroundColor: colors.surfacePrimary,
+                                }}
+                            />
+                            <HStack alignItems="center" justifyContent="space-between" py="xs">
+                                <TypographyText
+                                    variant="body"
+                                    style={{ color: colors.contentPrimary }}
+                                >
+                                    Auto-start Breaks
+                                </TypographyText>
+                                <Switch
+                                    size="md"
+                                    value={autoStartBreaks}
+                                    onChange={setAutoStartBreaks}
+                                />
+                            </HStack>
+                            <View
+                                style={{
+                                    height: 1,
+                                    backgroundColor: colors.surfacePrimary,
+                                }}
+                            />
+                            <HStack alignItems="center" justifyContent="space-between" py="xs">
+                                <TypographyText
+                                    variant="body"
+                                    style={{ color: colors.contentPrimary }}
+                                >
+                                    Auto-start Focus
+                                </TypographyText>
+                                <Switch
+                                    size="md"
+                                    value={autoStartFocus}
+                                    onChange={setAutoStartFocus}
+                                />
+                            </HStack>
+                            {autoStartBreaks || autoStartFocus ? (
+                                <>
+                                    <View
+                                        style={{
+                                            height: 1,
+                                            backgroundColor: colors.surfacePrimary,
+                                        }}
+                                    />
+                                    {/* Auto-start Countdown - dropdown */}
+                                    <HStack
+                                        alignItems="center"
+                                        justifyContent="space-between"
+                                        py="xs"
+                                    >
+                                        <TypographyText
+                                            variant="body"
+                                            style={{ color: colors.contentPrimary }}
+                                        >
+                                            Auto-start Countdown
+                                        </TypographyText>
+                                        <Host style={{ width: 100, height: 36 }}>
+                                            <ContextMenu activationMethod="singlePress">
+                                                <ContextMenu.Items>
+                                                    <Picker
+                                                        color={colors.contentPrimary}
+                                                        label="Auto-start Countdown"
+                                                        options={autoStartDelayOptions.map(
+                                                            formatAutoStartDelay,
+                                                        )}
+                                                        variant="inline"
+                                                        selectedIndex={autoStartDelayOptions.indexOf(
+                                                            autoStartDelay,
+                                                        )}
+                                                        onOptionSelected={({
+                                                            nativeEvent: { index },
+                                                        }) => {
+                                                            setAutoStartDelay(
+                                                                autoStartDelayOptions[index],
+                                                            );
+                                                        }}
+                                                    />
+                                                </ContextMenu.Items>
+                                                <ContextMenu.Trigger>
+                                                    <SwiftButton
+                                                        color={colors.secondary}
+                                                        variant="bordered"
+                                                    >
+                                                        {formatAutoStartDelay(autoStartDelay)}
+                                                    </SwiftButton>
+                                                </ContextMenu.Trigger>
+                                            </ContextMenu>
+                                        </Host>
+                                    </HStack>
+                                </>
+                            ) : null}
+                            <View
+                                style={{
+                                    height: 1,
+                                    backgroundColor: colors.surfacePrimary,
+                                }}
+                            />
+                            <HStack alignItems="center" justifyContent="space-between" py="xs">
+                                <TypographyText
+                                    variant="body"
+                                    style={{ color: colors.contentPrimary }}
+                                >
+                                    Session Review
+                                </TypographyText>
+                                <Switch
+                                    size="md"
+                                    value={sessionReview}
+                                    onChange={setSessionReview}
+                                />
+                            </HStack>
+                            <View
+                                style={{
+                                    height: 1,
+                                    backgroundColor: colors.surfacePrimary,
+                                }}
+                            />
+                            <HStack alignItems="center" justifyContent="space-between" py="xs">
+                                <TypographyText
+                                    variant="body"
+                                    style={{ color: colors.contentPrimary }}
+                                >
+                                    Count Partial Sessions
+                                </TypographyText>
+                                <Switch
+                                    size="md"
+                                    value={countPartialSessions}
+                                    onChange={setCountPartialSessions}
+                                />
+                            </HStack>
                         </VStack>
                     </View>
                 </VStack>
@@ -445,6 +769,45 @@ const SettingsScreen = () => {
                                     backgroundColor: colors.surfacePrimary,
                                 }}
                             />
+                            <HStack alignItems="center" justifyContent="space-between" py="xs">
+                                <TypographyText
+                                    variant="body"
+                                    style={{ color: colors.contentPrimary }}
+                                >
+                                    Roll Over to Today
+                                </TypographyText>
+                                <Switch
+                                    size="md"
+                                    value={rollOverTodos}
+                                    onChange={setRollOverTodos}
+                                />
+                            </HStack>
+                            <View
+                                style={{
+                                    height: 1,
+                                    backgroundColor: colors.surfacePrimary,
+                                }}
+                            />
+                            <TouchableOpacity onPress={() => router.push('/categories')}>
+                                <HStack alignItems="center" justifyContent="space-between" py="xs">
+                                    <TypographyText
+                                        variant="body"
+                                        style={{ color: colors.contentPrimary }}
+                                    >
+                                        Categories
+                                    </TypographyText>
+                                    <View
+                                        style={{
+                                            width: 8,
+                                            height: 8,
+                                            borderRightWidth: 2,
+                                            borderTopWidth: 2,
+                                            borderColor: colors.surfacePrimary,
+                                            transform: [{ rotate: '45deg' }],
+                                        }}
+                                    />
+                                </HStack>
+                            </TouchableOpacity>
                         </VStack>
                     </View>
                 </VStack>
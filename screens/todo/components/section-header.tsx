@@ -1,21 +1,37 @@
 import TypographyText from '@/components/TypographyText';
 import { useColorTheme } from '@/hooks/useColorTheme';
-import { TodoSection } from '@/utils/dateUtils';
+import { formatShortDate, TodoSection } from '@/utils/dateUtils';
+import { DEFAULT_TODO_SORT_MODE, TODO_SORT_OPTIONS, TodoSortMode } from '@/utils/todoSort';
+import { Ionicons } from '@expo/vector-icons';
 import React from 'react';
-import { StyleSheet, View } from 'react-native';
+import { StyleSheet, TouchableOpacity, View } from 'react-native';
 
 interface SectionHeaderProps {
     section: TodoSection;
+    sortMode: TodoSortMode;
+    onSortPress: () => void;
 }
 
-const SectionHeader: React.FC<SectionHeaderProps> = ({ section }) => {
+const SectionHeader: React.FC<SectionHeaderProps> = ({ section, sortMode, onSortPress }) => {
     const colors = useColorTheme();
 
+    const sortButton = (
+        <TouchableOpacity onPress={onSortPress} hitSlop={8} style={styles.sortButton}>
+            {sortMode !== DEFAULT_TODO_SORT_MODE ? (
+                <TypographyText
+                    variant="caption"
+                    style={[styles.sortLabel, { color: colors.contentSecondary }]}
+                >
+                    {TODO_SORT_OPTIONS.find((option) => option.value === sortMode)?.label}
+                </TypographyText>
+            ) : null}
+            <Ionicons name="swap-vertical" size={16} color={colors.contentSecondary} />
+        </TouchableOpacity>
+    );
+
     // Special styling for today's section to match mock
-    const isTodaySection = section.title === 'For Today';
-    const formattedDate = `${section.date.getDate()} ${section.date.toLocaleString('en-US', {
-        month: 'short',
-    })}`;
+    const isTodaySection = section.key === 'today';
+    const formattedDate = formatShortDate(section.date);
 
     if (isTodaySection) {
         return (
@@ -32,6 +48,7 @@ const SectionHeader: React.FC<SectionHeaderProps> = ({ section }) => {
                 >
                     {formattedDate}
                 </TypographyText>
+                <View style={styles.todaySort}>{sortButton}</View>
             </View>
         );
     }
@@ -41,16 +58,24 @@ const SectionHeader: React.FC<SectionHeaderProps> = ({ section }) => {
         <View style={styles.sectionHeader}>
             <TypographyText
                 variant="title"
-                style={[styles.sectionTitle, { color: colors.contentPrimary }]}
+                style={[
+                    styles.sectionTitle,
+                    {
+                        color: section.key === 'overdue' ? colors.danger : colors.contentPrimary,
+                    },
+                ]}
             >
                 {section.title}
             </TypographyText>
-            <TypographyText
-                variant="caption"
-                style={[styles.sectionCount, { color: colors.contentPrimary }]}
-            >
-                {section.todos.length} {section.todos.length === 1 ? 'todo' : 'todos'}
-            </TypographyText>
+            <View style={styles.sectionActions}>
+                <TypographyText
+                    variant="caption"
+                    style={[styles.sectionCount, { color: colors.contentPrimary }]}
+                >
+                    {section.todos.length} {section.todos.length === 1 ? 'todo' : 'todos'}
+                </TypographyText>
+                {sortButton}
+            </View>
         </View>
     );
 };
@@ -83,6 +108,24 @@ const styles = StyleSheet.create({
         fontWeight: '700',
         opacity: 0.6,
     },
+    sectionActions: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 12,
+    },
+    todaySort: {
+        flex: 1,
+        alignItems: 'flex-end',
+    },
+    sortButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 4,
+    },
+    sortLabel: {
+        fontSize: 12,
+        fontWeight: '600',
+    },
     sectionCount: {
         fontSize: 12,
         fontWeight: '500',
@@ -12,81 +12,170 @@ import Animated, {
 } from 'react-native-reanimated';
 import { useUnifiedTodoStore } from '@/hooks/useUnifiedTodoStore';
 import { useColorTheme } from '@/hooks/useColorTheme';
+import { FALLBACK_CATEGORY_COLOR, useCategoryStore } from '@/stores/category-store';
+import { useTodoStore } from '@/stores/todo-store';
+import type { Subtask, Todo } from '@/services/local-database-service';
+import { daysBetween, formatShortDate, isTodoOverdue, parseDateKey } from '@/utils/dateUtils';
+import { getPriorityLevel } from '@/utils/priority';
+import { describeRecurrence } from '@/utils/recurrence';
 
 interface TodoCardProps {
-    todo: any;
+    todo: Todo;
     onToggle: (id: string) => void;
-    onEdit: (todo: any) => void;
+    onEdit: (todo: Todo) => void;
     onDelete: (id: string) => void;
 }
 
-const SubTaskItem = ({ todo }: { todo: any }) => {
+const SubTaskItem = ({ todo }: { todo: Todo }) => {
     const colors = useColorTheme();
     const { updateTodo } = useUnifiedTodoStore();
     return (
         <View style={styles.subtaskWrapper}>
-            {Array.isArray((todo as any)?.subtasks) && (todo as any).subtasks.length > 0 && (
+            {Array.isArray(todo.subtasks) && todo.subtasks.length > 0 && (
                 <View style={styles.subtasksContainer}>
-                    {(todo as any).subtasks.map(
-                        (s: { id: string; title: string; done: boolean }, idx: number) => {
-                            return (
-                                <View key={s.id || idx.toString()} style={styles.subtaskRow}>
-                                    <TouchableOpacity
-                                        onPress={async () => {
-                                            try {
-                                                const current = Array.isArray(
-                                                    (todo as any).subtasks,
-                                                )
-                                                    ? [...(todo as any).subtasks]
-                                                    : [];
-                                                const updated = current.map((item: any) =>
-                                                    (item.id || '') === (s.id || '')
-                                                        ? { ...item, done: !item.done }
-                                                        : item,
-                                                );
-                                                // Cast to any so we can pass additional field
-                                                await (updateTodo as any)(todo.id, {
-                                                    subtasks: updated,
-                                                });
-                                            } catch {}
-                                        }}
-                                        style={[
-                                            styles.subtaskCheckbox,
-                                            {
-                                                borderColor: colors.surfacePrimary,
-                                                backgroundColor: s.done
-                                                    ? colors.secondary
-                                                    : 'transparent',
-                                            },
-                                        ]}
-                                    >
-                                        {s.done && (
-                                            <Ionicons
-                                                name="checkmark"
-                                                size={12}
-                                                color={colors.backgroundPrimary}
-                                            />
-                                        )}
-                                    </TouchableOpacity>
-                                    <Text
-                                        style={[
-                                            styles.subtaskText,
-                                            {
-                                                color: colors.contentPrimary,
-                                                textDecorationLine: s.done
-                                                    ? 'line-through'
-                                                    : 'none',
-                                                opacity: s.done ? 0.6 : 1,
-                                            },
-                                        ]}
-                                        numberOfLines={1}
-                                    >
-                                        {s.title}
-                                    </Text>
-                                </View>
-                            );
-                        },
-                    )}
+                    {todo.subtasks.map((s: Subtask, idx: number) => {
+                        return (
+                            <View key={s.id || idx.toString()} style={styles.subtaskRow}>
+                                <TouchableOpacity
+                                    onPress={async () => {
+                                        try {
+                                            const current = Array.isArray(todo.subtasks)
+                                                ? [...todo.subtasks]
+                                                : [];
+                                            const updated = current.map((item) =>
+                                                (item.id || '') === (s.id || '')
+                                                    ? { ...item, done: !item.done }
+                                                    : item,
+                                            );
+                                            await updateTodo(todo.id, {
+                                                subtasks: updated,
+                                            });
+                                        } catch {}
+                                    }}
+                                    style={[
+                                        styles.subtaskCheckbox,
+                                        {
+                                            borderColor: colors.surfacePrimary,
+                                            backgroundColor: s.done
+                                                ? colors.secondary
+                                                : 'transparent',
+                                        },
+                                    ]}
+                                >
+                                    {s.done && (
+                                        <Ionicons
+                                            name="checkmark"
+                                            size={12}
+                                            color={colors.backgroundPrimary}
+                                        />
+                                    )}
+                                </TouchableOpacity>
+                                <Text
+                                    style={[
+                                        styles.subtaskText,
+                                        {
+                                            color: colors.contentPrimary,
+                                            textDecorationLine: s.done ? 'line-through' : 'none',
+                                            opacity: s.done ? 0.6 : 1,
+                                        },
+                                    ]}
+                                    numberOfLines={1}
+                                >
+                                    {s.title}
+                                </Text>
+                            </View>
+                        );
+                    })}
+                </View>
+            )}
+        </View>
+    );
+};
+
+const formatMinutes = (minutes: number): string =>
+    minutes < 60 ? `${minutes}m` : `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+
+/**
+ * When the todo is due, or the day it is planned for when that is past tomorrow;
+ * the section already says today and tomorrow
+ */
+const getDateLabel = (todo: Todo): string | null => {
+    if (todo.dueAt) return `Due ${formatShortDate(new Date(todo.dueAt))}`;
+
+    const scheduled = todo.scheduledFor ? parseDateKey(todo.scheduledFor) : null;
+    return scheduled && daysBetween(new Date(), scheduled) > 1 ? formatShortDate(scheduled) : null;
+};
+
+const DateBadge = ({ todo, label }: { todo: Todo; label: string }) => {
+    const colors = useColorTheme();
+    const color = isTodoOverdue(todo) ? colors.danger : colors.contentSecondary;
+
+    return (
+        <View style={[styles.badge, { borderColor: colors.surfacePrimary, borderWidth: 1 }]}>
+            <Ionicons
+                name={todo.dueAt ? 'flag-outline' : 'calendar-outline'}
+                size={10}
+                color={color}
+            />
+            <TypographyText variant="caption" style={[styles.badgeText, { color }]}>
+                {label}
+            </TypographyText>
+        </View>
+    );
+};
+
+const PriorityBadge = ({ priority }: { priority: number }) => {
+    const colors = useColorTheme();
+    const level = getPriorityLevel(priority);
+    if (!level.color) return null;
+
+    return (
+        <View style={[styles.badge, { borderColor: level.color, borderWidth: 1 }]}>
+            <Ionicons name="ellipse" size={8} color={level.color} />
+            <TypographyText
+                variant="caption"
+                style={[styles.badgeText, { color: colors.contentSecondary }]}
+            >
+                {level.label}
+            </TypographyText>
+        </View>
+    );
+};
+
+/**
+ * Focused time rolled up from sessions, against the estimate when there is one
+ */
+const TimeProgress = ({ todo }: { todo: Todo }) => {
+    const colors = useColorTheme();
+    const actual = todo.actualMinutes ?? 0;
+    const estimated = todo.estimatedMinutes ?? 0;
+
+    if (actual === 0 && estimated === 0) return null;
+
+    const isOver = estimated > 0 && actual > estimated;
+    const progress = estimated > 0 ? Math.min(1, actual / estimated) : 0;
+
+    return (
+        <View style={styles.timeProgress}>
+            <TypographyText
+                variant="caption"
+                style={{ color: isOver ? colors.danger : colors.contentSecondary }}
+            >
+                {estimated > 0
+                    ? `${formatMinutes(actual)} / ${formatMinutes(estimated)}`
+                    : `${formatMinutes(actual)} focused`}
+            </TypographyText>
+            {estimated > 0 && (
+                <View style={[styles.progressTrack, { backgroundColor: colors.surfacePrimary }]}>
+                    <View
+                        style={[
+                            styles.progressFill,
+                            {
+                                width: `${progress * 100}%`,
+                                backgroundColor: isOver ? colors.danger : colors.secondary,
+                            },
+                        ]}
+                    />
                 </View>
             )}
         </View>
@@ -98,6 +187,10 @@ const TodoCard: React.FC<TodoCardProps> = ({ todo, onToggle, onEdit, onDelete })
     const translateX = useSharedValue(0);
     const deleteOpacity = useSharedValue(0);
     const SWIPE_THRESHOLD = -80;
+    const isPendingUpload = useTodoStore((state) => state.pendingTodoIds.includes(todo?.id));
+    const category = useCategoryStore((state) =>
+        state.categories.find((item) => !!todo?.category && item.name === todo.category),
+    );
 
     // All hooks must be called before any conditional returns
     const panGesture = Gesture.Pan()
@@ -141,11 +234,8 @@ const TodoCard: React.FC<TodoCardProps> = ({ todo, onToggle, onEdit, onDelete })
         };
     });
 
-    const categoryColors: Record<string, string> = {
-        Work: 'green',
-        Health: 'red',
-        Personal: 'yellow',
-    };
+    const categoryColor = category?.color ?? FALLBACK_CATEGORY_COLOR;
+    const dateLabel = todo ? getDateLabel(todo) : null;
 
     // Safety check for todo object - must be after all hooks
     if (!todo || !todo.id) {
@@ -217,38 +307,90 @@ const TodoCard: React.FC<TodoCardProps> = ({ todo, onToggle, onEdit, onDelete })
                                         {todo.title || 'Untitled Todo'}
                                     </TypographyText>
 
-                                    {todo?.category && (
+                                    {(todo.priority > 0 ||
+                                        todo?.category ||
+                                        todo.recurrence ||
+                                        dateLabel) && (
                                         <View style={styles.badgeRow}>
-                                            <View
-                                                style={[
-                                                    styles.badge,
-                                                    {
-                                                        backgroundColor: colors.backgroundPrimary,
-                                                        borderColor:
-                                                            categoryColors[String(todo.category)] ||
-                                                            colors.surfacePrimary,
-                                                        borderWidth: 1,
-                                                    },
-                                                ]}
-                                            >
-                                                <TypographyText
-                                                    variant="caption"
+                                            <PriorityBadge priority={todo.priority} />
+                                            {todo.category ? (
+                                                <View
                                                     style={[
-                                                        styles.badgeText,
+                                                        styles.badge,
                                                         {
-                                                            color:
-                                                                categoryColors[
-                                                                    String(todo.category)
-                                                                ] || colors.contentPrimary,
+                                                            backgroundColor:
+                                                                colors.backgroundPrimary,
+                                                            borderColor: categoryColor,
+                                                            borderWidth: 1,
                                                         },
                                                     ]}
                                                 >
-                                                    {String(todo.category)}
-                                                </TypographyText>
-                                            </View>
+                                                    {category?.icon ? (
+                                                        <Ionicons
+                                                            name={
+                                                                category.icon as keyof typeof Ionicons.glyphMap
+                                                            }
+                                                            size={10}
+                                                            color={categoryColor}
+                                                        />
+                                                    ) : null}
+                                                    <TypographyText
+                                                        variant="caption"
+                                                        style={[
+                                                            styles.badgeText,
+                                                            {
+                                                                color: categoryColor,
+                                                            },
+                                                        ]}
+                                                    >
+                                                        {String(todo.category)}
+                                                    </TypographyText>
+                                                </View>
+                                            ) : null}
+                                            {todo.recurrence ? (
+                                                <View
+                                                    style={[
+                                                        styles.badge,
+                                                        {
+                                                            borderColor: colors.surfacePrimary,
+                                                            borderWidth: 1,
+                                                        },
+                                                    ]}
+                                                >
+                                                    <Ionicons
+                                                        name="repeat"
+                                                        size={10}
+                                                        color={colors.contentSecondary}
+                                                    />
+                                                    <TypographyText
+                                                        variant="caption"
+                                                        style={[
+                                                            styles.badgeText,
+                                                            { color: colors.contentSecondary },
+                                                        ]}
+                                                    >
+                                                        {describeRecurrence(todo.recurrence)}
+                                                    </TypographyText>
+                                                </View>
+                                            ) : null}
+                                            {dateLabel ? (
+                                                <DateBadge todo={todo} label={dateLabel} />
+                                            ) : null}
                                         </View>
                                     )}
+
+                                    <TimeProgress todo={todo} />
                                 </View>
+
+                                {isPendingUpload && (
+                                    <Ionicons
+                                        name="cloud-upload-outline"
+                                        size={16}
+                                        color={colors.contentSecondary}
+                                        style={styles.pendingIcon}
+                                        accessibilityLabel="Waiting to upload"
+                                    />
+                                )}
                             </View>
                         </TouchableOpacity>
                     </Animated.View>
@@ -320,6 +462,9 @@ const styles = StyleSheet.create({
         marginTop: 8,
     },
     badge: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 4,
         paddingHorizontal: 8,
         paddingVertical: 4,
         borderRadius: 6,
@@ -329,6 +474,23 @@ const styles = StyleSheet.create({
         fontWeight: '700',
         opacity: 0.8,
     },
+    timeProgress: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+        marginTop: 6,
+    },
+    progressTrack: {
+        flex: 1,
+        maxWidth: 120,
+        height: 3,
+        borderRadius: 2,
+        overflow: 'hidden',
+    },
+    progressFill: {
+        height: '100%',
+        borderRadius: 2,
+    },
     subtasksContainer: {
         marginTop: 8,
         gap: 6,
@@ -358,6 +520,9 @@ const styles = StyleSheet.create({
         alignItems: 'center',
         gap: 16,
     },
+    pendingIcon: {
+        marginRight: 8,
+    },
 });
 
 export default TodoCard;
@@ -6,6 +6,7 @@ import React, { useEffect } from 'react';
 import { Platform, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
 import { Gesture, GestureDetector } from 'react-native-gesture-handler';
 import { Colors } from '@/constants/Colors';
+import { getPriorityLevel } from '@/utils/priority';
 import Animated, {
     interpolate,
     runOnJS,
@@ -31,6 +32,7 @@ const TodoItem: React.FC<TodoItemProps> = ({ todo, onToggle, onEdit, onDelete, d
     const translateX = useSharedValue(0);
     const deleteOpacity = useSharedValue(0);
     const SWIPE_THRESHOLD = -80;
+    const priority = getPriorityLevel(todo.priority);
 
     useEffect(() => {
         animatedValue.value = withDelay(delay, withTiming(1, { duration: 600 }));
@@ -130,6 +132,18 @@ const TodoItem: React.FC<TodoItemProps> = ({ todo, onToggle, onEdit, onDelete, d
                                         {todo.title}
                                     </TypographyText>
                                 </View>
+                                {priority.color ? (
+                                    <View
+                                        style={[
+                                            styles.priorityBadge,
+                                            { backgroundColor: priority.color },
+                                        ]}
+                                    >
+                                        <Text style={[styles.priorityText, { color: '#000000' }]}>
+                                            {priority.label.toUpperCase()}
+                                        </Text>
+                                    </View>
+                                ) : null}
                             </View>
                         </View>
                     </TouchableOpacity>
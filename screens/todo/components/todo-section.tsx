@@ -1,29 +1,81 @@
+import TypographyText from '@/components/TypographyText';
+import { useColorTheme } from '@/hooks/useColorTheme';
 import { TodoSection } from '@/utils/dateUtils';
-import React from 'react';
-import { StyleSheet, View } from 'react-native';
+import { TODO_SORT_OPTIONS, TodoSortMode } from '@/utils/todoSort';
+import type { Todo } from '@/services/local-database-service';
+import React, { useState } from 'react';
+import { StyleSheet, TouchableOpacity, View } from 'react-native';
 import SectionHeader from './section-header';
 import TodoCard from './todo-card';
 
 interface TodoSectionProps {
     section: TodoSection;
     viewMode: 'grid' | 'list';
+    sortMode: TodoSortMode;
+    onSortChange: (mode: TodoSortMode) => void;
     onToggleTodo: (id: string) => void;
-    onEditTodo: (todo: any) => void;
+    onEditTodo: (todo: Todo) => void;
     onDeleteTodo: (id: string) => void;
 }
 
 const TodoSectionComponent: React.FC<TodoSectionProps> = ({
     section,
     viewMode,
+    sortMode,
+    onSortChange,
     onToggleTodo,
     onEditTodo,
     onDeleteTodo,
 }) => {
+    const colors = useColorTheme();
+    const [isSortOpen, setIsSortOpen] = useState(false);
     const isGrid = viewMode === 'grid';
 
     return (
         <View style={styles.section}>
-            <SectionHeader section={section} />
+            <SectionHeader
+                section={section}
+                sortMode={sortMode}
+                onSortPress={() => setIsSortOpen((open) => !open)}
+            />
+            {isSortOpen ? (
+                <View style={styles.sortOptions}>
+                    {TODO_SORT_OPTIONS.map(({ value, label }) => {
+                        const isActive = sortMode === value;
+                        return (
+                            <TouchableOpacity
+                                key={value}
+                                onPress={() => {
+                                    onSortChange(value);
+                                    setIsSortOpen(false);
+                                }}
+                                style={[
+                                    styles.sortOption,
+                                    {
+                                        backgroundColor: isActive
+                                            ? colors.contentPrimary
+                                            : colors.surfacePrimary,
+                                    },
+                                ]}
+                            >
+                                <TypographyText
+                                    variant="caption"
+                                    style={[
+                                        styles.sortOptionText,
+                                        {
+                                            color: isActive
+                                                ? colors.backgroundPrimary
+                                                : colors.contentPrimary,
+                                        },
+                                    ]}
+                                >
+                                    {label}
+                                </TypographyText>
+                            </TouchableOpacity>
+                        );
+                    })}
+                </View>
+            ) : null}
             <View style={isGrid ? styles.sectionContent : styles.sectionContentList}>
                 {section.todos
                     .filter((todo) => todo && todo.id && todo.title)
@@ -45,6 +97,22 @@ const styles = StyleSheet.create({
     section: {
         marginBottom: 24,
     },
+    sortOptions: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        gap: 8,
+        marginBottom: 16,
+        paddingHorizontal: 4,
+    },
+    sortOption: {
+        paddingHorizontal: 12,
+        paddingVertical: 6,
+        borderRadius: 8,
+    },
+    sortOptionText: {
+        fontSize: 12,
+        fontWeight: '700',
+    },
     sectionContent: {
         flexDirection: 'row',
         flexWrap: 'wrap',
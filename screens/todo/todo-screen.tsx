@@ -1,7 +1,10 @@
 import { useUnifiedTodoStore } from '@/hooks/useUnifiedTodoStore';
 import { groupTodosByDate } from '@/utils/dateUtils';
+import { DEFAULT_TODO_SORT_MODE, sortTodos } from '@/utils/todoSort';
 import { useColorTheme } from '@/hooks/useColorTheme';
 import { Todo } from '@/services/local-database-service';
+import { useCategoryStore } from '@/stores/category-store';
+import { useSettingsStore } from '@/stores/local-settings-store';
 import { router } from 'expo-router';
 import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import { ScrollView, StyleSheet, TouchableOpacity, View } from 'react-native';
@@ -12,7 +15,11 @@ import { Ionicons } from '@expo/vector-icons';
 
 const TodoScreen: React.FC = () => {
     const colors = useColorTheme();
-    const { todos, toggleTodo, loadTodos, deleteTodo } = useUnifiedTodoStore();
+    const { todos, toggleTodo, loadTodos, deleteTodo, rollOverTodos } = useUnifiedTodoStore();
+    const rollOverEnabled = useSettingsStore((state) => state.rollOverTodos);
+    const todoSortModes = useSettingsStore((state) => state.todoSortModes);
+    const setTodoSortMode = useSettingsStore((state) => state.setTodoSortMode);
+    const loadCategories = useCategoryStore((state) => state.loadCategories);
     const [viewMode] = useState<'grid' | 'list'>('grid');
 
     // Load todos on component mount
@@ -20,27 +27,23 @@ const TodoScreen: React.FC = () => {
         loadTodos();
     }, [loadTodos]);
 
-    // Group todos by date
-    // Normalize todos to local Todo format for groupTodosByDate
-    const normalizedTodos = useMemo(() => {
-        return todos.map((todo) => {
-            // If it's a Supabase todo, convert it to local format
-            const supabaseTodo = todo as any;
-            if ('created_at' in supabaseTodo && !('createdAt' in supabaseTodo)) {
-                return {
-                    ...supabaseTodo,
-                    createdAt: supabaseTodo.created_at,
-                    priority: supabaseTodo.priority ?? 0,
-                    actualMinutes: supabaseTodo.actualMinutes ?? 0,
-                } as Todo;
-            }
-            return todo as Todo;
-        });
-    }, [todos]);
+    // Todo cards take their category color and icon from here
+    useEffect(() => {
+        loadCategories();
+    }, [loadCategories]);
+
+    // Open todos left on a past day move to today
+    useEffect(() => {
+        if (rollOverEnabled) rollOverTodos();
+    }, [rollOverEnabled, todos, rollOverTodos]);
 
+    // Group todos by when they are due or planned, each section in its own order
     const todoSections = useMemo(() => {
-        return groupTodosByDate(normalizedTodos);
-    }, [normalizedTodos]);
+        return groupTodosByDate(todos).map((section) => ({
+            ...section,
+            todos: sortTodos(section.todos, todoSortModes[section.key] ?? DEFAULT_TODO_SORT_MODE),
+        }));
+    }, [todos, todoSortModes]);
 
     const handleToggleTodo = useCallback(
         (id: string) => {
@@ -49,7 +52,7 @@ const TodoScreen: React.FC = () => {
         [toggleTodo],
     );
 
-    const handleEditTodo = useCallback((todo: any) => {
+    const handleEditTodo = useCallback((todo: Todo) => {
         router.push(`/(create-todo)/create-todo?todoId=${todo.id}`);
     }, []);
 
@@ -82,9 +85,11 @@ const TodoScreen: React.FC = () => {
                         <View style={styles.todoSections}>
                             {todoSections.map((section) => (
                                 <TodoSectionComponent
-                                    key={section.title}
+                                    key={section.key}
                                     section={section}
                                     viewMode={viewMode}
+                                    sortMode={todoSortModes[section.key] ?? DEFAULT_TODO_SORT_MODE}
+                                    onSortChange={(mode) => setTodoSortMode(section.key, mode)}
                                     onToggleTodo={handleToggleTodo}
                                     onEditTodo={handleEditTodo}
                                     onDeleteTodo={handleDeleteTodo}
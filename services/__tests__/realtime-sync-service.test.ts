@@ -0,0 +1,253 @@
+import {
+    realtimeSyncService,
+    type RealtimeChange,
+    type RealtimeChannelFactory,
+    type RealtimeStatus,
+    type RealtimeTable,
+} from '@/services/realtime-sync-service';
+import {
+    fromSupabaseSession,
+    fromSupabaseTodo,
+    type Session as SupabaseSession,
+    type Todo as SupabaseTodo,
+} from '@/services/supabase-service';
+import { syncSchedulerService } from '@/services/sync-scheduler-service';
+import { usePomodoroStore } from '@/stores/pomodoro-store';
+import { useTodoStore } from '@/stores/todo-store';
+
+jest.mock('@/configs/supabase-config', () => ({ supabase: {} }));
+jest.mock('@/services/network-service', () => ({
+    networkService: { isOnline: () => true, subscribe: () => () => {} },
+}));
+jest.mock('@/services/sync-scheduler-service', () => ({
+    syncSchedulerService: { schedulePush: jest.fn() },
+}));
+jest.mock('@/stores/todo-store', () => {
+    const { create } = jest.requireActual('zustand');
+    return {
+        useTodoStore: create(() => ({ todos: [], isInitialized: true, loadTodos: jest.fn() })),
+    };
+});
+jest.mock('@/stores/pomodoro-store', () => {
+    const { create } = jest.requireActual('zustand');
+    return { usePomodoroStore: create(() => ({ sessions: [] })) };
+});
+
+const USER_ID = 'user-1';
+const T1 = '2026-10-19T09:00:00.000Z';
+const T2 = '2026-10-19T09:05:00.000Z';
+const T3 = '2026-10-19T09:10:00.000Z';
+
+interface StandInChannel {
+    emit: (change: RealtimeChange) => void;
+    setStatus: (status: RealtimeStatus) => void;
+    unsubscribe: jest.Mock;
+}
+
+const channels = new Map<RealtimeTable, StandInChannel>();
+
+/**
+ * Opens channels that deliver whatever a test emits on them
+ */
+const standInChannelFactory: RealtimeChannelFactory = (table, _userId, onChange, onStatus) => {
+    const channel = { emit: onChange, setStatus: onStatus, unsubscribe: jest.fn() };
+    channels.set(table, channel);
+    return channel;
+};
+
+const emit = (table: RealtimeTable, change: RealtimeChange) => channels.get(table)!.emit(change);
+
+const todoRow = (overrides: Partial<SupabaseTodo> = {}): SupabaseTodo => ({
+    id: 'todo-1',
+    title: 'Write report',
+    description: '',
+    icon: '',
+    isCompleted: false,
+    created_at: T1,
+    completedAt: null,
+    user_id: USER_ID,
+    updated_at: T1,
+    ...overrides,
+});
+
+const sessionRow = (overrides: Partial<SupabaseSession> = {}): SupabaseSession => ({
+    id: 'session-1',
+    duration: 25 * 60,
+    type: 'focus',
+    completed_at: T1,
+    user_id: USER_ID,
+    end_time: T1,
+    updated_at: T1,
+    ...overrides,
+});
+
+const todos = () => useTodoStore.getState().todos;
+const sessions = () => usePomodoroStore.getState().sessions;
+
+describe('realtime sync service', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+        channels.clear();
+        useTodoStore.setState({ todos: [] });
+        usePomodoroStore.setState({ sessions: [] });
+        realtimeSyncService.setChannelFactory(standInChannelFactory);
+        realtimeSyncService.start(USER_ID);
+    });
+
+    afterEach(() => {
+        realtimeSyncService.stop();
+        realtimeSyncService.setChannelFactory(null);
+    });
+
+    it('subscribes to todos and sessions and closes both on stop', () => {
+        const opened = [...channels.values()];
+        expect([...channels.keys()]).toEqual(['todos', 'sessions']);
+
+        realtimeSyncService.stop();
+        opened.forEach((channel) => expect(channel.unsubscribe).toHaveBeenCalledTimes(1));
+    });
+
+    describe('todos', () => {
+        it('adds a todo inserted on another device', () => {
+            useTodoStore.setState({ todos: [fromSupabaseTodo(todoRow({ id: 'todo-0' }))] });
+
+            emit('todos', { eventType: 'INSERT', new: todoRow(), old: {} });
+
+            expect(todos().map((todo) => todo.id)).toEqual(['todo-1', 'todo-0']);
+            expect(syncSchedulerService.schedulePush).toHaveBeenCalledTimes(1);
+        });
+
+        it('applies a newer update from another device', () => {
+            useTodoStore.setState({ todos: [fromSupabaseTodo(todoRow())] });
+
+            emit('todos', {
+                eventType: 'UPDATE',
+                new: todoRow({ title: 'Send report', updated_at: T2 }),
+                old: {},
+            });
+
+            expect(todos()).toHaveLength(1);
+            expect(todos()[0]).toMatchObject({ title: 'Send report', updatedAt: T2 });
+            expect(syncSchedulerService.schedulePush).toHaveBeenCalledTimes(1);
+        });
+
+        it('removes a todo deleted on another device', () => {
+            useTodoStore.setState({ todos: [fromSupabaseTodo(todoRow())] });
+
+            emit('todos', { eventType: 'DELETE', new: {}, old: { id: 'todo-1' } });
+
+            expect(todos()).toEqual([]);
+            expect(syncSchedulerService.schedulePush).toHaveBeenCalledTimes(1);
+        });
+
+        it('removes a todo soft-deleted on another device', () => {
+            useTodoStore.setState({ todos: [fromSupabaseTodo(todoRow())] });
+
+            emit('todos', {
+                eventType: 'UPDATE',
+                new: todoRow({ updated_at: T2, deleted_at: T2 }),
+                old: {},
+            });
+
+            expect(todos()).toEqual([]);
+        });
+
+        it('does not add a second copy or sync again when its own insert echoes back', () => {
+            useTodoStore.setState({ todos: [fromSupabaseTodo(todoRow())] });
+
+            emit('todos', { eventType: 'INSERT', new: todoRow(), old: {} });
+
+            expect(todos()).toHaveLength(1);
+            expect(syncSchedulerService.schedulePush).not.toHaveBeenCalled();
+        });
+
+        it('does not sync again when its own update echoes back', () => {
+            const edited = todoRow({ title: 'Send report', updated_at: T2, version: 2 });
+            useTodoStore.setState({ todos: [fromSupabaseTodo(edited)] });
+
+            emit('todos', { eventType: 'UPDATE', new: edited, old: {} });
+
+            expect(syncSchedulerService.schedulePush).not.toHaveBeenCalled();
+        });
+
+        it('applies an update with the same timestamp but a higher version', () => {
+            useTodoStore.setState({ todos: [fromSupabaseTodo(todoRow({ version: 2 }))] });
+
+            emit('todos', {
+                eventType: 'UPDATE',
+                new: todoRow({ title: 'Send report', version: 3 }),
+                old: {},
+            });
+
+            expect(todos()[0]).toMatchObject({ title: 'Send report', version: 3 });
+            expect(syncSchedulerService.schedulePush).toHaveBeenCalledTimes(1);
+        });
+
+        it('ignores a delete of a todo it does not have', () => {
+            emit('todos', { eventType: 'DELETE', new: {}, old: { id: 'todo-1' } });
+
+            expect(syncSchedulerService.schedulePush).not.toHaveBeenCalled();
+        });
+
+        it('ignores the echo of its own earlier write after a newer local edit', () => {
+            useTodoStore.setState({
+                todos: [fromSupabaseTodo(todoRow({ title: 'Send report', updated_at: T3 }))],
+            });
+
+            emit('todos', {
+                eventType: 'UPDATE',
+                new: todoRow({ title: 'Write report', updated_at: T2 }),
+                old: {},
+            });
+
+            expect(todos()[0]).toMatchObject({ title: 'Send report', updatedAt: T3 });
+            expect(syncSchedulerService.schedulePush).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('sessions', () => {
+        it('adds a session logged on another device', () => {
+            emit('sessions', { eventType: 'INSERT', new: sessionRow(), old: {} });
+
+            expect(sessions()).toHaveLength(1);
+            expect(sessions()[0]).toMatchObject({ id: 'session-1', duration: 25 * 60 });
+            expect(syncSchedulerService.schedulePush).toHaveBeenCalledTimes(1);
+        });
+
+        it('applies a newer update from another device', () => {
+            usePomodoroStore.setState({ sessions: [fromSupabaseSession(sessionRow())] });
+
+            emit('sessions', {
+                eventType: 'UPDATE',
+                new: sessionRow({ notes: 'Deep work', updated_at: T2 }),
+                old: {},
+            });
+
+            expect(sessions()).toHaveLength(1);
+            expect(sessions()[0]).toMatchObject({ notes: 'Deep work', updatedAt: T2 });
+        });
+
+        it('removes a session deleted on another device', () => {
+            usePomodoroStore.setState({ sessions: [fromSupabaseSession(sessionRow())] });
+
+            emit('sessions', { eventType: 'DELETE', new: {}, old: { id: 'session-1' } });
+
+            expect(sessions()).toEqual([]);
+        });
+
+        it('ignores the echo of its own earlier write after a newer local edit', () => {
+            usePomodoroStore.setState({
+                sessions: [fromSupabaseSession(sessionRow({ notes: 'Deep work', updated_at: T3 }))],
+            });
+
+            emit('sessions', {
+                eventType: 'UPDATE',
+                new: sessionRow({ notes: null, updated_at: T2 }),
+                old: {},
+            });
+
+            expect(sessions()[0]).toMatchObject({ notes: 'Deep work', updatedAt: T3 });
+            expect(syncSchedulerService.schedulePush).not.toHaveBeenCalled();
+        });
+    });
+});
@@ -0,0 +1,67 @@
+import { supabase } from '@/configs/supabase-config';
+import { createSupabaseService, toSupabaseTodoUpdates } from '@/services/supabase-service';
+
+jest.mock('@/configs/supabase-config', () => ({ supabase: { from: jest.fn() } }));
+
+const NOW = '2026-10-19T09:00:00.000Z';
+const EARLIER = '2026-10-18T09:00:00.000Z';
+
+/**
+ * A query chain that resolves every request with `result` and records what was written
+ */
+const fakeQuery = (result: { data?: unknown; error?: unknown }) => {
+    const query: Record<string, jest.Mock> = {};
+    for (const method of ['select', 'update', 'eq']) {
+        query[method] = jest.fn(() => query);
+    }
+    query.single = jest.fn(async () => ({ data: null, error: null, ...result }));
+    (query as any).then = (resolve: (value: unknown) => void) =>
+        resolve({ data: null, error: null, ...result });
+    return query;
+};
+
+describe('SupabaseService.updateTodo', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+        jest.useFakeTimers({ now: new Date(NOW) });
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it('stamps the changed fields and bumps the version', async () => {
+        const read = fakeQuery({
+            data: { version: 3, field_timestamps: { title: EARLIER, category: EARLIER } },
+        });
+        const write = fakeQuery({});
+        jest.mocked(supabase.from)
+            .mockReturnValueOnce(read as any)
+            .mockReturnValueOnce(write as any);
+
+        await createSupabaseService('user-1').updateTodo(
+            'todo-1',
+            toSupabaseTodoUpdates({ title: 'Send report', estimatedMinutes: 30 }),
+        );
+
+        expect(write.update).toHaveBeenCalledWith({
+            title: 'Send report',
+            estimated_minutes: 30,
+            updated_at: NOW,
+            version: 4,
+            field_timestamps: { title: NOW, category: EARLIER, estimatedMinutes: NOW },
+        });
+        expect(write.eq).toHaveBeenCalledWith('id', 'todo-1');
+        expect(write.eq).toHaveBeenCalledWith('user_id', 'user-1');
+    });
+
+    it('does not write when the todo cannot be read', async () => {
+        const failure = new Error('not found');
+        jest.mocked(supabase.from).mockReturnValueOnce(fakeQuery({ error: failure }) as any);
+
+        await expect(
+            createSupabaseService('user-1').updateTodo('todo-1', { title: 'Send report' }),
+        ).rejects.toBe(failure);
+        expect(supabase.from).toHaveBeenCalledTimes(1);
+    });
+});
@@ -1,13 +1,17 @@
 import * as FileSystem from 'expo-file-system';
 import * as Sharing from 'expo-sharing';
 import * as DocumentPicker from 'expo-document-picker';
-import { localDatabaseService, type Todo, type Session, type UserSettings } from '@/services/local-database-service';
+import { localDatabaseService, type Category, type Todo, type Session, type TimerPreset, type UserSettings } from '@/services/local-database-service';
 import { Alert } from 'react-native';
 
 export interface ExportData {
     todos: Todo[];
     sessions: Session[];
     settings: UserSettings | null;
+    /** Missing in backups made before timer presets existed */
+    presets?: TimerPreset[];
+    /** Missing in backups made before user-defined categories existed */
+    categories?: Category[];
     exportDate: string;
     appVersion: string;
 }
@@ -110,6 +114,8 @@ class ExportImportService {
                 todos: importData.todos,
                 sessions: importData.sessions,
                 settings: importData.settings || undefined,
+                presets: importData.presets,
+                categories: importData.categories,
             });
 
             console.log('Data imported successfully');
@@ -161,6 +167,16 @@ class ExportImportService {
                 return false;
             }
 
+            if (importData.presets !== undefined && !Array.isArray(importData.presets)) {
+                console.error('Import validation failed: presets is not an array');
+                return false;
+            }
+
+            if (importData.categories !== undefined && !Array.isArray(importData.categories)) {
+                console.error('Import validation failed: categories is not an array');
+                return false;
+            }
+
             if (!importData.exportDate || typeof importData.exportDate !== 'string') {
                 console.error('Import validation failed: exportDate is missing or invalid');
                 return false;
@@ -192,6 +208,52 @@ class ExportImportService {
                 }
             }
 
+            // Validate each timer preset has required fields
+            for (const preset of (importData.presets as unknown[] | undefined) ?? []) {
+                if (!preset || typeof preset !== 'object') {
+                    console.error('Import validation failed: invalid preset object');
+                    return false;
+                }
+                const presetObj = preset as Record<string, unknown>;
+                if (!presetObj.id || typeof presetObj.id !== 'string') {
+                    console.error('Import validation failed: preset missing id');
+                    return false;
+                }
+                if (!presetObj.name || typeof presetObj.name !== 'string') {
+                    console.error('Import validation failed: preset missing name');
+                    return false;
+                }
+                if (
+                    typeof presetObj.focusDuration !== 'number' ||
+                    typeof presetObj.breakDuration !== 'number' ||
+                    typeof presetObj.longBreakDuration !== 'number'
+                ) {
+                    console.error('Import validation failed: preset missing durations');
+                    return false;
+                }
+            }
+
+            // Validate each category has required fields
+            for (const category of (importData.categories as unknown[] | undefined) ?? []) {
+                if (!category || typeof category !== 'object') {
+                    console.error('Import validation failed: invalid category object');
+                    return false;
+                }
+                const categoryObj = category as Record<string, unknown>;
+                if (!categoryObj.id || typeof categoryObj.id !== 'string') {
+                    console.error('Import validation failed: category missing id');
+                    return false;
+                }
+                if (!categoryObj.name || typeof categoryObj.name !== 'string') {
+                    console.error('Import validation failed: category missing name');
+                    return false;
+                }
+                if (!categoryObj.color || typeof categoryObj.color !== 'string') {
+                    console.error('Import validation failed: category missing color');
+                    return false;
+                }
+            }
+
             // Validate each session has required fields
             for (const session of importData.sessions) {
                 if (!session || typeof session !== 'object') {
@@ -230,6 +292,8 @@ class ExportImportService {
                 `This will import:
         • ${data.todos.length} todos
         • ${data.sessions.length} sessions
+        • ${data.presets?.length ?? 0} timer presets
+        • ${data.categories?.length ?? 0} categories
         • Settings from ${new Date(data.exportDate).toLocaleDateString()}
         
         This will replace your current data. Continue?`,
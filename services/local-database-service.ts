@@ -1,7 +1,19 @@
 import * as SQLite from 'expo-sqlite';
+import { LOCAL_MIGRATIONS } from '@/database/local-migrations';
+import {
+    localMigrationService,
+    type SchemaMigrationReport,
+} from '@/services/local-migration-service';
+import {
+    stampFields,
+    valuesEqual,
+    type FieldConflict,
+    type FieldTimestamps,
+} from '@/utils/sync-merge';
+import { coalesceOperation, coalesceOperations, type SyncOperation } from '@/utils/sync-log';
 
 // Simple UUID v4 generator for React Native
-function generateUUID(): string {
+export function generateUUID(): string {
     return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, function (c) {
         const r = (Math.random() * 16) | 0;
         const v = c === 'x' ? r : (r & 0x3) | 0x8;
@@ -29,7 +41,46 @@ export interface Todo {
     estimatedMinutes?: number;
     actualMinutes: number;
     reminderAt?: string | null;
+    /** RRULE (RFC 5545) the todo repeats by; completing it creates the next occurrence */
+    recurrence?: string | null;
+    /** Deadline; an open todo past it is overdue */
+    dueAt?: string | null;
+    /** Day (YYYY-MM-DD, local) the todo is planned for; unset means someday */
+    scheduledFor?: string | null;
     subtasks?: Subtask[];
+    updatedAt?: string;
+    version?: number;
+    fieldTimestamps?: FieldTimestamps;
+}
+
+export type InterruptionKind = 'internal' | 'external';
+
+/**
+ * Something that broke focus during a session: a thought or urge (internal) or
+ * someone or something else (external)
+ */
+export interface SessionInterruption {
+    id: string;
+    kind: InterruptionKind;
+    /** When it was logged */
+    at: string;
+    note?: string | null;
+}
+
+/**
+ * How a focus session went, from the post-session review
+ * - done: the linked todo was finished
+ * - progress: moved forward, not finished
+ * - stuck: little or no progress
+ */
+export type SessionOutcome = 'done' | 'progress' | 'stuck';
+
+/**
+ * A pause of the timer; endedAt is null while still paused
+ */
+export interface PauseInterval {
+    startedAt: string;
+    endedAt: string | null;
 }
 
 export interface Session {
@@ -43,25 +94,127 @@ export interface Session {
     sessionNumber?: number | null;
     isCompleted: boolean;
     notes?: string | null;
+    interruptions?: SessionInterruption[];
+    pauses?: PauseInterval[];
+    /** 1–5, from the post-session review */
+    focusRating?: number | null;
+    outcome?: SessionOutcome | null;
+    updatedAt?: string;
+    version?: number;
+    fieldTimestamps?: FieldTimestamps;
+}
+
+/**
+ * A named set of timer durations the user can switch to in one step
+ */
+export interface TimerPreset {
+    id: string;
+    name: string;
+    focusDuration: number;
+    breakDuration: number;
+    longBreakDuration: number;
+    sessionsBeforeLongBreak: number;
+    /** Focus keeps running past its target until the user finishes it */
+    flowMode: boolean;
+    /** In flow mode the break is the focused time divided by this; 0 keeps the set break */
+    flowBreakRatio: number;
+    createdAt: string;
+    updatedAt?: string;
+    version?: number;
+    fieldTimestamps?: FieldTimestamps;
+}
+
+/**
+ * A user-defined todo category; todos refer to it by name
+ */
+export interface Category {
+    id: string;
+    name: string;
+    color: string;
+    /** Ionicons glyph shown next to the name */
+    icon: string | null;
+    /** Archived categories stay on their todos but are no longer offered for new ones */
+    isArchived: boolean;
+    createdAt: string;
+    updatedAt?: string;
+    version?: number;
+    fieldTimestamps?: FieldTimestamps;
 }
 
 export interface UserSettings {
     id: string;
     focusDuration: number;
     breakDuration: number;
+    longBreakDuration: number;
+    /** Focus sessions in a cycle; the break after the last one is a long break */
+    sessionsBeforeLongBreak: number;
     notifications: boolean;
     soundEffects: boolean;
     metronome: boolean;
+    /** Start a break automatically when a focus session ends */
+    autoStartBreaks: boolean;
+    /** Start the next focus session automatically when a break ends */
+    autoStartFocus: boolean;
+    /** Seconds to wait, cancellably, before an automatic start */
+    autoStartDelay: number;
+    flowMode: boolean;
+    flowBreakRatio: number;
+    /** Ask for a short review when a focus session ends */
+    sessionReview: boolean;
+    /** Count stopped focus sessions, not only completed ones, towards a todo's actualMinutes */
+    countPartialSessions: boolean;
+    /** Move open todos scheduled for a past day to today */
+    rollOverTodos: boolean;
     theme: string;
     userName?: string | null;
     userEmail?: string | null;
     onboardingCompleted: boolean;
     syncEnabled: boolean;
     lastSyncAt?: string | null;
+    /** Per table, the server synced_at of the newest record pulled; the next pull resumes there */
+    syncCursors?: Partial<Record<SyncedTable, string>>;
     createdAt: string;
     updatedAt: string;
+    textSize?: 'small' | 'medium' | 'large';
+    deviceName?: string | null;
+    /** Settings this device keeps to itself and never syncs */
+    localOnlySettings?: SyncableSetting[];
+    /** Todo category → id of the timer preset its todos start with */
+    categoryPresets?: Record<string, string>;
+    version?: number;
+    fieldTimestamps?: FieldTimestamps;
 }
 
+/**
+ * Settings that follow the user across devices unless opted out in localOnlySettings
+ */
+export const SETTINGS_SYNC_FIELDS = [
+    'focusDuration',
+    'breakDuration',
+    'longBreakDuration',
+    'sessionsBeforeLongBreak',
+    'notifications',
+    'soundEffects',
+    'metronome',
+    'autoStartBreaks',
+    'autoStartFocus',
+    'autoStartDelay',
+    'flowMode',
+    'flowBreakRatio',
+    'sessionReview',
+    'countPartialSessions',
+    'rollOverTodos',
+    'theme',
+    'userName',
+    'textSize',
+    'deviceName',
+    'categoryPresets',
+] as const;
+
+export type SyncableSetting = (typeof SETTINGS_SYNC_FIELDS)[number];
+
+export const DEFAULT_LOCAL_ONLY_SETTINGS: SyncableSetting[] = ['deviceName', 'textSize'];
+
 export interface SyncLog {
     id: string;
     tableName: string;
@@ -70,11 +223,117 @@ export interface SyncLog {
     timestamp: string;
     synced: boolean;
     error?: string;
+    attempts: number;
+    lastAttemptAt?: string | null;
+    nextAttemptAt?: string | null;
+}
+
+export interface SyncLogStats {
+    pending: number;
+    /** Pending changes whose last attempt failed */
+    erroring: number;
+    synced: number;
+    oldestPendingAt: string | null;
+    pendingByTable: Record<string, number>;
+}
+
+export type SyncChangeListener = (
+    change: Pick<SyncLog, 'tableName' | 'recordId' | 'operation'>,
+) => void;
+
+export type SyncedTable = 'todos' | 'sessions' | 'timer_presets' | 'categories';
+
+export interface SyncTombstone {
+    tableName: SyncedTable;
+    recordId: string;
+    deletedAt: string;
+    version: number;
 }
 
+export interface SyncConflict {
+    id: string;
+    tableName: SyncedTable | 'user_settings';
+    recordId: string;
+    field: string;
+    localValue: string | null;
+    remoteValue: string | null;
+    localUpdatedAt: string | null;
+    remoteUpdatedAt: string | null;
+    resolution: 'local' | 'remote';
+    resolvedAt: string;
+}
+
+/**
+ * Todo fields that are synced and merged field by field
+ */
+export const TODO_DATA_FIELDS = [
+    'title',
+    'description',
+    'icon',
+    'isCompleted',
+    'completedAt',
+    'category',
+    'priority',
+    'estimatedMinutes',
+    'actualMinutes',
+    'reminderAt',
+    'recurrence',
+    'dueAt',
+    'scheduledFor',
+    'subtasks',
+] as const;
+
+/**
+ * Session fields that are synced and merged field by field
+ */
+export const SESSION_DATA_FIELDS = [
+    'todoId',
+    'todoTitle',
+    'startTime',
+    'endTime',
+    'duration',
+    'type',
+    'sessionNumber',
+    'isCompleted',
+    'notes',
+    'interruptions',
+    'pauses',
+    'focusRating',
+    'outcome',
+] as const;
+
+/**
+ * Timer preset fields that are synced and merged field by field
+ */
+export const TIMER_PRESET_DATA_FIELDS = [
+    'name',
+    'focusDuration',
+    'breakDuration',
+    'longBreakDuration',
+    'sessionsBeforeLongBreak',
+    'flowMode',
+    'flowBreakRatio',
+] as const;
+
+/**
+ * Category fields that are synced and merged field by field
+ */
+export const CATEGORY_DATA_FIELDS = ['name', 'color', 'icon', 'isArchived'] as const;
+
+const parseJson = <T>(value: unknown): T | undefined => {
+    if (typeof value !== 'string' || !value) return undefined;
+    try {
+        return JSON.parse(value) as T;
+    } catch {
+        return undefined;
+    }
+};
+
 class LocalDatabaseService {
     private db: SQLite.SQLiteDatabase | null = null;
     private isInitialized = false;
+    private migrationReport: SchemaMigrationReport | null = null;
+    private syncChangeListeners: Set<SyncChangeListener> = new Set();
 
     async initialize(): Promise<boolean> {
         try {
@@ -83,12 +342,16 @@ class LocalDatabaseService {
             // Open database
             this.db = await SQLite.openDatabaseAsync('flowzy.db');
 
-            // Read and execute schema
-            const schema = await this.loadSchema();
-            await this.db.execAsync(schema);
-
-            // Apply lightweight migrations (ignore errors if already applied)
-            await this.applyMigrations();
+            // Bring the schema up to date with the versioned migrations
+            this.migrationReport = await localMigrationService.migrate(this.db, LOCAL_MIGRATIONS);
+            const { fromVersion, toVersion, applied } = this.migrationReport;
+            console.log(
+                applied.length > 0
+                    ? `Local database migrated from v${fromVersion} to v${toVersion}: ${applied
+                          .map((m) => `${m.version}_${m.name}`)
+                          .join(', ')}`
+                    : `Local database schema up to date (v${toVersion})`,
+            );
 
             this.isInitialized = true;
             console.log('Local database initialized successfully');
@@ -99,6 +362,13 @@ class LocalDatabaseService {
         }
     }
 
+    /**
+     * Get the result of the migration run performed during initialization
+     */
+    getMigrationReport(): SchemaMigrationReport | null {
+        return this.migrationReport;
+    }
+
     /**
      * Check if the database is initialized
      */
@@ -127,103 +397,6 @@ class LocalDatabaseService {
         }
     }
 
-    private async loadSchema(): Promise<string> {
-        // In a real app, you'd load this from a file
-        // For now, we'll include the schema inline
-        return `
-      -- SQLite Database Schema for Flowzy Local-First App
-      CREATE TABLE IF NOT EXISTS todos (
-        id TEXT PRIMARY KEY,
-        title TEXT NOT NULL,
-        description TEXT,
-        icon TEXT,
-        isCompleted BOOLEAN DEFAULT 0,
-        createdAt TEXT NOT NULL,
-        completedAt TEXT,
-        category TEXT,
-        priority INTEGER DEFAULT 0,
-        estimatedMinutes INTEGER,
-        actualMinutes INTEGER DEFAULT 0,
-        reminderAt TEXT,
-        subtasks TEXT
-      );
-
-      CREATE TABLE IF NOT EXISTS sessions (
-        id TEXT PRIMARY KEY,
-        todoId TEXT,
-        todoTitle TEXT,
-        startTime TEXT NOT NULL,
-        endTime TEXT,
-        duration INTEGER NOT NULL,
-        type TEXT NOT NULL CHECK (type IN ('focus', 'break')),
-        sessionNumber INTEGER,
-        isCompleted BOOLEAN DEFAULT 0,
-        notes TEXT,
-        FOREIGN KEY (todoId) REFERENCES todos(id) ON DELETE SET NULL
-      );
-
-      CREATE TABLE IF NOT EXISTS user_settings (
-        id TEXT PRIMARY KEY,
-        focusDuration INTEGER DEFAULT 25,
-        breakDuration INTEGER DEFAULT 5,
-        notifications BOOLEAN DEFAULT 1,
-        soundEffects BOOLEAN DEFAULT 1,
-        metronome BOOLEAN DEFAULT 0,
-        theme TEXT DEFAULT 'system',
-        userName TEXT,
-        userEmail TEXT,
-        onboardingCompleted BOOLEAN DEFAULT 0,
-        syncEnabled BOOLEAN DEFAULT 0,
-        lastSyncAt TEXT,
-        createdAt TEXT NOT NULL,
-        updatedAt TEXT NOT NULL
-      );
-
-      CREATE TABLE IF NOT EXISTS sync_log (
-        id TEXT PRIMARY KEY,
-        tableName TEXT NOT NULL,
-        recordId TEXT NOT NULL,
-        operation TEXT NOT NULL CHECK (operation IN ('create', 'update', 'delete')),
-        timestamp TEXT NOT NULL,
-        synced BOOLEAN DEFAULT 0,
-        error TEXT
-      );
-
-      -- Indexes
-      CREATE INDEX IF NOT EXISTS idx_todos_created_at ON todos(createdAt);
-      CREATE INDEX IF NOT EXISTS idx_todos_completed ON todos(isCompleted);
-      CREATE INDEX IF NOT EXISTS idx_sessions_start_time ON sessions(startTime);
-      CREATE INDEX IF NOT EXISTS idx_sessions_todo_id ON sessions(todoId);
-
-      -- Default settings
-      INSERT OR IGNORE INTO user_settings (
-        id, focusDuration, breakDuration, notifications, soundEffects, 
-        metronome, theme, userName, userEmail, onboardingCompleted, 
-        syncEnabled, createdAt, updatedAt
-      ) VALUES (
-        'default_settings', 25, 5, 1, 1, 0, 'system', 'User', '', 
-        0, 0, datetime('now'), datetime('now')
-      );
-    `;
-    }
-
-    /**
-     * Apply ALTER TABLE migrations safely; ignore if columns already exist.
-     */
-    private async applyMigrations(): Promise<void> {
-        if (!this.db) return;
-        try {
-            await this.db.execAsync(`ALTER TABLE todos ADD COLUMN reminderAt TEXT;`);
-        } catch (_e) {
-            // ignore if exists
-        }
-        try {
-            await this.db.execAsync(`ALTER TABLE todos ADD COLUMN subtasks TEXT;`);
-        } catch (_e) {
-            // ignore if exists
-        }
-    }
-
     // ===== TODO OPERATIONS =====
 
     async getTodos(): Promise<Todo[]> {
@@ -234,30 +407,7 @@ class LocalDatabaseService {
       ORDER BY createdAt DESC
     `);
 
-        // Normalize/parse fields
-        return (rows as any[]).map((row) => {
-            let parsedSubtasks: Subtask[] | undefined;
-            try {
-                parsedSubtasks = row.subtasks ? JSON.parse(row.subtasks) : undefined;
-            } catch {
-                parsedSubtasks = undefined;
-            }
-            return {
-                id: row.id,
-                title: row.title,
-                description: row.description ?? undefined,
-                icon: row.icon ?? undefined,
-                isCompleted: !!row.isCompleted,
-                createdAt: row.createdAt,
-                completedAt: row.completedAt ?? null,
-                category: row.category ?? undefined,
-                priority: row.priority ?? 0,
-                estimatedMinutes: row.estimatedMinutes ?? undefined,
-                actualMinutes: row.actualMinutes ?? 0,
-                reminderAt: row.reminderAt ?? null,
-                subtasks: parsedSubtasks,
-            } as Todo;
-        });
+        return (rows as any[]).map((row) => this.mapTodoRow(row));
     }
 
     async getTodo(id: string): Promise<Todo | null> {
@@ -270,28 +420,34 @@ class LocalDatabaseService {
             [id],
         );
 
-        if (!row) return null;
-        let parsedSubtasks: Subtask[] | undefined;
-        try {
-            parsedSubtasks = (row as any).subtasks ? JSON.parse((row as any).subtasks) : undefined;
-        } catch {
-            parsedSubtasks = undefined;
-        }
+        return row ? this.mapTodoRow(row) : null;
+    }
+
+    /**
+     * Normalize a raw todos row into a Todo
+     */
+    private mapTodoRow(row: any): Todo {
         return {
-            id: (row as any).id,
-            title: (row as any).title,
-            description: (row as any).description ?? undefined,
-            icon: (row as any).icon ?? undefined,
-            isCompleted: !!(row as any).isCompleted,
-            createdAt: (row as any).createdAt,
-            completedAt: (row as any).completedAt ?? null,
-            category: (row as any).category ?? undefined,
-            priority: (row as any).priority ?? 0,
-            estimatedMinutes: (row as any).estimatedMinutes ?? undefined,
-            actualMinutes: (row as any).actualMinutes ?? 0,
-            reminderAt: (row as any).reminderAt ?? null,
-            subtasks: parsedSubtasks,
-        } as Todo;
+            id: row.id,
+            title: row.title,
+            description: row.description ?? undefined,
+            icon: row.icon ?? undefined,
+            isCompleted: !!row.isCompleted,
+            createdAt: row.createdAt,
+            completedAt: row.completedAt ?? null,
+            category: row.category ?? undefined,
+            priority: row.priority ?? 0,
+            estimatedMinutes: row.estimatedMinutes ?? undefined,
+            actualMinutes: row.actualMinutes ?? 0,
+            reminderAt: row.reminderAt ?? null,
+            recurrence: row.recurrence ?? null,
+            dueAt: row.dueAt ?? null,
+            scheduledFor: row.scheduledFor ?? null,
+            subtasks: parseJson<Subtask[]>(row.subtasks),
+            updatedAt: row.updatedAt ?? row.createdAt,
+            version: row.version ?? 1,
+            fieldTimestamps: parseJson<FieldTimestamps>(row.fieldTimestamps) ?? {},
+        };
     }
 
     async createTodo(todo: Omit<Todo, 'id' | 'createdAt' | 'actualMinutes'>): Promise<string> {
@@ -305,8 +461,9 @@ class LocalDatabaseService {
       INSERT INTO todos (
         id, title, description, icon, isCompleted, createdAt, 
         completedAt, category, priority, estimatedMinutes, actualMinutes,
-        reminderAt, subtasks
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        reminderAt, recurrence, dueAt, scheduledFor, subtasks, updatedAt, version,
+        fieldTimestamps
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 1, ?)
     `,
             [
                 id,
@@ -321,7 +478,12 @@ class LocalDatabaseService {
                 todo.estimatedMinutes || null,
                 0,
                 (todo as any).reminderAt || null,
+                todo.recurrence || null,
+                todo.dueAt || null,
+                todo.scheduledFor || null,
                 JSON.stringify((todo as any).subtasks || []),
+                now,
+                JSON.stringify(stampFields(null, [...TODO_DATA_FIELDS], now)),
             ],
         );
 
@@ -377,6 +539,18 @@ class LocalDatabaseService {
             fields.push('reminderAt = ?');
             values.push((updates as any).reminderAt);
         }
+        if (updates.recurrence !== undefined) {
+            fields.push('recurrence = ?');
+            values.push(updates.recurrence);
+        }
+        if (updates.dueAt !== undefined) {
+            fields.push('dueAt = ?');
+            values.push(updates.dueAt);
+        }
+        if (updates.scheduledFor !== undefined) {
+            fields.push('scheduledFor = ?');
+            values.push(updates.scheduledFor);
+        }
         if ((updates as any).subtasks !== undefined) {
             fields.push('subtasks = ?');
             values.push(JSON.stringify((updates as any).subtasks || []));
@@ -384,14 +558,7 @@ class LocalDatabaseService {
 
         if (fields.length === 0) return;
 
-        values.push(id);
-
-        await this.db.runAsync(
-            `
-      UPDATE todos SET ${fields.join(', ')} WHERE id = ?
-    `,
-            values,
-        );
+        await this.stampAndUpdate('todos', id, fields, values);
 
         // Log the change for sync
         await this.logSyncChange('todos', id, 'update');
@@ -400,6 +567,7 @@ class LocalDatabaseService {
     async deleteTodo(id: string): Promise<void> {
         if (!this.db) throw new Error('Database not initialized');
 
+        await this.writeTombstone('todos', id, new Date().toISOString());
         await this.db.runAsync('DELETE FROM todos WHERE id = ?', [id]);
 
         // Log the change for sync
@@ -431,24 +599,78 @@ class LocalDatabaseService {
     async getSessions(): Promise<Session[]> {
         if (!this.db) throw new Error('Database not initialized');
 
-        const result = await this.db.getAllAsync(`
+        const rows = await this.db.getAllAsync(`
       SELECT * FROM sessions ORDER BY startTime DESC
     `);
 
-        return result as Session[];
+        return (rows as any[]).map((row) => this.mapSessionRow(row));
     }
 
-    async createSession(session: Omit<Session, 'id'>): Promise<string> {
+    async getSession(id: string): Promise<Session | null> {
         if (!this.db) throw new Error('Database not initialized');
 
-        const id = generateUUID();
+        const row = await this.db.getFirstAsync(`SELECT * FROM sessions WHERE id = ?`, [id]);
 
-        await this.db.runAsync(
+        return row ? this.mapSessionRow(row) : null;
+    }
+
+    /**
+     * Normalize a raw sessions row into a Session
+     */
+    private mapSessionRow(row: any): Session {
+        return {
+            id: row.id,
+            todoId: row.todoId ?? null,
+            todoTitle: row.todoTitle ?? null,
+            startTime: row.startTime,
+            endTime: row.endTime ?? null,
+            duration: row.duration,
+            type: row.type,
+            sessionNumber: row.sessionNumber ?? null,
+            isCompleted: !!row.isCompleted,
+            notes: row.notes ?? null,
+            interruptions: parseJson<SessionInterruption[]>(row.interruptions) ?? [],
+            pauses: parseJson<PauseInterval[]>(row.pauses) ?? [],
+            focusRating: row.focusRating ?? null,
+            outcome: row.outcome ?? null,
+            updatedAt: row.updatedAt ?? row.endTime ?? row.startTime,
+            version: row.version ?? 1,
+            fieldTimestamps: parseJson<FieldTimestamps>(row.fieldTimestamps) ?? {},
+        };
+    }
+
+    /**
+     * Create a session, keeping `session.id` when given (e.g. a session already known remotely)
+     */
+    async createSession(session: Omit<Session, 'id'> & { id?: string }): Promise<string> {
+        if (!this.db) throw new Error('Database not initialized');
+
+        const id = session.id ?? generateUUID();
+        const now = new Date().toISOString();
+
+        await this.db.withTransactionAsync(async () => {
+            await this.insertSession(id, session, now);
+
+            // Log the change for sync
+            await this.logSyncChange('sessions', id, 'create');
+            await this.rollUpActualMinutes([session.todoId]);
+        });
+
+        return id;
+    }
+
+    private async insertSession(
+        id: string,
+        session: Omit<Session, 'id'>,
+        now: string,
+    ): Promise<void> {
+        await this.db!.runAsync(
             `
       INSERT INTO sessions (
-        id, todoId, todoTitle, startTime, endTime, duration, 
-        type, sessionNumber, isCompleted, notes
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        id, todoId, todoTitle, startTime, endTime, duration, type, sessionNumber,
+        isCompleted, notes, interruptions, pauses, focusRating, outcome, updatedAt, version,
+        fieldTimestamps
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 1, ?)
     `,
             [
                 id,
@@ -461,20 +683,21 @@ class LocalDatabaseService {
                 session.sessionNumber || null,
                 session.isCompleted ? 1 : 0,
                 session.notes || null,
+                JSON.stringify(session.interruptions ?? []),
+                JSON.stringify(session.pauses ?? []),
+                session.focusRating ?? null,
+                session.outcome ?? null,
+                now,
+                JSON.stringify(stampFields(null, [...SESSION_DATA_FIELDS], now)),
             ],
         );
-
-        // Log the change for sync
-        await this.logSyncChange('sessions', id, 'create');
-
-        return id;
     }
 
     async updateSession(id: string, updates: Partial<Session>): Promise<void> {
         if (!this.db) throw new Error('Database not initialized');
 
-        const fields = [];
-        const values = [];
+        const fields: string[] = [];
+        const values: unknown[] = [];
 
         if (updates.todoId !== undefined) {
             fields.push('todoId = ?');
@@ -512,29 +735,109 @@ class LocalDatabaseService {
             fields.push('notes = ?');
             values.push(updates.notes);
         }
+        if (updates.interruptions !== undefined) {
+            fields.push('interruptions = ?');
+            values.push(JSON.stringify(updates.interruptions));
+        }
+        if (updates.pauses !== undefined) {
+            fields.push('pauses = ?');
+            values.push(JSON.stringify(updates.pauses));
+        }
+        if (updates.focusRating !== undefined) {
+            fields.push('focusRating = ?');
+            values.push(updates.focusRating);
+        }
+        if (updates.outcome !== undefined) {
+            fields.push('outcome = ?');
+            values.push(updates.outcome);
+        }
 
         if (fields.length === 0) return;
 
-        values.push(id);
-
-        await this.db.runAsync(
-            `
-      UPDATE sessions SET ${fields.join(', ')} WHERE id = ?
-    `,
-            values,
-        );
+        await this.db.withTransactionAsync(async () => {
+            const previousTodoId = await this.getSessionTodoId(id);
+            await this.stampAndUpdate('sessions', id, fields, values);
 
-        // Log the change for sync
-        await this.logSyncChange('sessions', id, 'update');
+            // Log the change for sync
+            await this.logSyncChange('sessions', id, 'update');
+            await this.rollUpActualMinutes([previousTodoId, updates.todoId]);
+        });
     }
 
     async deleteSession(id: string): Promise<void> {
         if (!this.db) throw new Error('Database not initialized');
 
-        await this.db.runAsync('DELETE FROM sessions WHERE id = ?', [id]);
+        await this.db.withTransactionAsync(async () => {
+            const todoId = await this.getSessionTodoId(id);
+            await this.writeTombstone('sessions', id, new Date().toISOString());
+            await this.db!.runAsync('DELETE FROM sessions WHERE id = ?', [id]);
+
+            // Log the change for sync
+            await this.logSyncChange('sessions', id, 'delete');
+            await this.rollUpActualMinutes([todoId]);
+        });
+    }
 
-        // Log the change for sync
-        await this.logSyncChange('sessions', id, 'delete');
+    private async getSessionTodoId(id: string): Promise<string | null> {
+        const row = await this.db!.getFirstAsync<{ todoId: string | null }>(
+            'SELECT todoId FROM sessions WHERE id = ?',
+            [id],
+        );
+        return row?.todoId ?? null;
+    }
+
+    /**
+     * Recompute actualMinutes of the given todos from their focus sessions.
+     * Completed sessions always count; stopped ones only with countPartialSessions on.
+     * Pass `logChanges: false` for totals derived from sessions that came from sync.
+     */
+    private async rollUpActualMinutes(
+        todoIds: (string | null | undefined)[],
+        logChanges = true,
+    ): Promise<void> {
+        const ids = [...new Set(todoIds.filter((id): id is string => !!id))];
+        if (ids.length === 0) return;
+
+        const rows = await this.db!.getAllAsync<{
+            id: string;
+            actualMinutes: number | null;
+            total: number;
+        }>(
+            `
+      SELECT todos.id, todos.actualMinutes,
+        CAST(ROUND(COALESCE(SUM(sessions.duration), 0) / 60.0) AS INTEGER) AS total
+      FROM todos
+      LEFT JOIN sessions ON sessions.todoId = todos.id AND sessions.type = 'focus' AND (
+        sessions.isCompleted = 1 OR
+        (SELECT countPartialSessions FROM user_settings WHERE id = 'default_settings') = 1
+      )
+      WHERE todos.id IN (${ids.map(() => '?').join(', ')})
+      GROUP BY todos.id
+    `,
+            ids,
+        );
+
+        for (const row of rows) {
+            if ((row.actualMinutes ?? 0) === row.total) continue;
+
+            if (logChanges) {
+                await this.stampAndUpdate('todos', row.id, ['actualMinutes = ?'], [row.total]);
+                await this.logSyncChange('todos', row.id, 'update');
+            } else {
+                await this.db!.runAsync('UPDATE todos SET actualMinutes = ? WHERE id = ?', [
+                    row.total,
+                    row.id,
+                ]);
+            }
+        }
+    }
+
+    private async rollUpAllActualMinutes(logChanges = true): Promise<void> {
+        const rows = await this.db!.getAllAsync<{ id: string }>('SELECT id FROM todos');
+        await this.rollUpActualMinutes(
+            rows.map((row) => row.id),
+            logChanges,
+        );
     }
 
     async getSessionsForTodo(todoId: string): Promise<Session[]> {
@@ -547,7 +850,7 @@ class LocalDatabaseService {
             [todoId],
         );
 
-        return result as Session[];
+        return (result as any[]).map((row) => this.mapSessionRow(row));
     }
 
     async getTotalTimeForTodo(todoId: string): Promise<number> {
@@ -563,155 +866,1155 @@ class LocalDatabaseService {
         return (result as any)?.total || 0;
     }
 
-    // ===== SETTINGS OPERATIONS =====
+    // ===== TIMER PRESET OPERATIONS =====
 
-    async getSettings(): Promise<UserSettings | null> {
+    async getTimerPresets(): Promise<TimerPreset[]> {
         if (!this.db) throw new Error('Database not initialized');
 
-        const result = await this.db.getFirstAsync(`
-      SELECT * FROM user_settings WHERE id = 'default_settings'
+        const rows = await this.db.getAllAsync(`
+      SELECT * FROM timer_presets ORDER BY createdAt ASC
     `);
 
-        return result as UserSettings | null;
+        return (rows as any[]).map((row) => this.mapTimerPresetRow(row));
     }
 
-    async updateSettings(updates: Partial<UserSettings>): Promise<void> {
+    async getTimerPreset(id: string): Promise<TimerPreset | null> {
         if (!this.db) throw new Error('Database not initialized');
 
-        const fields = [];
-        const values = [];
+        const row = await this.db.getFirstAsync(`SELECT * FROM timer_presets WHERE id = ?`, [id]);
 
-        if (updates.focusDuration !== undefined) {
-            fields.push('focusDuration = ?');
-            values.push(updates.focusDuration);
-        }
-        if (updates.breakDuration !== undefined) {
-            fields.push('breakDuration = ?');
-            values.push(updates.breakDuration);
-        }
-        if (updates.notifications !== undefined) {
-            fields.push('notifications = ?');
-            values.push(updates.notifications ? 1 : 0);
-        }
-        if (updates.soundEffects !== undefined) {
-            fields.push('soundEffects = ?');
-            values.push(updates.soundEffects ? 1 : 0);
-        }
-        if (updates.metronome !== undefined) {
-            fields.push('metronome = ?');
-            values.push(updates.metronome ? 1 : 0);
-        }
-        if (updates.theme !== undefined) {
-            fields.push('theme = ?');
-            values.push(updates.theme);
-        }
-        if (updates.userName !== undefined) {
-            fields.push('userName = ?');
-            values.push(updates.userName);
-        }
-        if (updates.userEmail !== undefined) {
-            fields.push('userEmail = ?');
-            values.push(updates.userEmail);
-        }
-        if (updates.onboardingCompleted !== undefined) {
-            fields.push('onboardingCompleted = ?');
-            values.push(updates.onboardingCompleted ? 1 : 0);
-        }
-        if (updates.syncEnabled !== undefined) {
-            fields.push('syncEnabled = ?');
-            values.push(updates.syncEnabled ? 1 : 0);
-        }
-        if (updates.lastSyncAt !== undefined) {
-            fields.push('lastSyncAt = ?');
-            values.push(updates.lastSyncAt);
-        }
+        return row ? this.mapTimerPresetRow(row) : null;
+    }
 
-        if (fields.length === 0) return;
+    /**
+     * Normalize a raw timer_presets row into a TimerPreset
+     */
+    private mapTimerPresetRow(row: any): TimerPreset {
+        return {
+            id: row.id,
+            name: row.name,
+            focusDuration: row.focusDuration,
+            breakDuration: row.breakDuration,
+            longBreakDuration: row.longBreakDuration,
+            sessionsBeforeLongBreak: row.sessionsBeforeLongBreak ?? 4,
+            flowMode: !!row.flowMode,
+            flowBreakRatio: row.flowBreakRatio ?? 5,
+            createdAt: row.createdAt,
+            updatedAt: row.updatedAt ?? row.createdAt,
+            version: row.version ?? 1,
+            fieldTimestamps: parseJson<FieldTimestamps>(row.fieldTimestamps) ?? {},
+        };
+    }
 
-        fields.push('updatedAt = ?');
-        values.push(new Date().toISOString());
-        values.push('default_settings');
+    async createTimerPreset(
+        preset: Omit<TimerPreset, 'id' | 'createdAt' | 'updatedAt' | 'version' | 'fieldTimestamps'>,
+    ): Promise<string> {
+        if (!this.db) throw new Error('Database not initialized');
+
+        const id = generateUUID();
+        const now = new Date().toISOString();
 
         await this.db.runAsync(
             `
-      UPDATE user_settings SET ${fields.join(', ')} WHERE id = ?
+      INSERT INTO timer_presets (
+        id, name, focusDuration, breakDuration, longBreakDuration, sessionsBeforeLongBreak,
+        flowMode, flowBreakRatio, createdAt, updatedAt, version, fieldTimestamps
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 1, ?)
     `,
-            values,
+            [
+                id,
+                preset.name,
+                preset.focusDuration,
+                preset.breakDuration,
+                preset.longBreakDuration,
+                preset.sessionsBeforeLongBreak,
+                preset.flowMode ? 1 : 0,
+                preset.flowBreakRatio,
+                now,
+                now,
+                JSON.stringify(stampFields(null, [...TIMER_PRESET_DATA_FIELDS], now)),
+            ],
         );
+
+        // Log the change for sync
+        await this.logSyncChange('timer_presets', id, 'create');
+
+        return id;
     }
 
-    // ===== SYNC OPERATIONS =====
+    async updateTimerPreset(id: string, updates: Partial<TimerPreset>): Promise<void> {
+        if (!this.db) throw new Error('Database not initialized');
 
-    /**
-     * Log a change to the sync log for tracking
-     */
-    private async logSyncChange(
-        tableName: string,
-        recordId: string,
-        operation: 'create' | 'update' | 'delete',
-    ): Promise<void> {
+        const fields = [];
+        const values = [];
+
+        for (const field of TIMER_PRESET_DATA_FIELDS) {
+            const value = updates[field];
+            if (value !== undefined) {
+                fields.push(`${field} = ?`);
+                values.push(typeof value === 'boolean' ? (value ? 1 : 0) : value);
+            }
+        }
+
+        if (fields.length === 0) return;
+
+        await this.stampAndUpdate('timer_presets', id, fields, values);
+
+        // Log the change for sync
+        await this.logSyncChange('timer_presets', id, 'update');
+    }
+
+    async deleteTimerPreset(id: string): Promise<void> {
         if (!this.db) throw new Error('Database not initialized');
 
-        const syncLogId = generateUUID();
-        const timestamp = new Date().toISOString();
+        await this.writeTombstone('timer_presets', id, new Date().toISOString());
+        await this.db.runAsync('DELETE FROM timer_presets WHERE id = ?', [id]);
 
-        await this.db.runAsync(
-            `
-      INSERT INTO sync_log (id, tableName, recordId, operation, timestamp, synced)
-      VALUES (?, ?, ?, ?, ?, 0)
-    `,
-            [syncLogId, tableName, recordId, operation, timestamp],
-        );
+        // Log the change for sync
+        await this.logSyncChange('timer_presets', id, 'delete');
     }
 
-    async getUnsyncedChanges(): Promise<SyncLog[]> {
+    // ===== CATEGORY OPERATIONS =====
+
+    async getCategories(): Promise<Category[]> {
         if (!this.db) throw new Error('Database not initialized');
 
-        const result = await this.db.getAllAsync(`
-      SELECT * FROM sync_log WHERE synced = 0 ORDER BY timestamp ASC
+        const rows = await this.db.getAllAsync(`
+      SELECT * FROM categories ORDER BY createdAt ASC
     `);
 
-        return result as SyncLog[];
+        return (rows as any[]).map((row) => this.mapCategoryRow(row));
     }
 
-    async markAsSynced(syncLogId: string): Promise<void> {
+    async getCategory(id: string): Promise<Category | null> {
         if (!this.db) throw new Error('Database not initialized');
 
-        await this.db.runAsync(
-            `
-      UPDATE sync_log SET synced = 1 WHERE id = ?
-    `,
-            [syncLogId],
-        );
+        const row = await this.db.getFirstAsync(`SELECT * FROM categories WHERE id = ?`, [id]);
+
+        return row ? this.mapCategoryRow(row) : null;
     }
 
-    async markSyncError(syncLogId: string, error: string): Promise<void> {
-        if (!this.db) throw new Error('Database not initialized');
+    /**
+     * Normalize a raw categories row into a Category
+     */
+    private mapCategoryRow(row: any): Category {
+        return {
+            id: row.id,
+            name: row.name,
+            color: row.color,
+            icon: row.icon ?? null,
+            isArchived: !!row.isArchived,
+            createdAt: row.createdAt,
+            updatedAt: row.updatedAt ?? row.createdAt,
+            version: row.version ?? 1,
+            fieldTimestamps: parseJson<FieldTimestamps>(row.fieldTimestamps) ?? {},
+        };
+    }
 
-        await this.db.runAsync(
-            `
-      UPDATE sync_log SET error = ? WHERE id = ?
-    `,
-            [error, syncLogId],
+    /**
+     * Throw when another category already uses `name`; todos could not tell them apart
+     */
+    private async assertCategoryNameFree(name: string, exceptId?: string): Promise<void> {
+        const existing = await this.db!.getFirstAsync<{ id: string }>(
+            `SELECT id FROM categories WHERE name = ? COLLATE NOCASE AND id != ?`,
+            [name, exceptId ?? ''],
         );
+        if (existing) {
+            throw new Error(`A category named "${name}" already exists`);
+        }
     }
 
-    // ===== EXPORT/IMPORT =====
+    async createCategory(
+        category: Pick<Category, 'name' | 'color' | 'icon'>,
+    ): Promise<string> {
+        if (!this.db) throw new Error('Database not initialized');
+
+        await this.assertCategoryNameFree(category.name);
+
+        const id = generateUUID();
+        const now = new Date().toISOString();
+
+        await this.db.runAsync(
+            `
+      INSERT INTO categories (
+        id, name, color, icon, isArchived, createdAt, updatedAt, version, fieldTimestamps
+      ) VALUES (?, ?, ?, ?, 0, ?, ?, 1, ?)
+    `,
+            [
+                id,
+                category.name,
+                category.color,
+                category.icon ?? null,
+                now,
+                now,
+                JSON.stringify(stampFields(null, [...CATEGORY_DATA_FIELDS], now)),
+            ],
+        );
+
+        // Log the change for sync
+        await this.logSyncChange('categories', id, 'create');
+
+        return id;
+    }
+
+    /**
+     * Update a category; a new name is carried over to every todo filed under the old one
+     */
+    async updateCategory(id: string, updates: Partial<Category>): Promise<void> {
+        if (!this.db) throw new Error('Database not initialized');
+
+        const current = await this.getCategory(id);
+        if (!current) return;
+
+        const fields: string[] = [];
+        const values: unknown[] = [];
+
+        for (const field of CATEGORY_DATA_FIELDS) {
+            const value = updates[field];
+            if (value !== undefined) {
+                fields.push(`${field} = ?`);
+                values.push(typeof value === 'boolean' ? (value ? 1 : 0) : value);
+            }
+        }
+
+        if (fields.length === 0) return;
+
+        const isRename = updates.name !== undefined && updates.name !== current.name;
+        if (isRename) {
+            await this.assertCategoryNameFree(updates.name!, id);
+        }
+
+        await this.db.withTransactionAsync(async () => {
+            await this.stampAndUpdate('categories', id, fields, values);
+
+            // Log the change for sync
+            await this.logSyncChange('categories', id, 'update');
+
+            if (isRename) {
+                await this.setTodosCategory(current.name, updates.name!);
+            }
+        });
+    }
+
+    /**
+     * Delete a category and take it off the todos that used it
+     */
+    async deleteCategory(id: string): Promise<void> {
+        if (!this.db) throw new Error('Database not initialized');
+
+        const current = await this.getCategory(id);
+        if (!current) return;
+
+        await this.db.withTransactionAsync(async () => {
+            await this.writeTombstone('categories', id, new Date().toISOString());
+            await this.db!.runAsync('DELETE FROM categories WHERE id = ?', [id]);
+
+            // Log the change for sync
+            await this.logSyncChange('categories', id, 'delete');
+            await this.setTodosCategory(current.name, null);
+        });
+    }
+
+    /**
+     * Move every todo in category `from` to `to`, logging each for sync
+     */
+    private async setTodosCategory(from: string, to: string | null): Promise<void> {
+        const rows = await this.db!.getAllAsync<{ id: string }>(
+            'SELECT id FROM todos WHERE category = ?',
+            [from],
+        );
+
+        for (const row of rows) {
+            await this.stampAndUpdate('todos', row.id, ['category = ?'], [to]);
+            await this.logSyncChange('todos', row.id, 'update');
+        }
+    }
+
+    // ===== SETTINGS OPERATIONS =====
+
+    async getSettings(): Promise<UserSettings | null> {
+        if (!this.db) throw new Error('Database not initialized');
+
+        const row = await this.db.getFirstAsync(`
+      SELECT * FROM user_settings WHERE id = 'default_settings'
+    `);
+
+        return row ? this.mapSettingsRow(row) : null;
+    }
+
+    /**
+     * Normalize a raw user_settings row into UserSettings
+     */
+    private mapSettingsRow(row: any): UserSettings {
+        return {
+            id: row.id,
+            focusDuration: row.focusDuration,
+            breakDuration: row.breakDuration,
+            longBreakDuration: row.longBreakDuration ?? row.breakDuration * 2,
+            sessionsBeforeLongBreak: row.sessionsBeforeLongBreak ?? 4,
+            notifications: !!row.notifications,
+            soundEffects: !!row.soundEffects,
+            metronome: !!row.metronome,
+            autoStartBreaks: !!row.autoStartBreaks,
+            autoStartFocus: !!row.autoStartFocus,
+            autoStartDelay: row.autoStartDelay ?? 5,
+            flowMode: !!row.flowMode,
+            flowBreakRatio: row.flowBreakRatio ?? 5,
+            sessionReview: row.sessionReview === undefined ? true : !!row.sessionReview,
+            countPartialSessions: !!row.countPartialSessions,
+            rollOverTodos: row.rollOverTodos === undefined ? true : !!row.rollOverTodos,
+            theme: row.theme,
+            userName: row.userName ?? null,
+            userEmail: row.userEmail ?? null,
+            onboardingCompleted: !!row.onboardingCompleted,
+            syncEnabled: !!row.syncEnabled,
+            lastSyncAt: row.lastSyncAt ?? null,
+            syncCursors: parseJson<Partial<Record<SyncedTable, string>>>(row.syncCursors) ?? {},
+            createdAt: row.createdAt,
+            updatedAt: row.updatedAt,
+            textSize: row.textSize ?? 'medium',
+            deviceName: row.deviceName ?? null,
+            localOnlySettings:
+                parseJson<SyncableSetting[]>(row.localOnlySettings) ?? DEFAULT_LOCAL_ONLY_SETTINGS,
+            categoryPresets: parseJson<Record<string, string>>(row.categoryPresets) ?? {},
+            version: row.version ?? 1,
+            fieldTimestamps: parseJson<FieldTimestamps>(row.fieldTimestamps) ?? {},
+        };
+    }
+
+    /**
+     * Update settings. Synced settings whose value actually changed are stamped
+     * and logged so the change can be merged into other devices.
+     */
+    async updateSettings(updates: Partial<UserSettings>): Promise<void> {
+        if (!this.db) throw new Error('Database not initialized');
+
+        const fields = [];
+        const values = [];
+
+        if (updates.focusDuration !== undefined) {
+            fields.push('focusDuration = ?');
+            values.push(updates.focusDuration);
+        }
+        if (updates.breakDuration !== undefined) {
+            fields.push('breakDuration = ?');
+            values.push(updates.breakDuration);
+        }
+        if (updates.longBreakDuration !== undefined) {
+            fields.push('longBreakDuration = ?');
+            values.push(updates.longBreakDuration);
+        }
+        if (updates.sessionsBeforeLongBreak !== undefined) {
+            fields.push('sessionsBeforeLongBreak = ?');
+            values.push(updates.sessionsBeforeLongBreak);
+        }
+        if (updates.notifications !== undefined) {
+            fields.push('notifications = ?');
+            values.push(updates.notifications ? 1 : 0);
+        }
+        if (updates.soundEffects !== undefined) {
+            fields.push('soundEffects = ?');
+            values.push(updates.soundEffects ? 1 : 0);
+        }
+        if (updates.metronome !== undefined) {
+            fields.push('metronome = ?');
+            values.push(updates.metronome ? 1 : 0);
+        }
+        if (updates.autoStartBreaks !== undefined) {
+            fields.push('autoStartBreaks = ?');
+            values.push(updates.autoStartBreaks ? 1 : 0);
+        }
+        if (updates.autoStartFocus !== undefined) {
+            fields.push('autoStartFocus = ?');
+            values.push(updates.autoStartFocus ? 1 : 0);
+        }
+        if (updates.autoStartDelay !== undefined) {
+            fields.push('autoStartDelay = ?');
+            values.push(updates.autoStartDelay);
+        }
+        if (updates.flowMode !== undefined) {
+            fields.push('flowMode = ?');
+            values.push(updates.flowMode ? 1 : 0);
+        }
+        if (updates.flowBreakRatio !== undefined) {
+            fields.push('flowBreakRatio = ?');
+            values.push(updates.flowBreakRatio);
+        }
+        if (updates.sessionReview !== undefined) {
+            fields.push('sessionReview = ?');
+            values.push(updates.sessionReview ? 1 : 0);
+        }
+        if (updates.countPartialSessions !== undefined) {
+            fields.push('countPartialSessions = ?');
+            values.push(updates.countPartialSessions ? 1 : 0);
+        }
+        if (updates.rollOverTodos !== undefined) {
+            fields.push('rollOverTodos = ?');
+            values.push(updates.rollOverTodos ? 1 : 0);
+        }
+        if (updates.theme !== undefined) {
+            fields.push('theme = ?');
+            values.push(updates.theme);
+        }
+        if (updates.userName !== undefined) {
+            fields.push('userName = ?');
+            values.push(updates.userName);
+        }
+        if (updates.userEmail !== undefined) {
+            fields.push('userEmail = ?');
+            values.push(updates.userEmail);
+        }
+        if (updates.onboardingCompleted !== undefined) {
+            fields.push('onboardingCompleted = ?');
+            values.push(updates.onboardingCompleted ? 1 : 0);
+        }
+        if (updates.syncEnabled !== undefined) {
+            fields.push('syncEnabled = ?');
+            values.push(updates.syncEnabled ? 1 : 0);
+        }
+        if (updates.lastSyncAt !== undefined) {
+            fields.push('lastSyncAt = ?');
+            values.push(updates.lastSyncAt);
+        }
+        if (updates.syncCursors !== undefined) {
+            fields.push('syncCursors = ?');
+            values.push(JSON.stringify(updates.syncCursors));
+        }
+        if (updates.textSize !== undefined) {
+            fields.push('textSize = ?');
+            values.push(updates.textSize);
+        }
+        if (updates.deviceName !== undefined) {
+            fields.push('deviceName = ?');
+            values.push(updates.deviceName);
+        }
+        if (updates.localOnlySettings !== undefined) {
+            fields.push('localOnlySettings = ?');
+            values.push(JSON.stringify(updates.localOnlySettings));
+        }
+        if (updates.categoryPresets !== undefined) {
+            fields.push('categoryPresets = ?');
+            values.push(JSON.stringify(updates.categoryPresets));
+        }
+
+        if (fields.length === 0) return;
+
+        const now = new Date().toISOString();
+        const current = await this.getSettings();
+        const changedSynced = SETTINGS_SYNC_FIELDS.filter(
+            (field) =>
+                updates[field] !== undefined && !valuesEqual(updates[field], current?.[field]),
+        );
+
+        if (changedSynced.length > 0) {
+            fields.push('fieldTimestamps = ?', 'version = COALESCE(version, 0) + 1');
+            values.push(
+                JSON.stringify(stampFields(current?.fieldTimestamps, [...changedSynced], now)),
+            );
+        }
+
+        fields.push('updatedAt = ?');
+        values.push(now);
+        values.push('default_settings');
+
+        await this.db.runAsync(
+            `
+      UPDATE user_settings SET ${fields.join(', ')} WHERE id = ?
+    `,
+            values,
+        );
+
+        if (changedSynced.length > 0) {
+            await this.logSyncChange('user_settings', 'default_settings', 'update');
+        }
+
+        // Which sessions count towards todos changed
+        if (changedSynced.includes('countPartialSessions')) {
+            await this.rollUpAllActualMinutes();
+        }
+    }
+
+    /**
+     * Write settings merged by sync, keeping their metadata and skipping the sync log
+     */
+    async saveSyncedSettings(settings: UserSettings): Promise<void> {
+        if (!this.db) throw new Error('Database not initialized');
+
+        const current = await this.getSettings();
+
+        await this.db.runAsync(
+            `
+      UPDATE user_settings SET
+        focusDuration = ?, breakDuration = ?, longBreakDuration = ?,
+        sessionsBeforeLongBreak = ?, notifications = ?, soundEffects = ?,
+        metronome = ?, autoStartBreaks = ?, autoStartFocus = ?, autoStartDelay = ?,
+        flowMode = ?, flowBreakRatio = ?, sessionReview = ?, countPartialSessions = ?,
+        rollOverTodos = ?, theme = ?, userName = ?,
+        textSize = ?, deviceName = ?, categoryPresets = ?, version = ?, fieldTimestamps = ?,
+        updatedAt = ?
+      WHERE id = 'default_settings'
+    `,
+            [
+                settings.focusDuration,
+                settings.breakDuration,
+                settings.longBreakDuration,
+                settings.sessionsBeforeLongBreak,
+                settings.notifications ? 1 : 0,
+                settings.soundEffects ? 1 : 0,
+                settings.metronome ? 1 : 0,
+                settings.autoStartBreaks ? 1 : 0,
+                settings.autoStartFocus ? 1 : 0,
+                settings.autoStartDelay ?? 5,
+                settings.flowMode ? 1 : 0,
+                settings.flowBreakRatio ?? 5,
+                settings.sessionReview === false ? 0 : 1,
+                settings.countPartialSessions ? 1 : 0,
+                settings.rollOverTodos === false ? 0 : 1,
+                settings.theme,
+                settings.userName ?? null,
+                settings.textSize ?? 'medium',
+                settings.deviceName ?? null,
+                JSON.stringify(settings.categoryPresets ?? {}),
+                settings.version ?? 1,
+                JSON.stringify(settings.fieldTimestamps ?? {}),
+                new Date().toISOString(),
+            ],
+        );
+
+        if (!!current?.countPartialSessions !== !!settings.countPartialSessions) {
+            await this.rollUpAllActualMinutes(false);
+        }
+    }
+
+    // ===== SYNC OPERATIONS =====
+
+    /**
+     * Log a change to the sync log for tracking.
+     * A pending row for the same record is updated in place, so each record
+     * has at most one pending operation.
+     */
+    private async logSyncChange(
+        tableName: string,
+        recordId: string,
+        operation: SyncOperation,
+    ): Promise<void> {
+        if (!this.db) throw new Error('Database not initialized');
+
+        const timestamp = new Date().toISOString();
+        const pending = await this.db.getFirstAsync<{
+            id: string;
+            operation: SyncOperation;
+            attempts: number | null;
+        }>(
+            `
+      SELECT id, operation, attempts FROM sync_log
+      WHERE tableName = ? AND recordId = ? AND synced = 0
+      ORDER BY timestamp DESC LIMIT 1
+    `,
+            [tableName, recordId],
+        );
+
+        if (pending) {
+            const coalesced = coalesceOperation(
+                this.effectivePendingOperation(pending.operation, pending.attempts),
+                operation,
+            );
+            if (coalesced === null) {
+                await this.db.runAsync(`DELETE FROM sync_log WHERE id = ?`, [pending.id]);
+            } else {
+                // A new change is retried from scratch; an attempted create is already an update
+                await this.db.runAsync(
+                    `
+      UPDATE sync_log SET operation = ?, timestamp = ?, attempts = 0, nextAttemptAt = NULL
+      WHERE id = ?
+    `,
+                    [coalesced, timestamp, pending.id],
+                );
+            }
+        } else {
+            await this.db.runAsync(
+                `
+      INSERT INTO sync_log (id, tableName, recordId, operation, timestamp, synced)
+      VALUES (?, ?, ?, ?, ?, 0)
+    `,
+                [generateUUID(), tableName, recordId, operation, timestamp],
+            );
+        }
+
+        this.syncChangeListeners.forEach((listener) => {
+            try {
+                listener({ tableName, recordId, operation });
+            } catch (error) {
+                console.error('Error in sync change listener:', error);
+            }
+        });
+    }
+
+    /**
+     * Subscribe to local writes that were logged for sync
+     */
+    onSyncChange(listener: SyncChangeListener): () => void {
+        this.syncChangeListeners.add(listener);
+
+        // Return unsubscribe function
+        return () => {
+            this.syncChangeListeners.delete(listener);
+        };
+    }
+
+    async getUnsyncedChanges(): Promise<SyncLog[]> {
+        if (!this.db) throw new Error('Database not initialized');
+
+        const result = await this.db.getAllAsync(`
+      SELECT * FROM sync_log WHERE synced = 0 ORDER BY timestamp ASC
+    `);
+
+        return (result as any[]).map((row) => this.mapSyncLogRow(row));
+    }
+
+    /**
+     * Get unsynced changes that are due for an attempt: never tried, or past
+     * their backoff and still under the attempt cap
+     */
+    async getDueChanges(maxAttempts: number): Promise<SyncLog[]> {
+        if (!this.db) throw new Error('Database not initialized');
+
+        const result = await this.db.getAllAsync(
+            `
+      SELECT * FROM sync_log
+      WHERE synced = 0
+        AND COALESCE(attempts, 0) < ?
+        AND (nextAttemptAt IS NULL OR nextAttemptAt <= ?)
+      ORDER BY timestamp ASC
+    `,
+            [maxAttempts, new Date().toISOString()],
+        );
+
+        return (result as any[]).map((row) => this.mapSyncLogRow(row));
+    }
+
+    /**
+     * Get the earliest scheduled retry among failed changes still under the attempt cap
+     */
+    async getNextSyncAttemptAt(maxAttempts: number): Promise<string | null> {
+        if (!this.db) throw new Error('Database not initialized');
+
+        const row = await this.db.getFirstAsync<{ nextAttemptAt: string | null }>(
+            `
+      SELECT MIN(nextAttemptAt) as nextAttemptAt FROM sync_log
+      WHERE synced = 0 AND COALESCE(attempts, 0) < ? AND nextAttemptAt IS NOT NULL
+    `,
+            [maxAttempts],
+        );
+
+        return row?.nextAttemptAt ?? null;
+    }
+
+    /**
+     * Ids of records in a table with local changes not uploaded yet
+     */
+    async getPendingRecordIds(tableName: SyncedTable): Promise<string[]> {
+        if (!this.db) throw new Error('Database not initialized');
+
+        const rows = await this.db.getAllAsync<{ recordId: string }>(
+            `SELECT DISTINCT recordId FROM sync_log WHERE synced = 0 AND tableName = ?`,
+            [tableName],
+        );
+
+        return rows.map((row) => row.recordId);
+    }
+
+    /**
+     * Count unsynced changes that reached the attempt cap
+     */
+    async getFailedChangesCount(maxAttempts: number): Promise<number> {
+        if (!this.db) throw new Error('Database not initialized');
+
+        const row = await this.db.getFirstAsync<{ count: number }>(
+            `SELECT COUNT(*) as count FROM sync_log WHERE synced = 0 AND COALESCE(attempts, 0) >= ?`,
+            [maxAttempts],
+        );
+
+        return row?.count ?? 0;
+    }
+
+    /**
+     * Make every failed change due again, e.g. when the user forces a sync
+     */
+    async resetSyncAttempts(): Promise<void> {
+        if (!this.db) throw new Error('Database not initialized');
+
+        await this.db.runAsync(
+            `UPDATE sync_log SET attempts = 0, nextAttemptAt = NULL WHERE synced = 0`,
+        );
+    }
+
+    /**
+     * A create that was already attempted may exist remotely, so it can no
+     * longer be cancelled out by a delete
+     */
+    private effectivePendingOperation(
+        operation: SyncOperation,
+        attempts: number | null,
+    ): SyncOperation {
+        return operation === 'create' && (attempts ?? 0) > 0 ? 'update' : operation;
+    }
+
+    /**
+     * Fold multiple pending rows per record (e.g. logged before coalescing existed) into one
+     */
+    async compactSyncLog(): Promise<number> {
+        if (!this.db) throw new Error('Database not initialized');
+
+        const duplicates = await this.db.getAllAsync<{ tableName: string; recordId: string }>(`
+      SELECT tableName, recordId FROM sync_log
+      WHERE synced = 0
+      GROUP BY tableName, recordId
+      HAVING COUNT(*) > 1
+    `);
+
+        let removed = 0;
+        await this.db.withTransactionAsync(async () => {
+            for (const { tableName, recordId } of duplicates) {
+                const rows = await this.db!.getAllAsync<{
+                    id: string;
+                    operation: SyncOperation;
+                    attempts: number | null;
+                }>(
+                    `
+          SELECT id, operation, attempts FROM sync_log
+          WHERE tableName = ? AND recordId = ? AND synced = 0
+          ORDER BY timestamp ASC
+        `,
+                    [tableName, recordId],
+                );
+
+                const operations = rows.map((row) =>
+                    this.effectivePendingOperation(row.operation, row.attempts),
+                );
+                const coalesced = coalesceOperations(operations);
+                const keep = rows[rows.length - 1];
+                const drop = coalesced === null ? rows : rows.slice(0, -1);
+
+                for (const row of drop) {
+                    await this.db!.runAsync(`DELETE FROM sync_log WHERE id = ?`, [row.id]);
+                }
+                if (coalesced !== null) {
+                    await this.db!.runAsync(`UPDATE sync_log SET operation = ? WHERE id = ?`, [
+                        coalesced,
+                        keep.id,
+                    ]);
+                }
+                removed += drop.length;
+            }
+        });
+
+        return removed;
+    }
+
+    /**
+     * Delete synced rows older than the retention window
+     */
+    async pruneSyncedLog(retentionDays = 7): Promise<number> {
+        if (!this.db) throw new Error('Database not initialized');
+
+        const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000).toISOString();
+        const result = await this.db.runAsync(
+            `DELETE FROM sync_log WHERE synced = 1 AND timestamp < ?`,
+            [cutoff],
+        );
+
+        return result.changes;
+    }
+
+    async getSyncLogStats(): Promise<SyncLogStats> {
+        if (!this.db) throw new Error('Database not initialized');
+
+        const totals = await this.db.getFirstAsync<{
+            pending: number | null;
+            erroring: number | null;
+            synced: number | null;
+            oldestPendingAt: string | null;
+        }>(`
+      SELECT
+        SUM(CASE WHEN synced = 0 THEN 1 ELSE 0 END) as pending,
+        SUM(CASE WHEN synced = 0 AND error IS NOT NULL THEN 1 ELSE 0 END) as erroring,
+        SUM(CASE WHEN synced = 1 THEN 1 ELSE 0 END) as synced,
+        MIN(CASE WHEN synced = 0 THEN timestamp END) as oldestPendingAt
+      FROM sync_log
+    `);
+        const byTable = await this.db.getAllAsync<{ tableName: string; count: number }>(`
+      SELECT tableName, COUNT(*) as count FROM sync_log WHERE synced = 0 GROUP BY tableName
+    `);
+
+        return {
+            pending: totals?.pending ?? 0,
+            erroring: totals?.erroring ?? 0,
+            synced: totals?.synced ?? 0,
+            oldestPendingAt: totals?.oldestPendingAt ?? null,
+            pendingByTable: Object.fromEntries(byTable.map((row) => [row.tableName, row.count])),
+        };
+    }
+
+    private mapSyncLogRow(row: any): SyncLog {
+        return {
+            id: row.id,
+            tableName: row.tableName,
+            recordId: row.recordId,
+            operation: row.operation,
+            timestamp: row.timestamp,
+            synced: !!row.synced,
+            error: row.error ?? undefined,
+            attempts: row.attempts ?? 0,
+            lastAttemptAt: row.lastAttemptAt ?? null,
+            nextAttemptAt: row.nextAttemptAt ?? null,
+        };
+    }
+
+    /**
+     * Mark a change as synced. When `timestamp` is given, a row that was
+     * coalesced with a newer write in the meantime is left pending.
+     */
+    async markAsSynced(syncLogId: string, timestamp?: string): Promise<void> {
+        if (!this.db) throw new Error('Database not initialized');
+
+        if (timestamp) {
+            await this.db.runAsync(
+                `UPDATE sync_log SET synced = 1, error = NULL WHERE id = ? AND timestamp = ?`,
+                [syncLogId, timestamp],
+            );
+            return;
+        }
+
+        await this.db.runAsync(
+            `
+      UPDATE sync_log SET synced = 1 WHERE id = ?
+    `,
+            [syncLogId],
+        );
+    }
+
+    /**
+     * Record a failed attempt; `nextAttemptAt` is null once the change has given up
+     */
+    async markSyncError(
+        syncLogId: string,
+        error: string,
+        nextAttemptAt: string | null = null,
+    ): Promise<void> {
+        if (!this.db) throw new Error('Database not initialized');
+
+        await this.db.runAsync(
+            `
+      UPDATE sync_log
+      SET error = ?, attempts = COALESCE(attempts, 0) + 1, lastAttemptAt = ?, nextAttemptAt = ?
+      WHERE id = ?
+    `,
+            [error, new Date().toISOString(), nextAttemptAt, syncLogId],
+        );
+    }
+
+    /**
+     * Apply an UPDATE while bumping the record version and stamping the changed fields
+     */
+    private async stampAndUpdate(
+        tableName: SyncedTable,
+        id: string,
+        fields: string[],
+        values: unknown[],
+    ): Promise<void> {
+        if (!this.db) throw new Error('Database not initialized');
+
+        const now = new Date().toISOString();
+        const current = await this.db.getFirstAsync<{ fieldTimestamps: string | null }>(
+            `SELECT fieldTimestamps FROM ${tableName} WHERE id = ?`,
+            [id],
+        );
+        const changed = fields.map((f) => f.replace(' = ?', ''));
+        const fieldTimestamps = stampFields(
+            parseJson<FieldTimestamps>(current?.fieldTimestamps),
+            changed,
+            now,
+        );
+
+        await this.db.runAsync(
+            `
+      UPDATE ${tableName}
+      SET ${fields.join(', ')}, updatedAt = ?, version = COALESCE(version, 0) + 1, fieldTimestamps = ?
+      WHERE id = ?
+    `,
+            [...(values as SQLite.SQLiteBindValue[]), now, JSON.stringify(fieldTimestamps), id],
+        );
+    }
+
+    /**
+     * Write a todo received from sync, keeping its metadata and skipping the sync log
+     */
+    async saveSyncedTodo(todo: Todo): Promise<void> {
+        if (!this.db) throw new Error('Database not initialized');
+
+        await this.db.runAsync(
+            `
+      INSERT OR REPLACE INTO todos (
+        id, title, description, icon, isCompleted, createdAt,
+        completedAt, category, priority, estimatedMinutes, actualMinutes,
+        reminderAt, recurrence, dueAt, scheduledFor, subtasks, updatedAt, version,
+        fieldTimestamps
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `,
+            [
+                todo.id,
+                todo.title,
+                todo.description || null,
+                todo.icon || null,
+                todo.isCompleted ? 1 : 0,
+                todo.createdAt,
+                todo.completedAt || null,
+                todo.category || null,
+                todo.priority || 0,
+                todo.estimatedMinutes ?? null,
+                todo.actualMinutes || 0,
+                todo.reminderAt || null,
+                todo.recurrence || null,
+                todo.dueAt || null,
+                todo.scheduledFor || null,
+                JSON.stringify(todo.subtasks || []),
+                todo.updatedAt ?? new Date().toISOString(),
+                todo.version ?? 1,
+                JSON.stringify(todo.fieldTimestamps ?? {}),
+            ],
+        );
+        await this.clearTombstone('todos', todo.id);
+    }
+
+    /**
+     * Write a session received from sync, keeping its metadata and skipping the sync log
+     */
+    async saveSyncedSession(session: Session): Promise<void> {
+        if (!this.db) throw new Error('Database not initialized');
+
+        const previousTodoId = await this.getSessionTodoId(session.id);
+        await this.db.runAsync(
+            `
+      INSERT OR REPLACE INTO sessions (
+        id, todoId, todoTitle, startTime, endTime, duration, type, sessionNumber,
+        isCompleted, notes, interruptions, pauses, focusRating, outcome, updatedAt, version,
+        fieldTimestamps
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `,
+            [
+                session.id,
+                session.todoId || null,
+                session.todoTitle || null,
+                session.startTime,
+                session.endTime || null,
+                session.duration,
+                session.type,
+                session.sessionNumber ?? null,
+                session.isCompleted ? 1 : 0,
+                session.notes || null,
+                JSON.stringify(session.interruptions ?? []),
+                JSON.stringify(session.pauses ?? []),
+                session.focusRating ?? null,
+                session.outcome ?? null,
+                session.updatedAt ?? new Date().toISOString(),
+                session.version ?? 1,
+                JSON.stringify(session.fieldTimestamps ?? {}),
+            ],
+        );
+        await this.clearTombstone('sessions', session.id);
+        await this.rollUpActualMinutes([previousTodoId, session.todoId], false);
+    }
+
+    /**
+     * Write a timer preset received from sync, keeping its metadata and skipping the sync log
+     */
+    async saveSyncedTimerPreset(preset: TimerPreset): Promise<void> {
+        if (!this.db) throw new Error('Database not initialized');
+
+        await this.db.runAsync(
+            `
+      INSERT OR REPLACE INTO timer_presets (
+        id, name, focusDuration, breakDuration, longBreakDuration, sessionsBeforeLongBreak,
+        flowMode, flowBreakRatio, createdAt, updatedAt, version, fieldTimestamps
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `,
+            [
+                preset.id,
+                preset.name,
+                preset.focusDuration,
+                preset.breakDuration,
+                preset.longBreakDuration,
+                preset.sessionsBeforeLongBreak,
+                preset.flowMode ? 1 : 0,
+                preset.flowBreakRatio,
+                preset.createdAt,
+                preset.updatedAt ?? new Date().toISOString(),
+                preset.version ?? 1,
+                JSON.stringify(preset.fieldTimestamps ?? {}),
+            ],
+        );
+        await this.clearTombstone('timer_presets', preset.id);
+    }
+
+    /**
+     * Write a category received from sync, keeping its metadata and skipping the sync log.
+     * A local category with the same name is dropped, as todos could not tell them apart.
+     */
+    async saveSyncedCategory(category: Category): Promise<void> {
+        if (!this.db) throw new Error('Database not initialized');
+
+        await this.db.withTransactionAsync(async () => {
+            await this.db!.runAsync(
+                `DELETE FROM categories WHERE name = ? COLLATE NOCASE AND id != ?`,
+                [category.name, category.id],
+            );
+            await this.db!.runAsync(
+                `
+      INSERT OR REPLACE INTO categories (
+        id, name, color, icon, isArchived, createdAt, updatedAt, version, fieldTimestamps
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `,
+                [
+                    category.id,
+                    category.name,
+                    category.color,
+                    category.icon ?? null,
+                    category.isArchived ? 1 : 0,
+                    category.createdAt,
+                    category.updatedAt ?? new Date().toISOString(),
+                    category.version ?? 1,
+                    JSON.stringify(category.fieldTimestamps ?? {}),
+                ],
+            );
+            await this.clearTombstone('categories', category.id);
+        });
+    }
+
+    /**
+     * Delete a record because of a remote delete, without logging it for upload
+     */
+    async deleteSyncedRecord(tableName: SyncedTable, id: string, deletedAt: string): Promise<void> {
+        if (!this.db) throw new Error('Database not initialized');
+
+        const sessionTodoId = tableName === 'sessions' ? await this.getSessionTodoId(id) : null;
+        await this.writeTombstone(tableName, id, deletedAt);
+        await this.db.runAsync(`DELETE FROM ${tableName} WHERE id = ?`, [id]);
+        await this.rollUpActualMinutes([sessionTodoId], false);
+    }
+
+    async getTombstone(tableName: SyncedTable, id: string): Promise<SyncTombstone | null> {
+        if (!this.db) throw new Error('Database not initialized');
+
+        const result = await this.db.getFirstAsync(
+            `SELECT * FROM sync_tombstones WHERE tableName = ? AND recordId = ?`,
+            [tableName, id],
+        );
+
+        return result as SyncTombstone | null;
+    }
+
+    private async writeTombstone(
+        tableName: SyncedTable,
+        id: string,
+        deletedAt: string,
+    ): Promise<void> {
+        if (!this.db) throw new Error('Database not initialized');
+
+        await this.db.runAsync(
+            `
+      INSERT OR REPLACE INTO sync_tombstones (tableName, recordId, deletedAt, version)
+      VALUES (?, ?, ?, COALESCE((SELECT version FROM ${tableName} WHERE id = ?), 0) + 1)
+    `,
+            [tableName, id, deletedAt, id],
+        );
+    }
+
+    private async clearTombstone(tableName: SyncedTable, id: string): Promise<void> {
+        if (!this.db) throw new Error('Database not initialized');
+
+        await this.db.runAsync(`DELETE FROM sync_tombstones WHERE tableName = ? AND recordId = ?`, [
+            tableName,
+            id,
+        ]);
+    }
+
+    // ===== SYNC CONFLICTS =====
+
+    /**
+     * Record fields that were edited on two devices and how they were resolved
+     */
+    async logSyncConflicts(
+        tableName: SyncedTable | 'user_settings',
+        recordId: string,
+        conflicts: FieldConflict[],
+    ): Promise<void> {
+        if (!this.db) throw new Error('Database not initialized');
+
+        const resolvedAt = new Date().toISOString();
+        for (const conflict of conflicts) {
+            await this.db.runAsync(
+                `
+        INSERT INTO sync_conflicts (
+          id, tableName, recordId, field, localValue, remoteValue,
+          localUpdatedAt, remoteUpdatedAt, resolution, resolvedAt
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `,
+                [
+                    generateUUID(),
+                    tableName,
+                    recordId,
+                    conflict.field,
+                    JSON.stringify(conflict.localValue ?? null),
+                    JSON.stringify(conflict.remoteValue ?? null),
+                    conflict.localUpdatedAt,
+                    conflict.remoteUpdatedAt,
+                    conflict.resolution,
+                    resolvedAt,
+                ],
+            );
+        }
+    }
+
+    async getSyncConflicts(limit = 100): Promise<SyncConflict[]> {
+        if (!this.db) throw new Error('Database not initialized');
+
+        const result = await this.db.getAllAsync(
+            `SELECT * FROM sync_conflicts ORDER BY resolvedAt DESC LIMIT ?`,
+            [limit],
+        );
+
+        return result as SyncConflict[];
+    }
+
+    async clearSyncConflicts(): Promise<void> {
+        if (!this.db) throw new Error('Database not initialized');
+
+        await this.db.runAsync('DELETE FROM sync_conflicts');
+    }
+
+    // ===== EXPORT/IMPORT =====
 
     async exportData(): Promise<{
         todos: Todo[];
         sessions: Session[];
         settings: UserSettings | null;
+        presets: TimerPreset[];
+        categories: Category[];
         exportDate: string;
     }> {
         const todos = await this.getTodos();
         const sessions = await this.getSessions();
         const settings = await this.getSettings();
+        const presets = await this.getTimerPresets();
+        const categories = await this.getCategories();
 
         return {
             todos,
             sessions,
             settings,
+            presets,
+            categories,
             exportDate: new Date().toISOString(),
         };
     }
@@ -720,6 +2023,8 @@ class LocalDatabaseService {
         todos?: Todo[];
         sessions?: Session[];
         settings?: Partial<UserSettings>;
+        presets?: TimerPreset[];
+        categories?: Category[];
     }): Promise<void> {
         if (!this.db) throw new Error('Database not initialized');
 
@@ -732,8 +2037,8 @@ class LocalDatabaseService {
             INSERT OR REPLACE INTO todos (
               id, title, description, icon, isCompleted, createdAt, 
               completedAt, category, priority, estimatedMinutes, actualMinutes,
-              reminderAt, subtasks
-            ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+              reminderAt, recurrence, dueAt, scheduledFor, subtasks
+            ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
           `,
                         [
                             todo.id,
@@ -748,6 +2053,9 @@ class LocalDatabaseService {
                             todo.estimatedMinutes || null,
                             todo.actualMinutes || 0,
                             (todo as any).reminderAt || null,
+                            todo.recurrence || null,
+                            todo.dueAt || null,
+                            todo.scheduledFor || null,
                             JSON.stringify((todo as any).subtasks || []),
                         ],
                     );
@@ -760,9 +2068,10 @@ class LocalDatabaseService {
                     await this.db!.runAsync(
                         `
             INSERT OR REPLACE INTO sessions (
-              id, todoId, todoTitle, startTime, endTime, duration, 
-              type, sessionNumber, isCompleted, notes
-            ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+              id, todoId, todoTitle, startTime, endTime, duration,
+              type, sessionNumber, isCompleted, notes, interruptions, pauses,
+              focusRating, outcome
+            ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
           `,
                         [
                             session.id,
@@ -775,6 +2084,60 @@ class LocalDatabaseService {
                             session.sessionNumber || null,
                             session.isCompleted ? 1 : 0,
                             session.notes || null,
+                            JSON.stringify(session.interruptions ?? []),
+                            JSON.stringify(session.pauses ?? []),
+                            session.focusRating ?? null,
+                            session.outcome ?? null,
+                        ],
+                    );
+                }
+            }
+
+            // Import timer presets
+            if (data.presets) {
+                for (const preset of data.presets) {
+                    await this.db!.runAsync(
+                        `
+            INSERT OR REPLACE INTO timer_presets (
+              id, name, focusDuration, breakDuration, longBreakDuration,
+              sessionsBeforeLongBreak, flowMode, flowBreakRatio, createdAt
+            ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+          `,
+                        [
+                            preset.id,
+                            preset.name,
+                            preset.focusDuration,
+                            preset.breakDuration,
+                            preset.longBreakDuration,
+                            preset.sessionsBeforeLongBreak ?? 4,
+                            preset.flowMode ? 1 : 0,
+                            preset.flowBreakRatio ?? 5,
+                            preset.createdAt ?? new Date().toISOString(),
+                        ],
+                    );
+                }
+            }
+
+            // Import categories, replacing any with the same name
+            if (data.categories) {
+                for (const category of data.categories) {
+                    await this.db!.runAsync(
+                        `DELETE FROM categories WHERE name = ? COLLATE NOCASE AND id != ?`,
+                        [category.name, category.id],
+                    );
+                    await this.db!.runAsync(
+                        `
+            INSERT OR REPLACE INTO categories (
+              id, name, color, icon, isArchived, createdAt
+            ) VALUES (?, ?, ?, ?, ?, ?)
+          `,
+                        [
+                            category.id,
+                            category.name,
+                            category.color,
+                            category.icon ?? null,
+                            category.isArchived ? 1 : 0,
+                            category.createdAt ?? new Date().toISOString(),
                         ],
                     );
                 }
@@ -796,6 +2159,8 @@ class LocalDatabaseService {
             await this.db!.runAsync('DELETE FROM todos');
             await this.db!.runAsync('DELETE FROM sessions');
             await this.db!.runAsync('DELETE FROM sync_log');
+            await this.db!.runAsync('DELETE FROM sync_tombstones');
+            await this.db!.runAsync('DELETE FROM sync_conflicts');
         });
     }
 
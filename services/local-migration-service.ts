@@ -0,0 +1,176 @@
+import type * as SQLite from 'expo-sqlite';
+import { DatabaseError } from '@/services/error-handling-service';
+
+/**
+ * A single versioned step of the local SQLite schema.
+ * `up` moves the schema to `version`, `down` restores the previous version.
+ */
+export interface LocalMigration {
+    version: number;
+    name: string;
+    up: (db: SQLite.SQLiteDatabase) => Promise<void>;
+    down: (db: SQLite.SQLiteDatabase) => Promise<void>;
+}
+
+export interface AppliedMigration {
+    version: number;
+    name: string;
+    durationMs: number;
+}
+
+export interface SchemaMigrationReport {
+    fromVersion: number;
+    toVersion: number;
+    latestVersion: number;
+    applied: AppliedMigration[];
+    startedAt: string;
+    completedAt: string;
+}
+
+/**
+ * Add a column only when the table does not already have it.
+ * Needed for installs that predate the schema_version table.
+ */
+export async function addColumnIfMissing(
+    db: SQLite.SQLiteDatabase,
+    table: string,
+    column: string,
+    definition: string,
+): Promise<void> {
+    const columns = await db.getAllAsync<{ name: string }>(`PRAGMA table_info(${table})`);
+    if (columns.some((c) => c.name === column)) return;
+
+    await db.execAsync(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition};`);
+}
+
+/**
+ * Local Migration Service
+ * Applies ordered schema migrations to the local SQLite database and
+ * records the applied versions in the schema_version table
+ */
+class LocalMigrationService {
+    /**
+     * Apply every pending migration, each one in its own transaction
+     */
+    async migrate(
+        db: SQLite.SQLiteDatabase,
+        migrations: LocalMigration[],
+    ): Promise<SchemaMigrationReport> {
+        const startedAt = new Date().toISOString();
+        const ordered = this.validate(migrations);
+
+        await this.ensureVersionTable(db);
+        const fromVersion = await this.getCurrentVersion(db);
+        const pending = ordered.filter((m) => m.version > fromVersion);
+        const applied: AppliedMigration[] = [];
+
+        for (const migration of pending) {
+            const start = Date.now();
+            try {
+                await db.withTransactionAsync(async () => {
+                    await migration.up(db);
+                    await db.runAsync(
+                        `INSERT INTO schema_version (version, name, appliedAt) VALUES (?, ?, ?)`,
+                        [migration.version, migration.name, new Date().toISOString()],
+                    );
+                });
+            } catch (error) {
+                throw new DatabaseError(
+                    `Migration ${migration.version} (${migration.name}) failed: ${
+                        error instanceof Error ? error.message : String(error)
+                    }`,
+                    error instanceof Error ? error : undefined,
+                );
+            }
+            applied.push({
+                version: migration.version,
+                name: migration.name,
+                durationMs: Date.now() - start,
+            });
+        }
+
+        const latestVersion = ordered.length > 0 ? ordered[ordered.length - 1].version : 0;
+
+        return {
+            fromVersion,
+            toVersion: await this.getCurrentVersion(db),
+            latestVersion,
+            applied,
+            startedAt,
+            completedAt: new Date().toISOString(),
+        };
+    }
+
+    /**
+     * Revert applied migrations, newest first, until the schema is at `targetVersion`
+     */
+    async rollbackTo(
+        db: SQLite.SQLiteDatabase,
+        targetVersion: number,
+        migrations: LocalMigration[],
+    ): Promise<number> {
+        const ordered = this.validate(migrations);
+
+        await this.ensureVersionTable(db);
+        const currentVersion = await this.getCurrentVersion(db);
+        const toRevert = ordered
+            .filter((m) => m.version > targetVersion && m.version <= currentVersion)
+            .reverse();
+
+        for (const migration of toRevert) {
+            try {
+                await db.withTransactionAsync(async () => {
+                    await migration.down(db);
+                    await db.runAsync(`DELETE FROM schema_version WHERE version = ?`, [
+                        migration.version,
+                    ]);
+                });
+            } catch (error) {
+                throw new DatabaseError(
+                    `Rollback of migration ${migration.version} (${migration.name}) failed: ${
+                        error instanceof Error ? error.message : String(error)
+                    }`,
+                    error instanceof Error ? error : undefined,
+                );
+            }
+        }
+
+        return this.getCurrentVersion(db);
+    }
+
+    /**
+     * Get the highest applied schema version (0 for a fresh database)
+     */
+    async getCurrentVersion(db: SQLite.SQLiteDatabase): Promise<number> {
+        const row = await db.getFirstAsync<{ version: number | null }>(
+            `SELECT MAX(version) as version FROM schema_version`,
+        );
+        return row?.version ?? 0;
+    }
+
+    private async ensureVersionTable(db: SQLite.SQLiteDatabase): Promise<void> {
+        await db.execAsync(`
+      CREATE TABLE IF NOT EXISTS schema_version (
+        version INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        appliedAt TEXT NOT NULL
+      );
+    `);
+    }
+
+    /**
+     * Sort migrations by version and reject duplicates
+     */
+    private validate(migrations: LocalMigration[]): LocalMigration[] {
+        const ordered = [...migrations].sort((a, b) => a.version - b.version);
+        for (let i = 1; i < ordered.length; i++) {
+            if (ordered[i].version === ordered[i - 1].version) {
+                throw new DatabaseError(`Duplicate migration version ${ordered[i].version}`);
+            }
+        }
+        return ordered;
+    }
+}
+
+// Export singleton instance
+export const localMigrationService = new LocalMigrationService();
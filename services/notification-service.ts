@@ -5,6 +5,9 @@ import { Platform, AppState, AppStateStatus } from 'react-native';
 // Task name for background timer
 const BACKGROUND_TIMER_TASK = 'BACKGROUND_TIMER_TASK';
 
+const TODO_REMINDER_CATEGORY = 'TODO_REMINDER';
+const TODO_REMINDER_CHANNEL = 'todo-reminder';
+
 // Notification configuration
 Notifications.setNotificationHandler({
     handleNotification: async (notification) => {
@@ -44,11 +47,36 @@ Notifications.setNotificationHandler({
     },
 });
 
+/**
+ * Buttons on a todo reminder; the snoozes move the reminder, start_focus opens the
+ * timer with the todo selected
+ */
+export type TodoReminderAction =
+    | 'snooze_10_min'
+    | 'snooze_1_hour'
+    | 'snooze_tomorrow'
+    | 'start_focus';
+
+const TODO_REMINDER_ACTIONS: TodoReminderAction[] = [
+    'snooze_10_min',
+    'snooze_1_hour',
+    'snooze_tomorrow',
+    'start_focus',
+];
+
+export interface TodoReminder {
+    todoId: string;
+    title: string;
+    at: Date;
+}
+
 export interface TimerNotificationData {
     timerPhase: 'focus' | 'shortBreak' | 'longBreak';
     timeLeft: number;
     sessionNumber: number;
     todoTitle?: string;
+    /** Seconds until the following phase starts on its own; unset when it starts manually */
+    nextPhaseStartsIn?: number;
 }
 
 class NotificationService {
@@ -56,6 +84,11 @@ class NotificationService {
     private backgroundTimerTask: any = null;
     private appState: AppStateStatus = AppState.currentState;
     private appStateListener: any = null;
+    private todoReminderListeners = new Set<
+        (action: TodoReminderAction, reminder: TodoReminder) => void
+    >();
+    /** Last response handled, as the listener and the launch check can both report it */
+    private lastResponseKey: string | null = null;
 
     async initialize(): Promise<boolean> {
         if (this.isInitialized) return true;
@@ -94,8 +127,41 @@ class NotificationService {
                     lightColor: '#FF231F7C',
                     sound: 'default',
                 });
+
+                await Notifications.setNotificationChannelAsync(TODO_REMINDER_CHANNEL, {
+                    name: 'Todo Reminders',
+                    description: 'Reminders set on todos',
+                    importance: Notifications.AndroidImportance.HIGH,
+                    vibrationPattern: [0, 250, 250, 250],
+                    lightColor: '#FF231F7C',
+                    sound: 'default',
+                });
             }
 
+            // Every action opens the app, as its JS listener is what carries the action out
+            await Notifications.setNotificationCategoryAsync(TODO_REMINDER_CATEGORY, [
+                {
+                    identifier: 'snooze_10_min',
+                    buttonTitle: 'Snooze 10 min',
+                    options: { opensAppToForeground: true },
+                },
+                {
+                    identifier: 'snooze_1_hour',
+                    buttonTitle: 'Snooze 1 h',
+                    options: { opensAppToForeground: true },
+                },
+                {
+                    identifier: 'snooze_tomorrow',
+                    buttonTitle: 'Tomorrow',
+                    options: { opensAppToForeground: true },
+                },
+                {
+                    identifier: 'start_focus',
+                    buttonTitle: 'Start Focus',
+                    options: { opensAppToForeground: true },
+                },
+            ]);
+
             // Configure notification categories for iOS
             if (Platform.OS === 'ios') {
                 await Notifications.setNotificationCategoryAsync('TIMER_COMPLETION', [
@@ -184,54 +250,82 @@ class NotificationService {
                 if (!initialized) return null;
             }
 
-            const { timerPhase, timeLeft, sessionNumber, todoTitle } = data;
-
             // Cancel any existing timer notifications
             await this.cancelTimerNotifications();
 
             // Calculate notification time (when timer will complete)
-            const notificationTime = new Date(Date.now() + timeLeft * 1000);
-
-            console.log('Scheduling notification for:', notificationTime.toISOString());
-            console.log('Timer phase:', timerPhase, 'Time left:', timeLeft, 'seconds');
-
-            // Create notification content
-            const title = this.getNotificationTitle(timerPhase, sessionNumber);
-            const body = this.getNotificationBody(timerPhase, todoTitle);
+            return await this.scheduleCompletionAt(data, new Date(Date.now() + data.timeLeft * 1000));
+        } catch (error) {
+            console.error('Failed to schedule timer notification:', error);
+            return null;
+        }
+    }
 
-            // Schedule the notification with high priority
-            // Note: Scheduled notifications will fire even if app is in foreground,
-            // but we'll handle that by checking app state when the notification is received
-            const notificationId = await Notifications.scheduleNotificationAsync({
-                content: {
-                    title,
-                    body,
-                    data: {
-                        timerPhase,
-                        sessionNumber,
-                        todoTitle,
-                        type: 'timer_completion',
-                        completionTime: notificationTime.getTime(),
-                        onlyIfBackground: true, // Flag to check when notification fires
-                    },
-                    sound: 'default',
-                    priority: Notifications.AndroidNotificationPriority.HIGH,
-                    categoryIdentifier: 'TIMER_COMPLETION',
-                },
-                trigger: {
-                    type: Notifications.SchedulableTriggerInputTypes.DATE,
-                    date: notificationTime,
-                },
-            });
+    /**
+     * Schedule the completion notification of a phase that will auto-start after the
+     * current one, keeping the current phase's notification. While the app is suspended
+     * no JS runs, so this is how a phase started in the background still gets announced.
+     */
+    async scheduleAutoStartedPhaseNotification(
+        data: TimerNotificationData,
+        startsIn: number,
+    ): Promise<string | null> {
+        try {
+            if (!this.isInitialized) {
+                const initialized = await this.initialize();
+                if (!initialized) return null;
+            }
 
-            console.log('Notification scheduled with ID:', notificationId);
-            return notificationId;
+            const completionTime = new Date(Date.now() + (startsIn + data.timeLeft) * 1000);
+            return await this.scheduleCompletionAt(data, completionTime);
         } catch (error) {
-            console.error('Failed to schedule timer notification:', error);
+            console.error('Failed to schedule auto-started phase notification:', error);
             return null;
         }
     }
 
+    private async scheduleCompletionAt(
+        data: TimerNotificationData,
+        notificationTime: Date,
+    ): Promise<string> {
+        const { timerPhase, timeLeft, sessionNumber, todoTitle, nextPhaseStartsIn } = data;
+
+        console.log('Scheduling notification for:', notificationTime.toISOString());
+        console.log('Timer phase:', timerPhase, 'Time left:', timeLeft, 'seconds');
+
+        // Create notification content
+        const title = this.getNotificationTitle(timerPhase, sessionNumber);
+        const body = this.getNotificationBody(timerPhase, todoTitle, nextPhaseStartsIn);
+
+        // Schedule the notification with high priority
+        // Note: Scheduled notifications will fire even if app is in foreground,
+        // but we'll handle that by checking app state when the notification is received
+        const notificationId = await Notifications.scheduleNotificationAsync({
+            content: {
+                title,
+                body,
+                data: {
+                    timerPhase,
+                    sessionNumber,
+                    todoTitle,
+                    type: 'timer_completion',
+                    completionTime: notificationTime.getTime(),
+                    onlyIfBackground: true, // Flag to check when notification fires
+                },
+                sound: 'default',
+                priority: Notifications.AndroidNotificationPriority.HIGH,
+                categoryIdentifier: 'TIMER_COMPLETION',
+            },
+            trigger: {
+                type: Notifications.SchedulableTriggerInputTypes.DATE,
+                date: notificationTime,
+            },
+        });
+
+        console.log('Notification scheduled with ID:', notificationId);
+        return notificationId;
+    }
+
     async schedulePreciseTimerNotification(endTime: Date): Promise<string | null> {
         try {
             if (!this.isInitialized) {
@@ -344,15 +438,28 @@ class NotificationService {
     private getNotificationBody(
         timerPhase: 'focus' | 'shortBreak' | 'longBreak',
         todoTitle?: string,
+        nextPhaseStartsIn?: number,
     ): string {
         const baseMessage =
-            timerPhase === 'focus'
-                ? 'Great job! Time for a break.'
-                : 'Break time is over. Ready to focus again?';
+            nextPhaseStartsIn !== undefined
+                ? this.getAutoStartMessage(timerPhase, nextPhaseStartsIn)
+                : timerPhase === 'focus'
+                  ? 'Great job! Time for a break.'
+                  : 'Break time is over. Ready to focus again?';
 
         return todoTitle ? `${baseMessage}\nTask: ${todoTitle}` : baseMessage;
     }
 
+    private getAutoStartMessage(
+        timerPhase: 'focus' | 'shortBreak' | 'longBreak',
+        startsIn: number,
+    ): string {
+        const nextPhase = timerPhase === 'focus' ? 'Your break' : 'Your next focus session';
+        return startsIn > 0
+            ? `${nextPhase} starts in ${startsIn} seconds.`
+            : `${nextPhase} has started.`;
+    }
+
     async sendBreakReminderNotification(
         timerPhase: 'focus' | 'shortBreak' | 'longBreak',
         timeLeft: number,
@@ -380,6 +487,123 @@ class NotificationService {
         }
     }
 
+    /**
+     * Schedule the reminder of a todo, replacing any earlier one for the same todo
+     */
+    async scheduleTodoReminder(todoId: string, title: string, at: Date): Promise<string | null> {
+        try {
+            if (!this.isInitialized) {
+                const initialized = await this.initialize();
+                if (!initialized) return null;
+            }
+
+            await this.cancelTodoReminder(todoId);
+            return await this.scheduleTodoReminderNotification({ todoId, title, at });
+        } catch (error) {
+            console.error('Failed to schedule todo reminder:', error);
+            return null;
+        }
+    }
+
+    private async scheduleTodoReminderNotification(reminder: TodoReminder): Promise<string> {
+        return await Notifications.scheduleNotificationAsync({
+            identifier: this.getTodoReminderId(reminder.todoId),
+            content: {
+                title: '🔔 Reminder',
+                body: reminder.title,
+                data: {
+                    type: 'todo_reminder',
+                    todoId: reminder.todoId,
+                    // Compared against the todo when reconciling
+                    reminderAt: reminder.at.toISOString(),
+                },
+                sound: 'default',
+                categoryIdentifier: TODO_REMINDER_CATEGORY,
+            },
+            trigger: {
+                type: Notifications.SchedulableTriggerInputTypes.DATE,
+                date: reminder.at,
+                channelId: TODO_REMINDER_CHANNEL,
+            },
+        });
+    }
+
+    async cancelTodoReminder(todoId: string): Promise<void> {
+        try {
+            await Notifications.cancelScheduledNotificationAsync(this.getTodoReminderId(todoId));
+        } catch (error) {
+            console.error('Failed to cancel todo reminder:', error);
+        }
+    }
+
+    async cancelTodoReminders(): Promise<void> {
+        try {
+            const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+            for (const notification of scheduled) {
+                if (notification.content.data?.type === 'todo_reminder') {
+                    await Notifications.cancelScheduledNotificationAsync(notification.identifier);
+                }
+            }
+        } catch (error) {
+            console.error('Failed to cancel todo reminders:', error);
+        }
+    }
+
+    /**
+     * Bring the pending OS notifications in line with the reminders todos should have:
+     * drop ones for todos that are gone, done or moved, and schedule the missing ones.
+     * Does nothing without permission, so it never prompts on its own.
+     */
+    async reconcileTodoReminders(reminders: TodoReminder[]): Promise<void> {
+        try {
+            if (!(await this.checkPermissions())) return;
+            if (!this.isInitialized && !(await this.initialize())) return;
+
+            const expected = new Map(reminders.map((reminder) => [reminder.todoId, reminder]));
+            const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+
+            for (const notification of scheduled) {
+                const data = notification.content.data;
+                if (data?.type !== 'todo_reminder') continue;
+
+                const reminder = expected.get(String(data.todoId));
+                const isCurrent =
+                    !!reminder &&
+                    notification.identifier === this.getTodoReminderId(reminder.todoId) &&
+                    data.reminderAt === reminder.at.toISOString() &&
+                    notification.content.body === reminder.title;
+
+                if (isCurrent) {
+                    expected.delete(reminder.todoId);
+                } else {
+                    await Notifications.cancelScheduledNotificationAsync(notification.identifier);
+                }
+            }
+
+            for (const reminder of expected.values()) {
+                await this.scheduleTodoReminderNotification(reminder);
+            }
+        } catch (error) {
+            console.error('Failed to reconcile todo reminders:', error);
+        }
+    }
+
+    /**
+     * Listen for the buttons pressed on todo reminders
+     */
+    onTodoReminderAction(
+        listener: (action: TodoReminderAction, reminder: TodoReminder) => void,
+    ): () => void {
+        this.todoReminderListeners.add(listener);
+        return () => {
+            this.todoReminderListeners.delete(listener);
+        };
+    }
+
+    private getTodoReminderId(todoId: string): string {
+        return `todo-reminder-${todoId}`;
+    }
+
     async checkPermissions(): Promise<boolean> {
         try {
             const { status } = await Notifications.getPermissionsAsync();
@@ -408,7 +632,32 @@ class NotificationService {
 
             console.log('Notification response:', actionIdentifier, data);
 
-            if (actionIdentifier === 'CONTINUE_BREAK') {
+            const responseKey = [
+                notification.request.identifier,
+                notification.date,
+                actionIdentifier,
+            ].join(':');
+            if (responseKey === this.lastResponseKey) return;
+            this.lastResponseKey = responseKey;
+
+            if (data?.type === 'todo_reminder') {
+                const action = actionIdentifier as TodoReminderAction;
+                // Tapping the reminder itself just opens the app
+                if (!TODO_REMINDER_ACTIONS.includes(action)) return;
+
+                const reminder: TodoReminder = {
+                    todoId: String(data.todoId),
+                    title: notification.request.content.body ?? '',
+                    at: new Date(String(data.reminderAt ?? notification.date)),
+                };
+                this.todoReminderListeners.forEach((listener) => {
+                    try {
+                        listener(action, reminder);
+                    } catch (error) {
+                        console.error('Todo reminder listener failed:', error);
+                    }
+                });
+            } else if (actionIdentifier === 'CONTINUE_BREAK') {
                 // User tapped "Start Break" button
                 console.log('User wants to start break');
                 // You can emit an event or call a callback here
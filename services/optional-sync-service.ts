@@ -1,11 +1,116 @@
 import { supabase } from '@/configs/supabase-config';
 import {
+    Category,
+    CATEGORY_DATA_FIELDS,
+    DEFAULT_LOCAL_ONLY_SETTINGS,
     localDatabaseService,
+    SETTINGS_SYNC_FIELDS,
+    SyncableSetting,
     Todo,
     Session,
-    UserSettings,
+    SyncConflict,
+    SyncedTable,
     SyncLog,
+    SyncLogStats,
+    SESSION_DATA_FIELDS,
+    TIMER_PRESET_DATA_FIELDS,
+    TimerPreset,
+    TODO_DATA_FIELDS,
 } from '@/services/local-database-service';
+import {
+    fromSupabaseCategory,
+    fromSupabaseSession,
+    fromSupabaseSettings,
+    fromSupabaseTimerPreset,
+    fromSupabaseTodo,
+    SettingsRow,
+    toSupabaseCategory,
+    toSupabaseSession,
+    toSupabaseSettings,
+    toSupabaseTimerPreset,
+    toSupabaseTodo,
+} from '@/services/supabase-service';
+import { useSettingsStore } from '@/stores/local-settings-store';
+import { mergeRecords, resolveDeletion, SyncMetadata } from '@/utils/sync-merge';
+
+/** Attempts after which a failing change stops retrying until the user forces a sync */
+export const SYNC_MAX_ATTEMPTS = 8;
+/** Days synced sync_log rows are kept for debugging before being pruned */
+const SYNC_LOG_RETENTION_DAYS = 7;
+/**
+ * How far before the cursor a pull starts again, to catch rows whose transaction
+ * committed after a newer row was already read. Re-merging a row changes nothing.
+ */
+const SYNC_CURSOR_OVERLAP_MS = 60 * 1000;
+/** Rows fetched per request when pulling; PostgREST caps a response at 1000 */
+const PULL_PAGE_SIZE = 500;
+const SYNC_RETRY_BASE_DELAY_MS = 30 * 1000;
+const SYNC_RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+
+/**
+ * Exponential backoff for a change that has failed `attempts` times
+ */
+export const getSyncRetryDelayMs = (attempts: number): number =>
+    Math.min(SYNC_RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1), SYNC_RETRY_MAX_DELAY_MS);
+
+/**
+ * The later of two server timestamps, keeping the server's own string
+ */
+const latestTimestamp = (a: string | null, b: string | null): string | null => {
+    if (!a || !b) return a ?? b;
+    return new Date(b).getTime() > new Date(a).getTime() ? b : a;
+};
+
+type SyncedRecord = Todo | Session | TimerPreset | Category;
+
+/**
+ * How one synced table maps between the local and the Supabase representation
+ */
+interface SyncTableAdapter<T extends SyncedRecord> {
+    table: SyncedTable;
+    /** Fields both sides store, merged with last-writer-wins */
+    fields: (keyof T & string)[];
+    getLocal: (id: string) => Promise<T | null>;
+    saveLocal: (record: T) => Promise<void>;
+    toRemote: (record: T, userId: string) => Record<string, unknown>;
+    fromRemote: (row: any) => T;
+}
+
+const todoAdapter: SyncTableAdapter<Todo> = {
+    table: 'todos',
+    fields: [...TODO_DATA_FIELDS],
+    getLocal: (id) => localDatabaseService.getTodo(id),
+    saveLocal: (todo) => localDatabaseService.saveSyncedTodo(todo),
+    toRemote: (todo, userId) => ({ ...toSupabaseTodo(todo, userId) }),
+    fromRemote: (row) => fromSupabaseTodo(row),
+};
+
+const sessionAdapter: SyncTableAdapter<Session> = {
+    table: 'sessions',
+    fields: [...SESSION_DATA_FIELDS],
+    getLocal: (id) => localDatabaseService.getSession(id),
+    saveLocal: (session) => localDatabaseService.saveSyncedSession(session),
+    toRemote: (session, userId) => ({ ...toSupabaseSession(session, userId) }),
+    fromRemote: (row) => fromSupabaseSession(row),
+};
+
+const timerPresetAdapter: SyncTableAdapter<TimerPreset> = {
+    table: 'timer_presets',
+    fields: [...TIMER_PRESET_DATA_FIELDS],
+    getLocal: (id) => localDatabaseService.getTimerPreset(id),
+    saveLocal: (preset) => localDatabaseService.saveSyncedTimerPreset(preset),
+    toRemote: (preset, userId) => ({ ...toSupabaseTimerPreset(preset, userId) }),
+    fromRemote: (row) => fromSupabaseTimerPreset(row),
+};
+
+const categoryAdapter: SyncTableAdapter<Category> = {
+    table: 'categories',
+    fields: [...CATEGORY_DATA_FIELDS],
+    getLocal: (id) => localDatabaseService.getCategory(id),
+    saveLocal: (category) => localDatabaseService.saveSyncedCategory(category),
+    toRemote: (category, userId) => ({ ...toSupabaseCategory(category, userId) }),
+    fromRemote: (row) => fromSupabaseCategory(row),
+};
 
 /**
  * Optional Sync Service
@@ -15,6 +120,7 @@ import {
 class OptionalSyncService {
     private isInitialized = false;
     private syncInProgress = false;
+    private syncCompleteListeners: Set<(success: boolean) => void> = new Set();
 
     async initialize(): Promise<boolean> {
         try {
@@ -67,10 +173,11 @@ class OptionalSyncService {
                 return false;
             }
 
-            // Update settings to enable sync
+            // Enable sync; clearing the cursor makes the first sync merge every remote record
             await localDatabaseService.updateSettings({
                 syncEnabled: true,
-                lastSyncAt: new Date().toISOString(),
+                lastSyncAt: null,
+                syncCursors: {},
             });
 
             // Perform initial sync
@@ -96,7 +203,8 @@ class OptionalSyncService {
         try {
             await localDatabaseService.updateSettings({
                 syncEnabled: false,
-                lastSyncAt: undefined,
+                lastSyncAt: null,
+                syncCursors: {},
             });
 
             console.log('Sync disabled');
@@ -128,27 +236,44 @@ class OptionalSyncService {
                 return false;
             }
 
-            // Get unsynced local changes
-            const unsyncedChanges = await localDatabaseService.getUnsyncedChanges();
+            const {
+                data: { user },
+                error: authError,
+            } = await supabase.auth.getUser();
+            if (authError || !user) {
+                console.log('User not authenticated, skipping sync');
+                return false;
+            }
+
+            // Anything written remotely after this point is picked up by the next sync
+            const syncStartedAt = new Date().toISOString();
+            const lastSyncAt = settings.lastSyncAt || null;
+
+            // Fold duplicate pending rows so each record is uploaded once
+            await localDatabaseService.compactSyncLog();
+
+            // Get unsynced local changes that are not waiting out a retry backoff
+            const unsyncedChanges = await localDatabaseService.getDueChanges(SYNC_MAX_ATTEMPTS);
             console.log(`Found ${unsyncedChanges.length} unsynced changes`);
 
-            // Upload local changes to Supabase
-            for (const change of unsyncedChanges) {
-                await this.syncChangeToSupabase(change);
-            }
+            // Merge local changes into Supabase
+            await this.pushChanges(unsyncedChanges, user.id, lastSyncAt);
 
-            // Download changes from Supabase
-            await this.syncFromSupabase();
+            // Merge remote changes into the local database
+            await this.syncFromSupabase(user.id, lastSyncAt, settings.syncCursors ?? {});
 
             // Update last sync time
-            await localDatabaseService.updateSettings({
-                lastSyncAt: new Date().toISOString(),
-            });
+            await localDatabaseService.updateSettings({ lastSyncAt: syncStartedAt });
+
+            // Drop synced rows past the retention window
+            await localDatabaseService.pruneSyncedLog(SYNC_LOG_RETENTION_DAYS);
 
             console.log('Sync completed successfully');
+            this.notifySyncComplete(true);
             return true;
         } catch (error) {
             console.error('Sync failed:', error);
+            this.notifySyncComplete(false);
             return false;
         } finally {
             this.syncInProgress = false;
@@ -156,113 +281,217 @@ class OptionalSyncService {
     }
 
     /**
-     * Sync a single change to Supabase
+     * Subscribe to finished sync runs, e.g. to reload data merged from Supabase
      */
-    private async syncChangeToSupabase(change: SyncLog): Promise<void> {
-        try {
-            const { tableName, recordId, operation } = change;
+    onSyncComplete(listener: (success: boolean) => void): () => void {
+        this.syncCompleteListeners.add(listener);
 
-            if (tableName === 'todos') {
-                await this.syncTodoChange(recordId, operation);
-            } else if (tableName === 'sessions') {
-                await this.syncSessionChange(recordId, operation);
-            }
+        // Return unsubscribe function
+        return () => {
+            this.syncCompleteListeners.delete(listener);
+        };
+    }
 
-            // Mark as synced
-            await localDatabaseService.markAsSynced(change.id);
-        } catch (error) {
-            console.error(`Failed to sync ${change.tableName} ${change.operation}:`, error);
-            await localDatabaseService.markSyncError(
-                change.id,
-                error instanceof Error ? error.message : 'Unknown error',
-            );
-        }
+    private notifySyncComplete(success: boolean): void {
+        this.syncCompleteListeners.forEach((listener) => {
+            try {
+                listener(success);
+            } catch (error) {
+                console.error('Error in sync complete listener:', error);
+            }
+        });
     }
 
     /**
-     * Sync todo changes to Supabase
+     * Merge every locally changed record into Supabase.
+     * Several log entries for the same record are handled with a single merge.
      */
-    private async syncTodoChange(todoId: string, operation: string): Promise<void> {
-        // Get authenticated user
-        const {
-            data: { user },
-            error: authError,
-        } = await supabase.auth.getUser();
-        if (authError || !user) {
-            throw new Error('User not authenticated');
+    private async pushChanges(
+        changes: SyncLog[],
+        userId: string,
+        lastSyncAt: string | null,
+    ): Promise<void> {
+        const byRecord = new Map<string, SyncLog[]>();
+        for (const change of changes) {
+            const key = `${change.tableName}:${change.recordId}`;
+            byRecord.set(key, [...(byRecord.get(key) ?? []), change]);
         }
 
-        if (operation === 'create' || operation === 'update') {
-            const todo = await localDatabaseService.getTodo(todoId);
-            if (!todo) return;
-
-            const { error } = await supabase.from('todos').upsert({
-                id: todo.id,
-                title: todo.title,
-                description: todo.description || undefined,
-                icon: todo.icon || undefined,
-                isCompleted: todo.isCompleted,
-                created_at: todo.createdAt,
-                completedAt: todo.completedAt || undefined,
-                user_id: user.id, // Use authenticated user's ID
-            });
-
-            if (error) throw error;
-        } else if (operation === 'delete') {
-            const { error } = await supabase.from('todos').delete().eq('id', todoId);
+        for (const entries of byRecord.values()) {
+            const { tableName, recordId } = entries[0];
+            try {
+                if (tableName === 'todos') {
+                    await this.syncRecord(todoAdapter, recordId, userId, lastSyncAt);
+                } else if (tableName === 'sessions') {
+                    await this.syncRecord(sessionAdapter, recordId, userId, lastSyncAt);
+                } else if (tableName === 'timer_presets') {
+                    await this.syncRecord(timerPresetAdapter, recordId, userId, lastSyncAt);
+                } else if (tableName === 'categories') {
+                    await this.syncRecord(categoryAdapter, recordId, userId, lastSyncAt);
+                } else if (tableName === 'user_settings') {
+                    await this.syncSettings(userId, lastSyncAt);
+                }
 
-            if (error) throw error;
+                // Mark as synced
+                for (const entry of entries) {
+                    await localDatabaseService.markAsSynced(entry.id, entry.timestamp);
+                }
+            } catch (error) {
+                console.error(`Failed to sync ${tableName} ${recordId}:`, error);
+                for (const entry of entries) {
+                    const attempts = entry.attempts + 1;
+                    const nextAttemptAt =
+                        attempts < SYNC_MAX_ATTEMPTS
+                            ? new Date(Date.now() + getSyncRetryDelayMs(attempts)).toISOString()
+                            : null;
+                    await localDatabaseService.markSyncError(
+                        entry.id,
+                        error instanceof Error ? error.message : 'Unknown error',
+                        nextAttemptAt,
+                    );
+                }
+            }
         }
     }
 
     /**
-     * Sync session changes to Supabase
+     * Fetch the remote copy of a record and reconcile it with the local one
      */
-    private async syncSessionChange(sessionId: string, operation: string): Promise<void> {
-        // Get authenticated user
-        const {
-            data: { user },
-            error: authError,
-        } = await supabase.auth.getUser();
-        if (authError || !user) {
-            throw new Error('User not authenticated');
+    private async syncRecord<T extends SyncedRecord>(
+        adapter: SyncTableAdapter<T>,
+        recordId: string,
+        userId: string,
+        lastSyncAt: string | null,
+    ): Promise<void> {
+        const { data: remoteRow, error } = await supabase
+            .from(adapter.table)
+            .select('*')
+            .eq('id', recordId)
+            .maybeSingle();
+
+        if (error) throw error;
+
+        const local = await adapter.getLocal(recordId);
+        await this.reconcile(adapter, recordId, local, remoteRow, userId, lastSyncAt);
+    }
+
+    /**
+     * Converge the local and remote copies of one record.
+     * Live records are merged field by field; deletes are resolved against
+     * the other side's last edit using tombstones.
+     */
+    private async reconcile<T extends SyncedRecord>(
+        adapter: SyncTableAdapter<T>,
+        recordId: string,
+        local: T | null,
+        remoteRow: any | null,
+        userId: string,
+        lastSyncAt: string | null,
+    ): Promise<void> {
+        const remoteDeletedAt: string | null = remoteRow?.deleted_at ?? null;
+
+        if (local && remoteRow && !remoteDeletedAt) {
+            const remote = adapter.fromRemote(remoteRow);
+            const { merged, localChanged, remoteChanged, conflicts } = mergeRecords(
+                local,
+                remote,
+                adapter.fields,
+                lastSyncAt,
+            );
+
+            if (conflicts.length > 0) {
+                await localDatabaseService.logSyncConflicts(adapter.table, recordId, conflicts);
+            }
+            if (localChanged) {
+                await adapter.saveLocal(merged);
+            }
+            if (remoteChanged) {
+                await this.upsertRemote(adapter, merged, userId);
+            }
+            return;
         }
 
-        if (operation === 'create' || operation === 'update') {
-            const sessions = await localDatabaseService.getSessions();
-            const session = sessions.find((s) => s.id === sessionId);
-            if (!session) return;
-
-            const { error } = await supabase.from('sessions').upsert({
-                id: session.id,
-                duration: session.duration,
-                type: session.type,
-                completed_at: session.endTime || undefined,
-                user_id: user.id, // Use authenticated user's ID
-            });
+        if (local && remoteDeletedAt) {
+            if (resolveDeletion(local.updatedAt, remoteDeletedAt) === 'delete') {
+                await localDatabaseService.deleteSyncedRecord(
+                    adapter.table,
+                    recordId,
+                    remoteDeletedAt,
+                );
+            } else {
+                // Edited here after it was deleted elsewhere: restore it remotely
+                await this.upsertRemote(adapter, local, userId);
+            }
+            return;
+        }
 
-            if (error) throw error;
-        } else if (operation === 'delete') {
-            const { error } = await supabase.from('sessions').delete().eq('id', sessionId);
+        if (local) {
+            await this.upsertRemote(adapter, local, userId);
+            return;
+        }
+
+        if (!remoteRow || remoteDeletedAt) return;
+
+        const tombstone = await localDatabaseService.getTombstone(adapter.table, recordId);
+        const remoteUpdatedAt = remoteRow.updated_at ?? null;
+        if (tombstone && resolveDeletion(remoteUpdatedAt, tombstone.deletedAt) === 'delete') {
+            const { error } = await supabase
+                .from(adapter.table)
+                .update({
+                    deleted_at: tombstone.deletedAt,
+                    updated_at: tombstone.deletedAt,
+                    version: Math.max(tombstone.version, (remoteRow.version ?? 1) + 1),
+                })
+                .eq('id', recordId);
 
             if (error) throw error;
+            return;
         }
+
+        await adapter.saveLocal(adapter.fromRemote(remoteRow));
+    }
+
+    private async upsertRemote<T extends SyncedRecord>(
+        adapter: SyncTableAdapter<T>,
+        record: T,
+        userId: string,
+    ): Promise<void> {
+        const { error } = await supabase
+            .from(adapter.table)
+            .upsert(adapter.toRemote(record, userId));
+
+        if (error) throw error;
     }
 
     /**
-     * Sync changes from Supabase to local database
+     * Merge changes made on other devices since the last sync into the local database
      */
-    private async syncFromSupabase(): Promise<void> {
+    private async syncFromSupabase(
+        userId: string,
+        lastSyncAt: string | null,
+        syncCursors: Partial<Record<SyncedTable, string>>,
+    ): Promise<void> {
         try {
-            // Get last sync time
-            const settings = await localDatabaseService.getSettings();
-            const lastSyncAt = settings?.lastSyncAt;
-
-            // Sync todos
-            await this.syncTodosFromSupabase(lastSyncAt || undefined);
+            const cursors = { ...syncCursors };
+            const pull = async <T extends SyncedRecord>(adapter: SyncTableAdapter<T>) => {
+                const cursor = await this.pullTable(
+                    adapter,
+                    userId,
+                    lastSyncAt,
+                    cursors[adapter.table] ?? null,
+                );
+                // Saved per table, so a table that fails later does not hold the others back
+                if (cursor && cursor !== cursors[adapter.table]) {
+                    cursors[adapter.table] = cursor;
+                    await localDatabaseService.updateSettings({ syncCursors: { ...cursors } });
+                }
+            };
 
-            // Sync sessions
-            await this.syncSessionsFromSupabase(lastSyncAt || undefined);
+            await pull(todoAdapter);
+            await pull(sessionAdapter);
+            await pull(timerPresetAdapter);
+            await pull(categoryAdapter);
+            await this.syncSettings(userId, lastSyncAt);
         } catch (error) {
             console.error('Failed to sync from Supabase:', error);
             throw error;
@@ -270,91 +499,171 @@ class OptionalSyncService {
     }
 
     /**
-     * Sync todos from Supabase
+     * Merge the rows the server stored after `syncCursor` and return the newest
+     * synced_at seen. synced_at is set by a server trigger, so unlike updated_at it
+     * cannot lag behind for edits made offline or merged on another device.
+     *
+     * Rows are read in (synced_at, id) order a page at a time, each page starting after
+     * the last row of the one before, until a short page comes back. Merged rows that are
+     * written back get a newer synced_at and come round again, which changes nothing.
      */
-    private async syncTodosFromSupabase(lastSyncAt?: string): Promise<void> {
-        try {
-            let query = supabase.from('todos').select('*');
-
-            if (lastSyncAt) {
-                query = query.gte('created_at', lastSyncAt);
+    private async pullTable<T extends SyncedRecord>(
+        adapter: SyncTableAdapter<T>,
+        userId: string,
+        lastSyncAt: string | null,
+        syncCursor: string | null,
+    ): Promise<string | null> {
+        let newest = syncCursor;
+        let after: { syncedAt: string; id: string } | null = null;
+        let pulled = 0;
+
+        for (;;) {
+            let query = supabase.from(adapter.table).select('*');
+            if (after) {
+                query = query.or(
+                    `synced_at.gt."${after.syncedAt}",` +
+                        `and(synced_at.eq."${after.syncedAt}",id.gt.${after.id})`,
+                );
+            } else if (syncCursor) {
+                const since = new Date(new Date(syncCursor).getTime() - SYNC_CURSOR_OVERLAP_MS);
+                query = query.gt('synced_at', since.toISOString());
             }
 
-            const { data: todos, error } = await query;
+            const { data: rows, error } = await query
+                .order('synced_at', { ascending: true })
+                .order('id', { ascending: true })
+                .range(0, PULL_PAGE_SIZE - 1);
 
             if (error) throw error;
-            if (!todos) return;
-
-            // Import todos to local database
-            for (const todo of todos) {
-                const localTodo: Todo = {
-                    id: todo.id,
-                    title: todo.title,
-                    description: todo.description,
-                    icon: todo.icon,
-                    isCompleted: todo.isCompleted,
-                    createdAt: todo.created_at,
-                    completedAt: todo.completedAt || null,
-                    category: undefined,
-                    priority: 0,
-                    estimatedMinutes: undefined,
-                    actualMinutes: 0,
-                };
-
-                // Check if todo exists locally
-                const existingTodo = await localDatabaseService.getTodo(todo.id);
-                if (existingTodo) {
-                    await localDatabaseService.updateTodo(todo.id, localTodo);
-                } else {
-                    await localDatabaseService.createTodo(localTodo);
-                }
+            const page = rows ?? [];
+
+            for (const row of page) {
+                const local = await adapter.getLocal(row.id);
+                await this.reconcile(adapter, row.id, local, row, userId, lastSyncAt);
+                newest = latestTimestamp(newest, row.synced_at ?? null);
             }
+            pulled += page.length;
 
-            console.log(`Synced ${todos.length} todos from Supabase`);
-        } catch (error) {
-            console.error('Failed to sync todos from Supabase:', error);
-            throw error;
+            const last = page[page.length - 1];
+            if (page.length < PULL_PAGE_SIZE || !last?.synced_at) break;
+            after = { syncedAt: last.synced_at, id: last.id };
         }
+
+        console.log(`Synced ${pulled} ${adapter.table} from Supabase`);
+        return newest;
     }
 
     /**
-     * Sync sessions from Supabase
+     * Merge the synced settings with the user's user_settings row.
+     *
+     * Each setting is last-writer-wins on its own timestamp. A setting that was
+     * never changed on a device has no timestamp and loses to any stamped value,
+     * so a fresh install adopts the account's settings instead of overwriting
+     * them with defaults. Settings listed in localOnlySettings are neither
+     * uploaded nor overwritten on this device.
      */
-    private async syncSessionsFromSupabase(lastSyncAt?: string): Promise<void> {
-        try {
-            let query = supabase.from('sessions').select('*');
+    private async syncSettings(userId: string, lastSyncAt: string | null): Promise<void> {
+        const local = await localDatabaseService.getSettings();
+        if (!local) return;
+
+        const localOnly = local.localOnlySettings ?? DEFAULT_LOCAL_ONLY_SETTINGS;
+        const fields = SETTINGS_SYNC_FIELDS.filter((field) => !localOnly.includes(field));
+
+        const { data: row, error } = await supabase
+            .from('user_settings')
+            .select('*')
+            .eq('user_id', userId)
+            .maybeSingle<SettingsRow>();
+
+        if (error) throw error;
+
+        type SettingsSnapshot = Partial<Pick<typeof local, SyncableSetting>> & SyncMetadata;
+        const localSnapshot: SettingsSnapshot = {
+            ...local,
+            updatedAt: null,
+            version: local.version ?? 1,
+            fieldTimestamps: local.fieldTimestamps ?? {},
+        };
+        // Columns the row does not have yet take the local value, so they are uploaded
+        const remoteSnapshot: SettingsSnapshot = {
+            ...local,
+            ...(row ? fromSupabaseSettings(row) : {}),
+            updatedAt: null,
+            version: row?.version ?? 0,
+            fieldTimestamps: row?.field_timestamps ?? {},
+        };
+
+        const { merged, localChanged, remoteChanged, conflicts } = mergeRecords(
+            localSnapshot,
+            remoteSnapshot,
+            [...fields],
+            lastSyncAt,
+        );
+
+        if (conflicts.length > 0) {
+            await localDatabaseService.logSyncConflicts('user_settings', local.id, conflicts);
+        }
 
-            if (lastSyncAt) {
-                query = query.gte('completed_at', lastSyncAt);
-            }
+        const version = merged.version ?? 1;
+        if (localChanged) {
+            await localDatabaseService.saveSyncedSettings({
+                ...local,
+                ...merged,
+                updatedAt: local.updatedAt,
+                version,
+                // Keep stamps of local-only settings that were not part of the merge
+                fieldTimestamps: { ...local.fieldTimestamps, ...merged.fieldTimestamps },
+            });
+            await useSettingsStore.getState().loadSettings();
+        }
+        if (remoteChanged || !row) {
+            const { error: upsertError } = await supabase.from('user_settings').upsert(
+                toSupabaseSettings(merged, userId, [...fields], {
+                    version,
+                    // Keep stamps of settings other devices sync but this one does not
+                    fieldTimestamps: { ...row?.field_timestamps, ...merged.fieldTimestamps },
+                }),
+                { onConflict: 'user_id' },
+            );
 
-            const { data: sessions, error } = await query;
+            if (upsertError) throw upsertError;
+        }
+    }
 
-            if (error) throw error;
-            if (!sessions) return;
-
-            // Import sessions to local database
-            for (const session of sessions) {
-                const localSession: Session = {
-                    id: session.id,
-                    todoId: undefined,
-                    todoTitle: undefined,
-                    startTime: new Date(Date.now() - session.duration * 1000).toISOString(),
-                    endTime: session.completed_at || undefined,
-                    duration: session.duration,
-                    type: session.type,
-                    sessionNumber: undefined,
-                    isCompleted: true,
-                    notes: undefined,
-                };
-
-                await localDatabaseService.createSession(localSession);
-            }
+    /**
+     * Get sync_log statistics (pending, erroring and synced rows)
+     */
+    async getSyncLogStats(): Promise<SyncLogStats | null> {
+        try {
+            await localDatabaseService.waitForInitialization();
+            return await localDatabaseService.getSyncLogStats();
+        } catch (error) {
+            console.error('Failed to get sync log stats:', error);
+            return null;
+        }
+    }
 
-            console.log(`Synced ${sessions.length} sessions from Supabase`);
+    /**
+     * Get recently resolved sync conflicts, newest first
+     */
+    async getConflictLog(limit?: number): Promise<SyncConflict[]> {
+        try {
+            await localDatabaseService.waitForInitialization();
+            return await localDatabaseService.getSyncConflicts(limit);
         } catch (error) {
-            console.error('Failed to sync sessions from Supabase:', error);
-            throw error;
+            console.error('Failed to get sync conflicts:', error);
+            return [];
+        }
+    }
+
+    /**
+     * Clear the sync conflict log
+     */
+    async clearConflictLog(): Promise<void> {
+        try {
+            await localDatabaseService.clearSyncConflicts();
+        } catch (error) {
+            console.error('Failed to clear sync conflicts:', error);
         }
     }
 
@@ -365,21 +674,27 @@ class OptionalSyncService {
         enabled: boolean;
         lastSyncAt?: string;
         unsyncedChanges: number;
+        failedChanges: number;
     }> {
         try {
             const settings = await localDatabaseService.getSettings();
-            const unsyncedChanges = await localDatabaseService.getUnsyncedChanges();
+            await localDatabaseService.compactSyncLog();
+            const stats = await localDatabaseService.getSyncLogStats();
+            const failedChanges =
+                await localDatabaseService.getFailedChangesCount(SYNC_MAX_ATTEMPTS);
 
             return {
                 enabled: settings?.syncEnabled || false,
                 lastSyncAt: settings?.lastSyncAt || undefined,
-                unsyncedChanges: unsyncedChanges.length,
+                unsyncedChanges: stats.pending,
+                failedChanges,
             };
         } catch (error) {
             console.error('Failed to get sync status:', error);
             return {
                 enabled: false,
                 unsyncedChanges: 0,
+                failedChanges: 0,
             };
         }
     }
@@ -394,11 +709,15 @@ class OptionalSyncService {
             // Wait for local database to be initialized
             await localDatabaseService.waitForInitialization();
 
-            // Clear sync log to force full sync
+            // Clear last sync time to force full sync
             await localDatabaseService.updateSettings({
-                lastSyncAt: undefined,
+                lastSyncAt: null,
+                syncCursors: {},
             });
 
+            // Give changes that exhausted their retries another chance
+            await localDatabaseService.resetSyncAttempts();
+
             return await this.performSync();
         } catch (error) {
             console.error('Force sync failed:', error);
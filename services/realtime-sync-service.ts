@@ -0,0 +1,282 @@
+import { supabase } from '@/configs/supabase-config';
+import { networkService } from '@/services/network-service';
+import {
+    fromSupabaseSession,
+    fromSupabaseTodo,
+    Session as SupabaseSession,
+    Todo as SupabaseTodo,
+} from '@/services/supabase-service';
+import { syncSchedulerService } from '@/services/sync-scheduler-service';
+import { usePomodoroStore } from '@/stores/pomodoro-store';
+import { useTodoStore } from '@/stores/todo-store';
+import { toMillis } from '@/utils/sync-merge';
+
+/** Delay before resubscribing after a channel error or timeout */
+const RESUBSCRIBE_DELAY_MS = 5 * 1000;
+
+interface Versioned {
+    updatedAt?: string | null;
+    version?: number | null;
+}
+
+/**
+ * Whether a remote copy is ahead of the one this device shows. An echo of this
+ * device's own write has the same updatedAt and version, and an older one is stale.
+ */
+const isNewer = (remote: Versioned, local: Versioned): boolean => {
+    const diff = toMillis(remote.updatedAt) - toMillis(local.updatedAt);
+    if (diff !== 0) return diff > 0;
+    return (remote.version ?? 1) > (local.version ?? 1);
+};
+
+export type RealtimeTable = 'todos' | 'sessions';
+export type RealtimeStatus = 'SUBSCRIBED' | 'TIMED_OUT' | 'CLOSED' | 'CHANNEL_ERROR';
+
+/**
+ * A postgres_changes payload, reduced to the fields we read
+ */
+export interface RealtimeChange {
+    eventType: 'INSERT' | 'UPDATE' | 'DELETE';
+    new: Record<string, any>;
+    old: Record<string, any>;
+}
+
+/**
+ * The part of a Supabase RealtimeChannel the service depends on
+ */
+export interface RealtimeChannelLike {
+    unsubscribe(): Promise<unknown> | unknown;
+}
+
+/**
+ * Opens a channel for one table and user.
+ * Replace it with setChannelFactory() to drive the service from a local stand-in channel.
+ */
+export type RealtimeChannelFactory = (
+    table: RealtimeTable,
+    userId: string,
+    onChange: (change: RealtimeChange) => void,
+    onStatus: (status: RealtimeStatus) => void,
+) => RealtimeChannelLike;
+
+const createSupabaseChannel: RealtimeChannelFactory = (table, userId, onChange, onStatus) => {
+    const channel = supabase
+        .channel(`realtime:${table}:${userId}`)
+        .on(
+            'postgres_changes',
+            { event: '*', schema: 'public', table, filter: `user_id=eq.${userId}` },
+            (payload) => onChange(payload as unknown as RealtimeChange),
+        )
+        .subscribe((status) => onStatus(status as RealtimeStatus));
+
+    return { unsubscribe: () => supabase.removeChannel(channel) };
+};
+
+/**
+ * Realtime Sync Service
+ * Subscribes Pro users to Supabase Realtime changes on todos and sessions and
+ * patches useTodoStore and usePomodoroStore in place
+ */
+class RealtimeSyncService {
+    private userId: string | null = null;
+    private channels = new Map<RealtimeTable, RealtimeChannelLike>();
+    private resubscribeTimers = new Map<RealtimeTable, ReturnType<typeof setTimeout>>();
+    private wasConnected = true;
+    private unsubscribeNetwork: (() => void) | null = null;
+    private channelFactory: RealtimeChannelFactory = createSupabaseChannel;
+
+    /**
+     * Use a different channel implementation, e.g. a local stand-in
+     */
+    setChannelFactory(factory: RealtimeChannelFactory | null): void {
+        this.channelFactory = factory ?? createSupabaseChannel;
+    }
+
+    isActive(): boolean {
+        return this.userId !== null;
+    }
+
+    /**
+     * Subscribe to both tables for a user; restarts if the user changed
+     */
+    start(userId: string): void {
+        if (this.userId === userId) return;
+        if (this.userId) this.stop();
+
+        this.userId = userId;
+        this.wasConnected = networkService.isOnline();
+        this.unsubscribeNetwork = networkService.subscribe((isConnected) => {
+            // Listeners fire on every status check; only act on transitions
+            if (isConnected && !this.wasConnected) {
+                this.handleReconnect();
+            } else if (!isConnected && this.wasConnected) {
+                this.closeChannels();
+            }
+            this.wasConnected = isConnected;
+        });
+
+        if (this.wasConnected) {
+            this.subscribe('todos');
+            this.subscribe('sessions');
+        }
+    }
+
+    /**
+     * Close all channels, e.g. on sign out or Pro downgrade
+     */
+    stop(): void {
+        this.unsubscribeNetwork?.();
+        this.unsubscribeNetwork = null;
+        this.closeChannels();
+        this.userId = null;
+    }
+
+    /**
+     * Apply a change event to the in-memory stores
+     */
+    handleChange(table: RealtimeTable, change: RealtimeChange): void {
+        const applied =
+            table === 'todos' ? this.applyTodoChange(change) : this.applySessionChange(change);
+
+        // The stores read from the local database, so let a sync merge the change there too.
+        // Echoes of this device's own writes are already there.
+        if (applied) {
+            syncSchedulerService.schedulePush();
+        }
+    }
+
+    private subscribe(table: RealtimeTable): void {
+        const userId = this.userId;
+        if (!userId || this.channels.has(table)) return;
+
+        try {
+            const channel = this.channelFactory(
+                table,
+                userId,
+                (change) => this.handleChange(table, change),
+                (status) => this.handleStatus(table, status),
+            );
+            this.channels.set(table, channel);
+        } catch (error) {
+            console.error(`Failed to subscribe to ${table} changes:`, error);
+            this.scheduleResubscribe(table);
+        }
+    }
+
+    private handleStatus(table: RealtimeTable, status: RealtimeStatus): void {
+        if (status === 'SUBSCRIBED') {
+            console.log(`Realtime subscribed to ${table}`);
+            return;
+        }
+        if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+            console.warn(`Realtime ${table} channel ${status}, resubscribing`);
+            this.closeChannel(table);
+            this.scheduleResubscribe(table);
+        }
+    }
+
+    private scheduleResubscribe(table: RealtimeTable): void {
+        if (!this.userId || this.resubscribeTimers.has(table)) return;
+
+        this.resubscribeTimers.set(
+            table,
+            setTimeout(() => {
+                this.resubscribeTimers.delete(table);
+                if (networkService.isOnline()) {
+                    this.subscribe(table);
+                }
+            }, RESUBSCRIBE_DELAY_MS),
+        );
+    }
+
+    /**
+     * Events missed while offline are not replayed, so refetch once resubscribed
+     */
+    private handleReconnect(): void {
+        this.subscribe('todos');
+        this.subscribe('sessions');
+
+        const todoStore = useTodoStore.getState();
+        if (todoStore.isInitialized) {
+            todoStore.loadTodos({ force: true });
+        }
+    }
+
+    private closeChannel(table: RealtimeTable): void {
+        const channel = this.channels.get(table);
+        if (!channel) return;
+
+        this.channels.delete(table);
+        try {
+            Promise.resolve(channel.unsubscribe()).catch((error) => {
+                console.error(`Failed to unsubscribe from ${table} changes:`, error);
+            });
+        } catch (error) {
+            console.error(`Failed to unsubscribe from ${table} changes:`, error);
+        }
+    }
+
+    private closeChannels(): void {
+        this.resubscribeTimers.forEach((timer) => clearTimeout(timer));
+        this.resubscribeTimers.clear();
+        this.closeChannel('todos');
+        this.closeChannel('sessions');
+    }
+
+    /**
+     * Patch useTodoStore with the change; false when it brought nothing new
+     */
+    private applyTodoChange(change: RealtimeChange): boolean {
+        const row = (change.eventType === 'DELETE' ? change.old : change.new) as SupabaseTodo;
+        if (!row?.id) return false;
+
+        const { todos } = useTodoStore.getState();
+        const existing = todos.find((todo) => todo.id === row.id);
+
+        if (change.eventType === 'DELETE' || row.deleted_at) {
+            if (!existing) return false;
+            useTodoStore.setState({ todos: todos.filter((todo) => todo.id !== row.id) });
+            return true;
+        }
+
+        const todo = fromSupabaseTodo(row);
+        if (existing && !isNewer(todo, existing)) return false;
+
+        useTodoStore.setState({
+            todos: existing ? todos.map((t) => (t.id === row.id ? todo : t)) : [todo, ...todos],
+        });
+        return true;
+    }
+
+    /**
+     * Patch usePomodoroStore with the change; false when it brought nothing new
+     */
+    private applySessionChange(change: RealtimeChange): boolean {
+        const row = (change.eventType === 'DELETE' ? change.old : change.new) as SupabaseSession;
+        if (!row?.id) return false;
+
+        const { sessions } = usePomodoroStore.getState();
+        const existing = sessions.find((session) => session.id === row.id);
+
+        if (change.eventType === 'DELETE' || row.deleted_at) {
+            if (!existing) return false;
+            usePomodoroStore.setState({
+                sessions: sessions.filter((session) => session.id !== row.id),
+            });
+            return true;
+        }
+
+        const session = fromSupabaseSession(row);
+        if (existing && !isNewer(session, existing)) return false;
+
+        usePomodoroStore.setState({
+            sessions: existing
+                ? sessions.map((s) => (s.id === row.id ? session : s))
+                : [...sessions, session],
+        });
+        return true;
+    }
+}
+
+// Export singleton instance
+export const realtimeSyncService = new RealtimeSyncService();
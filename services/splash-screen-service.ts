@@ -21,6 +21,7 @@
 import * as SplashScreen from 'expo-splash-screen';
 import { localDatabaseService } from './local-database-service';
 import { optionalSyncService } from './optional-sync-service';
+import { syncSchedulerService } from './sync-scheduler-service';
 import { notificationService } from './notification-service';
 import { backgroundMetronomeService } from './background-metronome-service';
 import { useAuthStore } from '@/stores/auth-store';
@@ -347,11 +348,12 @@ class SplashScreenService {
     }
 
     /**
-     * Initializes optional sync service
+     * Initializes optional sync service and starts the sync scheduler
      * @private
      */
     private async _initializeSync(): Promise<void> {
         await optionalSyncService.initialize();
+        await syncSchedulerService.start();
     }
 
     /**
@@ -1,4 +1,18 @@
 import { supabase } from '@/configs/supabase-config';
+import type {
+    Category as LocalCategory,
+    PauseInterval,
+    Session as LocalSession,
+    SessionInterruption,
+    SessionOutcome,
+    Subtask,
+    SyncableSetting,
+    TimerPreset as LocalTimerPreset,
+    Todo as LocalTodo,
+    TODO_DATA_FIELDS,
+    UserSettings as LocalUserSettings,
+} from '@/services/local-database-service';
+import { stampFields, type FieldTimestamps } from '@/utils/sync-merge';
 
 export interface Todo {
     id: string;
@@ -9,14 +23,59 @@ export interface Todo {
     created_at: string;
     completedAt: string | null;
     user_id: string;
+    category?: string | null;
+    priority?: number | null;
+    estimated_minutes?: number | null;
+    actual_minutes?: number | null;
+    reminder_at?: string | null;
+    recurrence?: string | null;
+    due_at?: string | null;
+    scheduled_for?: string | null;
+    subtasks?: Subtask[] | null;
+    updated_at?: string | null;
+    version?: number | null;
+    field_timestamps?: FieldTimestamps | null;
+    deleted_at?: string | null;
 }
 
 export interface Session {
     id: string;
     duration: number;
     type: 'focus' | 'break';
-    completedAt: string;
+    completed_at: string | null;
     user_id: string;
+    todo_id?: string | null;
+    todo_title?: string | null;
+    start_time?: string | null;
+    end_time?: string | null;
+    session_number?: number | null;
+    is_completed?: boolean | null;
+    notes?: string | null;
+    interruptions?: SessionInterruption[] | null;
+    pauses?: PauseInterval[] | null;
+    focus_rating?: number | null;
+    outcome?: SessionOutcome | null;
+    updated_at?: string | null;
+    version?: number | null;
+    field_timestamps?: FieldTimestamps | null;
+    deleted_at?: string | null;
+}
+
+export interface TimerPreset {
+    id: string;
+    name: string;
+    focus_duration: number;
+    break_duration: number;
+    long_break_duration: number;
+    sessions_before_long_break: number;
+    flow_mode?: boolean | null;
+    flow_break_ratio?: number | null;
+    created_at: string;
+    user_id: string;
+    updated_at?: string | null;
+    version?: number | null;
+    field_timestamps?: FieldTimestamps | null;
+    deleted_at?: string | null;
 }
 
 export interface UserSettings {
@@ -31,6 +90,323 @@ export interface UserSettings {
     hasProAccess?: boolean;
 }
 
+/**
+ * Normalize a Postgres timestamp (e.g. "+00:00" offsets) to the ISO form stored locally
+ */
+const toIsoTimestamp = (value: string | null | undefined): string | null =>
+    value ? new Date(value).toISOString() : null;
+
+/**
+ * Map a local todo to a Supabase row.
+ * Column names are snake_case except the legacy "isCompleted" and "completedAt".
+ */
+export const toSupabaseTodo = (todo: LocalTodo, userId: string): Todo => ({
+    id: todo.id,
+    title: todo.title,
+    description: todo.description ?? '',
+    icon: todo.icon ?? '',
+    isCompleted: todo.isCompleted,
+    created_at: todo.createdAt,
+    completedAt: todo.completedAt ?? null,
+    user_id: userId,
+    category: todo.category ?? null,
+    priority: todo.priority ?? 0,
+    estimated_minutes: todo.estimatedMinutes ?? null,
+    actual_minutes: todo.actualMinutes ?? 0,
+    reminder_at: todo.reminderAt ?? null,
+    recurrence: todo.recurrence ?? null,
+    due_at: todo.dueAt ?? null,
+    scheduled_for: todo.scheduledFor ?? null,
+    subtasks: todo.subtasks ?? [],
+    updated_at: todo.updatedAt ?? todo.createdAt,
+    version: todo.version ?? 1,
+    field_timestamps: todo.fieldTimestamps ?? {},
+    deleted_at: null,
+});
+
+/**
+ * Map a Supabase row to a local todo
+ */
+export const fromSupabaseTodo = (row: Todo): LocalTodo => ({
+    id: row.id,
+    title: row.title,
+    description: row.description || undefined,
+    icon: row.icon || undefined,
+    isCompleted: !!row.isCompleted,
+    createdAt: row.created_at,
+    completedAt: toIsoTimestamp(row.completedAt),
+    category: row.category ?? undefined,
+    priority: row.priority ?? 0,
+    estimatedMinutes: row.estimated_minutes ?? undefined,
+    actualMinutes: row.actual_minutes ?? 0,
+    reminderAt: toIsoTimestamp(row.reminder_at),
+    recurrence: row.recurrence ?? null,
+    dueAt: toIsoTimestamp(row.due_at),
+    scheduledFor: row.scheduled_for ?? null,
+    subtasks: row.subtasks ?? [],
+    updatedAt: row.updated_at ?? row.completedAt ?? row.created_at,
+    version: row.version ?? 1,
+    fieldTimestamps: row.field_timestamps ?? {},
+});
+
+const TODO_COLUMNS: Record<(typeof TODO_DATA_FIELDS)[number], keyof Todo> = {
+    title: 'title',
+    description: 'description',
+    icon: 'icon',
+    isCompleted: 'isCompleted',
+    completedAt: 'completedAt',
+    category: 'category',
+    priority: 'priority',
+    estimatedMinutes: 'estimated_minutes',
+    actualMinutes: 'actual_minutes',
+    reminderAt: 'reminder_at',
+    recurrence: 'recurrence',
+    dueAt: 'due_at',
+    scheduledFor: 'scheduled_for',
+    subtasks: 'subtasks',
+};
+
+/**
+ * Map a partial local todo to the matching Supabase columns; undefined fields are omitted
+ */
+export const toSupabaseTodoUpdates = (updates: Partial<LocalTodo>): Partial<Todo> => {
+    const row: Record<string, unknown> = {};
+    for (const [field, column] of Object.entries(TODO_COLUMNS)) {
+        const value = updates[field as keyof LocalTodo];
+        if (value !== undefined) {
+            row[column] = value;
+        }
+    }
+    return row as Partial<Todo>;
+};
+
+/**
+ * Map a local session to a Supabase row.
+ * completed_at mirrors end_time for rows written before start/end were stored.
+ */
+export const toSupabaseSession = (session: LocalSession, userId: string): Session => ({
+    id: session.id,
+    duration: session.duration,
+    type: session.type,
+    completed_at: session.endTime ?? null,
+    user_id: userId,
+    todo_id: session.todoId ?? null,
+    todo_title: session.todoTitle ?? null,
+    start_time: session.startTime,
+    end_time: session.endTime ?? null,
+    session_number: session.sessionNumber ?? null,
+    is_completed: session.isCompleted,
+    notes: session.notes ?? null,
+    interruptions: session.interruptions ?? [],
+    pauses: session.pauses ?? [],
+    focus_rating: session.focusRating ?? null,
+    outcome: session.outcome ?? null,
+    updated_at: session.updatedAt ?? session.endTime ?? session.startTime,
+    version: session.version ?? 1,
+    field_timestamps: session.fieldTimestamps ?? {},
+    deleted_at: null,
+});
+
+/**
+ * Map a Supabase row to a local session.
+ * Legacy rows without start_time get one derived from completed_at and duration.
+ */
+export const fromSupabaseSession = (row: Session): LocalSession => {
+    const endTime = toIsoTimestamp(row.end_time ?? row.completed_at);
+    const startTime =
+        toIsoTimestamp(row.start_time) ??
+        new Date(
+            (endTime ? new Date(endTime).getTime() : Date.now()) - row.duration * 1000,
+        ).toISOString();
+
+    return {
+        id: row.id,
+        todoId: row.todo_id ?? null,
+        todoTitle: row.todo_title ?? null,
+        startTime,
+        endTime,
+        duration: row.duration,
+        type: row.type,
+        sessionNumber: row.session_number ?? null,
+        isCompleted: row.is_completed ?? true,
+        notes: row.notes ?? null,
+        interruptions: row.interruptions ?? [],
+        pauses: row.pauses ?? [],
+        focusRating: row.focus_rating ?? null,
+        outcome: row.outcome ?? null,
+        updatedAt: row.updated_at ?? endTime ?? startTime,
+        version: row.version ?? 1,
+        fieldTimestamps: row.field_timestamps ?? {},
+    };
+};
+
+export const toSupabaseTimerPreset = (preset: LocalTimerPreset, userId: string): TimerPreset => ({
+    id: preset.id,
+    name: preset.name,
+    focus_duration: preset.focusDuration,
+    break_duration: preset.breakDuration,
+    long_break_duration: preset.longBreakDuration,
+    sessions_before_long_break: preset.sessionsBeforeLongBreak,
+    flow_mode: preset.flowMode,
+    flow_break_ratio: preset.flowBreakRatio,
+    created_at: preset.createdAt,
+    user_id: userId,
+    updated_at: preset.updatedAt ?? preset.createdAt,
+    version: preset.version ?? 1,
+    field_timestamps: preset.fieldTimestamps ?? {},
+    deleted_at: null,
+});
+
+export const fromSupabaseTimerPreset = (row: TimerPreset): LocalTimerPreset => {
+    const createdAt = toIsoTimestamp(row.created_at) ?? new Date().toISOString();
+    return {
+        id: row.id,
+        name: row.name,
+        focusDuration: row.focus_duration,
+        breakDuration: row.break_duration,
+        longBreakDuration: row.long_break_duration,
+        sessionsBeforeLongBreak: row.sessions_before_long_break ?? 4,
+        flowMode: row.flow_mode ?? false,
+        flowBreakRatio: row.flow_break_ratio ?? 5,
+        createdAt,
+        updatedAt: toIsoTimestamp(row.updated_at) ?? createdAt,
+        version: row.version ?? 1,
+        fieldTimestamps: row.field_timestamps ?? {},
+    };
+};
+
+export interface Category {
+    id: string;
+    name: string;
+    color: string;
+    icon?: string | null;
+    is_archived?: boolean | null;
+    created_at: string;
+    user_id: string;
+    updated_at?: string | null;
+    version?: number | null;
+    field_timestamps?: FieldTimestamps | null;
+    deleted_at?: string | null;
+}
+
+export const toSupabaseCategory = (category: LocalCategory, userId: string): Category => ({
+    id: category.id,
+    name: category.name,
+    color: category.color,
+    icon: category.icon,
+    is_archived: category.isArchived,
+    created_at: category.createdAt,
+    user_id: userId,
+    updated_at: category.updatedAt ?? category.createdAt,
+    version: category.version ?? 1,
+    field_timestamps: category.fieldTimestamps ?? {},
+    deleted_at: null,
+});
+
+export const fromSupabaseCategory = (row: Category): LocalCategory => {
+    const createdAt = toIsoTimestamp(row.created_at) ?? new Date().toISOString();
+    return {
+        id: row.id,
+        name: row.name,
+        color: row.color,
+        icon: row.icon ?? null,
+        isArchived: row.is_archived ?? false,
+        createdAt,
+        updatedAt: toIsoTimestamp(row.updated_at) ?? createdAt,
+        version: row.version ?? 1,
+        fieldTimestamps: row.field_timestamps ?? {},
+    };
+};
+
+/**
+ * Synced columns of a user_settings row
+ */
+export interface SettingsRow {
+    user_id: string;
+    focus_duration?: number;
+    break_duration?: number;
+    long_break_duration?: number;
+    sessions_before_long_break?: number;
+    notifications?: boolean;
+    sound_effects?: boolean;
+    metronome?: boolean;
+    auto_start_breaks?: boolean;
+    auto_start_focus?: boolean;
+    auto_start_delay?: number;
+    flow_mode?: boolean;
+    flow_break_ratio?: number;
+    session_review?: boolean;
+    count_partial_sessions?: boolean;
+    roll_over_todos?: boolean;
+    theme?: string;
+    user_name?: string | null;
+    text_size?: 'small' | 'medium' | 'large' | null;
+    device_name?: string | null;
+    category_presets?: Record<string, string> | null;
+    version?: number | null;
+    field_timestamps?: FieldTimestamps | null;
+    updated_at?: string | null;
+}
+
+const SETTINGS_COLUMNS: Record<SyncableSetting, keyof SettingsRow> = {
+    focusDuration: 'focus_duration',
+    breakDuration: 'break_duration',
+    longBreakDuration: 'long_break_duration',
+    sessionsBeforeLongBreak: 'sessions_before_long_break',
+    notifications: 'notifications',
+    soundEffects: 'sound_effects',
+    metronome: 'metronome',
+    autoStartBreaks: 'auto_start_breaks',
+    autoStartFocus: 'auto_start_focus',
+    autoStartDelay: 'auto_start_delay',
+    flowMode: 'flow_mode',
+    flowBreakRatio: 'flow_break_ratio',
+    sessionReview: 'session_review',
+    countPartialSessions: 'count_partial_sessions',
+    rollOverTodos: 'roll_over_todos',
+    theme: 'theme',
+    userName: 'user_name',
+    textSize: 'text_size',
+    deviceName: 'device_name',
+    categoryPresets: 'category_presets',
+};
+
+/**
+ * Map the given synced settings to a user_settings row; other columns are left untouched
+ */
+export const toSupabaseSettings = (
+    settings: Partial<Pick<LocalUserSettings, SyncableSetting>>,
+    userId: string,
+    fields: SyncableSetting[],
+    meta: { version: number; fieldTimestamps: FieldTimestamps },
+): SettingsRow => {
+    const row: Record<string, unknown> = {
+        user_id: userId,
+        version: meta.version,
+        field_timestamps: meta.fieldTimestamps,
+        updated_at: new Date().toISOString(),
+    };
+    for (const field of fields) {
+        row[SETTINGS_COLUMNS[field]] = settings[field] ?? null;
+    }
+    return row as unknown as SettingsRow;
+};
+
+/**
+ * Read the synced settings out of a user_settings row; missing columns are omitted
+ */
+export const fromSupabaseSettings = (
+    row: SettingsRow,
+): Partial<Pick<LocalUserSettings, SyncableSetting>> => {
+    const settings: Record<string, unknown> = {};
+    for (const [field, column] of Object.entries(SETTINGS_COLUMNS)) {
+        if (row[column] !== undefined && row[column] !== null) {
+            settings[field] = row[column];
+        }
+    }
+    return settings as Partial<Pick<LocalUserSettings, SyncableSetting>>;
+};
+
 export class SupabaseService {
     private userId: string;
 
@@ -44,6 +420,7 @@ export class SupabaseService {
             .from('todos')
             .select('*')
             .eq('user_id', this.userId)
+            .is('deleted_at', null)
             .order('created_at', { ascending: false });
 
         if (error) throw error;
@@ -68,10 +445,41 @@ export class SupabaseService {
         return data.id;
     }
 
+    async upsertTodo(todo: Todo): Promise<void> {
+        const { error } = await supabase
+            .from('todos')
+            .upsert({ ...todo, user_id: this.userId }, { onConflict: 'id' });
+
+        if (error) throw error;
+    }
+
+    /**
+     * Update a todo, stamping the changed fields and bumping its version like a local
+     * edit, so sync merges it field by field
+     */
     async updateTodo(id: string, updates: Partial<Todo>): Promise<void> {
+        const { data: current, error: readError } = await supabase
+            .from('todos')
+            .select('version, field_timestamps')
+            .eq('id', id)
+            .eq('user_id', this.userId)
+            .single();
+
+        if (readError) throw readError;
+
+        const now = new Date().toISOString();
+        // field_timestamps is keyed by the local field names
+        const changed = Object.entries(TODO_COLUMNS)
+            .filter(([, column]) => updates[column] !== undefined)
+            .map(([field]) => field);
         const { error } = await supabase
             .from('todos')
-            .update(updates)
+            .update({
+                ...updates,
+                updated_at: now,
+                version: (current.version ?? 1) + 1,
+                field_timestamps: stampFields(current.field_timestamps, changed, now),
+            })
             .eq('id', id)
             .eq('user_id', this.userId);
 
@@ -79,9 +487,11 @@ export class SupabaseService {
     }
 
     async deleteTodo(id: string): Promise<void> {
+        // Soft delete so devices syncing later can see the tombstone
+        const deletedAt = new Date().toISOString();
         const { error } = await supabase
             .from('todos')
-            .delete()
+            .update({ deleted_at: deletedAt, updated_at: deletedAt })
             .eq('id', id)
             .eq('user_id', this.userId);
 
@@ -94,7 +504,8 @@ export class SupabaseService {
             .from('sessions')
             .select('*')
             .eq('user_id', this.userId)
-            .order('completedAt', { ascending: false });
+            .is('deleted_at', null)
+            .order('completed_at', { ascending: false });
 
         if (error) throw error;
         return data || [];
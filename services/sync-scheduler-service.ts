@@ -0,0 +1,200 @@
+import * as BackgroundTask from 'expo-background-task';
+import * as TaskManager from 'expo-task-manager';
+import { localDatabaseService } from '@/services/local-database-service';
+import { networkService } from '@/services/network-service';
+import { optionalSyncService, SYNC_MAX_ATTEMPTS } from '@/services/optional-sync-service';
+
+export const BACKGROUND_SYNC_TASK = 'background-sync-task';
+
+/** Wait this long after the last local write before pushing */
+const PUSH_DEBOUNCE_MS = 5 * 1000;
+/** Minimum interval between background sync runs (minutes, OS may run it later) */
+const BACKGROUND_SYNC_INTERVAL_MINUTES = 30;
+
+export type SyncTrigger = 'foreground' | 'reconnect' | 'local-change' | 'retry' | 'background';
+
+// Background tasks must be defined in the global scope
+TaskManager.defineTask(BACKGROUND_SYNC_TASK, async () => {
+    try {
+        await localDatabaseService.initialize();
+        const success = await optionalSyncService.performSync();
+        return success
+            ? BackgroundTask.BackgroundTaskResult.Success
+            : BackgroundTask.BackgroundTaskResult.Failed;
+    } catch (error) {
+        console.error('Background sync failed:', error);
+        return BackgroundTask.BackgroundTaskResult.Failed;
+    }
+});
+
+/**
+ * Sync Scheduler Service
+ * Runs OptionalSyncService.performSync() automatically: when the app returns
+ * to the foreground, when the network comes back, shortly after local writes,
+ * when a failed change's backoff expires, and periodically in the background
+ */
+class SyncSchedulerService {
+    private isStarted = false;
+    private wasConnected = true;
+    private pushTimer: ReturnType<typeof setTimeout> | null = null;
+    private retryTimer: ReturnType<typeof setTimeout> | null = null;
+    private unsubscribers: (() => void)[] = [];
+    private isSyncing = false;
+    /** A sync requested while another was running; it runs once that one finishes */
+    private pendingTrigger: SyncTrigger | null = null;
+
+    /**
+     * Start listening for sync triggers and register the background task
+     */
+    async start(): Promise<void> {
+        if (this.isStarted) return;
+        this.isStarted = true;
+
+        this.wasConnected = networkService.isOnline();
+        this.unsubscribers.push(
+            networkService.subscribe((isConnected) => {
+                // Listeners fire on every status check; only act on reconnects
+                if (isConnected && !this.wasConnected) {
+                    this.requestSync('reconnect');
+                }
+                this.wasConnected = isConnected;
+            }),
+            localDatabaseService.onSyncChange(() => this.schedulePush()),
+        );
+
+        await this.registerBackgroundTask();
+        this.requestSync('foreground');
+    }
+
+    /**
+     * Stop all triggers, e.g. on sign out
+     */
+    async stop(): Promise<void> {
+        if (!this.isStarted) return;
+        this.isStarted = false;
+
+        this.unsubscribers.forEach((unsubscribe) => unsubscribe());
+        this.unsubscribers = [];
+        this.clearTimers();
+        this.pendingTrigger = null;
+
+        try {
+            if (await TaskManager.isTaskRegisteredAsync(BACKGROUND_SYNC_TASK)) {
+                await BackgroundTask.unregisterTaskAsync(BACKGROUND_SYNC_TASK);
+            }
+        } catch (error) {
+            console.error('Failed to unregister background sync:', error);
+        }
+    }
+
+    /**
+     * Called by useAppLifecycle when the app becomes active
+     */
+    onForeground(): void {
+        this.requestSync('foreground');
+    }
+
+    /**
+     * Debounce pushes so a burst of local writes results in a single sync
+     */
+    schedulePush(): void {
+        if (!this.isStarted) return;
+        if (this.pushTimer) clearTimeout(this.pushTimer);
+
+        this.pushTimer = setTimeout(() => {
+            this.pushTimer = null;
+            this.requestSync('local-change');
+        }, PUSH_DEBOUNCE_MS);
+    }
+
+    /**
+     * Run a sync now if the device is online, then schedule the next retry.
+     * While a sync is running, the request is held and run once it finishes, as
+     * the running sync may already be past the changes that prompted it.
+     */
+    async requestSync(trigger: SyncTrigger): Promise<boolean> {
+        if (!this.isStarted || !networkService.isOnline()) return false;
+        if (this.isSyncing) {
+            this.pendingTrigger = trigger;
+            return false;
+        }
+
+        this.isSyncing = true;
+        try {
+            console.log(`Sync requested (${trigger})`);
+            return await optionalSyncService.performSync();
+        } catch (error) {
+            console.error(`Sync (${trigger}) failed:`, error);
+            return false;
+        } finally {
+            this.isSyncing = false;
+            await this.scheduleRetry();
+            this.runPendingSync();
+        }
+    }
+
+    private runPendingSync(): void {
+        const trigger = this.pendingTrigger;
+        if (!trigger) return;
+
+        this.pendingTrigger = null;
+        this.requestSync(trigger);
+    }
+
+    /**
+     * Wake up when the earliest failed change is due again
+     */
+    private async scheduleRetry(): Promise<void> {
+        if (!this.isStarted) return;
+        if (this.retryTimer) {
+            clearTimeout(this.retryTimer);
+            this.retryTimer = null;
+        }
+
+        try {
+            const nextAttemptAt =
+                await localDatabaseService.getNextSyncAttemptAt(SYNC_MAX_ATTEMPTS);
+            if (!nextAttemptAt) return;
+
+            const delay = Math.max(0, new Date(nextAttemptAt).getTime() - Date.now());
+            this.retryTimer = setTimeout(() => {
+                this.retryTimer = null;
+                this.requestSync('retry');
+            }, delay);
+        } catch (error) {
+            console.error('Failed to schedule sync retry:', error);
+        }
+    }
+
+    private async registerBackgroundTask(): Promise<void> {
+        try {
+            const status = await BackgroundTask.getStatusAsync();
+            if (status !== BackgroundTask.BackgroundTaskStatus.Available) {
+                console.log('Background sync is not available on this device');
+                return;
+            }
+
+            if (!(await TaskManager.isTaskRegisteredAsync(BACKGROUND_SYNC_TASK))) {
+                await BackgroundTask.registerTaskAsync(BACKGROUND_SYNC_TASK, {
+                    minimumInterval: BACKGROUND_SYNC_INTERVAL_MINUTES,
+                });
+            }
+        } catch (error) {
+            console.error('Failed to register background sync:', error);
+        }
+    }
+
+    private clearTimers(): void {
+        if (this.pushTimer) {
+            clearTimeout(this.pushTimer);
+            this.pushTimer = null;
+        }
+        if (this.retryTimer) {
+            clearTimeout(this.retryTimer);
+            this.retryTimer = null;
+        }
+    }
+}
+
+// Export singleton instance
+export const syncSchedulerService = new SyncSchedulerService();
@@ -0,0 +1,207 @@
+import {
+    generateUUID,
+    localDatabaseService,
+    Todo,
+    TODO_DATA_FIELDS,
+} from '@/services/local-database-service';
+import { optionalSyncService } from '@/services/optional-sync-service';
+import {
+    createSupabaseService,
+    fromSupabaseTodo,
+    SupabaseService,
+    toSupabaseTodo,
+    toSupabaseTodoUpdates,
+} from '@/services/supabase-service';
+import { stampFields } from '@/utils/sync-merge';
+
+export type TodoInput = Omit<Todo, 'id' | 'createdAt' | 'actualMinutes'>;
+
+/**
+ * - local: on-device SQLite only
+ * - remote: Supabase only
+ * - hybrid: on-device SQLite, replicated to Supabase by OptionalSyncService
+ */
+export type TodoBackend = 'local' | 'remote' | 'hybrid';
+
+/**
+ * - local-change: a write was queued for upload
+ * - sync: a sync run finished and may have merged remote changes
+ */
+export type TodoChangeReason = 'local-change' | 'sync';
+
+/**
+ * Storage for todos. Every backend works with the local `Todo` type, so
+ * callers never see Supabase rows.
+ */
+export interface TodoRepository {
+    readonly backend: TodoBackend;
+    getTodos(): Promise<Todo[]>;
+    createTodo(input: TodoInput): Promise<Todo>;
+    updateTodo(id: string, updates: Partial<Todo>): Promise<void>;
+    deleteTodo(id: string): Promise<void>;
+    /** Returns the ids of the deleted todos */
+    deleteCompletedTodos(): Promise<string[]>;
+    importTodos(todos: Todo[]): Promise<void>;
+    /** Ids of todos with local changes that have not been uploaded yet */
+    getPendingUploadIds(): Promise<string[]>;
+    /**
+     * Get notified when todos may have changed outside the caller's own actions.
+     * Returns an unsubscribe function.
+     */
+    watch(onChange: (reason: TodoChangeReason) => void): () => void;
+}
+
+const buildTodo = (id: string, input: TodoInput, now: string): Todo => ({
+    ...input,
+    id,
+    createdAt: now,
+    completedAt: input.completedAt ?? null,
+    actualMinutes: 0,
+    subtasks: input.subtasks ?? [],
+    updatedAt: now,
+    version: 1,
+    fieldTimestamps: stampFields(null, [...TODO_DATA_FIELDS], now),
+});
+
+/**
+ * Todos stored in the on-device database
+ */
+export class LocalTodoRepository implements TodoRepository {
+    readonly backend: TodoBackend = 'local';
+
+    async getTodos(): Promise<Todo[]> {
+        await localDatabaseService.waitForInitialization();
+        return localDatabaseService.getTodos();
+    }
+
+    async createTodo(input: TodoInput): Promise<Todo> {
+        await localDatabaseService.waitForInitialization();
+        const id = await localDatabaseService.createTodo(input);
+        const saved = await localDatabaseService.getTodo(id);
+        return saved ?? buildTodo(id, input, new Date().toISOString());
+    }
+
+    async updateTodo(id: string, updates: Partial<Todo>): Promise<void> {
+        await localDatabaseService.waitForInitialization();
+        await localDatabaseService.updateTodo(id, updates);
+    }
+
+    async deleteTodo(id: string): Promise<void> {
+        await localDatabaseService.waitForInitialization();
+        await localDatabaseService.deleteTodo(id);
+    }
+
+    async deleteCompletedTodos(): Promise<string[]> {
+        await localDatabaseService.waitForInitialization();
+        const completedTodos = await localDatabaseService.getCompletedTodos();
+        for (const todo of completedTodos) {
+            await localDatabaseService.deleteTodo(todo.id);
+        }
+        return completedTodos.map((todo) => todo.id);
+    }
+
+    async importTodos(todos: Todo[]): Promise<void> {
+        await localDatabaseService.waitForInitialization();
+        await localDatabaseService.importData({ todos });
+    }
+
+    async getPendingUploadIds(): Promise<string[]> {
+        // Nothing is uploaded without a signed-in Pro user
+        return [];
+    }
+
+    watch(onChange: (reason: TodoChangeReason) => void): () => void {
+        return () => {};
+    }
+}
+
+/**
+ * Todos stored only in Supabase; fails while offline
+ */
+export class RemoteTodoRepository implements TodoRepository {
+    readonly backend: TodoBackend = 'remote';
+    private service: SupabaseService;
+
+    constructor(private userId: string) {
+        this.service = createSupabaseService(userId);
+    }
+
+    async getTodos(): Promise<Todo[]> {
+        const rows = await this.service.getTodos();
+        return rows.map(fromSupabaseTodo);
+    }
+
+    async createTodo(input: TodoInput): Promise<Todo> {
+        const todo = buildTodo(generateUUID(), input, new Date().toISOString());
+        await this.service.upsertTodo(toSupabaseTodo(todo, this.userId));
+        return todo;
+    }
+
+    async updateTodo(id: string, updates: Partial<Todo>): Promise<void> {
+        await this.service.updateTodo(id, toSupabaseTodoUpdates(updates));
+    }
+
+    async deleteTodo(id: string): Promise<void> {
+        await this.service.deleteTodo(id);
+    }
+
+    async deleteCompletedTodos(): Promise<string[]> {
+        const completedTodos = (await this.getTodos()).filter((todo) => todo.isCompleted);
+        for (const todo of completedTodos) {
+            await this.service.deleteTodo(todo.id);
+        }
+        return completedTodos.map((todo) => todo.id);
+    }
+
+    async importTodos(todos: Todo[]): Promise<void> {
+        for (const todo of todos) {
+            await this.service.upsertTodo(toSupabaseTodo(todo, this.userId));
+        }
+    }
+
+    async getPendingUploadIds(): Promise<string[]> {
+        // Writes go straight to Supabase
+        return [];
+    }
+
+    watch(onChange: (reason: TodoChangeReason) => void): () => void {
+        return () => {};
+    }
+}
+
+/**
+ * Todos stored on device and replicated in the background.
+ * Writes are logged to sync_log by LocalDatabaseService and uploaded by
+ * OptionalSyncService, so reads and writes keep working offline.
+ */
+export class HybridTodoRepository extends LocalTodoRepository {
+    readonly backend: TodoBackend = 'hybrid';
+
+    async getPendingUploadIds(): Promise<string[]> {
+        await localDatabaseService.waitForInitialization();
+        return localDatabaseService.getPendingRecordIds('todos');
+    }
+
+    watch(onChange: (reason: TodoChangeReason) => void): () => void {
+        const unsubscribers = [
+            localDatabaseService.onSyncChange((change) => {
+                if (change.tableName === 'todos') onChange('local-change');
+            }),
+            optionalSyncService.onSyncComplete(() => onChange('sync')),
+        ];
+        return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+    }
+}
+
+/**
+ * Create the repository for a backend; remote and hybrid need a signed-in user
+ */
+export const createTodoRepository = (
+    backend: TodoBackend,
+    userId?: string | null,
+): TodoRepository => {
+    if (backend === 'local' || !userId) {
+        return new LocalTodoRepository();
+    }
+    return backend === 'remote' ? new RemoteTodoRepository(userId) : new HybridTodoRepository();
+};
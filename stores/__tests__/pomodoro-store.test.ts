@@ -0,0 +1,130 @@
+import { localDatabaseService } from '@/services/local-database-service';
+import { usePomodoroStore } from '@/stores/pomodoro-store';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+    jest.requireActual('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+jest.mock('expo-audio', () => ({ createAudioPlayer: jest.fn() }));
+jest.mock('@/services/notification-service', () => ({
+    notificationService: {
+        cancelTimerNotifications: jest.fn(),
+        scheduleTimerNotification: jest.fn(),
+        scheduleAutoStartedPhaseNotification: jest.fn(),
+        isAppInBackground: () => false,
+    },
+}));
+jest.mock('@/services/local-database-service', () => ({
+    generateUUID: () => 'uuid',
+    localDatabaseService: { createSession: jest.fn(async () => 'session-id') },
+}));
+jest.mock('@/services/error-handling-service', () => ({
+    errorHandlingService: { processError: jest.fn() },
+    DatabaseError: Error,
+}));
+jest.mock('@/stores/todo-store', () => ({
+    useTodoStore: { getState: () => ({ loadTodos: jest.fn() }) },
+}));
+jest.mock('@/utils/error-toast', () => ({ showError: jest.fn() }));
+
+const FOCUS_MINUTES = 25;
+const BREAK_MINUTES = 5;
+const START = new Date('2026-10-19T09:00:00Z').getTime();
+
+const initialState = usePomodoroStore.getState();
+const store = () => usePomodoroStore.getState();
+const tick = () => store().tick(false, FOCUS_MINUTES, BREAK_MINUTES, false);
+
+/**
+ * Start a focus session and run it to its end
+ */
+const completeFocusSession = async () => {
+    await store().startTimer(FOCUS_MINUTES, BREAK_MINUTES, false);
+    jest.setSystemTime(START + FOCUS_MINUTES * 60 * 1000);
+    await store().completeTimer(false, FOCUS_MINUTES, BREAK_MINUTES, false);
+};
+
+describe('pomodoro store', () => {
+    beforeEach(() => {
+        jest.useFakeTimers({ now: START });
+        jest.clearAllMocks();
+        usePomodoroStore.setState(initialState, true);
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it('hands a completed focus session off to its break through tick', async () => {
+        await completeFocusSession();
+
+        expect(store().timerStatus).toBe('completed');
+        expect(store().breakHandOff).not.toBeNull();
+
+        // The completion stays on screen until the hand-off time
+        tick();
+        expect(store().timerPhase).toBe('focus');
+
+        jest.setSystemTime(START + FOCUS_MINUTES * 60 * 1000 + 2000);
+        tick();
+        expect(store()).toMatchObject({
+            timerStatus: 'idle',
+            timerPhase: 'shortBreak',
+            timeLeft: BREAK_MINUTES * 60,
+            breakHandOff: null,
+        });
+    });
+
+    it('drops a pending break hand-off when the timer is reset', async () => {
+        await completeFocusSession();
+        await store().resetTimer();
+
+        jest.setSystemTime(START + FOCUS_MINUTES * 60 * 1000 + 2000);
+        tick();
+        expect(store()).toMatchObject({
+            timerStatus: 'idle',
+            timerPhase: 'focus',
+            breakHandOff: null,
+        });
+    });
+
+    it('skips to the next focus session', async () => {
+        await store().startTimer(FOCUS_MINUTES, BREAK_MINUTES, false);
+        store().skipSession(FOCUS_MINUTES);
+
+        expect(store()).toMatchObject({
+            timerStatus: 'idle',
+            timerPhase: 'focus',
+            currentSession: 2,
+            timeLeft: FOCUS_MINUTES * 60,
+            sessionStartTime: null,
+        });
+    });
+
+    it('logs a completed focus session once', async () => {
+        await completeFocusSession();
+
+        expect(localDatabaseService.createSession).toHaveBeenCalledTimes(1);
+        expect(localDatabaseService.createSession).toHaveBeenCalledWith(
+            expect.objectContaining({ type: 'focus', duration: FOCUS_MINUTES * 60 }),
+        );
+    });
+
+    it('does not log a completed focus session again when the timer is reset', async () => {
+        await completeFocusSession();
+        await store().resetTimer();
+
+        expect(localDatabaseService.createSession).toHaveBeenCalledTimes(1);
+        expect(store().sessions).toHaveLength(1);
+    });
+
+    it('logs a focus session cut short by a reset as unfinished', async () => {
+        await store().startTimer(FOCUS_MINUTES, BREAK_MINUTES, false);
+        jest.setSystemTime(START + 10 * 60 * 1000);
+        await store().resetTimer();
+
+        expect(localDatabaseService.createSession).toHaveBeenCalledTimes(1);
+        expect(localDatabaseService.createSession).toHaveBeenCalledWith(
+            expect.objectContaining({ type: 'focus', duration: 10 * 60, isCompleted: false }),
+        );
+    });
+});
@@ -8,7 +8,9 @@ import { SUBSCRIPTION_CONSTANTS } from '@/constants/subscription';
 import { useSettingsStore } from '@/stores/local-settings-store';
 import { todoMigrationService } from '@/services/todo-migration-service';
 import { optionalSyncService } from '@/services/optional-sync-service';
-import { useSupabaseTodoStore } from '@/stores/supabase-todo-store';
+import { realtimeSyncService } from '@/services/realtime-sync-service';
+import { syncSchedulerService } from '@/services/sync-scheduler-service';
+import { useTodoStore } from '@/stores/todo-store';
 import { createSupabaseService } from '@/services/supabase-service';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import type { Session, User } from '@supabase/supabase-js';
@@ -132,6 +134,10 @@ export const useAuthStore = create<AuthState>()(
                         } catch (error) {
                             console.error('[AuthStore] Failed to initialize sync service:', error);
                         }
+
+                        // Receive changes made on other devices
+                        realtimeSyncService.start(user.id);
+                        await syncSchedulerService.start();
                     }
 
                     // Migrate local todos to Supabase when upgrading to pro
@@ -147,8 +153,8 @@ export const useAuthStore = create<AuthState>()(
                                 console.log(
                                     `[AuthStore] Successfully migrated ${migrationResult.migratedCount} todos to Supabase`,
                                 );
-                                // Refresh Supabase todo store after migration
-                                useSupabaseTodoStore.getState().loadTodos();
+                                // Refresh the todo store after migration
+                                useTodoStore.getState().loadTodos({ force: true });
 
                                 // Track successful migration
                                 analyticsService.trackMigration('migration_completed', user.id, {
@@ -182,6 +188,9 @@ export const useAuthStore = create<AuthState>()(
                         settingsStore.setAccountBackedUp(false);
                     }
 
+                    realtimeSyncService.stop();
+                    await syncSchedulerService.stop();
+
                     // Disable sync service when downgrading
                     if (isDowngrading) {
                         try {
@@ -1,23 +1,150 @@
+import { errorHandlingService } from '@/services/error-handling-service';
+import { Category, localDatabaseService } from '@/services/local-database-service';
+import { optionalSyncService } from '@/services/optional-sync-service';
+import { useSettingsStore } from '@/stores/local-settings-store';
+import { useTodoStore } from '@/stores/todo-store';
+import { showError, showSuccess } from '@/utils/error-toast';
 import { create } from 'zustand';
 
-export type CategoryKey = 'HEALTH' | 'WORK' | 'MENTAL_HEALTH';
+/** Color for a todo whose category is unknown on this device */
+export const FALLBACK_CATEGORY_COLOR = '#D4D4D8';
 
-export interface CategoryItem {
-    key: CategoryKey;
-    label: string;
-    color: string;
-}
+export type CategoryInput = Pick<Category, 'name' | 'color' | 'icon'>;
 
 interface CategoryState {
-    categories: CategoryItem[];
+    /** All categories, archived ones included, oldest first */
+    categories: Category[];
+    isLoaded: boolean;
+
+    // Actions
+    loadCategories: () => Promise<void>;
+    createCategory: (input: CategoryInput) => Promise<void>;
+    /** Renaming moves every todo in the category to the new name */
+    updateCategory: (id: string, updates: Partial<CategoryInput>) => Promise<void>;
+    setCategoryArchived: (id: string, isArchived: boolean) => Promise<void>;
+    /** Delete a category; its todos are left without one */
+    deleteCategory: (id: string) => Promise<void>;
+
+    // Getters
+    getActiveCategories: () => Category[];
+    getCategoryByName: (name?: string | null) => Category | null;
 }
 
-export const useCategoryStore = create<CategoryState>(() => ({
-    categories: [
-        { key: 'HEALTH', label: 'HEALTH', color: '#A3E635' }, // lime-400
-        { key: 'WORK', label: 'WORK', color: '#D4D4D8' }, // zinc-300
-        { key: 'MENTAL_HEALTH', label: 'MENTAL HEALTH', color: '#93C5FD' }, // blue-300
-    ],
-}));
+let stopWatchingSync: (() => void) | null = null;
+
+// Todo rows change with a rename or delete
+const refreshTodos = () => useTodoStore.getState().loadTodos({ force: true });
+
+export const useCategoryStore = create<CategoryState>((set, get) => ({
+    categories: [],
+    isLoaded: false,
+
+    loadCategories: async () => {
+        // Categories edited on another device arrive with a sync
+        if (!stopWatchingSync) {
+            stopWatchingSync = optionalSyncService.onSyncComplete((success) => {
+                if (success) get().loadCategories();
+            });
+        }
+
+        try {
+            await localDatabaseService.waitForInitialization();
+            const categories = await localDatabaseService.getCategories();
+            set({ categories, isLoaded: true });
+        } catch (error) {
+            errorHandlingService.processError(error, { action: 'loadCategories' });
+            showError(error, { action: 'loadCategories' });
+        }
+    },
+
+    createCategory: async (input) => {
+        const name = input.name.trim();
+        try {
+            await localDatabaseService.waitForInitialization();
+            const id = await localDatabaseService.createCategory({ ...input, name });
+            const category = await localDatabaseService.getCategory(id);
+            if (category) {
+                set((state) => ({ categories: [...state.categories, category] }));
+            }
+            showSuccess(`Category "${name}" added`);
+        } catch (error) {
+            errorHandlingService.processError(error, { action: 'createCategory' });
+            showError(error, { action: 'createCategory' });
+        }
+    },
 
+    updateCategory: async (id, updates) => {
+        const previous = get().categories.find((category) => category.id === id);
+        const name = updates.name?.trim();
 
+        try {
+            await localDatabaseService.waitForInitialization();
+            await localDatabaseService.updateCategory(id, { ...updates, name });
+            set((state) => ({
+                categories: state.categories.map((category) =>
+                    category.id === id
+                        ? { ...category, ...updates, name: name ?? category.name }
+                        : category,
+                ),
+            }));
+
+            if (previous && name !== undefined && name !== previous.name) {
+                // The timer preset default follows the category to its new name
+                const settings = useSettingsStore.getState();
+                const presetId = settings.categoryPresets[previous.name];
+                if (presetId) {
+                    settings.setCategoryPreset(previous.name, null);
+                    settings.setCategoryPreset(name, presetId);
+                }
+                await refreshTodos();
+            }
+        } catch (error) {
+            errorHandlingService.processError(error, { action: 'updateCategory', categoryId: id });
+            showError(error, { action: 'updateCategory', categoryId: id });
+        }
+    },
+
+    setCategoryArchived: async (id, isArchived) => {
+        try {
+            await localDatabaseService.waitForInitialization();
+            await localDatabaseService.updateCategory(id, { isArchived });
+            set((state) => ({
+                categories: state.categories.map((category) =>
+                    category.id === id ? { ...category, isArchived } : category,
+                ),
+            }));
+        } catch (error) {
+            errorHandlingService.processError(error, {
+                action: 'setCategoryArchived',
+                categoryId: id,
+            });
+            showError(error, { action: 'setCategoryArchived', categoryId: id });
+        }
+    },
+
+    deleteCategory: async (id) => {
+        const category = get().categories.find((item) => item.id === id);
+        try {
+            await localDatabaseService.waitForInitialization();
+            await localDatabaseService.deleteCategory(id);
+            set((state) => ({ categories: state.categories.filter((item) => item.id !== id) }));
+
+            if (category) {
+                useSettingsStore.getState().setCategoryPreset(category.name, null);
+            }
+            await refreshTodos();
+
+            showSuccess('Category deleted');
+        } catch (error) {
+            errorHandlingService.processError(error, { action: 'deleteCategory', categoryId: id });
+            showError(error, { action: 'deleteCategory', categoryId: id });
+        }
+    },
+
+    getActiveCategories: () => get().categories.filter((category) => !category.isArchived),
+
+    getCategoryByName: (name) => {
+        if (!name) return null;
+        return get().categories.find((category) => category.name === name) ?? null;
+    },
+}));
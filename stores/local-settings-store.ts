@@ -1,9 +1,26 @@
-import { localDatabaseService } from '@/services/local-database-service';
+import {
+    DEFAULT_LOCAL_ONLY_SETTINGS,
+    localDatabaseService,
+    SyncableSetting,
+    TimerPreset,
+} from '@/services/local-database-service';
 import { errorHandlingService } from '@/services/error-handling-service';
+import type { TodoGroup } from '@/utils/dateUtils';
+import type { TodoSortMode } from '@/utils/todoSort';
 import { create } from 'zustand';
 import { createJSONStorage, persist } from 'zustand/middleware';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 
+export type TimerSettings = Pick<
+    TimerPreset,
+    | 'focusDuration'
+    | 'breakDuration'
+    | 'longBreakDuration'
+    | 'sessionsBeforeLongBreak'
+    | 'flowMode'
+    | 'flowBreakRatio'
+>;
+
 export interface SettingsState {
     // Theme settings
     themeMode: 'light' | 'dark' | 'system';
@@ -12,14 +29,45 @@ export interface SettingsState {
     // Focus settings
     focusDuration: number;
     breakDuration: number;
+    longBreakDuration: number;
+    sessionsBeforeLongBreak: number;
     soundEffects: boolean;
     metronome: boolean;
     metronomeVolume: number;
     setFocusDuration: (focusDuration: number) => void;
     setBreakDuration: (breakDuration: number) => void;
+    setLongBreakDuration: (longBreakDuration: number) => void;
+    setSessionsBeforeLongBreak: (sessionsBeforeLongBreak: number) => void;
+    /** Focus runs past its target until finished, and the break scales with it */
+    flowMode: boolean;
+    /** Break = focused time / flowBreakRatio in flow mode; 0 keeps the set break */
+    flowBreakRatio: number;
+    setFlowMode: (flowMode: boolean) => void;
+    setFlowBreakRatio: (flowBreakRatio: number) => void;
+    /** Replace all timer durations at once, e.g. from a preset */
+    applyTimerSettings: (settings: TimerSettings) => void;
+    /** Todo category → id of the timer preset its todos start with */
+    categoryPresets: Record<string, string>;
+    setCategoryPreset: (category: string, presetId: string | null) => void;
     setSoundEffects: (soundEffects: boolean) => void;
     setMetronome: (metronome: boolean) => void;
     setMetronomeVolume: (volume: number) => void;
+    autoStartBreaks: boolean;
+    autoStartFocus: boolean;
+    /** Seconds to wait, cancellably, before an automatic start */
+    autoStartDelay: number;
+    setAutoStartBreaks: (autoStartBreaks: boolean) => void;
+    setAutoStartFocus: (autoStartFocus: boolean) => void;
+    setAutoStartDelay: (autoStartDelay: number) => void;
+    /** Ask for a short review when a focus session ends */
+    sessionReview: boolean;
+    setSessionReview: (sessionReview: boolean) => void;
+    /** Count stopped focus sessions towards a todo's time, not only completed ones */
+    countPartialSessions: boolean;
+    setCountPartialSessions: (countPartialSessions: boolean) => void;
+    /** Move open todos scheduled for a past day to today */
+    rollOverTodos: boolean;
+    setRollOverTodos: (rollOverTodos: boolean) => void;
 
     // App settings
     syncWithCloud: boolean;
@@ -28,6 +76,9 @@ export interface SettingsState {
     setSyncWithCloud: (syncWithCloud: boolean) => void;
     setTextSize: (textSize: 'small' | 'medium' | 'large') => void;
     setNotifications: (notifications: boolean) => void;
+    /** How each todo list section is sorted; missing ones use DEFAULT_TODO_SORT_MODE */
+    todoSortModes: Partial<Record<TodoGroup, TodoSortMode>>;
+    setTodoSortMode: (view: TodoGroup, mode: TodoSortMode) => void;
 
     // Account settings
     userName: string;
@@ -44,6 +95,8 @@ export interface SettingsState {
     // Device settings
     deviceName: string;
     setDeviceName: (deviceName: string) => void;
+    localOnlySettings: SyncableSetting[];
+    setSettingLocalOnly: (setting: SyncableSetting, localOnly: boolean) => void;
 
     // Database operations
     loadSettings: () => Promise<void>;
@@ -66,6 +119,8 @@ export const useSettingsStore = create<SettingsState>()(
             // Focus settings
             focusDuration: 25,
             breakDuration: 5,
+            longBreakDuration: 10,
+            sessionsBeforeLongBreak: 4,
             soundEffects: true,
             metronome: false,
             metronomeVolume: 0.5,
@@ -77,6 +132,49 @@ export const useSettingsStore = create<SettingsState>()(
                 set({ breakDuration });
                 get().saveSettings();
             },
+            setLongBreakDuration: (longBreakDuration) => {
+                set({ longBreakDuration });
+                get().saveSettings();
+            },
+            setSessionsBeforeLongBreak: (sessionsBeforeLongBreak) => {
+                set({ sessionsBeforeLongBreak: Math.max(1, Math.round(sessionsBeforeLongBreak)) });
+                get().saveSettings();
+            },
+            flowMode: false,
+            flowBreakRatio: 5,
+            setFlowMode: (flowMode) => {
+                set({ flowMode });
+                get().saveSettings();
+            },
+            setFlowBreakRatio: (flowBreakRatio) => {
+                set({ flowBreakRatio: Math.max(0, Math.round(flowBreakRatio)) });
+                get().saveSettings();
+            },
+            applyTimerSettings: (settings) => {
+                set({
+                    focusDuration: settings.focusDuration,
+                    breakDuration: settings.breakDuration,
+                    longBreakDuration: settings.longBreakDuration,
+                    sessionsBeforeLongBreak: Math.max(
+                        1,
+                        Math.round(settings.sessionsBeforeLongBreak),
+                    ),
+                    flowMode: settings.flowMode,
+                    flowBreakRatio: Math.max(0, Math.round(settings.flowBreakRatio)),
+                });
+                get().saveSettings();
+            },
+            categoryPresets: {},
+            setCategoryPreset: (category, presetId) => {
+                const categoryPresets = { ...get().categoryPresets };
+                if (presetId) {
+                    categoryPresets[category] = presetId;
+                } else {
+                    delete categoryPresets[category];
+                }
+                set({ categoryPresets });
+                get().saveSettings();
+            },
             setSoundEffects: (soundEffects) => {
                 set({ soundEffects });
                 get().saveSettings();
@@ -89,6 +187,36 @@ export const useSettingsStore = create<SettingsState>()(
                 set({ metronomeVolume: volume });
                 // metronomeVolume is UI-only; no DB persistence required
             },
+            autoStartBreaks: false,
+            autoStartFocus: false,
+            autoStartDelay: 5,
+            setAutoStartBreaks: (autoStartBreaks) => {
+                set({ autoStartBreaks });
+                get().saveSettings();
+            },
+            setAutoStartFocus: (autoStartFocus) => {
+                set({ autoStartFocus });
+                get().saveSettings();
+            },
+            setAutoStartDelay: (autoStartDelay) => {
+                set({ autoStartDelay: Math.max(0, Math.round(autoStartDelay)) });
+                get().saveSettings();
+            },
+            sessionReview: true,
+            setSessionReview: (sessionReview) => {
+                set({ sessionReview });
+                get().saveSettings();
+            },
+            countPartialSessions: false,
+            setCountPartialSessions: (countPartialSessions) => {
+                set({ countPartialSessions });
+                get().saveSettings();
+            },
+            rollOverTodos: true,
+            setRollOverTodos: (rollOverTodos) => {
+                set({ rollOverTodos });
+                get().saveSettings();
+            },
 
             // App settings
             syncWithCloud: false,
@@ -106,6 +234,11 @@ export const useSettingsStore = create<SettingsState>()(
                 set({ notifications });
                 get().saveSettings();
             },
+            todoSortModes: {},
+            setTodoSortMode: (view, mode) => {
+                set((state) => ({ todoSortModes: { ...state.todoSortModes, [view]: mode } }));
+                // todoSortModes is UI-only; no DB persistence required
+            },
 
             // Account settings
             userName: '',
@@ -139,6 +272,12 @@ export const useSettingsStore = create<SettingsState>()(
                 set({ deviceName });
                 get().saveSettings();
             },
+            localOnlySettings: DEFAULT_LOCAL_ONLY_SETTINGS,
+            setSettingLocalOnly: (setting, localOnly) => {
+                const others = get().localOnlySettings.filter((s) => s !== setting);
+                set({ localOnlySettings: localOnly ? [...others, setting] : others });
+                get().saveSettings();
+            },
 
             // Database operations
             loadSettings: async () => {
@@ -151,14 +290,35 @@ export const useSettingsStore = create<SettingsState>()(
                         set({
                             focusDuration: settings.focusDuration,
                             breakDuration: settings.breakDuration,
+                            longBreakDuration: settings.longBreakDuration,
+                            sessionsBeforeLongBreak: settings.sessionsBeforeLongBreak,
+                            flowMode: settings.flowMode,
+                            flowBreakRatio: settings.flowBreakRatio,
+                            categoryPresets: settings.categoryPresets ?? {},
                             soundEffects: settings.soundEffects,
                             metronome: settings.metronome,
+                            autoStartBreaks: settings.autoStartBreaks,
+                            autoStartFocus: settings.autoStartFocus,
+                            autoStartDelay: settings.autoStartDelay,
+                            sessionReview: settings.sessionReview,
+                            countPartialSessions: settings.countPartialSessions,
+                            rollOverTodos: settings.rollOverTodos,
                             themeMode: settings.theme as 'light' | 'dark' | 'system',
                             notifications: settings.notifications,
                             userName: settings.userName || 'User',
                             userEmail: settings.userEmail || '',
                             onboardingCompleted: settings.onboardingCompleted,
                             syncWithCloud: settings.syncEnabled,
+                            localOnlySettings:
+                                settings.localOnlySettings ?? DEFAULT_LOCAL_ONLY_SETTINGS,
+                            // Only stamped values were ever written to the database;
+                            // otherwise keep the value persisted in AsyncStorage
+                            ...(settings.fieldTimestamps?.textSize && settings.textSize
+                                ? { textSize: settings.textSize }
+                                : {}),
+                            ...(settings.fieldTimestamps?.deviceName && settings.deviceName
+                                ? { deviceName: settings.deviceName }
+                                : {}),
                         });
                     }
                 } catch (error) {
@@ -173,15 +333,28 @@ export const useSettingsStore = create<SettingsState>()(
                     await localDatabaseService.updateSettings({
                         focusDuration: state.focusDuration,
                         breakDuration: state.breakDuration,
+                        longBreakDuration: state.longBreakDuration,
+                        sessionsBeforeLongBreak: state.sessionsBeforeLongBreak,
+                        flowMode: state.flowMode,
+                        flowBreakRatio: state.flowBreakRatio,
+                        categoryPresets: state.categoryPresets,
                         soundEffects: state.soundEffects,
                         metronome: state.metronome,
+                        autoStartBreaks: state.autoStartBreaks,
+                        autoStartFocus: state.autoStartFocus,
+                        autoStartDelay: state.autoStartDelay,
+                        sessionReview: state.sessionReview,
+                        countPartialSessions: state.countPartialSessions,
+                        rollOverTodos: state.rollOverTodos,
                         theme: state.themeMode,
                         notifications: state.notifications,
                         userName: state.userName,
                         userEmail: state.userEmail,
                         onboardingCompleted: state.onboardingCompleted,
                         syncEnabled: state.syncWithCloud,
-                        lastSyncAt: state.syncWithCloud ? new Date().toISOString() : null,
+                        textSize: state.textSize,
+                        deviceName: state.deviceName,
+                        localOnlySettings: state.localOnlySettings,
                     });
                 } catch (error) {
                     // Silently handle save errors - settings are persisted in AsyncStorage anyway
@@ -195,18 +368,31 @@ export const useSettingsStore = create<SettingsState>()(
                     themeMode: 'system',
                     focusDuration: 25,
                     breakDuration: 5,
+                    longBreakDuration: 10,
+                    sessionsBeforeLongBreak: 4,
+                    flowMode: false,
+                    flowBreakRatio: 5,
+                    categoryPresets: {},
                     soundEffects: true,
                     metronome: false,
                     metronomeVolume: 0.5,
+                    autoStartBreaks: false,
+                    autoStartFocus: false,
+                    autoStartDelay: 5,
+                    sessionReview: true,
+                    countPartialSessions: false,
+                    rollOverTodos: true,
                     syncWithCloud: false,
                     textSize: 'medium',
                     notifications: true,
+                    todoSortModes: {},
                     userName: 'User',
                     userEmail: '',
                     isAccountBackedUp: false,
                     onboardingCompleted: false,
                     hasProAccess: false,
                     deviceName: 'Flowzy Device',
+                    localOnlySettings: DEFAULT_LOCAL_ONLY_SETTINGS,
                 }),
         }),
         {
@@ -217,7 +403,9 @@ export const useSettingsStore = create<SettingsState>()(
                 themeMode: state.themeMode,
                 textSize: state.textSize,
                 metronomeVolume: state.metronomeVolume,
+                todoSortModes: state.todoSortModes,
                 deviceName: state.deviceName,
+                localOnlySettings: state.localOnlySettings,
                 isAccountBackedUp: state.isAccountBackedUp,
                 userName: state.userName,
                 userEmail: state.userEmail,
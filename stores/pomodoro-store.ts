@@ -1,42 +1,127 @@
 import { notificationService } from '@/services/notification-service';
-import { localDatabaseService, Session } from '@/services/local-database-service';
+import {
+    generateUUID,
+    InterruptionKind,
+    localDatabaseService,
+    PauseInterval,
+    Session,
+    SessionInterruption,
+    Todo,
+} from '@/services/local-database-service';
 import { errorHandlingService, DatabaseError } from '@/services/error-handling-service';
+import { useTodoStore } from '@/stores/todo-store';
 import { showError } from '@/utils/error-toast';
+import {
+    createClock,
+    getElapsedMs,
+    getOvertimeMs,
+    getRemainingSeconds,
+    isClockFinished,
+    isClockInOvertime,
+    pauseClock,
+    resumeClock,
+    startClock,
+    TimerClock,
+} from '@/utils/timer-engine';
+import {
+    BreakPhase,
+    TimerEvent,
+    TimerMachineState,
+    TimerPhase,
+    TimerStatus,
+    transition,
+} from '@/utils/timer-machine';
+import AsyncStorage from '@react-native-async-storage/async-storage';
 import { createAudioPlayer, type AudioPlayer } from 'expo-audio';
-import { create } from 'zustand';
+import { create, StateCreator } from 'zustand';
+import { createJSONStorage, persist } from 'zustand/middleware';
 
 // Use the Session interface from local database service
 export type PomodoroSession = Session;
 
-export type TimerPhase = 'focus' | 'shortBreak' | 'longBreak';
-export type TimerStatus = 'idle' | 'running' | 'paused' | 'completed';
+export type { TimerPhase, TimerStatus };
+
+export interface AutoStartSettings {
+    /** Start a break when a focus session ends */
+    breaks: boolean;
+    /** Start the next focus session when a break ends */
+    focus: boolean;
+    /** Seconds of cancellable countdown before the phase starts */
+    delay: number;
+}
+
+/**
+ * A todo planned for the current sitting
+ */
+export interface QueuedTodo {
+    todoId: string;
+    title: string;
+    /** Focus sessions planned for it, from the todo's estimate */
+    estimatedPomodoros: number;
+    /** Focus sessions completed on it since it was queued */
+    completedPomodoros: number;
+}
+
+/**
+ * A completed focus session stays on screen briefly before tick takes the break
+ */
+interface BreakHandOff {
+    at: number;
+    /** Focused time a flow session's break scales to */
+    focusedSeconds?: number;
+}
+
+/**
+ * Answers from the review shown when a focus session ends
+ */
+export type SessionReview = Pick<PomodoroSession, 'notes' | 'focusRating' | 'outcome'>;
 
 interface PomodoroState {
     // Todo selection
     currentTodoId: string | null;
     currentTodoTitle: string | null;
+    queue: QueuedTodo[]; // Todos planned for this sitting, in order; the first is current
 
     // Timer state
     timerStatus: TimerStatus;
     timerPhase: TimerPhase;
-    timeLeft: number; // seconds remaining
+    timeLeft: number; // seconds remaining, derived from clock
     initialTime: number; // initial time for current phase
+    clock: TimerClock; // wall-clock source of truth for the current phase
+    overtime: number; // seconds a flow-mode focus has run past its target, derived from clock
     sessionStartTime: Date | null;
+    interruptions: SessionInterruption[]; // Logged during the current phase
+    pauses: PauseInterval[]; // Pauses of the current phase; the last is open while paused
 
     // Session tracking
-    currentSession: number; // 1-4
-    totalSessions: number; // Always 4
+    currentSession: number; // 1-totalSessions
+    totalSessions: number; // Focus sessions before a long break, from settings
+    longBreakDuration: number; // Long break length in minutes, from settings
+
+    // Flow mode, from settings
+    flowMode: boolean; // Focus runs past its target until finished
+    flowBreakRatio: number; // Break = focused time / ratio; 0 keeps the set break
+
+    // Auto-start
+    autoStart: AutoStartSettings; // From settings
+    autoStartAt: number | null; // When the idle phase starts on its own; null if it won't
+    autoStartIn: number; // seconds until autoStartAt, derived from the clock
+    breakHandOff: BreakHandOff | null; // Completed focus session waiting to move to its break
 
     // History
     sessions: PomodoroSession[];
     sessionsLoaded: boolean;
-
-    // Edge case handling
-    isProcessing: boolean; // Prevents race conditions
+    reviewSessionId: string | null; // Finished focus session waiting for its review
 
     // Actions - Todo
     selectTodo: (todoId: string | null, todoTitle: string | null) => void;
     clearSelection: () => void;
+    /** Plan a sitting; the first todo becomes the current one */
+    setQueue: (todos: Todo[], focusDuration: number) => void;
+    /** Drop the current todo from the plan and move on to the next one */
+    advanceQueue: () => void;
+    removeFromQueue: (todoId: string) => void;
+    clearQueue: () => void;
 
     // Actions - Timer
     startTimer: (
@@ -47,13 +132,19 @@ interface PomodoroState {
     pauseTimer: () => void;
     resumeTimer: () => Promise<void>;
     resetTimer: () => void;
-    updateTimerDuration: (focusDuration: number, breakDuration: number) => void;
+    logInterruption: (kind: InterruptionKind, note?: string) => void;
+    updateTimerDuration: (
+        focusDuration: number,
+        breakDuration: number,
+        longBreakDuration: number,
+        sessionsBeforeLongBreak: number,
+    ) => void;
     tick: (
         soundEnabled: boolean,
         focusDuration?: number,
         breakDuration?: number,
         notificationsEnabled?: boolean,
-    ) => void; // Decrements timer by 1 second
+    ) => void; // Recomputes timeLeft from the clock and completes a finished phase
     completeTimer: (
         soundEnabled: boolean,
         focusDuration?: number,
@@ -61,14 +152,31 @@ interface PomodoroState {
         notificationsEnabled?: boolean,
     ) => void;
     switchPhase: (phase: TimerPhase, focusDuration: number, breakDuration: number) => void;
+    updateFlowMode: (flowMode: boolean, flowBreakRatio: number) => void;
+    /** End a flow-mode focus session, in or before overtime */
+    finishFocus: (
+        soundEnabled: boolean,
+        focusDuration: number,
+        breakDuration: number,
+        notificationsEnabled?: boolean,
+    ) => void;
+    updateAutoStart: (autoStart: AutoStartSettings) => void;
+    cancelAutoStart: () => Promise<void>;
 
     // Actions - Session
-    skipSession: (focusDuration: number, breakDuration: number) => void;
-    nextSession: (focusDuration: number, breakDuration: number) => void;
+    /** Drop the current phase and move on to the next focus session */
+    skipSession: (focusDuration: number) => void;
     resetSession: () => void;
-    switchToBreakPhase: (focusDuration: number, breakDuration: number) => void;
+    switchToBreakPhase: (
+        focusDuration: number,
+        breakDuration: number,
+        focusedSeconds?: number,
+    ) => void;
     completeBreak: (focusDuration: number, breakDuration: number) => void;
     loadSessions: () => Promise<void>;
+    deleteSession: (id: string) => Promise<void>;
+    saveSessionReview: (review: SessionReview) => Promise<void>;
+    dismissSessionReview: () => void;
 
     // Getters
     getTotalTimeForTodo: (todoId: string) => Promise<number>;
@@ -81,6 +189,7 @@ export const getTimerDuration = (
     phase: TimerPhase,
     focusDuration: number,
     breakDuration: number,
+    longBreakDuration: number,
 ): number => {
     switch (phase) {
         case 'focus':
@@ -88,7 +197,97 @@ export const getTimerDuration = (
         case 'shortBreak':
             return breakDuration * 60;
         case 'longBreak':
-            return breakDuration * 2 * 60; // Long break is 2x short break
+            return longBreakDuration * 60;
+    }
+};
+
+/**
+ * Focus sessions needed for a todo's estimate; at least one
+ */
+export const getEstimatedPomodoros = (
+    todo: Pick<Todo, 'estimatedMinutes'>,
+    focusDuration: number,
+): number => Math.max(1, Math.ceil((todo.estimatedMinutes ?? 0) / Math.max(1, focusDuration)));
+
+// The database rolls a session's time into its todo's actualMinutes; show the new total
+const refreshTodoTime = (todoId?: string | null) => {
+    if (todoId) useTodoStore.getState().loadTodos({ force: true });
+};
+
+// Close a pause still open when the session ends
+const closePauses = (pauses: PauseInterval[], endedAt: string): PauseInterval[] =>
+    pauses.map((pause) => (pause.endedAt === null ? { ...pause, endedAt } : pause));
+
+/**
+ * The timer state after `event`, or null when the state machine rejects it, e.g. a
+ * delayed switch to the break arriving after the user already reset the timer
+ */
+const nextTimerState = (state: PomodoroState, event: TimerEvent): TimerMachineState | null => {
+    const next = transition({ status: state.timerStatus, phase: state.timerPhase }, event);
+    if (!next) {
+        console.warn(
+            `[PomodoroStore] Ignoring ${event.type}: ${state.timerPhase} is ${state.timerStatus}`,
+        );
+    }
+    return next;
+};
+
+// The break that follows the given focus session: long after the last one of the cycle
+const getBreakPhase = (currentSession: number, totalSessions: number): BreakPhase =>
+    currentSession >= totalSessions ? 'longBreak' : 'shortBreak';
+
+const isAutoStarted = (autoStart: AutoStartSettings, phase: TimerPhase): boolean =>
+    phase === 'focus' ? autoStart.focus : autoStart.breaks;
+
+/**
+ * Schedule the completion notification of the running phase and, when the phase after
+ * it auto-starts, of that one too so it is announced even if the app stays suspended
+ */
+const scheduleTimerNotifications = async (
+    state: PomodoroState,
+    timeLeft: number,
+    focusDuration: number,
+    breakDuration: number,
+) => {
+    const { timerPhase, currentSession, totalSessions, currentTodoTitle, autoStart, clock } = state;
+    const nextPhase =
+        timerPhase === 'focus' ? getBreakPhase(currentSession, totalSessions) : 'focus';
+    // After a flow session the break only starts once the user finishes it
+    const nextAutoStarts = !clock.allowOvertime && isAutoStarted(autoStart, nextPhase);
+    const nextSession = currentSession < totalSessions ? currentSession + 1 : 1;
+
+    try {
+        await notificationService.scheduleTimerNotification({
+            timerPhase,
+            timeLeft,
+            sessionNumber: currentSession,
+            todoTitle: currentTodoTitle || undefined,
+            nextPhaseStartsIn: nextAutoStarts ? autoStart.delay : undefined,
+        });
+
+        if (nextAutoStarts) {
+            const followingPhase = nextPhase === 'focus' ? 'shortBreak' : 'focus';
+            await notificationService.scheduleAutoStartedPhaseNotification(
+                {
+                    timerPhase: nextPhase,
+                    timeLeft: getTimerDuration(
+                        nextPhase,
+                        focusDuration,
+                        breakDuration,
+                        state.longBreakDuration,
+                    ),
+                    sessionNumber: nextPhase === 'focus' ? nextSession : currentSession,
+                    todoTitle: currentTodoTitle || undefined,
+                    nextPhaseStartsIn: isAutoStarted(autoStart, followingPhase)
+                        ? autoStart.delay
+                        : undefined,
+                },
+                timeLeft + autoStart.delay,
+            );
+        }
+    } catch (error) {
+        // Silently handle notification errors - they're not critical for timer functionality
+        errorHandlingService.processError(error, { action: 'scheduleTimerNotification' });
     }
 };
 
@@ -124,29 +323,114 @@ const playCompletionSound = async (soundEnabled: boolean) => {
     }
 };
 
-export const usePomodoroStore = create<PomodoroState>((set, get) => ({
+// How long a completed focus session is shown before its break takes over
+const BREAK_HAND_OFF_DELAY_MS = 2000;
+
+const createPomodoroState: StateCreator<PomodoroState, [['zustand/persist', unknown]]> = (
+    set,
+    get,
+) => ({
     // Initial state - Todo
     currentTodoId: null,
     currentTodoTitle: null,
+    queue: [],
 
     // Initial state - Timer (using default 25 min for focus)
     timerStatus: 'idle',
     timerPhase: 'focus',
     timeLeft: 25 * 60,
     initialTime: 25 * 60,
+    clock: createClock(25 * 60 * 1000),
+    overtime: 0,
     sessionStartTime: null,
+    interruptions: [],
+    pauses: [],
     sessions: [],
     sessionsLoaded: false,
+    reviewSessionId: null,
 
     // Initial state - Session tracking
     currentSession: 1,
     totalSessions: 4,
+    longBreakDuration: 10,
 
-    // Initial state - Edge case handling
-    isProcessing: false,
+    // Initial state - Flow mode
+    flowMode: false,
+    flowBreakRatio: 5,
+
+    // Initial state - Auto-start
+    autoStart: { breaks: false, focus: false, delay: 5 },
+    autoStartAt: null,
+    autoStartIn: 0,
+    breakHandOff: null,
 
     // ===== Todo Actions =====
     selectTodo: (todoId, todoTitle) => {
+        const {
+            currentTodoId,
+            currentTodoTitle,
+            timerPhase,
+            timerStatus,
+            clock,
+            sessionStartTime,
+            currentSession,
+            interruptions,
+            pauses,
+        } = get();
+        if (todoId === currentTodoId) return;
+
+        // Switching todos mid-focus closes the part spent on the previous todo as its own
+        // session; the rest of the phase counts for the new one
+        const now = Date.now();
+        const elapsedMs = getElapsedMs(clock, now);
+        const isCounting = timerStatus === 'running' || timerStatus === 'paused';
+        if (timerPhase === 'focus' && isCounting && sessionStartTime && elapsedMs >= 1000) {
+            const endTime = new Date(now).toISOString();
+            const partialSession: Omit<PomodoroSession, 'id'> = {
+                todoId: currentTodoId,
+                todoTitle: currentTodoTitle,
+                startTime: sessionStartTime.toISOString(),
+                endTime,
+                duration: Math.floor(elapsedMs / 1000),
+                type: 'focus',
+                sessionNumber: currentSession,
+                isCompleted: false,
+                notes: null,
+                interruptions,
+                pauses: closePauses(pauses, endTime),
+            };
+            localDatabaseService
+                .createSession(partialSession)
+                .then((id) => {
+                    refreshTodoTime(partialSession.todoId);
+                    return id;
+                })
+                .catch((error) => {
+                    errorHandlingService.processError(error, {
+                        action: 'saveSession',
+                        sessionType: 'switchTodo',
+                    });
+                    return Date.now().toString();
+                })
+                .then((id) => set({ sessions: [...get().sessions, { ...partialSession, id }] }));
+
+            const isPaused = clock.pausedAt !== null;
+            const durationMs = Math.max(0, clock.durationMs - elapsedMs);
+            set({
+                sessionStartTime: new Date(now),
+                clock: {
+                    ...clock,
+                    durationMs,
+                    startedAt: now,
+                    pausedAt: isPaused ? now : null,
+                    pausedAccumulated: 0,
+                    targetEndAt: isPaused ? null : now + durationMs,
+                },
+                interruptions: [],
+                pauses: isPaused ? [{ startedAt: endTime, endedAt: null }] : [],
+            });
+        }
+
         set({
             currentTodoId: todoId,
             currentTodoTitle: todoTitle,
@@ -154,10 +438,36 @@ export const usePomodoroStore = create<PomodoroState>((set, get) => ({
     },
 
     clearSelection: () => {
-        set({
-            currentTodoId: null,
-            currentTodoTitle: null,
-        });
+        get().selectTodo(null, null);
+    },
+
+    setQueue: (todos, focusDuration) => {
+        const queue = todos.map((todo) => ({
+            todoId: todo.id,
+            title: todo.title,
+            estimatedPomodoros: getEstimatedPomodoros(todo, focusDuration),
+            completedPomodoros: 0,
+        }));
+        set({ queue });
+        get().selectTodo(queue[0]?.todoId ?? null, queue[0]?.title ?? null);
+    },
+
+    advanceQueue: () => {
+        const queue = get().queue.slice(1);
+        set({ queue });
+        get().selectTodo(queue[0]?.todoId ?? null, queue[0]?.title ?? null);
+    },
+
+    removeFromQueue: (todoId) => {
+        if (get().queue[0]?.todoId === todoId) {
+            get().advanceQueue();
+            return;
+        }
+        set({ queue: get().queue.filter((item) => item.todoId !== todoId) });
+    },
+
+    clearQueue: () => {
+        set({ queue: [] });
     },
 
     // ===== Timer Actions =====
@@ -168,112 +478,116 @@ export const usePomodoroStore = create<PomodoroState>((set, get) => ({
     ) => {
         const state = get();
 
-        // Prevent race conditions
-        if (state.isProcessing) {
-            console.warn('Timer is already processing, ignoring start request');
-            return;
-        }
-
-        set({ isProcessing: true });
+        // Starting twice, e.g. from a double tap, is rejected here
+        const next = nextTimerState(state, { type: 'start' });
+        if (!next) return;
 
         try {
-            const { timerPhase, currentSession, currentTodoTitle } = state;
-            const duration = getTimerDuration(timerPhase, focusDuration, breakDuration);
+            const { timerPhase, longBreakDuration, flowMode } = state;
+            const duration = getTimerDuration(
+                timerPhase,
+                focusDuration,
+                breakDuration,
+                longBreakDuration,
+            );
+            const now = Date.now();
 
             set({
-                timerStatus: 'running',
-                sessionStartTime: new Date(),
+                timerStatus: next.status,
+                sessionStartTime: new Date(now),
                 timeLeft: duration,
                 initialTime: duration,
+                clock: startClock(duration * 1000, now, timerPhase === 'focus' && flowMode),
+                overtime: 0,
+                interruptions: [],
+                pauses: [],
+                autoStartAt: null,
+                autoStartIn: 0,
+                breakHandOff: null,
             });
 
             // Schedule background notification if notifications are enabled
             if (notificationsEnabled) {
-                try {
-                    await notificationService.scheduleTimerNotification({
-                        timerPhase,
-                        timeLeft: duration,
-                        sessionNumber: currentSession,
-                        todoTitle: currentTodoTitle || undefined,
-                    });
-                } catch (error) {
-                    // Silently handle notification errors - they're not critical for timer functionality
-                    errorHandlingService.processError(error, { action: 'scheduleTimerNotification' });
-                }
+                await scheduleTimerNotifications(get(), duration, focusDuration, breakDuration);
             }
         } catch (error) {
             errorHandlingService.processError(error, { action: 'startTimer' });
             showError(error, { action: 'startTimer' });
-        } finally {
-            set({ isProcessing: false });
         }
     },
 
     pauseTimer: async () => {
-        const state = get();
-
-        if (state.isProcessing) {
-            console.warn('Timer is already processing, ignoring pause request');
-            return;
-        }
-
-        set({ isProcessing: true });
+        const next = nextTimerState(get(), { type: 'pause' });
+        if (!next) return;
 
         try {
-            set({ timerStatus: 'paused' });
+            const now = Date.now();
+            const clock = pauseClock(get().clock, now);
+            set({
+                timerStatus: next.status,
+                clock,
+                timeLeft: getRemainingSeconds(clock, now),
+                pauses: [
+                    ...get().pauses,
+                    { startedAt: new Date(now).toISOString(), endedAt: null },
+                ],
+            });
 
             // Cancel scheduled notifications when paused
             await notificationService.cancelTimerNotifications();
         } catch (error) {
             // Silently handle notification cancellation errors - they're not critical
             errorHandlingService.processError(error, { action: 'pauseTimer' });
-        } finally {
-            set({ isProcessing: false });
         }
     },
 
     resumeTimer: async () => {
-        set({ timerStatus: 'running' });
+        const next = nextTimerState(get(), { type: 'resume' });
+        if (!next) return;
+
+        const now = Date.now();
+        set({
+            timerStatus: next.status,
+            clock: resumeClock(get().clock, now),
+            pauses: closePauses(get().pauses, new Date(now).toISOString()),
+        });
     },
 
     resetTimer: async () => {
-        const {
-            timerStatus,
-            sessionStartTime,
-            currentTodoId,
-            currentTodoTitle,
-            timeLeft,
-            initialTime,
-        } = get();
+        const { timerStatus, sessionStartTime, currentTodoId, currentTodoTitle, clock } = get();
 
-        // Log session if timer was running
-        if (timerStatus === 'running' || timerStatus === 'paused' || timerStatus === 'completed') {
-            const timeSpent = initialTime - timeLeft;
+        // Log the session if it was cut short; completeTimer already logged a completed one
+        if (timerStatus === 'running' || timerStatus === 'paused') {
+            const timeSpent = Math.floor(getElapsedMs(clock, Date.now()) / 1000);
             if (timeSpent > 0 && sessionStartTime) {
-                const { timerPhase, currentSession } = get();
-                const newSession: PomodoroSession = {
-                    id: Date.now().toString(),
+                const { timerPhase, currentSession, interruptions, pauses } = get();
+                const endTime = new Date().toISOString();
+                const newSession: Omit<PomodoroSession, 'id'> = {
                     todoId: currentTodoId || null,
                     todoTitle: currentTodoTitle || null,
                     startTime: sessionStartTime.toISOString(),
-                    endTime: new Date().toISOString(),
+                    endTime,
                     duration: timeSpent,
                     type: timerPhase === 'focus' ? 'focus' : 'break',
                     sessionNumber: currentSession,
-                    isCompleted: timerStatus === 'completed',
+                    isCompleted: false,
                     notes: null,
+                    interruptions,
+                    pauses: closePauses(pauses, endTime),
                 };
 
-                // Save to local database
+                // Save to local database, keeping the generated ID so sync stays keyed by it
+                let id = Date.now().toString();
                 try {
-                    await localDatabaseService.createSession(newSession);
+                    id = await localDatabaseService.createSession(newSession);
+                    refreshTodoTime(newSession.todoId);
                 } catch (error) {
                     // Silently handle session save errors - we still update local state
                     errorHandlingService.processError(error, { action: 'saveSession', sessionType: 'reset' });
                 }
 
                 set({
-                    sessions: [...get().sessions, newSession],
+                    sessions: [...get().sessions, { ...newSession, id }],
                 });
             }
         }
@@ -287,23 +601,64 @@ export const usePomodoroStore = create<PomodoroState>((set, get) => ({
         }
 
         // Reset timer and session - keep current initialTime
+        const next = nextTimerState(get(), { type: 'reset' });
+        if (!next) return;
+
         set({
-            timerStatus: 'idle',
+            timerStatus: next.status,
             timeLeft: get().initialTime,
+            clock: createClock(get().initialTime * 1000),
+            overtime: 0,
             sessionStartTime: null,
+            interruptions: [],
+            pauses: [],
             currentSession: 1,
+            autoStartAt: null,
+            autoStartIn: 0,
+            breakHandOff: null,
         });
     },
 
-    updateTimerDuration: (focusDuration: number, breakDuration: number) => {
-        const { timerPhase, timerStatus } = get();
+    logInterruption: (kind: InterruptionKind, note?: string) => {
+        const { timerStatus } = get();
+        if (timerStatus !== 'running' && timerStatus !== 'paused') return;
+
+        const interruption: SessionInterruption = {
+            id: generateUUID(),
+            kind,
+            at: new Date().toISOString(),
+            note: note?.trim() || null,
+        };
+        set({ interruptions: [...get().interruptions, interruption] });
+    },
+
+    updateTimerDuration: (
+        focusDuration: number,
+        breakDuration: number,
+        longBreakDuration: number,
+        sessionsBeforeLongBreak: number,
+    ) => {
+        const { timerPhase, timerStatus, currentSession } = get();
+
+        // The cycle applies from the next phase change, so a running phase keeps its length
+        set({
+            longBreakDuration,
+            totalSessions: sessionsBeforeLongBreak,
+            currentSession: Math.min(currentSession, sessionsBeforeLongBreak),
+        });
 
         // Only update if timer is idle (not running or paused)
         if (timerStatus === 'idle') {
-            const duration = getTimerDuration(timerPhase, focusDuration, breakDuration);
+            const duration = getTimerDuration(
+                timerPhase,
+                focusDuration,
+                breakDuration,
+                longBreakDuration,
+            );
             set({
                 timeLeft: duration,
                 initialTime: duration,
+                clock: createClock(duration * 1000),
             });
         }
     },
@@ -314,24 +669,79 @@ export const usePomodoroStore = create<PomodoroState>((set, get) => ({
         breakDuration?: number,
         notificationsEnabled?: boolean,
     ) => {
-        const { timeLeft, timerStatus, timerPhase } = get();
+        const { clock, timerStatus, timerPhase, autoStartAt, breakHandOff } = get();
+        const now = Date.now();
+
+        if (timerStatus === 'completed' && breakHandOff !== null) {
+            if (now < breakHandOff.at) return;
+            get().switchToBreakPhase(
+                focusDuration || 25,
+                breakDuration || 5,
+                breakHandOff.focusedSeconds,
+            );
+            return;
+        }
 
-        if (timerStatus !== 'running') return;
+        if (timerStatus === 'idle' && autoStartAt !== null) {
+            if (now < autoStartAt) {
+                set({ autoStartIn: Math.ceil((autoStartAt - now) / 1000) });
+                return;
+            }
+
+            const next = nextTimerState(get(), { type: 'start' });
+            if (!next) return;
 
-        if (timeLeft <= 1) {
-            // Handle completion based on current phase
-            if (timerPhase === 'focus') {
-                get().completeTimer(
-                    soundEnabled,
-                    focusDuration,
-                    breakDuration,
-                    notificationsEnabled,
+            // Start from the end of the countdown, which may have passed in the background
+            const allowOvertime = timerPhase === 'focus' && get().flowMode;
+            const started = startClock(get().initialTime * 1000, autoStartAt, allowOvertime);
+            const timeLeft = getRemainingSeconds(started, now);
+            set({
+                timerStatus: next.status,
+                sessionStartTime: new Date(autoStartAt),
+                timeLeft,
+                clock: started,
+                overtime: 0,
+                interruptions: [],
+                pauses: [],
+                autoStartAt: null,
+                autoStartIn: 0,
+            });
+
+            if (notificationsEnabled && timeLeft > 0) {
+                scheduleTimerNotifications(
+                    get(),
+                    timeLeft,
+                    focusDuration || 25,
+                    breakDuration || 5,
                 );
-            } else if (timerPhase === 'shortBreak' || timerPhase === 'longBreak') {
-                get().completeBreak(focusDuration || 25, breakDuration || 5);
             }
-        } else {
-            set({ timeLeft: timeLeft - 1 });
+            return;
+        }
+
+        if (timerStatus !== 'running') return;
+
+        // A flow session keeps going; the sound marks reaching the target once
+        if (isClockInOvertime(clock, now)) {
+            if (get().timeLeft > 0) playCompletionSound(soundEnabled);
+            set({ timeLeft: 0, overtime: Math.floor(getOvertimeMs(clock, now) / 1000) });
+            return;
+        }
+
+        if (!isClockFinished(clock, now)) {
+            set({ timeLeft: getRemainingSeconds(clock, now) });
+            return;
+        }
+
+        // Mark completion first so later ticks don't complete the phase twice
+        const next = nextTimerState(get(), { type: 'complete' });
+        if (!next) return;
+        set({ timerStatus: next.status, timeLeft: 0 });
+
+        // Handle completion based on current phase
+        if (timerPhase === 'focus') {
+            get().completeTimer(soundEnabled, focusDuration, breakDuration, notificationsEnabled);
+        } else if (timerPhase === 'shortBreak' || timerPhase === 'longBreak') {
+            get().completeBreak(focusDuration || 25, breakDuration || 5);
         }
     },
 
@@ -341,17 +751,25 @@ export const usePomodoroStore = create<PomodoroState>((set, get) => ({
         breakDuration?: number,
         notificationsEnabled?: boolean,
     ) => {
-        const {
-            sessionStartTime,
-            currentTodoId,
-            currentTodoTitle,
-            initialTime,
-            timerPhase,
-            currentSession,
-        } = get();
+        // tick and finishFocus complete the phase first; a direct call completes it here
+        if (get().timerStatus !== 'completed') {
+            const next = nextTimerState(get(), { type: 'complete' });
+            if (!next) return;
+            set({ timerStatus: next.status, timeLeft: 0 });
+        }
 
-        // Play completion sound
-        await playCompletionSound(soundEnabled);
+        const { sessionStartTime, currentTodoId, currentTodoTitle, clock } = get();
+        // A flow session ends when the user finishes it; otherwise the phase may have
+        // ended while the app was suspended or closed
+        const phaseEndedAt = clock.allowOvertime
+            ? (clock.pausedAt ?? Date.now())
+            : (clock.targetEndAt ?? Date.now());
+        const focusedSeconds = Math.round(getElapsedMs(clock, phaseEndedAt) / 1000);
+
+        // Play completion sound; a flow session already played it at its target
+        if (!clock.allowOvertime) {
+            await playCompletionSound(soundEnabled);
+        }
 
         // Check if app is in background
         const isBackground = notificationService.isAppInBackground();
@@ -389,130 +807,241 @@ export const usePomodoroStore = create<PomodoroState>((set, get) => ({
         }
 
         if (sessionStartTime) {
-            const { timerPhase, currentSession } = get();
-            const newSession: PomodoroSession = {
-                id: Date.now().toString(),
+            const { timerPhase, currentSession, interruptions, pauses } = get();
+            const newSession: Omit<PomodoroSession, 'id'> = {
                 todoId: currentTodoId || null,
                 todoTitle: currentTodoTitle || null,
                 startTime: sessionStartTime.toISOString(),
-                endTime: new Date().toISOString(),
-                duration: initialTime,
+                endTime: new Date(phaseEndedAt).toISOString(),
+                duration: focusedSeconds,
                 type: timerPhase === 'focus' ? 'focus' : 'break',
                 sessionNumber: currentSession,
                 isCompleted: true,
                 notes: null,
+                interruptions,
+                pauses: closePauses(pauses, new Date(phaseEndedAt).toISOString()),
             };
 
-            // Save to local database
+            // Save to local database, keeping the generated ID so sync stays keyed by it
+            let id = Date.now().toString();
             try {
-                await localDatabaseService.createSession(newSession);
+                id = await localDatabaseService.createSession(newSession);
+                refreshTodoTime(newSession.todoId);
+                // Only a saved session can take a review
+                set({ reviewSessionId: id });
             } catch (error) {
                 // Silently handle session save errors - we still update local state
                 errorHandlingService.processError(error, { action: 'saveSession', sessionType: 'complete' });
             }
 
             set({
-                sessions: [...get().sessions, newSession],
+                sessions: [...get().sessions, { ...newSession, id }],
+                // The planned todo the session was spent on gets it counted
+                queue: get().queue.map((item) =>
+                    item.todoId === newSession.todoId
+                        ? { ...item, completedPomodoros: item.completedPomodoros + 1 }
+                        : item,
+                ),
             });
         }
 
         set({
-            timerStatus: 'completed',
             timeLeft: 0,
+            overtime: 0,
+            interruptions: [],
+            pauses: [],
         });
 
         // Auto-switch to break phase after a short delay if durations are provided
         if (focusDuration && breakDuration) {
-            setTimeout(() => {
-                get().switchToBreakPhase(focusDuration, breakDuration);
-            }, 2000); // 2 second delay to show completion
+            const { autoStart } = get();
+            // Only a flow session scales its break to the time actually focused
+            const scaleBreakTo = clock.allowOvertime ? focusedSeconds : undefined;
+            if (autoStart.breaks) {
+                // The countdown runs from the end of the session, not from when we noticed it
+                get().switchToBreakPhase(focusDuration, breakDuration, scaleBreakTo);
+                set({
+                    autoStartAt: phaseEndedAt + autoStart.delay * 1000,
+                    autoStartIn: autoStart.delay,
+                });
+            } else {
+                // tick takes the break once the completion has been shown
+                set({
+                    breakHandOff: {
+                        at: Date.now() + BREAK_HAND_OFF_DELAY_MS,
+                        focusedSeconds: scaleBreakTo,
+                    },
+                });
+            }
         }
     },
 
     switchPhase: (phase: TimerPhase, focusDuration: number, breakDuration: number) => {
-        const duration = getTimerDuration(phase, focusDuration, breakDuration);
+        const next = nextTimerState(get(), { type: 'switchPhase', phase });
+        if (!next) return;
+
+        const duration = getTimerDuration(
+            phase,
+            focusDuration,
+            breakDuration,
+            get().longBreakDuration,
+        );
         set({
-            timerPhase: phase,
+            timerPhase: next.phase,
             timeLeft: duration,
             initialTime: duration,
-            timerStatus: 'idle',
+            clock: createClock(duration * 1000),
+            overtime: 0,
+            timerStatus: next.status,
             sessionStartTime: null,
+            autoStartAt: null,
+            autoStartIn: 0,
+            breakHandOff: null,
         });
     },
 
-    // ===== Session Actions =====
-    skipSession: (focusDuration: number, breakDuration: number) => {
-        const { currentSession, totalSessions } = get();
+    updateFlowMode: (flowMode: boolean, flowBreakRatio: number) => {
+        // A running session keeps the mode it started with
+        set({ flowMode, flowBreakRatio });
+    },
 
-        // Move to next session
-        const nextSession = currentSession < totalSessions ? currentSession + 1 : 1;
+    finishFocus: (
+        soundEnabled: boolean,
+        focusDuration: number,
+        breakDuration: number,
+        notificationsEnabled?: boolean,
+    ) => {
+        const { timerPhase, clock } = get();
+        if (timerPhase !== 'focus' || !clock.allowOvertime) return;
+
+        // Mark completion first so a tick in between doesn't act on the phase
+        const next = nextTimerState(get(), { type: 'complete' });
+        if (!next) return;
+        set({ timerStatus: next.status, timeLeft: 0 });
+        get().completeTimer(soundEnabled, focusDuration, breakDuration, notificationsEnabled);
+    },
 
-        set({
-            currentSession: nextSession,
-            timerStatus: 'idle',
-            timerPhase: 'focus',
-            timeLeft: focusDuration * 60,
-            initialTime: focusDuration * 60,
-            sessionStartTime: null,
-        });
+    updateAutoStart: (autoStart: AutoStartSettings) => {
+        const { autoStartAt, timerPhase } = get();
+
+        set({ autoStart });
+
+        // Turning auto-start off also drops a countdown that is already running
+        if (autoStartAt !== null && !isAutoStarted(autoStart, timerPhase)) {
+            get().cancelAutoStart();
+        }
     },
 
-    nextSession: (focusDuration: number, breakDuration: number) => {
+    cancelAutoStart: async () => {
+        set({ autoStartAt: null, autoStartIn: 0 });
+
+        // Drop the notification scheduled for the phase that would have started
+        try {
+            await notificationService.cancelTimerNotifications();
+        } catch (error) {
+            // Silently handle notification cancellation errors - they're not critical
+            errorHandlingService.processError(error, { action: 'cancelAutoStart' });
+        }
+    },
+
+    // ===== Session Actions =====
+    skipSession: (focusDuration: number) => {
         const { currentSession, totalSessions } = get();
+        const next = nextTimerState(get(), { type: 'skip' });
+        if (!next) return;
 
         // Move to next session
         const nextSession = currentSession < totalSessions ? currentSession + 1 : 1;
 
         set({
             currentSession: nextSession,
-            timerStatus: 'idle',
-            timerPhase: 'focus',
+            timerStatus: next.status,
+            timerPhase: next.phase,
             timeLeft: focusDuration * 60,
             initialTime: focusDuration * 60,
+            clock: createClock(focusDuration * 60 * 1000),
+            overtime: 0,
             sessionStartTime: null,
+            autoStartAt: null,
+            autoStartIn: 0,
+            breakHandOff: null,
         });
     },
 
     resetSession: () => {
+        // Back to the first focus session of the cycle
+        const next = nextTimerState(get(), { type: 'skip' });
+        if (!next) return;
+
         set({
             currentSession: 1,
-            timerStatus: 'idle',
-            timerPhase: 'focus',
+            timerStatus: next.status,
+            timerPhase: next.phase,
             sessionStartTime: null,
+            autoStartAt: null,
+            autoStartIn: 0,
+            breakHandOff: null,
         });
     },
 
-    switchToBreakPhase: (focusDuration: number, breakDuration: number) => {
-        const { currentSession, totalSessions } = get();
-
-        // Determine break type: long break after session 4, short break otherwise
-        const breakType = currentSession === totalSessions ? 'longBreak' : 'shortBreak';
-        const breakTime =
-            currentSession === totalSessions ? breakDuration * 2 * 60 : breakDuration * 60;
+    switchToBreakPhase: (focusDuration: number, breakDuration: number, focusedSeconds?: number) => {
+        const { currentSession, totalSessions, longBreakDuration, flowBreakRatio } = get();
+        set({ breakHandOff: null });
+
+        // Determine break type: long break after the last session of the cycle
+        const breakType = getBreakPhase(currentSession, totalSessions);
+        const next = nextTimerState(get(), { type: 'takeBreak', phase: breakType });
+        if (!next) return;
+
+        let breakTime = getTimerDuration(
+            breakType,
+            focusDuration,
+            breakDuration,
+            longBreakDuration,
+        );
+
+        // Flowtime-style: the break is a share of the focused time, at least a minute;
+        // a long break never gets shorter than configured
+        if (focusedSeconds !== undefined && flowBreakRatio > 0) {
+            const scaled = Math.max(60, Math.round(focusedSeconds / flowBreakRatio));
+            breakTime = breakType === 'longBreak' ? Math.max(breakTime, scaled) : scaled;
+        }
 
         set({
-            timerPhase: breakType,
-            timerStatus: 'idle',
+            timerPhase: next.phase,
+            timerStatus: next.status,
             timeLeft: breakTime,
             initialTime: breakTime,
+            clock: createClock(breakTime * 1000),
             sessionStartTime: null,
         });
     },
 
     completeBreak: (focusDuration: number, breakDuration: number) => {
-        const { currentSession, totalSessions } = get();
+        const { currentSession, totalSessions, clock, autoStart } = get();
+        const next = nextTimerState(get(), { type: 'endBreak' });
+        if (!next) return;
 
         // Move to next session after break completion
         const nextSession = currentSession < totalSessions ? currentSession + 1 : 1;
 
         set({
             currentSession: nextSession,
-            timerPhase: 'focus',
-            timerStatus: 'idle',
+            timerPhase: next.phase,
+            timerStatus: next.status,
             timeLeft: focusDuration * 60,
             initialTime: focusDuration * 60,
+            clock: createClock(focusDuration * 60 * 1000),
             sessionStartTime: null,
         });
+
+        if (autoStart.focus) {
+            const breakEndedAt = clock.targetEndAt ?? Date.now();
+            set({
+                autoStartAt: breakEndedAt + autoStart.delay * 1000,
+                autoStartIn: autoStart.delay,
+            });
+        }
     },
 
     // ===== Session Management =====
@@ -529,6 +1058,45 @@ export const usePomodoroStore = create<PomodoroState>((set, get) => ({
         }
     },
 
+    deleteSession: async (id) => {
+        const session = get().sessions.find((item) => item.id === id);
+        try {
+            await localDatabaseService.waitForInitialization();
+            await localDatabaseService.deleteSession(id);
+            set({ sessions: get().sessions.filter((item) => item.id !== id) });
+            refreshTodoTime(session?.todoId);
+        } catch (error) {
+            errorHandlingService.processError(error, { action: 'deleteSession', sessionId: id });
+            showError(error, { action: 'deleteSession', sessionId: id });
+        }
+    },
+
+    saveSessionReview: async (review) => {
+        const { reviewSessionId } = get();
+        if (!reviewSessionId) return;
+
+        set({ reviewSessionId: null });
+        try {
+            await localDatabaseService.waitForInitialization();
+            await localDatabaseService.updateSession(reviewSessionId, review);
+            set({
+                sessions: get().sessions.map((session) =>
+                    session.id === reviewSessionId ? { ...session, ...review } : session,
+                ),
+            });
+        } catch (error) {
+            errorHandlingService.processError(error, {
+                action: 'saveSessionReview',
+                sessionId: reviewSessionId,
+            });
+            showError(error, { action: 'saveSessionReview', sessionId: reviewSessionId });
+        }
+    },
+
+    dismissSessionReview: () => {
+        set({ reviewSessionId: null });
+    },
+
     // Getters
     getTotalTimeForTodo: async (todoId) => {
         try {
@@ -547,4 +1115,39 @@ export const usePomodoroStore = create<PomodoroState>((set, get) => ({
     getSessions: () => {
         return get().sessions;
     },
-}));
+});
+
+export const usePomodoroStore = create<PomodoroState>()(
+    persist(createPomodoroState, {
+        name: 'pomodoro-timer-storage',
+        storage: createJSONStorage(() => AsyncStorage),
+        partialize: (state) => ({
+            // Persist the running phase so it survives an app kill; history lives in SQLite
+            currentTodoId: state.currentTodoId,
+            currentTodoTitle: state.currentTodoTitle,
+            queue: state.queue,
+            timerStatus: state.timerStatus,
+            timerPhase: state.timerPhase,
+            timeLeft: state.timeLeft,
+            initialTime: state.initialTime,
+            clock: state.clock,
+            interruptions: state.interruptions,
+            pauses: state.pauses,
+            currentSession: state.currentSession,
+            totalSessions: state.totalSessions,
+            longBreakDuration: state.longBreakDuration,
+            flowMode: state.flowMode,
+            flowBreakRatio: state.flowBreakRatio,
+            autoStart: state.autoStart,
+            autoStartAt: state.autoStartAt,
+            breakHandOff: state.breakHandOff,
+            reviewSessionId: state.reviewSessionId,
+        }),
+        merge: (persisted, current) => {
+            const state = { ...current, ...(persisted as Partial<PomodoroState>) };
+            // Dates don't survive JSON; the clock knows when the phase started
+            const startedAt = state.clock.startedAt;
+            return { ...state, sessionStartTime: startedAt !== null ? new Date(startedAt) : null };
+        },
+    }),
+);
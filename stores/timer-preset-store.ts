@@ -0,0 +1,202 @@
+import { errorHandlingService } from '@/services/error-handling-service';
+import { localDatabaseService, TimerPreset } from '@/services/local-database-service';
+import { optionalSyncService } from '@/services/optional-sync-service';
+import { TimerSettings, useSettingsStore } from '@/stores/local-settings-store';
+import { showError, showSuccess } from '@/utils/error-toast';
+import { create } from 'zustand';
+
+export interface TimerPresetOption extends TimerSettings {
+    id: string;
+    name: string;
+    /** Built-in presets ship with the app and cannot be edited or deleted */
+    isBuiltIn: boolean;
+}
+
+export const BUILT_IN_TIMER_PRESETS: TimerPresetOption[] = [
+    {
+        id: 'builtin-pomodoro',
+        name: 'Pomodoro',
+        focusDuration: 25,
+        breakDuration: 5,
+        longBreakDuration: 15,
+        sessionsBeforeLongBreak: 4,
+        flowMode: false,
+        flowBreakRatio: 5,
+        isBuiltIn: true,
+    },
+    {
+        id: 'builtin-52-17',
+        name: '52/17',
+        focusDuration: 52,
+        breakDuration: 17,
+        longBreakDuration: 17,
+        sessionsBeforeLongBreak: 4,
+        flowMode: false,
+        flowBreakRatio: 5,
+        isBuiltIn: true,
+    },
+    {
+        id: 'builtin-ultradian',
+        name: 'Ultradian',
+        focusDuration: 90,
+        breakDuration: 20,
+        longBreakDuration: 30,
+        sessionsBeforeLongBreak: 2,
+        flowMode: false,
+        flowBreakRatio: 5,
+        isBuiltIn: true,
+    },
+    {
+        // Focus as long as it flows; the break is a fifth of the focused time
+        id: 'builtin-flowtime',
+        name: 'Flowtime',
+        focusDuration: 25,
+        breakDuration: 5,
+        longBreakDuration: 15,
+        sessionsBeforeLongBreak: 4,
+        flowMode: true,
+        flowBreakRatio: 5,
+        isBuiltIn: true,
+    },
+];
+
+const toOption = (preset: TimerPreset): TimerPresetOption => ({
+    id: preset.id,
+    name: preset.name,
+    focusDuration: preset.focusDuration,
+    breakDuration: preset.breakDuration,
+    longBreakDuration: preset.longBreakDuration,
+    sessionsBeforeLongBreak: preset.sessionsBeforeLongBreak,
+    flowMode: preset.flowMode,
+    flowBreakRatio: preset.flowBreakRatio,
+    isBuiltIn: false,
+});
+
+/**
+ * True when `preset` has exactly the given timer durations
+ */
+export const presetMatches = (preset: TimerSettings, settings: TimerSettings): boolean =>
+    preset.focusDuration === settings.focusDuration &&
+    preset.breakDuration === settings.breakDuration &&
+    preset.longBreakDuration === settings.longBreakDuration &&
+    preset.sessionsBeforeLongBreak === settings.sessionsBeforeLongBreak &&
+    preset.flowMode === settings.flowMode &&
+    // The ratio only matters in flow mode
+    (!preset.flowMode || preset.flowBreakRatio === settings.flowBreakRatio);
+
+interface TimerPresetState {
+    /** Presets created by the user; built-ins are not stored */
+    presets: TimerPreset[];
+    isLoaded: boolean;
+
+    // Actions
+    loadPresets: () => Promise<void>;
+    createPreset: (name: string, settings: TimerSettings) => Promise<void>;
+    updatePreset: (id: string, updates: Partial<TimerSettings & { name: string }>) => Promise<void>;
+    deletePreset: (id: string) => Promise<void>;
+    /** Switch the timer settings to a preset */
+    applyPreset: (id: string) => void;
+
+    // Getters
+    getAllPresets: () => TimerPresetOption[];
+    getPreset: (id: string) => TimerPresetOption | null;
+    getPresetForCategory: (category?: string | null) => TimerPresetOption | null;
+}
+
+let stopWatchingSync: (() => void) | null = null;
+
+export const useTimerPresetStore = create<TimerPresetState>((set, get) => ({
+    presets: [],
+    isLoaded: false,
+
+    loadPresets: async () => {
+        // Presets edited on another device arrive with a sync
+        if (!stopWatchingSync) {
+            stopWatchingSync = optionalSyncService.onSyncComplete((success) => {
+                if (success) get().loadPresets();
+            });
+        }
+
+        try {
+            await localDatabaseService.waitForInitialization();
+            const presets = await localDatabaseService.getTimerPresets();
+            set({ presets, isLoaded: true });
+        } catch (error) {
+            errorHandlingService.processError(error, { action: 'loadPresets' });
+            showError(error, { action: 'loadPresets' });
+        }
+    },
+
+    createPreset: async (name, settings) => {
+        try {
+            await localDatabaseService.waitForInitialization();
+            const id = await localDatabaseService.createTimerPreset({
+                name: name.trim(),
+                ...settings,
+            });
+            const preset = await localDatabaseService.getTimerPreset(id);
+            if (preset) {
+                set((state) => ({ presets: [...state.presets, preset] }));
+            }
+            showSuccess(`Preset "${name.trim()}" saved`);
+        } catch (error) {
+            errorHandlingService.processError(error, { action: 'createPreset' });
+            showError(error, { action: 'createPreset' });
+        }
+    },
+
+    updatePreset: async (id, updates) => {
+        try {
+            await localDatabaseService.waitForInitialization();
+            await localDatabaseService.updateTimerPreset(id, updates);
+            set((state) => ({
+                presets: state.presets.map((preset) =>
+                    preset.id === id ? { ...preset, ...updates } : preset,
+                ),
+            }));
+        } catch (error) {
+            errorHandlingService.processError(error, { action: 'updatePreset', presetId: id });
+            showError(error, { action: 'updatePreset', presetId: id });
+        }
+    },
+
+    deletePreset: async (id) => {
+        try {
+            await localDatabaseService.waitForInitialization();
+            await localDatabaseService.deleteTimerPreset(id);
+            set((state) => ({ presets: state.presets.filter((preset) => preset.id !== id) }));
+
+            // Categories that used the preset fall back to the current settings
+            const settings = useSettingsStore.getState();
+            Object.entries(settings.categoryPresets)
+                .filter(([, presetId]) => presetId === id)
+                .forEach(([category]) => settings.setCategoryPreset(category, null));
+
+            showSuccess('Preset deleted');
+        } catch (error) {
+            errorHandlingService.processError(error, { action: 'deletePreset', presetId: id });
+            showError(error, { action: 'deletePreset', presetId: id });
+        }
+    },
+
+    applyPreset: (id) => {
+        const preset = get().getPreset(id);
+        if (!preset) return;
+
+        useSettingsStore.getState().applyTimerSettings(preset);
+    },
+
+    getAllPresets: () => [...BUILT_IN_TIMER_PRESETS, ...get().presets.map(toOption)],
+
+    getPreset: (id) => {
+        const presets = get().getAllPresets();
+        return presets.find((preset) => preset.id === id) ?? null;
+    },
+
+    getPresetForCategory: (category) => {
+        if (!category) return null;
+
+        const presetId = useSettingsStore.getState().categoryPresets[category];
+        return presetId ? get().getPreset(presetId) : null;
+    },
+}));
@@ -0,0 +1,517 @@
+import { generateUUID, Todo } from '@/services/local-database-service';
+import { errorHandlingService, DatabaseError } from '@/services/error-handling-service';
+import { notificationService, TodoReminder } from '@/services/notification-service';
+import {
+    createTodoRepository,
+    LocalTodoRepository,
+    TodoBackend,
+    TodoInput,
+    TodoRepository,
+} from '@/services/todo-repository';
+import { useSettingsStore } from '@/stores/local-settings-store';
+import { showError, showSuccess } from '@/utils/error-toast';
+import { addDays, daysBetween, getRolloverTodos, parseDateKey, toDateKey } from '@/utils/dateUtils';
+import { advanceRecurrence } from '@/utils/recurrence';
+import { create } from 'zustand';
+
+interface TodoState {
+    todos: Todo[];
+    isLoading: boolean;
+    error: string | null;
+    isInitialized: boolean;
+    backend: TodoBackend;
+    /** Todos with changes that have not reached Supabase yet */
+    pendingTodoIds: string[];
+
+    // Filters
+    showCompleted: boolean;
+    searchQuery: string;
+
+    // Actions
+    setBackend: (backend: TodoBackend, userId?: string | null) => void;
+    loadTodos: (options?: { force?: boolean }) => Promise<void>;
+    refreshPendingUploads: () => Promise<void>;
+    createTodo: (todo: TodoInput) => Promise<void>;
+    updateTodo: (id: string, updates: Partial<Todo>) => Promise<void>;
+    toggleTodo: (id: string) => Promise<void>;
+    deleteTodo: (id: string) => Promise<void>;
+    /** Move open todos scheduled for a past day to today */
+    rollOverTodos: () => Promise<void>;
+    /** Move a todo's reminder to a later time */
+    snoozeReminder: (id: string, until: Date) => Promise<void>;
+    /** Make the scheduled reminder notifications match the loaded todos */
+    reconcileReminders: () => Promise<void>;
+    deleteCompletedTodos: () => Promise<void>;
+    getCompletedTodos: () => Todo[];
+    getActiveTodos: () => Todo[];
+    resetTodos: () => void;
+
+    // Filters
+    setShowCompleted: (show: boolean) => void;
+    setSearchQuery: (query: string) => void;
+
+    // Export/Import
+    exportTodos: () => Promise<Todo[]>;
+    importTodos: (todos: Todo[]) => Promise<void>;
+}
+
+let repository: TodoRepository = new LocalTodoRepository();
+let repositoryUserId: string | null = null;
+let stopWatching: () => void = () => {};
+/** Todos whose optimistic change is still being written */
+const inFlightIds = new Set<string>();
+
+/**
+ * Put a todo back where it was before an optimistic change failed
+ */
+const restoreTodo = (todos: Todo[], previous: Todo, index: number): Todo[] => {
+    if (todos.some((todo) => todo.id === previous.id)) {
+        return todos.map((todo) => (todo.id === previous.id ? previous : todo));
+    }
+    const restored = [...todos];
+    restored.splice(Math.min(index, restored.length), 0, previous);
+    return restored;
+};
+
+/**
+ * The reminder a todo should have scheduled, if it is open and due later
+ */
+const getPendingReminder = (todo: Todo): TodoReminder | null => {
+    const at = todo.reminderAt ? new Date(todo.reminderAt) : null;
+    if (!at || todo.isCompleted || at.getTime() <= Date.now()) return null;
+    return { todoId: todo.id, title: todo.title, at };
+};
+
+/**
+ * Schedule a todo's reminder while it is open and due later, cancel it otherwise
+ */
+const syncReminder = (todo: Todo) => {
+    const reminder = getPendingReminder(todo);
+    if (reminder && useSettingsStore.getState().notifications) {
+        notificationService.scheduleTodoReminder(reminder.todoId, reminder.title, reminder.at);
+    } else {
+        notificationService.cancelTodoReminder(todo.id);
+    }
+};
+
+/**
+ * The todo that follows a completed recurring one, with its subtasks unchecked;
+ * null when the series is over. Occurrences missed while the todo stayed open are
+ * skipped rather than created late.
+ */
+const buildNextOccurrence = (todo: Todo): TodoInput | null => {
+    if (!todo.recurrence) return null;
+
+    // The series follows the todo's own dates; an undated todo repeats from now
+    const now = new Date();
+    const timestamp = todo.reminderAt ?? todo.dueAt;
+    const anchor = timestamp
+        ? new Date(timestamp)
+        : todo.scheduledFor
+          ? parseDateKey(todo.scheduledFor)
+          : now;
+    const next = advanceRecurrence(todo.recurrence, anchor, now);
+    if (!next) return null;
+
+    // Every date moves by the same number of days, keeping its time of day
+    const days = daysBetween(anchor, next.date);
+    const shift = (value: string) => addDays(new Date(value), days).toISOString();
+
+    return {
+        title: todo.title,
+        description: todo.description,
+        icon: todo.icon,
+        category: todo.category,
+        priority: todo.priority,
+        estimatedMinutes: todo.estimatedMinutes,
+        isCompleted: false,
+        completedAt: null,
+        reminderAt: todo.reminderAt ? shift(todo.reminderAt) : null,
+        dueAt: todo.dueAt ? shift(todo.dueAt) : null,
+        scheduledFor: todo.scheduledFor
+            ? toDateKey(addDays(parseDateKey(todo.scheduledFor), days))
+            : todo.dueAt
+              ? null
+              : toDateKey(next.date),
+        recurrence: next.recurrence,
+        subtasks: (todo.subtasks ?? []).map((subtask) => ({
+            ...subtask,
+            id: generateUUID(),
+            done: false,
+        })),
+    };
+};
+
+export const useTodoStore = create<TodoState>((set, get) => {
+    /**
+     * Run a write with its todo marked as pending until the repository settles
+     */
+    const trackUpload = async <T>(id: string, write: () => Promise<T>): Promise<T> => {
+        inFlightIds.add(id);
+        set((state) => ({
+            pendingTodoIds: state.pendingTodoIds.includes(id)
+                ? state.pendingTodoIds
+                : [...state.pendingTodoIds, id],
+        }));
+
+        try {
+            return await write();
+        } finally {
+            inFlightIds.delete(id);
+            get().refreshPendingUploads();
+        }
+    };
+
+    /**
+     * Create the next occurrence of a recurring todo that was just completed
+     */
+    const createNextOccurrence = async (todo: Todo) => {
+        const next = buildNextOccurrence(todo);
+        if (!next) return;
+
+        try {
+            const saved = await repository.createTodo(next);
+            set((state) => ({
+                todos: [saved, ...state.todos.filter((item) => item.id !== saved.id)],
+            }));
+            get().refreshPendingUploads();
+            syncReminder(saved);
+        } catch (error) {
+            errorHandlingService.processError(error, {
+                action: 'createNextOccurrence',
+                todoId: todo.id,
+            });
+            showError(error, { action: 'createNextOccurrence', todoId: todo.id });
+        }
+    };
+
+    return {
+        todos: [],
+        isLoading: false,
+        error: null,
+        isInitialized: false,
+        backend: 'local',
+        pendingTodoIds: [],
+
+        // Filters
+        showCompleted: true,
+        searchQuery: '',
+
+        setBackend: (backend, userId = null) => {
+            if (backend === get().backend && userId === repositoryUserId) return;
+
+            stopWatching();
+            repository = createTodoRepository(backend, userId);
+            repositoryUserId = userId;
+            stopWatching = repository.watch((reason) => {
+                // A finished sync may have merged remote changes into the local database
+                if (reason === 'sync') {
+                    get().loadTodos({ force: true });
+                }
+                get().refreshPendingUploads();
+            });
+
+            set({
+                backend: repository.backend,
+                todos: [],
+                pendingTodoIds: [],
+                isInitialized: false,
+                error: null,
+            });
+            get().loadTodos();
+            get().refreshPendingUploads();
+        },
+
+        loadTodos: async (options) => {
+            if (get().isInitialized && !options?.force) return;
+
+            const source = repository;
+            set({ isLoading: true, error: null });
+
+            try {
+                const todos = await source.getTodos();
+                // Ignore results from a repository that was swapped out meanwhile
+                if (source !== repository) return;
+                set({ todos, isLoading: false, isInitialized: true });
+                get().reconcileReminders();
+            } catch (error) {
+                const appError = errorHandlingService.processError(error, {
+                    action: 'loadTodos',
+                });
+                set({
+                    error: appError.userMessage || 'Failed to load todos',
+                    isLoading: false,
+                });
+                showError(error, { action: 'loadTodos' });
+            }
+        },
+
+        refreshPendingUploads: async () => {
+            const source = repository;
+
+            try {
+                const ids = await source.getPendingUploadIds();
+                if (source !== repository) return;
+                set({ pendingTodoIds: [...new Set([...ids, ...inFlightIds])] });
+            } catch (error) {
+                // Silently handle errors - the indicator is informational only
+                errorHandlingService.processError(error, { action: 'refreshPendingUploads' });
+            }
+        },
+
+        createTodo: async (todoData) => {
+            // Show the todo right away and swap in the saved one once it is written
+            const now = new Date().toISOString();
+            const optimisticTodo: Todo = {
+                ...todoData,
+                id: `optimistic-${Date.now()}`,
+                createdAt: now,
+                completedAt: todoData.completedAt ?? null,
+                actualMinutes: 0,
+                subtasks: todoData.subtasks ?? [],
+                updatedAt: now,
+            };
+            set((state) => ({ todos: [optimisticTodo, ...state.todos], error: null }));
+
+            try {
+                const newTodo = await trackUpload(optimisticTodo.id, () =>
+                    repository.createTodo(todoData),
+                );
+
+                set((state) => {
+                    // A reload meanwhile may have dropped the placeholder or fetched the saved todo
+                    const others = state.todos.filter(
+                        (todo) => todo.id !== optimisticTodo.id && todo.id !== newTodo.id,
+                    );
+                    const index = state.todos.findIndex((todo) => todo.id === optimisticTodo.id);
+                    return { todos: restoreTodo(others, newTodo, Math.max(0, index)) };
+                });
+                syncReminder(newTodo);
+                showSuccess('Todo created successfully');
+            } catch (error) {
+                const appError = errorHandlingService.processError(error, {
+                    action: 'createTodo',
+                });
+                set((state) => ({
+                    todos: state.todos.filter((todo) => todo.id !== optimisticTodo.id),
+                    error: appError.userMessage || 'Failed to create todo',
+                }));
+                showError(error, { action: 'createTodo' });
+            }
+        },
+
+        updateTodo: async (id, updates) => {
+            const index = get().todos.findIndex((todo) => todo.id === id);
+            const previous = get().todos[index];
+            const isRepeating =
+                !!previous?.recurrence && !previous.isCompleted && updates.isCompleted === true;
+            // The completed instance hands its rule on, so it can never repeat twice
+            const changes = isRepeating ? { ...updates, recurrence: null } : updates;
+
+            set((state) => ({
+                todos: state.todos.map((todo) => (todo.id === id ? { ...todo, ...changes } : todo)),
+                error: null,
+            }));
+
+            try {
+                await trackUpload(id, () => repository.updateTodo(id, changes));
+                if (previous) syncReminder({ ...previous, ...changes });
+                if (isRepeating) await createNextOccurrence({ ...previous, ...updates });
+            } catch (error) {
+                const appError = errorHandlingService.processError(error, {
+                    action: 'updateTodo',
+                    todoId: id,
+                });
+                set((state) => ({
+                    todos: previous ? restoreTodo(state.todos, previous, index) : state.todos,
+                    error: appError.userMessage || 'Failed to update todo',
+                }));
+                showError(error, { action: 'updateTodo', todoId: id });
+            }
+        },
+
+        toggleTodo: async (id) => {
+            const todo = get().todos.find((t) => t.id === id);
+            if (!todo) return;
+
+            const isRepeating = !!todo.recurrence && !todo.isCompleted;
+            const updates: Partial<Todo> = {
+                isCompleted: !todo.isCompleted,
+                completedAt: !todo.isCompleted ? new Date().toISOString() : null,
+                ...(isRepeating ? { recurrence: null } : {}),
+            };
+
+            set((state) => ({
+                todos: state.todos.map((t) => (t.id === id ? { ...t, ...updates } : t)),
+            }));
+
+            try {
+                await trackUpload(id, () => repository.updateTodo(id, updates));
+                syncReminder({ ...todo, ...updates });
+                if (isRepeating) await createNextOccurrence(todo);
+            } catch (error) {
+                const appError = errorHandlingService.processError(error, {
+                    action: 'toggleTodo',
+                    todoId: id,
+                });
+                set((state) => ({
+                    todos: state.todos.map((t) =>
+                        t.id === id
+                            ? {
+                                  ...t,
+                                  isCompleted: todo.isCompleted,
+                                  completedAt: todo.completedAt,
+                                  recurrence: todo.recurrence,
+                              }
+                            : t,
+                    ),
+                    error: appError.userMessage || 'Failed to toggle todo',
+                }));
+                showError(error, { action: 'toggleTodo', todoId: id });
+            }
+        },
+
+        deleteTodo: async (id) => {
+            const index = get().todos.findIndex((todo) => todo.id === id);
+            const previous = get().todos[index];
+
+            set((state) => ({
+                todos: state.todos.filter((todo) => todo.id !== id),
+                error: null,
+            }));
+
+            try {
+                await trackUpload(id, () => repository.deleteTodo(id));
+                notificationService.cancelTodoReminder(id);
+                showSuccess('Todo deleted successfully');
+            } catch (error) {
+                const appError = errorHandlingService.processError(error, {
+                    action: 'deleteTodo',
+                    todoId: id,
+                });
+                set((state) => ({
+                    todos: previous ? restoreTodo(state.todos, previous, index) : state.todos,
+                    error: appError.userMessage || 'Failed to delete todo',
+                }));
+                showError(error, { action: 'deleteTodo', todoId: id });
+            }
+        },
+
+        rollOverTodos: async () => {
+            const todos = getRolloverTodos(get().todos);
+            if (todos.length === 0) return;
+
+            const scheduledFor = toDateKey(new Date());
+            await Promise.all(todos.map((todo) => get().updateTodo(todo.id, { scheduledFor })));
+        },
+
+        snoozeReminder: async (id, until) => {
+            // A reminder action can cold start the app before todos are loaded
+            await get().loadTodos();
+
+            if (!get().todos.some((todo) => todo.id === id)) {
+                notificationService.cancelTodoReminder(id);
+                return;
+            }
+            await get().updateTodo(id, { reminderAt: until.toISOString() });
+        },
+
+        reconcileReminders: async () => {
+            const reminders = useSettingsStore.getState().notifications
+                ? get()
+                      .todos.map(getPendingReminder)
+                      .filter((reminder): reminder is TodoReminder => reminder !== null)
+                : [];
+            await notificationService.reconcileTodoReminders(reminders);
+        },
+
+        deleteCompletedTodos: async () => {
+            const previous = get().todos;
+
+            set((state) => ({
+                todos: state.todos.filter((todo) => !todo.isCompleted),
+                error: null,
+            }));
+
+            try {
+                await repository.deleteCompletedTodos();
+                get().refreshPendingUploads();
+                showSuccess('Completed todos deleted successfully');
+            } catch (error) {
+                const appError = errorHandlingService.processError(error, {
+                    action: 'deleteCompletedTodos',
+                });
+                // Some deletes may have gone through, so reload instead of guessing
+                set({
+                    todos: previous,
+                    error: appError.userMessage || 'Failed to delete completed todos',
+                });
+                get().loadTodos({ force: true });
+                showError(error, { action: 'deleteCompletedTodos' });
+            }
+        },
+
+        getCompletedTodos: () => {
+            return get().todos.filter((todo) => todo.isCompleted);
+        },
+
+        getActiveTodos: () => {
+            return get().todos.filter((todo) => !todo.isCompleted);
+        },
+
+        resetTodos: () =>
+            set({
+                todos: [],
+                pendingTodoIds: [],
+                isLoading: false,
+                error: null,
+                isInitialized: false,
+            }),
+
+        setShowCompleted: (show) => {
+            set({ showCompleted: show });
+        },
+
+        setSearchQuery: (query) => {
+            set({ searchQuery: query });
+        },
+
+        exportTodos: async () => {
+            try {
+                return await repository.getTodos();
+            } catch (error) {
+                const appError = errorHandlingService.processError(error, {
+                    action: 'exportTodos',
+                });
+                showError(error, { action: 'exportTodos' });
+                throw new DatabaseError(
+                    appError.message,
+                    error instanceof Error ? error : undefined,
+                );
+            }
+        },
+
+        importTodos: async (todos) => {
+            set({ isLoading: true, error: null });
+
+            try {
+                await repository.importTodos(todos);
+
+                // Reload todos to reflect changes
+                await get().loadTodos({ force: true });
+
+                set({ isLoading: false });
+                showSuccess('Todos imported successfully');
+            } catch (error) {
+                const appError = errorHandlingService.processError(error, {
+                    action: 'importTodos',
+                });
+                set({
+                    error: appError.userMessage || 'Failed to import todos',
+                    isLoading: false,
+                });
+                showError(error, { action: 'importTodos' });
+            }
+        },
+    };
+});
@@ -0,0 +1,32 @@
+import { describeRecurrence } from '@/utils/recurrence';
+
+describe('describeRecurrence', () => {
+    it.each([
+        ['FREQ=MONTHLY;BYDAY=1MO', 'Every month on 1st Mon'],
+        ['FREQ=MONTHLY;BYDAY=2TU', 'Every month on 2nd Tue'],
+        ['FREQ=MONTHLY;BYDAY=3WE', 'Every month on 3rd Wed'],
+        ['FREQ=MONTHLY;BYDAY=4TH', 'Every month on 4th Thu'],
+        ['FREQ=MONTHLY;BYDAY=+5SA', 'Every month on 5th Sat'],
+    ])('names a positive ordinal weekday in %s', (rule, text) => {
+        expect(describeRecurrence(rule)).toBe(text);
+    });
+
+    it.each([
+        ['FREQ=MONTHLY;BYDAY=-1FR', 'Every month on last Fri'],
+        ['FREQ=MONTHLY;BYDAY=-2FR', 'Every month on 2nd to last Fri'],
+        ['FREQ=MONTHLY;BYDAY=-3SU', 'Every month on 3rd to last Sun'],
+        ['FREQ=MONTHLY;BYDAY=-4MO', 'Every month on 4th to last Mon'],
+    ])('counts a negative ordinal weekday back from the end in %s', (rule, text) => {
+        expect(describeRecurrence(rule)).toBe(text);
+    });
+
+    it('lists several weekdays', () => {
+        expect(describeRecurrence('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH')).toBe(
+            'Every 2 weeks on Mon, Thu',
+        );
+    });
+
+    it('says every weekday for Monday to Friday', () => {
+        expect(describeRecurrence('FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR')).toBe('Every weekday');
+    });
+});
@@ -0,0 +1,187 @@
+import {
+    createClock,
+    getElapsedMs,
+    getOvertimeMs,
+    getRemainingMs,
+    getRemainingSeconds,
+    isClockFinished,
+    isClockInOvertime,
+    isClockRunning,
+    pauseClock,
+    resumeClock,
+    startClock,
+} from '@/utils/timer-engine';
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+const DURATION = 25 * MINUTE;
+const T0 = new Date('2026-10-19T09:00:00Z').getTime();
+
+describe('timer engine', () => {
+    describe('idle clock', () => {
+        it('has the full duration left and has not elapsed', () => {
+            const clock = createClock(DURATION);
+
+            expect(isClockRunning(clock)).toBe(false);
+            expect(getElapsedMs(clock, T0)).toBe(0);
+            expect(getRemainingMs(clock, T0)).toBe(DURATION);
+            expect(isClockFinished(clock, T0 + DURATION * 2)).toBe(false);
+        });
+
+        it('ignores pause and resume', () => {
+            const clock = createClock(DURATION);
+
+            expect(pauseClock(clock, T0)).toBe(clock);
+            expect(resumeClock(clock, T0)).toBe(clock);
+        });
+    });
+
+    describe('start', () => {
+        it('targets the end of the phase', () => {
+            const clock = startClock(DURATION, T0);
+
+            expect(isClockRunning(clock)).toBe(true);
+            expect(clock.targetEndAt).toBe(T0 + DURATION);
+        });
+
+        it('derives the remaining time from the wall clock', () => {
+            const clock = startClock(DURATION, T0);
+
+            expect(getRemainingMs(clock, T0 + 10 * MINUTE)).toBe(15 * MINUTE);
+            expect(getElapsedMs(clock, T0 + 10 * MINUTE)).toBe(10 * MINUTE);
+        });
+
+        it('rounds the remaining seconds up so the display reaches 0 at the end', () => {
+            const clock = startClock(DURATION, T0);
+
+            expect(getRemainingSeconds(clock, T0 + 1)).toBe(25 * 60);
+            expect(getRemainingSeconds(clock, T0 + DURATION - 1)).toBe(1);
+            expect(getRemainingSeconds(clock, T0 + DURATION)).toBe(0);
+        });
+
+        it('finishes exactly at the target', () => {
+            const clock = startClock(DURATION, T0);
+
+            expect(isClockFinished(clock, T0 + DURATION - 1)).toBe(false);
+            expect(isClockFinished(clock, T0 + DURATION)).toBe(true);
+        });
+    });
+
+    describe('pause', () => {
+        it('freezes the remaining time', () => {
+            const paused = pauseClock(startClock(DURATION, T0), T0 + 5 * MINUTE);
+
+            expect(isClockRunning(paused)).toBe(false);
+            expect(paused.targetEndAt).toBeNull();
+            expect(getRemainingMs(paused, T0 + 5 * MINUTE)).toBe(20 * MINUTE);
+            expect(getRemainingMs(paused, T0 + 3 * 60 * MINUTE)).toBe(20 * MINUTE);
+        });
+
+        it('never finishes while paused', () => {
+            const paused = pauseClock(startClock(DURATION, T0), T0 + 5 * MINUTE);
+
+            expect(isClockFinished(paused, T0 + 10 * DURATION)).toBe(false);
+        });
+
+        it('keeps the first pause when paused twice', () => {
+            const paused = pauseClock(startClock(DURATION, T0), T0 + 5 * MINUTE);
+
+            expect(pauseClock(paused, T0 + 6 * MINUTE)).toBe(paused);
+        });
+    });
+
+    describe('resume', () => {
+        it('moves the target by the time spent paused', () => {
+            const paused = pauseClock(startClock(DURATION, T0), T0 + 5 * MINUTE);
+            const resumed = resumeClock(paused, T0 + 8 * MINUTE);
+
+            expect(isClockRunning(resumed)).toBe(true);
+            expect(resumed.pausedAccumulated).toBe(3 * MINUTE);
+            expect(resumed.targetEndAt).toBe(T0 + DURATION + 3 * MINUTE);
+            expect(getRemainingMs(resumed, T0 + 8 * MINUTE)).toBe(20 * MINUTE);
+        });
+
+        it('adds up several pauses', () => {
+            let clock = startClock(DURATION, T0);
+            clock = pauseClock(clock, T0 + 1 * MINUTE);
+            clock = resumeClock(clock, T0 + 2 * MINUTE);
+            clock = pauseClock(clock, T0 + 4 * MINUTE);
+            clock = resumeClock(clock, T0 + 7 * MINUTE);
+
+            expect(clock.pausedAccumulated).toBe(4 * MINUTE);
+            expect(getElapsedMs(clock, T0 + 10 * MINUTE)).toBe(6 * MINUTE);
+            expect(isClockFinished(clock, T0 + DURATION + 4 * MINUTE)).toBe(true);
+        });
+
+        it('ignores a resume of a running clock', () => {
+            const clock = startClock(DURATION, T0);
+
+            expect(resumeClock(clock, T0 + MINUTE)).toBe(clock);
+        });
+    });
+
+    describe('background catch-up', () => {
+        it('has finished when the app returns after the target', () => {
+            const clock = startClock(DURATION, T0);
+            // No ticks ran while suspended; only the clock at resume matters
+            const returnedAt = T0 + 40 * MINUTE;
+
+            expect(isClockFinished(clock, returnedAt)).toBe(true);
+            expect(getRemainingSeconds(clock, returnedAt)).toBe(0);
+            expect(getElapsedMs(clock, returnedAt)).toBe(DURATION);
+        });
+
+        it('shows the right time left when the app returns before the target', () => {
+            const clock = startClock(DURATION, T0);
+
+            expect(isClockFinished(clock, T0 + 12 * MINUTE)).toBe(false);
+            expect(getRemainingSeconds(clock, T0 + 12 * MINUTE)).toBe(13 * 60);
+        });
+
+        it('survives a relaunch from a persisted clock', () => {
+            const paused = pauseClock(startClock(DURATION, T0), T0 + 5 * MINUTE);
+            const resumed = resumeClock(paused, T0 + 10 * MINUTE);
+            const restored = JSON.parse(JSON.stringify(resumed));
+
+            expect(restored).toEqual(resumed);
+            expect(getRemainingMs(restored, T0 + 20 * MINUTE)).toBe(10 * MINUTE);
+            expect(isClockFinished(restored, T0 + DURATION + 5 * MINUTE)).toBe(true);
+        });
+
+        it('does not count time suspended while paused', () => {
+            const resumedAt = T0 + 5 * MINUTE + 8 * 60 * MINUTE;
+            const paused = pauseClock(startClock(DURATION, T0), T0 + 5 * MINUTE);
+            const resumed = resumeClock(paused, resumedAt);
+
+            expect(isClockFinished(resumed, resumedAt)).toBe(false);
+            expect(getRemainingMs(resumed, resumedAt)).toBe(20 * MINUTE);
+        });
+    });
+
+    describe('overtime', () => {
+        it('keeps counting past the duration instead of finishing', () => {
+            const clock = startClock(DURATION, T0, true);
+            const later = T0 + DURATION + 7 * MINUTE;
+
+            expect(isClockFinished(clock, later)).toBe(false);
+            expect(isClockInOvertime(clock, later)).toBe(true);
+            expect(getRemainingMs(clock, later)).toBe(0);
+            expect(getOvertimeMs(clock, later)).toBe(7 * MINUTE);
+            expect(getElapsedMs(clock, later)).toBe(DURATION + 7 * MINUTE);
+        });
+
+        it('is not in overtime before the duration', () => {
+            const clock = startClock(DURATION, T0, true);
+
+            expect(isClockInOvertime(clock, T0 + DURATION - 1)).toBe(false);
+            expect(getOvertimeMs(clock, T0 + DURATION - 1)).toBe(0);
+        });
+
+        it('caps elapsed time at the duration without overtime', () => {
+            const clock = startClock(DURATION, T0);
+
+            expect(getOvertimeMs(clock, T0 + 2 * DURATION)).toBe(0);
+            expect(isClockInOvertime(clock, T0 + 2 * DURATION)).toBe(false);
+        });
+    });
+});
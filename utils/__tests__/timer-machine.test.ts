@@ -0,0 +1,179 @@
+import {
+    canTransition,
+    TimerEvent,
+    TimerMachineState,
+    TimerPhase,
+    TimerStatus,
+    transition,
+} from '@/utils/timer-machine';
+
+const STATUSES: TimerStatus[] = ['idle', 'running', 'paused', 'completed'];
+const PHASES: TimerPhase[] = ['focus', 'shortBreak', 'longBreak'];
+
+const ALL_STATES: TimerMachineState[] = STATUSES.flatMap((status) =>
+    PHASES.map((phase) => ({ status, phase })),
+);
+
+const label = ({ status, phase }: TimerMachineState) => `${phase}/${status}`;
+
+describe('timer machine', () => {
+    describe('start', () => {
+        it.each(ALL_STATES)('from $phase/$status', (state) => {
+            const next = transition(state, { type: 'start' });
+            if (state.status === 'idle' || state.status === 'completed') {
+                expect(next).toEqual({ status: 'running', phase: state.phase });
+            } else {
+                expect(next).toBeNull();
+            }
+        });
+    });
+
+    describe('pause', () => {
+        it.each(ALL_STATES)('from $phase/$status', (state) => {
+            const next = transition(state, { type: 'pause' });
+            expect(next).toEqual(
+                state.status === 'running' ? { status: 'paused', phase: state.phase } : null,
+            );
+        });
+    });
+
+    describe('resume', () => {
+        it.each(ALL_STATES)('from $phase/$status', (state) => {
+            const next = transition(state, { type: 'resume' });
+            expect(next).toEqual(
+                state.status === 'paused' ? { status: 'running', phase: state.phase } : null,
+            );
+        });
+    });
+
+    describe('complete', () => {
+        it.each(ALL_STATES)('from $phase/$status', (state) => {
+            const next = transition(state, { type: 'complete' });
+            if (state.status === 'running' || state.status === 'paused') {
+                expect(next).toEqual({ status: 'completed', phase: state.phase });
+            } else {
+                expect(next).toBeNull();
+            }
+        });
+    });
+
+    describe('reset', () => {
+        it.each(ALL_STATES)('from $phase/$status keeps the phase', (state) => {
+            expect(transition(state, { type: 'reset' })).toEqual({
+                status: 'idle',
+                phase: state.phase,
+            });
+        });
+    });
+
+    describe('takeBreak', () => {
+        it.each(ALL_STATES)('from $phase/$status', (state) => {
+            for (const phase of ['shortBreak', 'longBreak'] as const) {
+                const next = transition(state, { type: 'takeBreak', phase });
+                if (state.status === 'completed' && state.phase === 'focus') {
+                    expect(next).toEqual({ status: 'idle', phase });
+                } else {
+                    expect(next).toBeNull();
+                }
+            }
+        });
+    });
+
+    describe('endBreak', () => {
+        it.each(ALL_STATES)('from $phase/$status', (state) => {
+            const next = transition(state, { type: 'endBreak' });
+            if (state.status === 'completed' && state.phase !== 'focus') {
+                expect(next).toEqual({ status: 'idle', phase: 'focus' });
+            } else {
+                expect(next).toBeNull();
+            }
+        });
+    });
+
+    describe('skip', () => {
+        it.each(ALL_STATES)('from $phase/$status goes to an idle focus', (state) => {
+            expect(transition(state, { type: 'skip' })).toEqual({
+                status: 'idle',
+                phase: 'focus',
+            });
+        });
+    });
+
+    describe('switchPhase', () => {
+        it.each(ALL_STATES)('from $phase/$status', (state) => {
+            for (const phase of PHASES) {
+                const next = transition(state, { type: 'switchPhase', phase });
+                if (state.status === 'idle' || state.status === 'completed') {
+                    expect(next).toEqual({ status: 'idle', phase });
+                } else {
+                    expect(next).toBeNull();
+                }
+            }
+        });
+    });
+
+    it('canTransition agrees with transition for every state and event', () => {
+        const events: TimerEvent[] = [
+            { type: 'start' },
+            { type: 'pause' },
+            { type: 'resume' },
+            { type: 'complete' },
+            { type: 'reset' },
+            { type: 'takeBreak', phase: 'shortBreak' },
+            { type: 'endBreak' },
+            { type: 'skip' },
+            { type: 'switchPhase', phase: 'longBreak' },
+        ];
+        for (const state of ALL_STATES) {
+            for (const event of events) {
+                expect(canTransition(state, event)).toBe(transition(state, event) !== null);
+            }
+        }
+    });
+
+    it('runs a full pomodoro cycle', () => {
+        const events: TimerEvent[] = [
+            { type: 'start' },
+            { type: 'pause' },
+            { type: 'resume' },
+            { type: 'complete' },
+            { type: 'takeBreak', phase: 'shortBreak' },
+            { type: 'start' },
+            { type: 'complete' },
+            { type: 'endBreak' },
+        ];
+        const visited = events.reduce<TimerMachineState[]>(
+            (states, event) => {
+                const next = transition(states[states.length - 1], event);
+                expect(next).not.toBeNull();
+                return [...states, next!];
+            },
+            [{ status: 'idle', phase: 'focus' }],
+        );
+
+        expect(visited.map(label)).toEqual([
+            'focus/idle',
+            'focus/running',
+            'focus/paused',
+            'focus/running',
+            'focus/completed',
+            'shortBreak/idle',
+            'shortBreak/running',
+            'shortBreak/completed',
+            'focus/idle',
+        ]);
+    });
+
+    it('rejects a late break hand-off after the timer was reset', () => {
+        const completed: TimerMachineState = { status: 'completed', phase: 'focus' };
+        const reset = transition(completed, { type: 'reset' })!;
+
+        expect(transition(reset, { type: 'takeBreak', phase: 'shortBreak' })).toBeNull();
+    });
+
+    it('rejects a second start from a double tap', () => {
+        const running = transition({ status: 'idle', phase: 'focus' }, { type: 'start' })!;
+
+        expect(transition(running, { type: 'start' })).toBeNull();
+    });
+});
@@ -1,11 +1,134 @@
 import { Todo } from '@/services/local-database-service';
 
+/**
+ * Where a todo sits in the list, by when it is due or planned:
+ * - overdue: open and past its due date or scheduled day
+ * - someday: no date at all
+ * - completed: done, with no date still ahead of it
+ */
+export type TodoGroup =
+    | 'overdue'
+    | 'today'
+    | 'tomorrow'
+    | 'thisWeek'
+    | 'later'
+    | 'someday'
+    | 'completed';
+
 export interface TodoSection {
+    key: TodoGroup;
     title: string;
+    /** Day the section starts on */
     date: Date;
     todos: Todo[];
 }
 
+const TODO_GROUPS: { key: TodoGroup; title: string }[] = [
+    { key: 'overdue', title: 'Overdue' },
+    { key: 'today', title: 'Today' },
+    { key: 'tomorrow', title: 'Tomorrow' },
+    { key: 'thisWeek', title: 'This Week' },
+    { key: 'later', title: 'Later' },
+    { key: 'someday', title: 'Someday' },
+    { key: 'completed', title: 'Completed' },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Local calendar day of a date as YYYY-MM-DD, the format of Todo.scheduledFor
+ */
+export const toDateKey = (date: Date): string => {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+};
+
+/**
+ * Local midnight of a YYYY-MM-DD day
+ */
+export const parseDateKey = (key: string): Date => {
+    const [year, month, day] = key.split('-').map(Number);
+    return new Date(year, month - 1, day);
+};
+
+export const startOfDay = (date: Date): Date =>
+    new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+export const addDays = (date: Date, days: number): Date => {
+    const result = new Date(date);
+    result.setDate(result.getDate() + days);
+    return result;
+};
+
+/**
+ * Whole calendar days from one date to another, ignoring the time of day
+ */
+export const daysBetween = (from: Date, to: Date): number =>
+    Math.round((startOfDay(to).getTime() - startOfDay(from).getTime()) / DAY_MS);
+
+/**
+ * Short day label such as "20 Oct", as in the section headers
+ */
+export const formatShortDate = (date: Date): string =>
+    `${date.getDate()} ${date.toLocaleString('en-US', { month: 'short' })}`;
+
+/**
+ * The day a todo is planned for: its scheduled day, else the day it is due
+ */
+export const getTodoDay = (todo: Todo): Date | null => {
+    if (todo.scheduledFor) return parseDateKey(todo.scheduledFor);
+    if (todo.dueAt) return startOfDay(new Date(todo.dueAt));
+    return null;
+};
+
+export const isTodoOverdue = (todo: Todo, now: Date = new Date()): boolean => {
+    if (todo.isCompleted) return false;
+    if (todo.dueAt && new Date(todo.dueAt) < now) return true;
+    return !!todo.scheduledFor && parseDateKey(todo.scheduledFor) < startOfDay(now);
+};
+
+export const getTodoGroup = (todo: Todo, now: Date = new Date()): TodoGroup => {
+    if (isTodoOverdue(todo, now)) return 'overdue';
+
+    const day = getTodoDay(todo);
+    const days = day ? daysBetween(now, day) : null;
+    if (todo.isCompleted && (days === null || days < 0)) return 'completed';
+    if (days === null) return 'someday';
+    if (days <= 0) return 'today';
+    if (days === 1) return 'tomorrow';
+
+    // Weeks run Monday to Sunday
+    const daysLeftInWeek = (7 - now.getDay()) % 7;
+    return days <= daysLeftInWeek ? 'thisWeek' : 'later';
+};
+
+/**
+ * Earliest day first, then the earliest deadline, then the newest todo
+ */
+const compareTodos = (a: Todo, b: Todo): number => {
+    const dayA = getTodoDay(a)?.getTime() ?? Infinity;
+    const dayB = getTodoDay(b)?.getTime() ?? Infinity;
+    if (dayA !== dayB) return dayA - dayB;
+
+    const dueA = a.dueAt ? new Date(a.dueAt).getTime() : Infinity;
+    const dueB = b.dueAt ? new Date(b.dueAt).getTime() : Infinity;
+    if (dueA !== dueB) return dueA - dueB;
+
+    return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
+};
+
+/**
+ * Open todos scheduled for a day that has passed, which roll over to today
+ */
+export const getRolloverTodos = (todos: Todo[], now: Date = new Date()): Todo[] =>
+    todos.filter(
+        (todo) =>
+            !todo.isCompleted &&
+            !!todo.scheduledFor &&
+            parseDateKey(todo.scheduledFor) < startOfDay(now),
+    );
+
 /**
  * Get a formatted date string for section headers
  */
@@ -59,39 +182,28 @@ export const getDateString = (date: Date): string => {
 };
 
 /**
- * Group todos by date and create sections
+ * Group todos by when they are due or planned: Overdue, Today, Tomorrow, This Week,
+ * Later and Someday, then Completed. Empty groups are left out.
  */
-export const groupTodosByDate = (todos: Todo[]): TodoSection[] => {
-    // Sort todos by creation date (newest first)
-    const sortedTodos = [...todos].sort(
-        (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime(),
-    );
-
-    // Group todos by date
-    const groupedTodos = new Map<string, Todo[]>();
-
-    sortedTodos.forEach((todo) => {
-        const dateKey = new Date(todo.createdAt).toDateString();
-        if (!groupedTodos.has(dateKey)) {
-            groupedTodos.set(dateKey, []);
-        }
-        groupedTodos.get(dateKey)!.push(todo);
+export const groupTodosByDate = (todos: Todo[], now: Date = new Date()): TodoSection[] => {
+    const groupedTodos = new Map<TodoGroup, Todo[]>();
+    todos.forEach((todo) => {
+        const group = getTodoGroup(todo, now);
+        groupedTodos.set(group, [...(groupedTodos.get(group) ?? []), todo]);
     });
 
-    // Convert to sections array
-    const sections: TodoSection[] = [];
-
-    groupedTodos.forEach((todos, dateKey) => {
-        const date = new Date(dateKey);
-        sections.push({
-            title: getDateString(date),
-            date: date,
-            todos: todos,
-        });
+    const today = startOfDay(now);
+    return TODO_GROUPS.filter(({ key }) => groupedTodos.has(key)).map(({ key, title }) => {
+        const sorted = [...groupedTodos.get(key)!].sort(
+            key === 'completed'
+                ? (a, b) =>
+                      new Date(b.completedAt ?? b.createdAt).getTime() -
+                      new Date(a.completedAt ?? a.createdAt).getTime()
+                : compareTodos,
+        );
+        const firstDay = key === 'someday' ? null : getTodoDay(sorted[0]);
+        return { key, title, date: firstDay ?? today, todos: sorted };
     });
-
-    // Sort sections by date (newest first)
-    return sections.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
 };
 
 /**
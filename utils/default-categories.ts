@@ -0,0 +1,9 @@
+/**
+ * Ids of the categories every install is seeded with. They are the same on every device,
+ * so each device's seeded copy syncs as the same category.
+ */
+export const DEFAULT_CATEGORY_IDS: Record<string, string> = {
+    HEALTH: '00000000-0000-4000-8000-000000000001',
+    WORK: '00000000-0000-4000-8000-000000000002',
+    'MENTAL HEALTH': '00000000-0000-4000-8000-000000000003',
+};
@@ -0,0 +1,26 @@
+export interface PriorityLevel {
+    value: number;
+    label: string;
+    /** Indicator color; null for no priority */
+    color: string | null;
+}
+
+/**
+ * The priorities a todo can have, lowest first. `Todo.priority` stores the value.
+ */
+export const PRIORITY_LEVELS: PriorityLevel[] = [
+    { value: 0, label: 'None', color: null },
+    { value: 1, label: 'Low', color: '#93C5FD' }, // blue-300
+    { value: 2, label: 'Medium', color: '#FDE047' }, // yellow-300
+    { value: 3, label: 'High', color: '#FDBA74' }, // orange-300
+    { value: 4, label: 'Urgent', color: '#FF3B30' },
+];
+
+/**
+ * The level of a stored priority; out-of-range values are clamped
+ */
+export const getPriorityLevel = (priority: number | null | undefined): PriorityLevel => {
+    const value = Math.round(priority ?? 0);
+    const index = Math.min(Math.max(value, 0), PRIORITY_LEVELS.length - 1);
+    return PRIORITY_LEVELS[index];
+};
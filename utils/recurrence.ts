@@ -0,0 +1,402 @@
+/**
+ * Repeat rules for todos, stored as RRULE strings (RFC 5545) such as
+ * `FREQ=WEEKLY;INTERVAL=2;BYDAY=MO`.
+ *
+ * Supported parts: FREQ (DAILY, WEEKLY, MONTHLY, YEARLY), INTERVAL, BYDAY (with
+ * ordinals such as 1MO or -1FR in monthly and yearly rules), BYMONTHDAY, BYMONTH,
+ * COUNT and UNTIL. Rules using anything else do not parse, so a custom rule is
+ * never half understood.
+ */
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+export type Weekday = 'SU' | 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA';
+
+export interface RecurrenceWeekday {
+    weekday: Weekday;
+    /** nth (1-5) or nth-from-last (-1 to -5) of the month; any when unset */
+    ordinal?: number;
+}
+
+export interface RecurrenceRule {
+    freq: RecurrenceFrequency;
+    interval: number;
+    byDay?: RecurrenceWeekday[];
+    /** Days of the month; negative ones count back from the last day */
+    byMonthDay?: number[];
+    /** Months, 1-12 */
+    byMonth?: number[];
+    /** Occurrences left, this one included */
+    count?: number;
+    until?: Date;
+}
+
+/** In `Date.getDay()` order */
+export const WEEKDAYS: Weekday[] = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const WEEKDAY_NAMES: Record<Weekday, string> = {
+    SU: 'Sun',
+    MO: 'Mon',
+    TU: 'Tue',
+    WE: 'Wed',
+    TH: 'Thu',
+    FR: 'Fri',
+    SA: 'Sat',
+};
+
+const FREQUENCIES: RecurrenceFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+
+/** Periods searched for the next occurrence before a rule is treated as exhausted */
+const MAX_PERIODS = 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const parseIntList = (value: string, min: number, max: number): number[] | null => {
+    const numbers = value.split(',').map((item) => Number(item));
+    const valid = numbers.every(
+        (number) => Number.isInteger(number) && number !== 0 && number >= min && number <= max,
+    );
+    return valid ? numbers : null;
+};
+
+const parseUntil = (value: string): Date | null => {
+    const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(value);
+    if (!match) return null;
+
+    const [, year, month, day, hours = '23', minutes = '59', seconds = '59', utc] = match;
+    const parts = [+year, +month - 1, +day, +hours, +minutes, +seconds] as const;
+    return utc ? new Date(Date.UTC(...parts)) : new Date(...parts);
+};
+
+const formatUntil = (date: Date): string =>
+    date
+        .toISOString()
+        .replace(/[-:]/g, '')
+        .replace(/\.\d{3}/, '');
+
+/**
+ * Parse an RRULE string, with or without the `RRULE:` prefix; null when it is not
+ * a rule this module can follow
+ */
+export const parseRecurrence = (value: string): RecurrenceRule | null => {
+    const rule: Partial<RecurrenceRule> = { interval: 1 };
+    const parts = value
+        .trim()
+        .replace(/^RRULE:/i, '')
+        .split(';')
+        .filter(Boolean);
+
+    for (const part of parts) {
+        const [key, rawValue] = part.split('=');
+        const partValue = rawValue?.toUpperCase();
+        if (!partValue) return null;
+
+        switch (key.toUpperCase()) {
+            case 'FREQ':
+                if (!FREQUENCIES.includes(partValue as RecurrenceFrequency)) return null;
+                rule.freq = partValue as RecurrenceFrequency;
+                break;
+            case 'INTERVAL': {
+                const interval = Number(partValue);
+                if (!Number.isInteger(interval) || interval < 1) return null;
+                rule.interval = interval;
+                break;
+            }
+            case 'BYDAY': {
+                const days: RecurrenceWeekday[] = [];
+                for (const item of partValue.split(',')) {
+                    const match = /^([+-]?[1-5])?(SU|MO|TU|WE|TH|FR|SA)$/.exec(item);
+                    if (!match) return null;
+                    days.push({
+                        weekday: match[2] as Weekday,
+                        ...(match[1] ? { ordinal: Number(match[1]) } : {}),
+                    });
+                }
+                rule.byDay = days;
+                break;
+            }
+            case 'BYMONTHDAY': {
+                const days = parseIntList(partValue, -31, 31);
+                if (!days) return null;
+                rule.byMonthDay = days;
+                break;
+            }
+            case 'BYMONTH': {
+                const months = parseIntList(partValue, 1, 12);
+                if (!months) return null;
+                rule.byMonth = months;
+                break;
+            }
+            case 'COUNT': {
+                const count = Number(partValue);
+                if (!Number.isInteger(count) || count < 1) return null;
+                rule.count = count;
+                break;
+            }
+            case 'UNTIL': {
+                const until = parseUntil(partValue);
+                if (!until) return null;
+                rule.until = until;
+                break;
+            }
+            case 'WKST':
+                // Weeks always start on Monday here
+                break;
+            default:
+                return null;
+        }
+    }
+
+    if (!rule.freq) return null;
+    // Ordinal weekdays only mean something within a month or year
+    if (
+        (rule.freq === 'DAILY' || rule.freq === 'WEEKLY') &&
+        rule.byDay?.some((day) => day.ordinal !== undefined)
+    ) {
+        return null;
+    }
+
+    return rule as RecurrenceRule;
+};
+
+export const formatRecurrence = (rule: RecurrenceRule): string => {
+    const parts = [`FREQ=${rule.freq}`];
+    if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+    if (rule.byDay?.length) {
+        parts.push(
+            `BYDAY=${rule.byDay.map((day) => `${day.ordinal ?? ''}${day.weekday}`).join(',')}`,
+        );
+    }
+    if (rule.byMonthDay?.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+    if (rule.byMonth?.length) parts.push(`BYMONTH=${rule.byMonth.join(',')}`);
+    if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`);
+    if (rule.until) parts.push(`UNTIL=${formatUntil(rule.until)}`);
+    return parts.join(';');
+};
+
+const daysInMonth = (year: number, month: number): number => new Date(year, month + 1, 0).getDate();
+
+const matchesWeekday = (date: Date, days: RecurrenceWeekday[]): boolean => {
+    const weekday = WEEKDAYS[date.getDay()];
+    const dayOfMonth = date.getDate();
+    const nth = Math.ceil(dayOfMonth / 7);
+    const nthFromLast = -Math.ceil(
+        (daysInMonth(date.getFullYear(), date.getMonth()) - dayOfMonth + 1) / 7,
+    );
+
+    return days.some(
+        (day) =>
+            day.weekday === weekday &&
+            (day.ordinal === undefined || day.ordinal === nth || day.ordinal === nthFromLast),
+    );
+};
+
+const matchesMonthDay = (date: Date, monthDays: number[]): boolean => {
+    const total = daysInMonth(date.getFullYear(), date.getMonth());
+    return monthDays.some((day) => (day > 0 ? day : total + day + 1) === date.getDate());
+};
+
+/**
+ * Occurrence days in one month: the listed month days and weekdays, or the
+ * anchor's day of the month when the rule names neither
+ */
+const daysOfMonth = (rule: RecurrenceRule, year: number, month: number, anchor: Date): Date[] => {
+    const days: Date[] = [];
+    for (let day = 1; day <= daysInMonth(year, month); day++) {
+        days.push(new Date(year, month, day));
+    }
+
+    if (!rule.byDay && !rule.byMonthDay) {
+        return days.filter((date) => date.getDate() === anchor.getDate());
+    }
+    return days.filter(
+        (date) =>
+            (!rule.byMonthDay || matchesMonthDay(date, rule.byMonthDay)) &&
+            (!rule.byDay || matchesWeekday(date, rule.byDay)),
+    );
+};
+
+/**
+ * Candidate days of the `period`th interval after the anchor's, in order
+ */
+const daysInPeriod = (rule: RecurrenceRule, anchor: Date, period: number): Date[] => {
+    const step = period * rule.interval;
+    const anchorDay = new Date(anchor.getFullYear(), anchor.getMonth(), anchor.getDate());
+
+    switch (rule.freq) {
+        case 'DAILY': {
+            const date = new Date(anchorDay);
+            date.setDate(date.getDate() + step);
+            const matches =
+                (!rule.byDay || matchesWeekday(date, rule.byDay)) &&
+                (!rule.byMonthDay || matchesMonthDay(date, rule.byMonthDay)) &&
+                (!rule.byMonth || rule.byMonth.includes(date.getMonth() + 1));
+            return matches ? [date] : [];
+        }
+        case 'WEEKLY': {
+            // Weeks run Monday to Sunday
+            const monday = new Date(anchorDay);
+            monday.setDate(monday.getDate() - ((monday.getDay() + 6) % 7) + step * 7);
+            const weekdays = rule.byDay?.map((day) => day.weekday) ?? [WEEKDAYS[anchor.getDay()]];
+            return [0, 1, 2, 3, 4, 5, 6]
+                .map((offset) => {
+                    const date = new Date(monday);
+                    date.setDate(date.getDate() + offset);
+                    return date;
+                })
+                .filter(
+                    (date) =>
+                        weekdays.includes(WEEKDAYS[date.getDay()]) &&
+                        (!rule.byMonth || rule.byMonth.includes(date.getMonth() + 1)),
+                );
+        }
+        case 'MONTHLY': {
+            const first = new Date(anchor.getFullYear(), anchor.getMonth() + step, 1);
+            if (rule.byMonth && !rule.byMonth.includes(first.getMonth() + 1)) return [];
+            return daysOfMonth(rule, first.getFullYear(), first.getMonth(), anchor);
+        }
+        case 'YEARLY': {
+            const year = anchor.getFullYear() + step;
+            const months = rule.byMonth?.map((month) => month - 1) ?? [anchor.getMonth()];
+            return [...months]
+                .sort((a, b) => a - b)
+                .flatMap((month) => daysOfMonth(rule, year, month, anchor));
+        }
+    }
+};
+
+/**
+ * The first period that can hold an occurrence after `after`, so old anchors do
+ * not walk through every missed period
+ */
+const firstPeriodAfter = (rule: RecurrenceRule, anchor: Date, after: Date): number => {
+    const elapsed = after.getTime() - anchor.getTime();
+    if (elapsed <= 0) return 0;
+
+    switch (rule.freq) {
+        case 'DAILY':
+            return Math.max(0, Math.floor(elapsed / DAY_MS / rule.interval) - 1);
+        case 'WEEKLY':
+            return Math.max(0, Math.floor(elapsed / (7 * DAY_MS) / rule.interval) - 1);
+        case 'MONTHLY': {
+            const months =
+                (after.getFullYear() - anchor.getFullYear()) * 12 +
+                after.getMonth() -
+                anchor.getMonth();
+            return Math.max(0, Math.floor(months / rule.interval) - 1);
+        }
+        case 'YEARLY':
+            return Math.max(
+                0,
+                Math.floor((after.getFullYear() - anchor.getFullYear()) / rule.interval) - 1,
+            );
+    }
+};
+
+/**
+ * The first occurrence after both `anchor` and `after`, at the anchor's time of
+ * day; null when the rule has ended
+ */
+export const getNextOccurrence = (
+    rule: RecurrenceRule,
+    anchor: Date,
+    after: Date = anchor,
+): Date | null => {
+    if (rule.count !== undefined && rule.count <= 1) return null;
+
+    const start = firstPeriodAfter(rule, anchor, after);
+    for (let period = start; period < start + MAX_PERIODS; period++) {
+        for (const day of daysInPeriod(rule, anchor, period)) {
+            const occurrence = new Date(day);
+            occurrence.setHours(
+                anchor.getHours(),
+                anchor.getMinutes(),
+                anchor.getSeconds(),
+                anchor.getMilliseconds(),
+            );
+
+            if (rule.until && occurrence > rule.until) return null;
+            if (occurrence > anchor && occurrence > after) return occurrence;
+        }
+    }
+
+    return null;
+};
+
+/**
+ * Move a rule on to its next occurrence: the date, and the rule the next todo
+ * carries (COUNT goes down by one). Null when the series is over or the rule
+ * does not parse.
+ */
+export const advanceRecurrence = (
+    value: string,
+    anchor: Date,
+    after: Date = anchor,
+): { recurrence: string; date: Date } | null => {
+    const rule = parseRecurrence(value);
+    if (!rule) return null;
+
+    const date = getNextOccurrence(rule, anchor, after);
+    if (!date) return null;
+
+    const recurrence =
+        rule.count !== undefined ? formatRecurrence({ ...rule, count: rule.count - 1 }) : value;
+    return { recurrence, date };
+};
+
+const plural = (count: number, unit: string): string => (count === 1 ? unit : `${count} ${unit}s`);
+
+const describeWeekdays = (days: RecurrenceWeekday[]): string => {
+    const weekdays = days.map((day) => day.weekday);
+    const isWeekdays =
+        weekdays.length === 5 &&
+        ['MO', 'TU', 'WE', 'TH', 'FR'].every((day) => weekdays.includes(day as Weekday));
+    if (isWeekdays) return 'weekdays';
+
+    return days
+        .map((day) => {
+            const name = WEEKDAY_NAMES[day.weekday];
+            if (day.ordinal === undefined) return name;
+            if (day.ordinal === -1) return `last ${name}`;
+            const position = Math.abs(day.ordinal);
+            const ordinal = `${position}${['th', 'st', 'nd', 'rd'][position] ?? 'th'}`;
+            // -2FR is the second Friday counting back from the end of the month
+            return day.ordinal < 0 ? `${ordinal} to last ${name}` : `${ordinal} ${name}`;
+        })
+        .join(', ');
+};
+
+/**
+ * Short human description of a rule, e.g. "Every 2 weeks on Mon"
+ */
+export const describeRecurrence = (value: string): string => {
+    const rule = parseRecurrence(value);
+    if (!rule) return 'Custom repeat';
+
+    const units: Record<RecurrenceFrequency, string> = {
+        DAILY: 'day',
+        WEEKLY: 'week',
+        MONTHLY: 'month',
+        YEARLY: 'year',
+    };
+    let text = `Every ${plural(rule.interval, units[rule.freq])}`;
+
+    if (rule.byDay?.length) {
+        const days = describeWeekdays(rule.byDay);
+        text =
+            days === 'weekdays' && rule.interval === 1 && rule.freq !== 'MONTHLY'
+                ? 'Every weekday'
+                : `${text} on ${days}`;
+    }
+    if (rule.byMonthDay?.length) {
+        const days = rule.byMonthDay.map((day) => (day === -1 ? 'last day' : `day ${day}`));
+        text = `${text} on ${days.join(', ')}`;
+    }
+    if (rule.count !== undefined) {
+        text = `${text}, ${rule.count} left`;
+    }
+    if (rule.until) {
+        text = `${text}, until ${rule.until.toLocaleDateString()}`;
+    }
+
+    return text;
+};
@@ -0,0 +1,42 @@
+import { Session } from '@/services/local-database-service';
+
+export interface SessionStats {
+    focusSessions: number;
+    focusSeconds: number;
+    interruptions: number;
+    internalInterruptions: number;
+    externalInterruptions: number;
+    pausedSeconds: number;
+}
+
+/**
+ * Total time a session spent paused; a pause without an end counts up to `now`
+ */
+export const getPausedSeconds = (session: Session, now = Date.now()): number =>
+    (session.pauses ?? []).reduce((total, pause) => {
+        const start = new Date(pause.startedAt).getTime();
+        const end = pause.endedAt ? new Date(pause.endedAt).getTime() : now;
+        return total + Math.max(0, Math.round((end - start) / 1000));
+    }, 0);
+
+/**
+ * Focus totals for the sessions that started at or after `since` (all of them if omitted)
+ */
+export const getSessionStats = (sessions: Session[], since?: Date): SessionStats => {
+    const focusSessions = sessions.filter(
+        (session) => session.type === 'focus' && (!since || new Date(session.startTime) >= since),
+    );
+    const interruptions = focusSessions.flatMap((session) => session.interruptions ?? []);
+
+    return {
+        focusSessions: focusSessions.length,
+        focusSeconds: focusSessions.reduce((total, session) => total + session.duration, 0),
+        interruptions: interruptions.length,
+        internalInterruptions: interruptions.filter((item) => item.kind === 'internal').length,
+        externalInterruptions: interruptions.filter((item) => item.kind === 'external').length,
+        pausedSeconds: focusSessions.reduce(
+            (total, session) => total + getPausedSeconds(session),
+            0,
+        ),
+    };
+};
@@ -0,0 +1,43 @@
+/**
+ * Coalescing rules for pending sync_log operations on a single record.
+ *
+ * Only the net effect of unsynced operations needs uploading:
+ * - create + update → create
+ * - create + delete → nothing (the record never left the device)
+ * - update + update → update
+ * - update + delete → delete
+ * - delete + create → update (the record was re-created with the same id)
+ */
+
+export type SyncOperation = 'create' | 'update' | 'delete';
+
+/**
+ * Fold a newer operation into a pending one.
+ * Returns null when the two cancel out and nothing needs uploading.
+ */
+export function coalesceOperation(
+    pending: SyncOperation,
+    next: SyncOperation,
+): SyncOperation | null {
+    if (pending === 'create') {
+        return next === 'delete' ? null : 'create';
+    }
+    if (pending === 'delete') {
+        return next === 'delete' ? 'delete' : 'update';
+    }
+    return next === 'delete' ? 'delete' : 'update';
+}
+
+/**
+ * Fold an ordered list of pending operations (oldest first) into one
+ */
+export function coalesceOperations(operations: SyncOperation[]): SyncOperation | null {
+    if (operations.length === 0) return null;
+
+    let result: SyncOperation | null = operations[0];
+    for (const next of operations.slice(1)) {
+        // Once everything cancelled out, a later write starts a fresh sequence
+        result = result === null ? next : coalesceOperation(result, next);
+    }
+    return result;
+}
@@ -0,0 +1,187 @@
+/**
+ * Deterministic merge helpers for cloud sync.
+ *
+ * Every synced record carries `updatedAt`, a monotonically increasing `version`
+ * and a per-field timestamp map. Merging picks the most recently written value
+ * for each field (last-writer-wins), so two devices that exchange the same
+ * records always converge on the same result regardless of sync order.
+ */
+
+export type FieldTimestamps = Record<string, string>;
+
+export interface SyncMetadata {
+    updatedAt?: string | null;
+    version?: number | null;
+    fieldTimestamps?: FieldTimestamps | null;
+}
+
+export type SyncSide = 'local' | 'remote';
+
+export interface FieldConflict {
+    field: string;
+    localValue: unknown;
+    remoteValue: unknown;
+    localUpdatedAt: string;
+    remoteUpdatedAt: string;
+    resolution: SyncSide;
+}
+
+export interface MergeResult<T> {
+    merged: T;
+    /** Local copy differs from the merged record and must be rewritten */
+    localChanged: boolean;
+    /** Remote copy differs from the merged record and must be uploaded */
+    remoteChanged: boolean;
+    /** Fields edited on both sides since the last sync */
+    conflicts: FieldConflict[];
+}
+
+const EPOCH = new Date(0).toISOString();
+
+/** Parse an ISO timestamp; missing or invalid values sort first */
+export const toMillis = (timestamp: string | null | undefined): number => {
+    if (!timestamp) return 0;
+    const ms = Date.parse(timestamp);
+    return Number.isNaN(ms) ? 0 : ms;
+};
+
+const serialize = (value: unknown): string => JSON.stringify(value ?? null);
+
+export const valuesEqual = (a: unknown, b: unknown): boolean => serialize(a) === serialize(b);
+
+/**
+ * Timestamp of the last write to `field`, falling back to the record's updatedAt
+ */
+export const getFieldTimestamp = (record: SyncMetadata, field: string): string =>
+    record.fieldTimestamps?.[field] ?? record.updatedAt ?? EPOCH;
+
+/**
+ * Stamp the given fields with `timestamp`, keeping existing stamps for the rest
+ */
+export const stampFields = (
+    existing: FieldTimestamps | null | undefined,
+    fields: string[],
+    timestamp: string,
+): FieldTimestamps => {
+    const next: FieldTimestamps = { ...(existing ?? {}) };
+    for (const field of fields) {
+        next[field] = timestamp;
+    }
+    return next;
+};
+
+/**
+ * Decide which side wins a single field.
+ * Later timestamp wins; ties go to the higher version, then to the larger
+ * serialized value so both devices pick the same winner.
+ */
+const pickWinner = (
+    localValue: unknown,
+    remoteValue: unknown,
+    localTs: string,
+    remoteTs: string,
+    localVersion: number,
+    remoteVersion: number,
+): SyncSide => {
+    const diff = toMillis(localTs) - toMillis(remoteTs);
+    if (diff !== 0) return diff > 0 ? 'local' : 'remote';
+    if (localVersion !== remoteVersion) return localVersion > remoteVersion ? 'local' : 'remote';
+    return serialize(localValue) >= serialize(remoteValue) ? 'local' : 'remote';
+};
+
+/**
+ * Merge a local and a remote copy of the same record field by field.
+ *
+ * @param fields - Data fields to merge (metadata fields are handled separately)
+ * @param lastSyncAt - Fields written on both sides after this point are reported as conflicts
+ */
+export function mergeRecords<T extends SyncMetadata>(
+    local: T,
+    remote: T,
+    fields: (keyof T & string)[],
+    lastSyncAt?: string | null,
+): MergeResult<T> {
+    const localVersion = local.version ?? 1;
+    const remoteVersion = remote.version ?? 1;
+    const syncedAt = toMillis(lastSyncAt);
+
+    const merged = { ...local } as T;
+    const fieldTimestamps: FieldTimestamps = {};
+    const conflicts: FieldConflict[] = [];
+    let localChanged = false;
+    let remoteChanged = false;
+
+    for (const field of fields) {
+        const localValue = local[field];
+        const remoteValue = remote[field];
+        const localTs = getFieldTimestamp(local, field);
+        const remoteTs = getFieldTimestamp(remote, field);
+
+        if (valuesEqual(localValue, remoteValue)) {
+            fieldTimestamps[field] = toMillis(localTs) >= toMillis(remoteTs) ? localTs : remoteTs;
+            continue;
+        }
+
+        const winner = pickWinner(
+            localValue,
+            remoteValue,
+            localTs,
+            remoteTs,
+            localVersion,
+            remoteVersion,
+        );
+
+        if (toMillis(localTs) > syncedAt && toMillis(remoteTs) > syncedAt) {
+            conflicts.push({
+                field,
+                localValue,
+                remoteValue,
+                localUpdatedAt: localTs,
+                remoteUpdatedAt: remoteTs,
+                resolution: winner,
+            });
+        }
+
+        if (winner === 'local') {
+            fieldTimestamps[field] = localTs;
+            remoteChanged = true;
+        } else {
+            merged[field] = remoteValue;
+            fieldTimestamps[field] = remoteTs;
+            localChanged = true;
+        }
+    }
+
+    const updatedAt = Object.values(fieldTimestamps).reduce(
+        (latest, ts) => (toMillis(ts) > toMillis(latest) ? ts : latest),
+        toMillis(local.updatedAt) >= toMillis(remote.updatedAt)
+            ? (local.updatedAt ?? EPOCH)
+            : (remote.updatedAt ?? EPOCH),
+    );
+
+    // A record that took values from both sides is a new revision
+    const version =
+        localChanged && remoteChanged
+            ? Math.max(localVersion, remoteVersion) + 1
+            : Math.max(localVersion, remoteVersion);
+
+    merged.updatedAt = updatedAt;
+    merged.version = version;
+    merged.fieldTimestamps = fieldTimestamps;
+
+    if (version !== localVersion) localChanged = true;
+    if (version !== remoteVersion) remoteChanged = true;
+
+    return { merged, localChanged, remoteChanged, conflicts };
+}
+
+/**
+ * Resolve a delete on one side against a live record on the other.
+ * The delete wins unless the record was edited after it was deleted.
+ */
+export function resolveDeletion(
+    recordUpdatedAt: string | null | undefined,
+    deletedAt: string,
+): 'delete' | 'keep' {
+    return toMillis(recordUpdatedAt) > toMillis(deletedAt) ? 'keep' : 'delete';
+}
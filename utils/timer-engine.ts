@@ -0,0 +1,111 @@
+/**
+ * Wall-clock timer engine.
+ *
+ * A phase is described by when it started, how long it has been paused and
+ * when it is due to end. The remaining time is always derived from the
+ * current clock, so stalled intervals, throttled background JS or an app
+ * relaunch cannot make it drift. All functions are pure; `now` is a
+ * millisecond epoch passed in by the caller.
+ *
+ * A clock that allows overtime (flow mode) keeps counting past its duration
+ * instead of finishing; the caller ends the phase when the user is done.
+ */
+
+export interface TimerClock {
+    /** Length of the phase in milliseconds */
+    durationMs: number;
+    /** When the phase was first started; null while idle */
+    startedAt: number | null;
+    /** When the current pause began; null unless paused */
+    pausedAt: number | null;
+    /** Milliseconds spent paused in earlier, finished pauses */
+    pausedAccumulated: number;
+    /** When the phase ends if it keeps running; null while idle or paused */
+    targetEndAt: number | null;
+    /** Keep counting past targetEndAt instead of finishing */
+    allowOvertime: boolean;
+}
+
+/**
+ * An idle clock for a phase of `durationMs`
+ */
+export const createClock = (durationMs: number, allowOvertime = false): TimerClock => ({
+    durationMs,
+    startedAt: null,
+    pausedAt: null,
+    pausedAccumulated: 0,
+    targetEndAt: null,
+    allowOvertime,
+});
+
+export const startClock = (durationMs: number, now: number, allowOvertime = false): TimerClock => ({
+    durationMs,
+    startedAt: now,
+    pausedAt: null,
+    pausedAccumulated: 0,
+    targetEndAt: now + durationMs,
+    allowOvertime,
+});
+
+export const pauseClock = (clock: TimerClock, now: number): TimerClock => {
+    if (clock.startedAt === null || clock.pausedAt !== null) return clock;
+    return { ...clock, pausedAt: now, targetEndAt: null };
+};
+
+export const resumeClock = (clock: TimerClock, now: number): TimerClock => {
+    if (clock.startedAt === null || clock.pausedAt === null) return clock;
+
+    const pausedAccumulated = clock.pausedAccumulated + Math.max(0, now - clock.pausedAt);
+    return {
+        ...clock,
+        pausedAt: null,
+        pausedAccumulated,
+        targetEndAt: clock.startedAt + clock.durationMs + pausedAccumulated,
+    };
+};
+
+export const isClockRunning = (clock: TimerClock): boolean =>
+    clock.startedAt !== null && clock.pausedAt === null;
+
+/**
+ * Time the phase has actually run, excluding pauses, capped at its duration
+ * unless the clock allows overtime
+ */
+export const getElapsedMs = (clock: TimerClock, now: number): number => {
+    if (clock.startedAt === null) return 0;
+
+    const until = clock.pausedAt ?? now;
+    const elapsed = Math.max(0, until - clock.startedAt - clock.pausedAccumulated);
+    return clock.allowOvertime ? elapsed : Math.min(clock.durationMs, elapsed);
+};
+
+export const getRemainingMs = (clock: TimerClock, now: number): number =>
+    Math.max(0, clock.durationMs - getElapsedMs(clock, now));
+
+/**
+ * Time run past the duration; only an overtime clock gets there
+ */
+export const getOvertimeMs = (clock: TimerClock, now: number): number =>
+    Math.max(0, getElapsedMs(clock, now) - clock.durationMs);
+
+/**
+ * Whole seconds left, rounded up so the display reaches 0 exactly at the end
+ */
+export const getRemainingSeconds = (clock: TimerClock, now: number): number =>
+    Math.ceil(getRemainingMs(clock, now) / 1000);
+
+/**
+ * True once a running phase has reached its end, including while the app was
+ * in the background or not running at all. An overtime clock never finishes.
+ */
+export const isClockFinished = (clock: TimerClock, now: number): boolean =>
+    !clock.allowOvertime &&
+    isClockRunning(clock) &&
+    clock.targetEndAt !== null &&
+    now >= clock.targetEndAt;
+
+/**
+ * True once an overtime clock has run its full duration
+ */
+export const isClockInOvertime = (clock: TimerClock, now: number): boolean =>
+    clock.allowOvertime && clock.startedAt !== null && getElapsedMs(clock, now) >= clock.durationMs;
@@ -0,0 +1,93 @@
+/**
+ * Timer state machine.
+ *
+ * The timer is always in one status of one phase. Every change goes through
+ * `transition`, which returns the next state or null when the event is not
+ * legal in the current one, so a late callback or a double tap cannot move the
+ * timer somewhere it should not be. Timing lives in the timer engine and the
+ * focus-session cycle in the pomodoro store; this module only knows which
+ * moves are allowed.
+ *
+ *   idle ──start──▶ running ──pause──▶ paused
+ *    ▲                │  ▲               │
+ *    │                │  └───resume──────┘
+ *    │             complete (running or paused)
+ *    │                ▼
+ *    └──takeBreak / endBreak── completed
+ *
+ * reset and skip return to idle from any status; switchPhase only applies to a
+ * timer that is not counting. A completed focus session is shown for a moment
+ * before takeBreak; the store records when and its tick sends the event, so the
+ * hand-off survives an app kill and is still checked here like any other move.
+ */
+
+export type TimerPhase = 'focus' | 'shortBreak' | 'longBreak';
+export type TimerStatus = 'idle' | 'running' | 'paused' | 'completed';
+export type BreakPhase = Exclude<TimerPhase, 'focus'>;
+
+export interface TimerMachineState {
+    status: TimerStatus;
+    phase: TimerPhase;
+}
+
+/**
+ * - start: begin the idle phase, or run a completed one again
+ * - complete: the phase reached its end, or a flow session was finished
+ * - reset: stop and go back to the start of the same phase
+ * - takeBreak: move from a completed focus session to its break
+ * - endBreak: move from a completed break to the next focus session
+ * - skip: drop the current phase and go to the next focus session
+ * - switchPhase: pick a phase by hand while nothing is counting
+ */
+export type TimerEvent =
+    | { type: 'start' }
+    | { type: 'pause' }
+    | { type: 'resume' }
+    | { type: 'complete' }
+    | { type: 'reset' }
+    | { type: 'takeBreak'; phase: BreakPhase }
+    | { type: 'endBreak' }
+    | { type: 'skip' }
+    | { type: 'switchPhase'; phase: TimerPhase };
+
+type TransitionHandler<E extends TimerEvent> = (
+    state: TimerMachineState,
+    event: E,
+) => TimerMachineState | null;
+
+type TransitionTable = {
+    [T in TimerEvent['type']]: TransitionHandler<Extract<TimerEvent, { type: T }>>;
+};
+
+const isBreak = (phase: TimerPhase): phase is BreakPhase => phase !== 'focus';
+
+const TRANSITIONS: TransitionTable = {
+    start: ({ status, phase }) =>
+        status === 'idle' || status === 'completed' ? { status: 'running', phase } : null,
+    pause: ({ status, phase }) => (status === 'running' ? { status: 'paused', phase } : null),
+    resume: ({ status, phase }) => (status === 'paused' ? { status: 'running', phase } : null),
+    complete: ({ status, phase }) =>
+        status === 'running' || status === 'paused' ? { status: 'completed', phase } : null,
+    reset: ({ phase }) => ({ status: 'idle', phase }),
+    takeBreak: ({ status, phase }, event) =>
+        status === 'completed' && phase === 'focus' ? { status: 'idle', phase: event.phase } : null,
+    endBreak: ({ status, phase }) =>
+        status === 'completed' && isBreak(phase) ? { status: 'idle', phase: 'focus' } : null,
+    skip: () => ({ status: 'idle', phase: 'focus' }),
+    switchPhase: ({ status }, event) =>
+        status === 'idle' || status === 'completed' ? { status: 'idle', phase: event.phase } : null,
+};
+
+/**
+ * The state after `event`, or null when the event is not allowed in `state`
+ */
+export const transition = (
+    state: TimerMachineState,
+    event: TimerEvent,
+): TimerMachineState | null => {
+    const handler = TRANSITIONS[event.type] as TransitionHandler<TimerEvent>;
+    return handler(state, event);
+};
+
+export const canTransition = (state: TimerMachineState, event: TimerEvent): boolean =>
+    transition(state, event) !== null;
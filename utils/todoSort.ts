@@ -0,0 +1,50 @@
+import type { Todo } from '@/services/local-database-service';
+import { parseDateKey } from '@/utils/dateUtils';
+
+export type TodoSortMode = 'priority' | 'dueDate' | 'created' | 'estimate';
+
+export const TODO_SORT_OPTIONS: { value: TodoSortMode; label: string }[] = [
+    { value: 'created', label: 'Created' },
+    { value: 'priority', label: 'Priority' },
+    { value: 'dueDate', label: 'Due Date' },
+    { value: 'estimate', label: 'Estimate' },
+];
+
+/** How a section is sorted until the user picks another mode */
+export const DEFAULT_TODO_SORT_MODE: TodoSortMode = 'created';
+
+/**
+ * When a todo is due, for ordering: the deadline, else the start of its planned day.
+ * Undated todos come last.
+ */
+const getDueTime = (todo: Todo): number => {
+    if (todo.dueAt) return new Date(todo.dueAt).getTime();
+    if (todo.scheduledFor) return parseDateKey(todo.scheduledFor).getTime();
+    return Infinity;
+};
+
+const compareBy =
+    (mode: TodoSortMode) =>
+    (a: Todo, b: Todo): number => {
+        switch (mode) {
+            case 'priority':
+                // Most urgent first
+                return (b.priority ?? 0) - (a.priority ?? 0);
+            case 'dueDate':
+                return getDueTime(a) - getDueTime(b) || 0;
+            case 'created':
+                // Newest first
+                return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
+            case 'estimate':
+                // Quickest first; unestimated todos last
+                return (a.estimatedMinutes ?? Infinity) - (b.estimatedMinutes ?? Infinity) || 0;
+            default:
+                return 0;
+        }
+    };
+
+/**
+ * Order todos for display; ties keep the order they are listed in
+ */
+export const sortTodos = (todos: Todo[], mode: TodoSortMode): Todo[] =>
+    [...todos].sort(compareBy(mode));